@@ -0,0 +1,19 @@
+// Background Sync handler, imported into the generated service worker
+// (see workbox.importScripts in vite.config.ts).
+//
+// Queued attempts live in IndexedDB and are uploaded with the learner's
+// Supabase session, which only the page holds. So when the browser fires a
+// sync event we wake any open tab and let its sync engine do the upload.
+// With no tab open the queue simply waits for the next app launch.
+
+const SYNC_TAG = 'sync-attempts'; // keep in sync with src/lib/sync-engine.ts
+
+self.addEventListener('sync', (event) => {
+  if (event.tag !== SYNC_TAG) return;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      clients.forEach((client) => client.postMessage({ type: 'SYNC_ATTEMPTS' }));
+    })
+  );
+});
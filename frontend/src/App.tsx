@@ -2,6 +2,7 @@ import { useEffect } from 'react';
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { useAuthStore } from '@/stores/auth-store';
 import { initializeTheme } from '@/stores/theme-store';
+import { useSettingsStore } from '@/stores/settings-store';
 
 // Layouts
 import { AppLayout } from '@/components/layout/AppLayout';
@@ -24,12 +25,21 @@ import { PracticePage } from '@/features/learner/pages/PracticePage';
 import { ProgressPage } from '@/features/learner/pages/ProgressPage';
 import { ProfilePage } from '@/features/learner/pages/ProfilePage';
 import { FeedbackPage } from '@/features/learner/pages/FeedbackPage';
+import { DownloadsPage } from '@/features/learner/pages/DownloadsPage';
+import { TestOutPage } from '@/features/learner/pages/TestOutPage';
+import { PlacementTestPage } from '@/features/learner/pages/PlacementTestPage';
+import { SearchPage } from '@/features/learner/pages/SearchPage';
+import { DictionaryPage } from '@/features/learner/pages/DictionaryPage';
+import { WordDetailPage } from '@/features/learner/pages/WordDetailPage';
+import { DialoguePage } from '@/features/learner/pages/DialoguePage';
+import { ProverbsPage } from '@/features/learner/pages/ProverbsPage';
 
 // Contributor pages
 import { ContributorDashboard } from '@/features/contributor/pages/ContributorDashboard';
 import { CreateAssetPage } from '@/features/contributor/pages/CreateAssetPage';
 import { MyAssetsPage } from '@/features/contributor/pages/MyAssetsPage';
 import { RecordingStudioPage } from '@/features/contributor/pages/RecordingStudioPage';
+import { RecordingSessionPage } from '@/features/contributor/pages/RecordingSessionPage';
 
 // Admin pages
 import { AdminDashboard } from '@/features/admin/pages/AdminDashboard';
@@ -41,12 +51,15 @@ import { SettingsPage } from '@/features/admin/pages/SettingsPage';
 import { RoleRequestsPage } from '@/features/admin/pages/RoleRequestsPage';
 import { FeedbackManagementPage } from '@/features/admin/pages/FeedbackManagementPage';
 import { CategoriesPage } from '@/features/admin/pages/CategoriesPage';
+import { ImportExportPage } from '@/features/admin/pages/ImportExportPage';
 
 // Components
 import { LoadingScreen } from '@/components/ui/LoadingScreen';
+import { MaintenanceScreen, MaintenanceBanner } from '@/components/ui/MaintenanceScreen';
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
-  const { user, isLoading, isOnboardingComplete } = useAuthStore();
+  const { user, profile, isLoading, isOnboardingComplete } = useAuthStore();
+  const { maintenanceMode, requireEmailVerification } = useSettingsStore(state => state.settings);
 
   if (isLoading) {
     return <LoadingScreen />;
@@ -56,21 +69,41 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
     return <Navigate to="/auth/sign-in" replace />;
   }
 
+  if (requireEmailVerification && !user.email_confirmed_at) {
+    return <Navigate to="/auth/verify" state={{ email: user.email }} replace />;
+  }
+
   if (!isOnboardingComplete) {
     return <Navigate to="/auth/onboarding" replace />;
   }
 
+  // Admins keep working during maintenance; everyone else is locked out
+  if (maintenanceMode) {
+    if (profile?.role !== 'admin') {
+      return <MaintenanceScreen />;
+    }
+    return (
+      <>
+        <MaintenanceBanner />
+        {children}
+      </>
+    );
+  }
+
   return <>{children}</>;
 }
 
 function PublicRoute({ children }: { children: React.ReactNode }) {
   const { user, isLoading, isOnboardingComplete } = useAuthStore();
+  const { requireEmailVerification } = useSettingsStore(state => state.settings);
 
   if (isLoading) {
     return <LoadingScreen />;
   }
 
-  if (user && isOnboardingComplete) {
+  // Unverified users stay on the auth pages so they can confirm their email
+  const isVerified = !requireEmailVerification || !!user?.email_confirmed_at;
+  if (user && isOnboardingComplete && isVerified) {
     return <Navigate to="/home" replace />;
   }
 
@@ -79,11 +112,13 @@ function PublicRoute({ children }: { children: React.ReactNode }) {
 
 export default function App() {
   const { initialize, isLoading } = useAuthStore();
+  const { settings, fetchSettings } = useSettingsStore();
 
   useEffect(() => {
     initialize();
     initializeTheme();
-  }, [initialize]);
+    fetchSettings();
+  }, [initialize, fetchSettings]);
 
   if (isLoading) {
     return <LoadingScreen />;
@@ -151,6 +186,22 @@ export default function App() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/learn/test-out/:lessonId"
+            element={
+              <ProtectedRoute>
+                <TestOutPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/placement"
+            element={
+              <ProtectedRoute>
+                <PlacementTestPage />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/practice"
             element={
@@ -183,6 +234,54 @@ export default function App() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/downloads"
+            element={
+              <ProtectedRoute>
+                <DownloadsPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/search"
+            element={
+              <ProtectedRoute>
+                <SearchPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/dictionary"
+            element={
+              <ProtectedRoute>
+                <DictionaryPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/dictionary/:assetId"
+            element={
+              <ProtectedRoute>
+                <WordDetailPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/dialogue/:assetId"
+            element={
+              <ProtectedRoute>
+                <DialoguePage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/proverbs"
+            element={
+              <ProtectedRoute>
+                <ProverbsPage />
+              </ProtectedRoute>
+            }
+          />
         </Route>
 
         {/* Contributor routes */}
@@ -215,7 +314,23 @@ export default function App() {
             path="/contributor/record"
             element={
               <ProtectedRoute>
-                <RecordingStudioPage />
+                {settings.enableAudioRecording ? (
+                  <RecordingStudioPage />
+                ) : (
+                  <Navigate to="/contributor" replace />
+                )}
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/contributor/record/session"
+            element={
+              <ProtectedRoute>
+                {settings.enableAudioRecording ? (
+                  <RecordingSessionPage />
+                ) : (
+                  <Navigate to="/contributor" replace />
+                )}
               </ProtectedRoute>
             }
           />
@@ -263,6 +378,14 @@ export default function App() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/admin/import"
+            element={
+              <ProtectedRoute>
+                <ImportExportPage />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/admin/categories"
             element={
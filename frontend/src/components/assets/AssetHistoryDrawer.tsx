@@ -0,0 +1,181 @@
+import { useEffect } from 'react';
+import { X, History, RotateCcw, Loader2, AlertCircle, ArrowRight } from 'lucide-react';
+import { useAssetHistoryStore, type AssetRevisionWithAuthor } from '@/stores/asset-history-store';
+import type { Asset, AssetRevisionField, Json } from '@/types/database';
+
+const FIELD_LABELS: Record<AssetRevisionField, string> = {
+  igbo_text: 'Igbo Text',
+  english_text: 'English Translation',
+  pronunciation_guide: 'Pronunciation Guide',
+  cultural_note: 'Cultural Note',
+  tags: 'Tags',
+  status: 'Status',
+};
+
+// Owners may only roll back text edits while the asset is still theirs to edit
+const OWNER_EDITABLE_STATUSES = ['draft', 'rejected'];
+
+interface AssetHistoryDrawerProps {
+  asset: Asset;
+  isAdmin: boolean;
+  onClose: () => void;
+  onRollback?: (asset: Asset) => void;
+}
+
+export function AssetHistoryDrawer({ asset, isAdmin, onClose, onRollback }: AssetHistoryDrawerProps) {
+  const { revisions, isLoading, rollingBackId, error, fetchRevisions, rollbackRevision, clearError } = useAssetHistoryStore();
+
+  useEffect(() => {
+    clearError();
+    fetchRevisions(asset.id);
+  }, [asset.id, fetchRevisions, clearError]);
+
+  const canRollback = (revision: AssetRevisionWithAuthor) => {
+    if (isAdmin) return true;
+    if (!OWNER_EDITABLE_STATUSES.includes(asset.status)) return false;
+    return Object.keys(revision.changes).some(field => field !== 'status');
+  };
+
+  const handleRollback = async (revision: AssetRevisionWithAuthor) => {
+    if (!confirm('Restore the values this change replaced?')) return;
+    const updated = await rollbackRevision(revision.id);
+    if (updated) onRollback?.(updated);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+      <aside className="relative w-full max-w-md h-full bg-white dark:bg-ohafia-earth-800 shadow-xl flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-ohafia-earth-700">
+          <div className="flex items-center gap-3 min-w-0">
+            <History className="w-5 h-5 text-ohafia-primary flex-shrink-0" />
+            <div className="min-w-0">
+              <h2 className="font-semibold text-gray-900 dark:text-ohafia-sand-50">Version History</h2>
+              <p className="text-sm text-gray-500 dark:text-ohafia-sand-400 truncate">{asset.igbo_text}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-ohafia-sand-200 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {error && (
+            <div className="flex items-start gap-2 p-3 rounded-xl bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+              <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              {error}
+            </div>
+          )}
+
+          {isLoading && revisions.length === 0 ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-ohafia-primary" />
+            </div>
+          ) : revisions.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 dark:text-ohafia-sand-400 py-12">
+              No edits yet. Changes to this asset will show up here.
+            </p>
+          ) : (
+            revisions.map(revision => (
+              <div key={revision.id} className="rounded-xl border border-gray-200 dark:border-ohafia-earth-700 p-3">
+                <div className="flex items-start justify-between gap-2 mb-3">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900 dark:text-ohafia-sand-50">
+                      {revision.author?.display_name || 'Unknown user'}
+                      {revision.rolled_back_from && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-700">Rollback</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-ohafia-sand-400">
+                      {new Date(revision.created_at).toLocaleString()}
+                    </p>
+                  </div>
+                  {canRollback(revision) && (
+                    <button
+                      onClick={() => handleRollback(revision)}
+                      disabled={rollingBackId !== null}
+                      className="px-2 py-1 text-xs rounded-lg border border-gray-200 dark:border-ohafia-earth-600 text-gray-600 dark:text-ohafia-sand-300 hover:bg-gray-100 dark:hover:bg-ohafia-earth-700 disabled:opacity-50 flex items-center gap-1 transition-colors"
+                      title="Restore the values this change replaced"
+                    >
+                      {rollingBackId === revision.id ? (
+                        <Loader2 className="w-3 h-3 animate-spin" />
+                      ) : (
+                        <RotateCcw className="w-3 h-3" />
+                      )}
+                      Roll back
+                    </button>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  {(Object.keys(revision.changes) as AssetRevisionField[]).map(field => {
+                    const change = revision.changes[field];
+                    if (!change) return null;
+                    return (
+                      <div key={field}>
+                        <p className="text-xs font-medium text-gray-500 dark:text-ohafia-sand-400 mb-1">
+                          {FIELD_LABELS[field] || field}
+                        </p>
+                        <FieldDiff field={field} oldValue={change.old} newValue={change.new} />
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
+
+function FieldDiff({ field, oldValue, newValue }: { field: AssetRevisionField; oldValue: Json; newValue: Json }) {
+  if (field === 'tags') {
+    const oldTags = Array.isArray(oldValue) ? oldValue.map(String) : [];
+    const newTags = Array.isArray(newValue) ? newValue.map(String) : [];
+    const removed = oldTags.filter(tag => !newTags.includes(tag));
+    const added = newTags.filter(tag => !oldTags.includes(tag));
+    return (
+      <div className="flex flex-wrap gap-1">
+        {removed.map(tag => (
+          <span key={`-${tag}`} className="px-2 py-0.5 text-xs rounded bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 line-through">
+            {tag}
+          </span>
+        ))}
+        {added.map(tag => (
+          <span key={`+${tag}`} className="px-2 py-0.5 text-xs rounded bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300">
+            {tag}
+          </span>
+        ))}
+        {removed.length === 0 && added.length === 0 && (
+          <span className="text-xs text-gray-500 dark:text-ohafia-sand-400">Reordered</span>
+        )}
+      </div>
+    );
+  }
+
+  if (field === 'status') {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-ohafia-sand-200">
+        <span>{String(oldValue)}</span>
+        <ArrowRight className="w-3 h-3 text-gray-400" />
+        <span className="font-medium">{String(newValue)}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-sm space-y-1">
+      <p className="px-2 py-1 rounded bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 line-through break-words">
+        {oldValue === null ? <em>empty</em> : String(oldValue)}
+      </p>
+      <p className="px-2 py-1 rounded bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300 break-words">
+        {newValue === null ? <em>empty</em> : String(newValue)}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { useEffect, useRef, useState } from 'react';
+import { X, AudioLines, Loader2, AlertCircle, Play, Pause, Star, ShieldCheck, RotateCcw } from 'lucide-react';
+import { useAssetVoicesStore, type AssetClip } from '@/stores/asset-voices-store';
+import { CONSENT_METHOD_LABELS, describeSpeaker } from '@/lib/speakers';
+import { AudioQualityScores } from '@/components/ui/AudioQualityScores';
+import type { Asset } from '@/types/database';
+
+const STATUS_BADGES: Record<string, string> = {
+  approved: 'bg-green-100 text-green-700',
+  pending: 'bg-yellow-100 text-yellow-700',
+  rejected: 'bg-red-100 text-red-700',
+  draft: 'bg-gray-100 text-gray-700',
+};
+
+interface AssetVoicesDrawerProps {
+  asset: Asset;
+  onClose: () => void;
+}
+
+/**
+ * Every recording of an asset with its speaker, where admins choose the
+ * primary clip learners hear first
+ */
+export function AssetVoicesDrawer({ asset, onClose }: AssetVoicesDrawerProps) {
+  const { clips, isLoading, settingPrimaryId, error, fetchClips, setPrimaryClip, clearError } = useAssetVoicesStore();
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  useEffect(() => {
+    clearError();
+    fetchClips(asset.id);
+  }, [asset.id, fetchClips, clearError]);
+
+  useEffect(() => () => audioRef.current?.pause(), []);
+
+  const stopPlayback = () => {
+    audioRef.current?.pause();
+    audioRef.current = null;
+    setPlayingId(null);
+  };
+
+  const togglePlay = (clip: AssetClip) => {
+    if (playingId === clip.id) {
+      stopPlayback();
+      return;
+    }
+    stopPlayback();
+    const audio = new Audio(clip.audio_url);
+    audioRef.current = audio;
+    audio.onended = stopPlayback;
+    audio.onerror = stopPlayback;
+    setPlayingId(clip.id);
+    audio.play().catch(stopPlayback);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+      <aside className="relative w-full max-w-md h-full bg-white dark:bg-ohafia-earth-800 shadow-xl flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-ohafia-earth-700">
+          <div className="flex items-center gap-3 min-w-0">
+            <AudioLines className="w-5 h-5 text-ohafia-primary flex-shrink-0" />
+            <div className="min-w-0">
+              <h2 className="font-semibold text-gray-900 dark:text-ohafia-sand-50">Recordings</h2>
+              <p className="text-sm text-gray-500 dark:text-ohafia-sand-400 truncate">{asset.igbo_text}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-ohafia-sand-200 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {error && (
+            <div className="flex items-start gap-2 p-3 rounded-xl bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+              <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              {error}
+            </div>
+          )}
+
+          {isLoading && clips.length === 0 ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-ohafia-primary" />
+            </div>
+          ) : clips.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 dark:text-ohafia-sand-400 py-12">
+              No recordings yet. Contributors can record this asset in the Recording Studio.
+            </p>
+          ) : (
+            clips.map(clip => {
+              const details = describeSpeaker(clip.speaker);
+              return (
+                <div
+                  key={clip.id}
+                  className={`rounded-xl border p-3 ${clip.is_primary
+                    ? 'border-ohafia-primary-400 bg-ohafia-primary-50 dark:bg-ohafia-primary-900/20'
+                    : 'border-gray-200 dark:border-ohafia-earth-700'}`}
+                >
+                  <div className="flex items-start gap-3">
+                    <button
+                      onClick={() => togglePlay(clip)}
+                      className="w-9 h-9 rounded-full bg-ohafia-primary-100 text-ohafia-primary-600 hover:bg-ohafia-primary-200 dark:bg-ohafia-primary-900/30 dark:text-ohafia-primary-400 flex items-center justify-center flex-shrink-0"
+                      title={playingId === clip.id ? 'Stop' : 'Play'}
+                    >
+                      {playingId === clip.id ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4 ml-0.5" />}
+                    </button>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-ohafia-sand-50 flex items-center gap-2 flex-wrap">
+                        {clip.speaker?.display_name || 'Unknown speaker'}
+                        <span className={`px-2 py-0.5 text-xs rounded-full ${STATUS_BADGES[clip.status] || STATUS_BADGES.draft}`}>
+                          {clip.status}
+                        </span>
+                        {clip.is_primary && (
+                          <span className="px-2 py-0.5 text-xs rounded-full bg-ohafia-primary-100 text-ohafia-primary-700 flex items-center gap-1">
+                            <Star className="w-3 h-3" />
+                            Primary
+                          </span>
+                        )}
+                        {clip.needs_rerecord && (
+                          <span className="px-2 py-0.5 text-xs rounded-full bg-amber-100 text-amber-700 flex items-center gap-1">
+                            <RotateCcw className="w-3 h-3" />
+                            Needs re-record
+                          </span>
+                        )}
+                      </p>
+                      {details && <p className="text-xs text-gray-500 dark:text-ohafia-sand-400">{details}</p>}
+                      <p className="text-xs text-gray-400 dark:text-ohafia-sand-500">
+                        Recorded by {clip.submitter?.display_name || 'unknown'} · {new Date(clip.created_at).toLocaleDateString()}
+                        {clip.duration_seconds !== null && ` · ${Number(clip.duration_seconds).toFixed(1)}s`}
+                      </p>
+                      {clip.speaker ? (
+                        <p className="text-xs text-gray-400 dark:text-ohafia-sand-500 flex items-center gap-1 mt-1">
+                          <ShieldCheck className="w-3 h-3" />
+                          {CONSENT_METHOD_LABELS[clip.speaker.consent_method]} · {new Date(clip.speaker.consent_given_at).toLocaleDateString()} · v{clip.speaker.consent_version}
+                        </p>
+                      ) : (
+                        <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">No speaker or consent on record</p>
+                      )}
+                      <div className="mt-1">
+                        <AudioQualityScores quality={clip} />
+                      </div>
+                    </div>
+                    {clip.status === 'approved' && !clip.is_primary && (
+                      <button
+                        onClick={() => setPrimaryClip(clip.id)}
+                        disabled={settingPrimaryId !== null}
+                        className="px-2 py-1 text-xs rounded-lg border border-gray-200 dark:border-ohafia-earth-600 text-gray-600 dark:text-ohafia-sand-300 hover:bg-gray-100 dark:hover:bg-ohafia-earth-700 disabled:opacity-50 flex items-center gap-1 transition-colors flex-shrink-0"
+                        title="Play this clip to learners first"
+                      >
+                        {settingPrimaryId === clip.id ? (
+                          <Loader2 className="w-3 h-3 animate-spin" />
+                        ) : (
+                          <Star className="w-3 h-3" />
+                        )}
+                        Make primary
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Mic, Play, Plus, Square, Trash2, UserPlus, X } from 'lucide-react';
+import { audioService, useAudioRecorder } from '@/lib/audio-service';
+import { IgboCharacterPalette } from '@/components/ui/IgboCharacterPalette';
+import { MAX_DIALOGUE_SPEAKERS, createTurn, nextSpeakerId } from '@/lib/dialogue';
+import type { Dialogue, DialogueTurn } from '@/types/database';
+
+interface DialogueEditorProps {
+  dialogue: Dialogue;
+  onChange: (dialogue: Dialogue) => void;
+  // Clips recorded in this session, uploaded when the asset is saved
+  turnAudio: Record<string, Blob>;
+  onTurnAudioChange: (turnId: string, blob: Blob | null) => void;
+}
+
+/**
+ * Speakers and lines of a dialogue asset, with a recording per line
+ */
+export function DialogueEditor({ dialogue, onChange, turnAudio, onTurnAudioChange }: DialogueEditorProps) {
+  const { isRecording, error: recorderError, start, stop } = useAudioRecorder();
+  const [recordingTurnId, setRecordingTurnId] = useState<string | null>(null);
+
+  // One object URL per recorded clip, revoked when the clip changes
+  const clipUrls = useMemo(() => {
+    const urls: Record<string, string> = {};
+    for (const [turnId, blob] of Object.entries(turnAudio)) {
+      urls[turnId] = URL.createObjectURL(blob);
+    }
+    return urls;
+  }, [turnAudio]);
+
+  useEffect(() => () => {
+    Object.values(clipUrls).forEach(url => URL.revokeObjectURL(url));
+  }, [clipUrls]);
+
+  const updateTurn = (turnId: string, updates: Partial<DialogueTurn>) => {
+    onChange({
+      ...dialogue,
+      turns: dialogue.turns.map(turn => (turn.id === turnId ? { ...turn, ...updates } : turn)),
+    });
+  };
+
+  const renameSpeaker = (speakerId: string, name: string) => {
+    onChange({
+      ...dialogue,
+      speakers: dialogue.speakers.map(speaker => (speaker.id === speakerId ? { ...speaker, name } : speaker)),
+    });
+  };
+
+  const addSpeaker = () => {
+    const id = nextSpeakerId(dialogue.speakers);
+    onChange({
+      ...dialogue,
+      speakers: [...dialogue.speakers, { id, name: `Speaker ${id.toUpperCase()}` }],
+    });
+  };
+
+  // Lines of a removed speaker go to the first remaining speaker
+  const removeSpeaker = (speakerId: string) => {
+    const speakers = dialogue.speakers.filter(speaker => speaker.id !== speakerId);
+    onChange({
+      speakers,
+      turns: dialogue.turns.map(turn => (turn.speaker === speakerId ? { ...turn, speaker: speakers[0].id } : turn)),
+    });
+  };
+
+  // New lines alternate speakers by default
+  const addTurn = () => {
+    const last = dialogue.turns[dialogue.turns.length - 1];
+    const lastIndex = last ? dialogue.speakers.findIndex(speaker => speaker.id === last.speaker) : -1;
+    const next = dialogue.speakers[(lastIndex + 1) % dialogue.speakers.length];
+    onChange({ ...dialogue, turns: [...dialogue.turns, createTurn(next.id)] });
+  };
+
+  const removeTurn = (turnId: string) => {
+    onChange({ ...dialogue, turns: dialogue.turns.filter(turn => turn.id !== turnId) });
+    onTurnAudioChange(turnId, null);
+  };
+
+  const toggleRecording = async (turnId: string) => {
+    if (isRecording) {
+      const blob = await stop();
+      if (blob && recordingTurnId) onTurnAudioChange(recordingTurnId, blob);
+      setRecordingTurnId(null);
+      return;
+    }
+    audioService.stop();
+    if (await start()) setRecordingTurnId(turnId);
+  };
+
+  const playClip = (turn: DialogueTurn) => {
+    const url = clipUrls[turn.id] || turn.audio_url;
+    if (url) audioService.playAudioUrl(url).catch(() => {});
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Speakers */}
+      <div>
+        <label className="block text-sm font-medium text-ohafia-earth-700 dark:text-ohafia-sand-200 mb-2">
+          Speakers
+        </label>
+        <div className="flex flex-wrap gap-2">
+          {dialogue.speakers.map(speaker => (
+            <div key={speaker.id} className="flex items-center gap-1">
+              <input
+                type="text"
+                value={speaker.name}
+                onChange={(e) => renameSpeaker(speaker.id, e.target.value)}
+                placeholder="Speaker name"
+                className="input w-36"
+              />
+              {dialogue.speakers.length > 2 && (
+                <button
+                  type="button"
+                  onClick={() => removeSpeaker(speaker.id)}
+                  className="p-1 text-ohafia-earth-400 hover:text-red-500 transition-colors"
+                  title="Remove speaker"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+          {dialogue.speakers.length < MAX_DIALOGUE_SPEAKERS && (
+            <button type="button" onClick={addSpeaker} className="btn-secondary flex items-center gap-1 px-3">
+              <UserPlus className="w-4 h-4" />
+              <span className="hidden sm:inline">Add</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Lines */}
+      <div>
+        <label className="block text-sm font-medium text-ohafia-earth-700 dark:text-ohafia-sand-200 mb-2">
+          Lines *
+        </label>
+        {recorderError && (
+          <p className="mb-2 text-sm text-red-600 dark:text-red-400">{recorderError}</p>
+        )}
+        <div className="space-y-3">
+          {dialogue.turns.map((turn, index) => {
+            const hasClip = Boolean(clipUrls[turn.id] || turn.audio_url);
+            const isThisRecording = isRecording && recordingTurnId === turn.id;
+            return (
+              <div key={turn.id} className="p-3 rounded-xl bg-ohafia-sand-50 dark:bg-ohafia-earth-800 space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-medium text-ohafia-earth-400 dark:text-ohafia-sand-500 w-5">
+                    {index + 1}
+                  </span>
+                  <select
+                    value={turn.speaker}
+                    onChange={(e) => updateTurn(turn.id, { speaker: e.target.value })}
+                    className="input flex-1"
+                  >
+                    {dialogue.speakers.map(speaker => (
+                      <option key={speaker.id} value={speaker.id}>
+                        {speaker.name || `Speaker ${speaker.id.toUpperCase()}`}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => toggleRecording(turn.id)}
+                    disabled={isRecording && !isThisRecording}
+                    className={`w-10 h-10 rounded-full flex items-center justify-center transition-colors disabled:opacity-40
+                      ${isThisRecording
+                        ? 'bg-red-500 text-white animate-pulse'
+                        : 'bg-ohafia-primary-100 text-ohafia-primary-600 hover:bg-ohafia-primary-200 dark:bg-ohafia-primary-900/30 dark:text-ohafia-primary-400'}`}
+                    title={isThisRecording ? 'Stop recording' : hasClip ? 'Record again' : 'Record this line'}
+                  >
+                    {isThisRecording ? <Square className="w-4 h-4" /> : <Mic className="w-4 h-4" />}
+                  </button>
+                  {hasClip && !isThisRecording && (
+                    <button
+                      type="button"
+                      onClick={() => playClip(turn)}
+                      className="w-10 h-10 rounded-full flex items-center justify-center text-ohafia-earth-500 hover:bg-ohafia-sand-100 dark:text-ohafia-sand-300 dark:hover:bg-ohafia-earth-700"
+                      title="Play recording"
+                    >
+                      <Play className="w-4 h-4" />
+                    </button>
+                  )}
+                  {dialogue.turns.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => removeTurn(turn.id)}
+                      className="p-2 text-ohafia-earth-400 hover:text-red-500 transition-colors"
+                      title="Remove line"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+                <DialogueIgboInput value={turn.igbo} onChange={igbo => updateTurn(turn.id, { igbo })} />
+                <input
+                  type="text"
+                  value={turn.english}
+                  onChange={(e) => updateTurn(turn.id, { english: e.target.value })}
+                  placeholder="English translation..."
+                  className="input"
+                />
+              </div>
+            );
+          })}
+        </div>
+        <button type="button" onClick={addTurn} className="btn-secondary flex items-center gap-1 mt-3">
+          <Plus className="w-4 h-4" />
+          Add line
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// One line's Igbo text with its own character palette
+function DialogueIgboInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div>
+      <input
+        ref={inputRef}
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="Igbo line..."
+        className="input"
+      />
+      <IgboCharacterPalette inputRef={inputRef} value={value} onChange={onChange} />
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+import { useEffect, useRef, useState } from 'react';
+import { Eye, EyeOff, Headphones, Mic, Play, Square, Users } from 'lucide-react';
+import { audioService, useAudioRecorder } from '@/lib/audio-service';
+import type { Dialogue, DialogueTurn } from '@/types/database';
+
+type PlayerMode = 'listen' | 'roleplay';
+
+// Bubble colours by speaker position
+const speakerStyles = [
+  'bg-ohafia-primary-100 text-ohafia-primary-700 dark:bg-ohafia-primary-900/30 dark:text-ohafia-primary-300',
+  'bg-ohafia-accent-100 text-ohafia-accent-700 dark:bg-ohafia-accent-900/30 dark:text-ohafia-accent-300',
+  'bg-ohafia-secondary-100 text-ohafia-secondary-700 dark:bg-ohafia-secondary-900/30 dark:text-ohafia-secondary-300',
+  'bg-ohafia-sand-200 text-ohafia-earth-700 dark:bg-ohafia-earth-700 dark:text-ohafia-sand-200',
+];
+
+interface DialoguePlayerProps {
+  dialogue: Dialogue;
+}
+
+/**
+ * Plays a dialogue line by line, highlighting the line being spoken.
+ * In role-play mode the learner takes one speaker's part: the player
+ * speaks the other lines and records the learner's.
+ */
+export function DialoguePlayer({ dialogue }: DialoguePlayerProps) {
+  const recorder = useAudioRecorder();
+  const [mode, setMode] = useState<PlayerMode>('listen');
+  const [learnerSpeaker, setLearnerSpeaker] = useState(dialogue.speakers[0]?.id ?? '');
+  const [activeTurnId, setActiveTurnId] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isAwaitingLearner, setIsAwaitingLearner] = useState(false);
+  const [showEnglish, setShowEnglish] = useState(true);
+  // The learner's recorded lines, by turn id
+  const [takes, setTakes] = useState<Record<string, string>>({});
+
+  // Bumped on every start/stop so an abandoned run stops advancing
+  const runRef = useRef(0);
+  // Ends whatever the current run is waiting on
+  const finishStepRef = useRef<(() => void) | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const takesRef = useRef(takes);
+  takesRef.current = takes;
+
+  const speakerIndex = (speakerId: string) => dialogue.speakers.findIndex(speaker => speaker.id === speakerId);
+  const speakerName = (speakerId: string) => dialogue.speakers[speakerIndex(speakerId)]?.name ?? '';
+
+  // Recorded audio when there is some, otherwise text-to-speech
+  const playLine = (url: string | null, text: string) => new Promise<void>(resolve => {
+    const done = () => {
+      if (finishStepRef.current === done) finishStepRef.current = null;
+      resolve();
+    };
+    finishStepRef.current = done;
+
+    if (url) {
+      const audio = new Audio(url);
+      audioRef.current = audio;
+      audio.onended = done;
+      audio.onerror = done;
+      audio.play().catch(done);
+    } else {
+      audioService.speak({ text, rate: 0.8, onEnd: done, onError: done });
+    }
+  });
+
+  const halt = () => {
+    runRef.current++;
+    audioRef.current?.pause();
+    audioRef.current = null;
+    audioService.stop();
+    finishStepRef.current?.();
+    recorder.stop();
+    setActiveTurnId(null);
+    setIsAwaitingLearner(false);
+    setIsRunning(false);
+  };
+
+  // Stop playback and release takes when leaving
+  useEffect(() => () => {
+    runRef.current++;
+    audioRef.current?.pause();
+    audioService.stop();
+    Object.values(takesRef.current).forEach(url => URL.revokeObjectURL(url));
+  }, []);
+
+  const recordLearnerLine = async (turn: DialogueTurn, runId: number) => {
+    if (!(await recorder.start())) return false;
+    setIsAwaitingLearner(true);
+    await new Promise<void>(resolve => {
+      finishStepRef.current = () => {
+        finishStepRef.current = null;
+        resolve();
+      };
+    });
+    setIsAwaitingLearner(false);
+
+    const blob = await recorder.stop();
+    if (blob && runRef.current === runId) {
+      const url = URL.createObjectURL(blob);
+      setTakes(prev => {
+        if (prev[turn.id]) URL.revokeObjectURL(prev[turn.id]);
+        return { ...prev, [turn.id]: url };
+      });
+    }
+    return true;
+  };
+
+  const runDialogue = async () => {
+    halt();
+    const runId = runRef.current;
+    const rolePlaying = mode === 'roleplay';
+    setIsRunning(true);
+
+    for (const turn of dialogue.turns) {
+      if (runRef.current !== runId) return;
+      setActiveTurnId(turn.id);
+
+      if (rolePlaying && turn.speaker === learnerSpeaker) {
+        if (!(await recordLearnerLine(turn, runId))) break;
+      } else {
+        await playLine(turn.audio_url, turn.igbo);
+      }
+    }
+
+    if (runRef.current === runId) {
+      setActiveTurnId(null);
+      setIsRunning(false);
+    }
+  };
+
+  const playSingle = async (url: string | null, turn: DialogueTurn) => {
+    halt();
+    const runId = runRef.current;
+    setActiveTurnId(turn.id);
+    await playLine(url, turn.igbo);
+    if (runRef.current === runId) setActiveTurnId(null);
+  };
+
+  const switchMode = (next: PlayerMode) => {
+    halt();
+    setMode(next);
+  };
+
+  const isLearnerLine = (turn: DialogueTurn) => mode === 'roleplay' && turn.speaker === learnerSpeaker;
+
+  return (
+    <div className="space-y-4">
+      {/* Mode */}
+      <div className="flex gap-2">
+        <ModeButton active={mode === 'listen'} onClick={() => switchMode('listen')} icon={Headphones} label="Listen" />
+        <ModeButton active={mode === 'roleplay'} onClick={() => switchMode('roleplay')} icon={Users} label="Role-play" />
+        <button
+          onClick={() => setShowEnglish(!showEnglish)}
+          className="ml-auto p-2 rounded-lg text-ohafia-earth-500 hover:bg-ohafia-sand-100 dark:text-ohafia-sand-400 dark:hover:bg-ohafia-earth-700"
+          title={showEnglish ? 'Hide translation' : 'Show translation'}
+        >
+          {showEnglish ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+        </button>
+      </div>
+
+      {mode === 'roleplay' && (
+        <div className="card p-4">
+          <p className="text-sm text-ohafia-earth-600 dark:text-ohafia-sand-300 mb-2">
+            Choose your part. We'll play the other lines and record yours.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {dialogue.speakers.map(speaker => (
+              <button
+                key={speaker.id}
+                onClick={() => { halt(); setLearnerSpeaker(speaker.id); }}
+                className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors
+                  ${learnerSpeaker === speaker.id
+                    ? 'bg-ohafia-primary-500 text-white'
+                    : 'bg-ohafia-sand-100 text-ohafia-earth-700 hover:bg-ohafia-sand-200 dark:bg-ohafia-earth-700 dark:text-ohafia-sand-200'}`}
+              >
+                {speaker.name}
+              </button>
+            ))}
+          </div>
+          {recorder.error && (
+            <p className="mt-2 text-sm text-red-600 dark:text-red-400">{recorder.error}</p>
+          )}
+        </div>
+      )}
+
+      {/* Lines */}
+      <div className="space-y-3">
+        {dialogue.turns.map(turn => {
+          const isActive = activeTurnId === turn.id;
+          const isMine = isLearnerLine(turn);
+          const alignRight = mode === 'roleplay' ? isMine : speakerIndex(turn.speaker) % 2 === 1;
+          const take = takes[turn.id];
+
+          return (
+            <div key={turn.id} className={`flex ${alignRight ? 'justify-end' : 'justify-start'}`}>
+              <div
+                onClick={() => !isRunning && !isMine && playSingle(turn.audio_url, turn)}
+                className={`max-w-[85%] rounded-2xl p-3 transition-all
+                  ${isMine ? '' : 'cursor-pointer'}
+                  ${isActive ? 'ring-2 ring-ohafia-primary-500 shadow-md' : ''}
+                  ${speakerStyles[speakerIndex(turn.speaker) % speakerStyles.length]}`}
+              >
+                <p className="text-xs font-semibold opacity-75 mb-0.5">
+                  {speakerName(turn.speaker)}{isMine && ' (you)'}
+                </p>
+                <p className="font-medium igbo-text">{turn.igbo}</p>
+                {showEnglish && turn.english && (
+                  <p className="text-sm opacity-80 mt-0.5">{turn.english}</p>
+                )}
+
+                {isActive && isAwaitingLearner && (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); finishStepRef.current?.(); }}
+                    className="mt-2 flex items-center gap-2 px-3 py-1.5 rounded-full bg-red-500 text-white text-sm font-medium"
+                  >
+                    <Mic className="w-4 h-4 animate-pulse" />
+                    Your turn · Done
+                  </button>
+                )}
+                {isMine && !isRunning && (
+                  <div className="mt-2 flex gap-2">
+                    {take && (
+                      <LineButton onClick={() => playSingle(take, turn)} label="Your take" />
+                    )}
+                    <LineButton onClick={() => playSingle(turn.audio_url, turn)} label="Model" />
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Controls */}
+      {isRunning ? (
+        <button onClick={halt} className="btn-outline w-full py-3 flex items-center justify-center gap-2">
+          <Square className="w-5 h-5" />
+          Stop
+        </button>
+      ) : (
+        <button onClick={runDialogue} className="btn-primary w-full py-3 flex items-center justify-center gap-2">
+          {mode === 'roleplay' ? <Mic className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+          {mode === 'roleplay'
+            ? Object.keys(takes).length > 0 ? 'Role-play again' : 'Start role-play'
+            : 'Play dialogue'}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function ModeButton({
+  active,
+  onClick,
+  icon: Icon,
+  label,
+}: {
+  active: boolean;
+  onClick: () => void;
+  icon: typeof Play;
+  label: string;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={`flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium transition-colors
+        ${active
+          ? 'bg-ohafia-primary-500 text-white'
+          : 'bg-white text-ohafia-earth-700 hover:bg-ohafia-sand-100 dark:bg-ohafia-earth-800 dark:text-ohafia-sand-200 dark:hover:bg-ohafia-earth-700'}`}
+    >
+      <Icon className="w-4 h-4" />
+      {label}
+    </button>
+  );
+}
+
+function LineButton({ onClick, label }: { onClick: () => void; label: string }) {
+  return (
+    <button
+      onClick={(e) => { e.stopPropagation(); onClick(); }}
+      className="flex items-center gap-1 px-2.5 py-1 rounded-full bg-white/70 dark:bg-black/20 text-xs font-medium"
+    >
+      <Play className="w-3 h-3" />
+      {label}
+    </button>
+  );
+}
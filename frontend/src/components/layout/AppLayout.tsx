@@ -1,6 +1,11 @@
-import { Outlet, NavLink, useLocation, Link } from 'react-router-dom';
-import { Home, BookOpen, Mic, TrendingUp, User, FileText, Settings } from 'lucide-react';
+import { useEffect, useState, type FormEvent } from 'react';
+import { Outlet, NavLink, useLocation, useNavigate, Link } from 'react-router-dom';
+import { Home, BookOpen, Mic, TrendingUp, User, FileText, Settings, Search } from 'lucide-react';
 import { useAuthStore } from '@/stores/auth-store';
+import { useSyncStore } from '@/stores/sync-store';
+import { useAchievementStore } from '@/stores/achievement-store';
+import { SyncStatusIndicator } from '@/components/ui/SyncStatusIndicator';
+import { AchievementToast } from '@/components/ui/AchievementToast';
 
 const navItems = [
   { to: '/home', icon: Home, label: 'Home' },
@@ -12,17 +17,54 @@ const navItems = [
 
 export function AppLayout() {
   const location = useLocation();
+  const navigate = useNavigate();
   const { profile } = useAuthStore();
+  const [searchQuery, setSearchQuery] = useState('');
+  const startSyncEngine = useSyncStore(state => state.startSyncEngine);
+
+  // Upload queued attempts now and whenever connectivity returns
+  useEffect(() => {
+    if (!profile?.id) return;
+    return startSyncEngine(profile.id);
+  }, [profile?.id, startSyncEngine]);
+
+  // Pick up achievements earned elsewhere, e.g. a contribution approved by a reviewer
+  useEffect(() => {
+    if (!profile?.id) return;
+    useAchievementStore.getState().evaluateAchievements();
+  }, [profile?.id]);
   
   const isContributor = profile?.role && ['contributor', 'reviewer', 'admin'].includes(profile.role);
   const isAdmin = profile?.role === 'admin';
+  // The search page has its own search field
+  const showSearch = location.pathname !== '/search';
+
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+    const query = searchQuery.trim();
+    if (!query) return;
+    setSearchQuery('');
+    navigate(`/search?q=${encodeURIComponent(query)}`);
+  };
 
   return (
     <div className="min-h-screen bg-ohafia-sand-50 dark:bg-ohafia-earth-950 transition-colors duration-300">
-      {/* Role-based header links */}
-      {(isContributor || isAdmin) && (
+      {/* Search bar and role-based header links */}
+      {(showSearch || isContributor || isAdmin) && (
         <div className="fixed top-0 left-0 right-0 bg-white/95 dark:bg-ohafia-earth-900/95 backdrop-blur-sm border-b border-ohafia-sand-200 dark:border-ohafia-earth-700 z-30 px-4 py-2 transition-colors duration-300">
           <div className="flex items-center justify-end gap-2 max-w-lg mx-auto">
+            {showSearch && (
+              <form onSubmit={handleSearch} className="relative flex-1" role="search">
+                <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-ohafia-earth-400 dark:text-ohafia-sand-400" />
+                <input
+                  type="search"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  placeholder="Search words and phrases"
+                  className="w-full pl-9 pr-3 py-1.5 text-sm rounded-lg border border-ohafia-sand-200 dark:border-ohafia-earth-700 bg-ohafia-sand-50 dark:bg-ohafia-earth-800 text-ohafia-earth-900 dark:text-ohafia-sand-50 focus:outline-none focus:ring-2 focus:ring-ohafia-primary-500"
+                />
+              </form>
+            )}
             {isContributor && (
               <Link
                 to="/contributor"
@@ -46,10 +88,13 @@ export function AppLayout() {
       )}
 
       {/* Main content */}
-      <main className={`pb-safe ${(isContributor || isAdmin) ? 'pt-12' : ''}`}>
+      <main className={`pb-safe ${(showSearch || isContributor || isAdmin) ? 'pt-12' : ''}`}>
         <Outlet />
       </main>
 
+      {profile?.id && <SyncStatusIndicator userId={profile.id} />}
+      <AchievementToast />
+
       {/* Bottom navigation */}
       <nav className="bottom-nav">
         <div className="flex items-center justify-around max-w-lg mx-auto">
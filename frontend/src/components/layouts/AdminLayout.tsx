@@ -11,7 +11,8 @@ import {
   Shield,
   UserPlus,
   MessageSquarePlus,
-  Tag
+  Tag,
+  ArrowUpDown
 } from 'lucide-react';
 import { useAuthStore } from '@/stores/auth-store';
 
@@ -24,6 +25,7 @@ const navItems = [
   { to: '/admin/lessons', icon: BookOpen, label: 'Lessons' },
   { to: '/admin/assets', icon: FileText, label: 'Assets' },
   { to: '/admin/categories', icon: Tag, label: 'Categories' },
+  { to: '/admin/import', icon: ArrowUpDown, label: 'Import / Export' },
   { to: '/admin/settings', icon: Settings, label: 'Settings' },
 ];
 
@@ -9,6 +9,7 @@ import {
   Shield
 } from 'lucide-react';
 import { useAuthStore } from '@/stores/auth-store';
+import { useSettingsStore } from '@/stores/settings-store';
 
 const navItems = [
   { to: '/contributor', icon: LayoutDashboard, label: 'Dashboard', end: true },
@@ -21,6 +22,8 @@ export function ContributorLayout() {
   const navigate = useNavigate();
   const { signOut, profile } = useAuthStore();
   const isAdmin = profile?.role === 'admin';
+  const { enableAudioRecording } = useSettingsStore(state => state.settings);
+  const visibleNavItems = navItems.filter(item => enableAudioRecording || item.to !== '/contributor/record');
 
   const handleSignOut = async () => {
     await signOut();
@@ -43,7 +46,7 @@ export function ContributorLayout() {
           </div>
 
           <nav className="space-y-2">
-            {navItems.map(({ to, icon: Icon, label, end }) => (
+            {visibleNavItems.map(({ to, icon: Icon, label, end }) => (
               <NavLink
                 key={to}
                 to={to}
@@ -117,7 +120,7 @@ export function ContributorLayout() {
       {/* Mobile Bottom Nav */}
       <nav className="md:hidden fixed bottom-0 left-0 right-0 bg-white dark:bg-ohafia-earth-800 border-t border-ohafia-sand-200 dark:border-ohafia-earth-700 z-20 pb-safe">
         <div className="flex justify-around py-2">
-          {navItems.map(({ to, icon: Icon, label, end }) => (
+          {visibleNavItems.map(({ to, icon: Icon, label, end }) => (
             <NavLink
               key={to}
               to={to}
@@ -0,0 +1,76 @@
+import { useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { X, Sparkles } from 'lucide-react';
+import { useAchievementStore } from '@/stores/achievement-store';
+
+// How long each unlock stays on screen before the next one is shown
+const UNLOCK_DISPLAY_MS = 5000;
+
+const CONFETTI = ['✨', '🎉', '⭐', '🎊', '✨', '⭐'];
+
+export function AchievementToast() {
+  const { unlockQueue, dismissUnlock } = useAchievementStore();
+  const current = unlockQueue[0];
+
+  useEffect(() => {
+    if (!current) return;
+    const timeoutId = setTimeout(dismissUnlock, UNLOCK_DISPLAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [current, dismissUnlock]);
+
+  if (!current) return null;
+
+  return (
+    <div className="fixed top-16 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-2rem)] max-w-sm animate-slide-up">
+      <div className="relative overflow-hidden card p-4 border-2 border-ohafia-accent-300 dark:border-ohafia-accent-600 shadow-ohafia-lg">
+        {/* Celebration sparkles */}
+        <div className="pointer-events-none absolute inset-0 flex justify-around" aria-hidden="true">
+          {CONFETTI.map((piece, index) => (
+            <span
+              key={index}
+              className="text-sm animate-bounce-subtle"
+              style={{ animationDelay: `${index * 0.2}s` }}
+            >
+              {piece}
+            </span>
+          ))}
+        </div>
+
+        <div className="relative flex items-center gap-3">
+          <div className="w-14 h-14 flex-shrink-0 rounded-full bg-ohafia-accent-100 dark:bg-ohafia-accent-900/40 flex items-center justify-center text-3xl animate-scale-in">
+            {current.icon || '🏆'}
+          </div>
+
+          <Link to="/progress" onClick={dismissUnlock} className="flex-1 min-w-0">
+            <p className="flex items-center gap-1 text-xs font-semibold uppercase tracking-wide text-ohafia-accent-600 dark:text-ohafia-accent-400">
+              <Sparkles className="w-3.5 h-3.5" />
+              Achievement unlocked
+            </p>
+            <p className="font-semibold text-ohafia-earth-900 dark:text-ohafia-sand-100 truncate">
+              {current.name}
+            </p>
+            {current.xp_reward > 0 && (
+              <p className="text-sm text-ohafia-primary-600 dark:text-ohafia-primary-400 font-medium">
+                +{current.xp_reward} XP
+              </p>
+            )}
+          </Link>
+
+          <button
+            onClick={dismissUnlock}
+            className="p-1 text-ohafia-earth-400 hover:text-ohafia-earth-600 dark:hover:text-ohafia-sand-300"
+            aria-label="Dismiss"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {unlockQueue.length > 1 && (
+          <p className="relative mt-2 text-xs text-center text-ohafia-earth-500 dark:text-ohafia-sand-400">
+            +{unlockQueue.length - 1} more
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { Star } from 'lucide-react';
+import { AUDIO_QUALITY_CRITERIA, type AudioQualitySummary } from '@/lib/audio-quality';
+
+/**
+ * Average reviewer scores for a recording, overall and per criterion
+ */
+export function AudioQualityScores({ quality }: { quality: AudioQualitySummary }) {
+  if (quality.quality_rating_count === 0 || quality.quality_rating === null) {
+    return <p className="text-xs text-gray-400 dark:text-ohafia-sand-500">Not rated yet</p>;
+  }
+
+  return (
+    <div className="text-xs text-gray-500 dark:text-ohafia-sand-400">
+      <p className="flex items-center gap-1">
+        <Star className="w-3 h-3 text-amber-500" />
+        <span className="font-medium text-gray-700 dark:text-ohafia-sand-200">{quality.quality_rating}/5</span>
+        from {quality.quality_rating_count} {quality.quality_rating_count === 1 ? 'rating' : 'ratings'}
+      </p>
+      <p className="flex flex-wrap gap-x-3">
+        {AUDIO_QUALITY_CRITERIA.filter(criterion => quality.quality_scores[criterion.key] !== undefined).map(criterion => (
+          <span key={criterion.key}>
+            {criterion.label} {quality.quality_scores[criterion.key]!.toFixed(1)}
+          </span>
+        ))}
+      </p>
+    </div>
+  );
+}
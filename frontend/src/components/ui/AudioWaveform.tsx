@@ -0,0 +1,242 @@
+import { useEffect, useRef, useState, type MouseEvent } from 'react';
+import { Pause, Play } from 'lucide-react';
+import { loadPeaks } from '@/lib/audio-processing';
+
+// Canvas and meter colours from the theme (primary, accent, secondary) and red-500
+const WAVE_COLOR = '#ed5a1c';
+const METER_QUIET = '#eab308';
+const METER_GOOD = '#22c527';
+const METER_LOUD = '#ef4444';
+
+// Meter range in dBFS
+const METER_FLOOR_DB = -60;
+const QUIET_DB = -40;
+const LOUD_PEAK = 0.98;
+
+const BAR_WIDTH = 3;
+const BAR_GAP = 1;
+
+interface LiveWaveformProps {
+  stream: MediaStream;
+}
+
+/**
+ * Input level meter and scrolling waveform for a live microphone stream
+ */
+export function LiveWaveform({ stream }: LiveWaveformProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const meterRef = useRef<HTMLDivElement>(null);
+  const [hint, setHint] = useState<'quiet' | 'good' | 'loud'>('quiet');
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const context = new AudioContext();
+    const source = context.createMediaStreamSource(stream);
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 2048;
+    source.connect(analyser);
+
+    const data = new Float32Array(analyser.fftSize);
+    const history: number[] = [];
+    let lastHint = '';
+    let frame = 0;
+
+    const draw = () => {
+      analyser.getFloatTimeDomainData(data);
+      let peak = 0;
+      let sum = 0;
+      for (let i = 0; i < data.length; i++) {
+        const value = Math.abs(data[i]);
+        if (value > peak) peak = value;
+        sum += data[i] * data[i];
+      }
+      const rmsDb = 20 * Math.log10(Math.max(Math.sqrt(sum / data.length), 1e-6));
+
+      // Level meter, updated directly to avoid re-rendering every frame
+      const meter = meterRef.current;
+      const level = peak >= LOUD_PEAK ? 'loud' : rmsDb < QUIET_DB ? 'quiet' : 'good';
+      if (meter) {
+        meter.style.width = `${Math.max(0, Math.min(100, (1 - rmsDb / METER_FLOOR_DB) * 100))}%`;
+        meter.style.backgroundColor = level === 'loud' ? METER_LOUD : level === 'quiet' ? METER_QUIET : METER_GOOD;
+      }
+      if (level !== lastHint) {
+        lastHint = level;
+        setHint(level);
+      }
+
+      // Scrolling waveform: newest peak on the right
+      const ratio = window.devicePixelRatio || 1;
+      const width = canvas.clientWidth * ratio;
+      const height = canvas.clientHeight * ratio;
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+      const slot = (BAR_WIDTH + BAR_GAP) * ratio;
+      const maxBars = Math.floor(width / slot);
+      history.push(peak);
+      if (history.length > maxBars) history.splice(0, history.length - maxBars);
+
+      const ctx = canvas.getContext('2d');
+      if (ctx) {
+        ctx.clearRect(0, 0, width, height);
+        ctx.fillStyle = WAVE_COLOR;
+        history.forEach((value, index) => {
+          const barHeight = Math.max(2 * ratio, Math.min(1, value) * height);
+          const x = width - (history.length - index) * slot;
+          ctx.fillRect(x, (height - barHeight) / 2, BAR_WIDTH * ratio, barHeight);
+        });
+      }
+
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      source.disconnect();
+      context.close();
+    };
+  }, [stream]);
+
+  return (
+    <div className="w-full">
+      <canvas ref={canvasRef} className="w-full h-16 rounded-xl bg-ohafia-sand-50 dark:bg-ohafia-earth-700" />
+      <div className="flex items-center gap-2 mt-2">
+        <div className="flex-1 h-2 rounded-full bg-ohafia-sand-200 dark:bg-ohafia-earth-600 overflow-hidden">
+          <div ref={meterRef} className="h-full rounded-full transition-[width] duration-75" style={{ width: 0 }} />
+        </div>
+        <span className={`text-xs font-medium w-16 text-right
+          ${hint === 'loud' ? 'text-red-600 dark:text-red-400' : hint === 'quiet' ? 'text-amber-600 dark:text-amber-400' : 'text-green-600 dark:text-green-400'}`}
+        >
+          {hint === 'loud' ? 'Too loud' : hint === 'quiet' ? 'Too quiet' : 'Good'}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+export interface WaveformTrack {
+  src: string;
+  label: string;
+  // Reference clips are drawn muted next to the learner's own take
+  variant?: 'primary' | 'reference';
+}
+
+interface WaveformPlayerProps {
+  tracks: WaveformTrack[];
+  bars?: number;
+}
+
+/**
+ * Waveforms of one or more clips on a shared time scale. Each clip can be
+ * played, and clicking a waveform plays from that point.
+ */
+export function WaveformPlayer({ tracks, bars = 80 }: WaveformPlayerProps) {
+  const [waveforms, setWaveforms] = useState<Record<string, { peaks: number[]; duration: number }>>({});
+  const [playing, setPlaying] = useState<{ src: string; position: number } | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const srcKey = tracks.map(track => track.src).join('\n');
+
+  useEffect(() => {
+    let cancelled = false;
+    srcKey.split('\n').filter(Boolean).forEach(src => {
+      loadPeaks(src, bars)
+        .then(waveform => {
+          if (!cancelled) setWaveforms(prev => ({ ...prev, [src]: waveform }));
+        })
+        .catch(err => console.error('Error loading waveform:', err));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [srcKey, bars]);
+
+  // Stop playback when the clips change or the player goes away
+  useEffect(() => () => {
+    audioRef.current?.pause();
+    audioRef.current = null;
+    setPlaying(null);
+  }, [srcKey]);
+
+  const stopPlayback = () => {
+    audioRef.current?.pause();
+    audioRef.current = null;
+    setPlaying(null);
+  };
+
+  const play = (src: string, from = 0) => {
+    stopPlayback();
+    const audio = new Audio(src);
+    audioRef.current = audio;
+    audio.currentTime = from;
+    audio.ontimeupdate = () => setPlaying({ src, position: audio.currentTime });
+    audio.onended = stopPlayback;
+    audio.onerror = stopPlayback;
+    setPlaying({ src, position: from });
+    audio.play().catch(stopPlayback);
+  };
+
+  const longest = Math.max(0.1, ...tracks.map(track => waveforms[track.src]?.duration ?? 0));
+
+  const handleSeek = (src: string, duration: number) => (e: MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    play(src, Math.max(0, Math.min(duration, ((e.clientX - rect.left) / rect.width) * duration)));
+  };
+
+  return (
+    <div className="w-full space-y-2">
+      {tracks.map(track => {
+        const waveform = waveforms[track.src];
+        const isPlaying = playing?.src === track.src;
+        const isReference = track.variant === 'reference';
+        const loudest = waveform ? Math.max(...waveform.peaks, 0.01) : 1;
+
+        return (
+          <div key={track.src} className="flex items-center gap-3">
+            <button
+              onClick={() => (isPlaying ? stopPlayback() : play(track.src))}
+              className={`w-9 h-9 rounded-full flex items-center justify-center flex-shrink-0 transition-colors
+                ${isReference
+                  ? 'bg-ohafia-sand-200 text-ohafia-earth-600 hover:bg-ohafia-sand-300 dark:bg-ohafia-earth-600 dark:text-ohafia-sand-200'
+                  : 'bg-ohafia-primary-100 text-ohafia-primary-600 hover:bg-ohafia-primary-200 dark:bg-ohafia-primary-900/30 dark:text-ohafia-primary-400'}`}
+              title={isPlaying ? 'Stop' : `Play ${track.label.toLowerCase()}`}
+            >
+              {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4 ml-0.5" />}
+            </button>
+            <div className="flex-1 min-w-0">
+              <p className="text-xs text-ohafia-earth-500 dark:text-ohafia-sand-400 mb-1">{track.label}</p>
+              <div className="h-10 w-full">
+                {waveform ? (
+                  <div
+                    onClick={handleSeek(track.src, waveform.duration)}
+                    className="relative h-full flex items-center gap-px cursor-pointer"
+                    style={{ width: `${(waveform.duration / longest) * 100}%` }}
+                  >
+                    {waveform.peaks.map((peak, index) => {
+                      const played = isPlaying && (index + 0.5) / waveform.peaks.length <= playing.position / waveform.duration;
+                      return (
+                        <div
+                          key={index}
+                          className={`flex-1 rounded-full
+                            ${isReference
+                              ? played ? 'bg-ohafia-earth-500 dark:bg-ohafia-sand-300' : 'bg-ohafia-sand-300 dark:bg-ohafia-earth-500'
+                              : played ? 'bg-ohafia-primary-700 dark:bg-ohafia-primary-300' : 'bg-ohafia-primary-400'}`}
+                          style={{ height: `${Math.max(6, (peak / loudest) * 100)}%` }}
+                        />
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <div className="h-full rounded-lg bg-ohafia-sand-100 dark:bg-ohafia-earth-700 animate-pulse" />
+                )}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import type { RefObject } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import {
+  IGBO_SPECIAL_LETTERS,
+  applyToneMark,
+  validateIgboText,
+  type ToneMark,
+} from '@/lib/igbo-orthography';
+
+const TONE_BUTTONS: { tone: ToneMark; label: string; title: string }[] = [
+  { tone: 'high', label: '\u25CC\u0301', title: 'High tone (á)' },
+  { tone: 'low', label: '\u25CC\u0300', title: 'Low tone (à)' },
+  { tone: 'mid', label: '\u25CC\u0304', title: 'Downstep (ā)' },
+];
+
+interface IgboCharacterPaletteProps {
+  inputRef: RefObject<HTMLInputElement | HTMLTextAreaElement>;
+  value: string;
+  onChange: (value: string) => void;
+  showWarnings?: boolean;
+}
+
+/**
+ * Buttons for Igbo letters and tone marks under an Igbo text field, plus
+ * warnings for characters that don't belong in Igbo spelling
+ */
+export function IgboCharacterPalette({ inputRef, value, onChange, showWarnings = true }: IgboCharacterPaletteProps) {
+  const warnings = showWarnings ? validateIgboText(value) : [];
+
+  // Replace the text before the caret and put the caret back after it
+  const edit = (transform: (before: string) => string) => {
+    const input = inputRef.current;
+    const start = input?.selectionStart ?? value.length;
+    const end = input?.selectionEnd ?? value.length;
+    const before = transform(value.slice(0, start));
+    onChange(before + value.slice(end));
+
+    requestAnimationFrame(() => {
+      input?.focus();
+      input?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const insertLetter = (letter: string, upper: boolean) =>
+    edit(before => before + (upper ? letter.toUpperCase() : letter));
+
+  return (
+    <div className="mt-2">
+      <div className="flex flex-wrap gap-1">
+        {IGBO_SPECIAL_LETTERS.map(letter => (
+          <button
+            key={letter}
+            type="button"
+            // Keep focus (and the caret) in the text field
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={(e) => insertLetter(letter, e.shiftKey)}
+            className="w-9 h-9 rounded-lg border border-ohafia-sand-200 dark:border-ohafia-earth-600 bg-white dark:bg-ohafia-earth-800 text-ohafia-earth-800 dark:text-ohafia-sand-100 hover:border-ohafia-primary-400 igbo-text transition-colors"
+            title={`Insert ${letter} (Shift for ${letter.toUpperCase()})`}
+          >
+            {letter}
+          </button>
+        ))}
+        <span className="w-px mx-1 bg-ohafia-sand-200 dark:bg-ohafia-earth-600" />
+        {TONE_BUTTONS.map(({ tone, label, title }) => (
+          <button
+            key={tone}
+            type="button"
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => edit(before => applyToneMark(before, tone))}
+            className="w-9 h-9 rounded-lg border border-ohafia-sand-200 dark:border-ohafia-earth-600 bg-white dark:bg-ohafia-earth-800 text-ohafia-earth-800 dark:text-ohafia-sand-100 hover:border-ohafia-primary-400 text-lg transition-colors"
+            title={`${title} on the letter before the cursor`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {warnings.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {warnings.map(warning => (
+            <li key={warning.character} className="flex items-center gap-1 text-xs text-amber-700 dark:text-amber-400">
+              <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+              {warning.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+import type { ReactNode } from 'react';
+import { AlertTriangle } from 'lucide-react';
+
+/**
+ * Amber hint under a recording whose levels need attention
+ */
+export function LevelWarning({ children }: { children: ReactNode }) {
+  return (
+    <div className="mt-3 p-3 bg-amber-50 border border-amber-200 rounded-xl text-amber-800 text-sm flex items-start gap-2">
+      <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+      <span>{children}</span>
+    </div>
+  );
+}
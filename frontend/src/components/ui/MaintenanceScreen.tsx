@@ -0,0 +1,41 @@
+import { Wrench } from 'lucide-react';
+import { useAuthStore } from '@/stores/auth-store';
+import { useSettingsStore } from '@/stores/settings-store';
+
+export function MaintenanceScreen() {
+  const { signOut } = useAuthStore();
+  const { siteName } = useSettingsStore(state => state.settings);
+
+  return (
+    <div className="min-h-screen bg-ohafia-sand-50 dark:bg-ohafia-earth-900 flex items-center justify-center px-6">
+      <div className="max-w-md text-center">
+        <div className="w-20 h-20 rounded-full bg-ohafia-primary-100 flex items-center justify-center mx-auto mb-6">
+          <Wrench className="w-10 h-10 text-ohafia-primary-600" />
+        </div>
+
+        <h1 className="font-display text-2xl font-bold text-ohafia-earth-900 dark:text-ohafia-sand-50 mb-2">
+          {siteName} is down for maintenance
+        </h1>
+        <p className="text-ohafia-earth-600 dark:text-ohafia-sand-300 mb-8">
+          We're making some improvements. Your progress is safe — please check back soon.
+        </p>
+
+        <button
+          onClick={() => signOut()}
+          className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400 hover:text-ohafia-earth-700 dark:hover:text-ohafia-sand-200 transition-colors"
+        >
+          Sign out
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function MaintenanceBanner() {
+  return (
+    <div className="bg-amber-100 dark:bg-amber-900/40 border-b border-amber-200 dark:border-amber-800 px-4 py-2 text-center text-sm text-amber-800 dark:text-amber-200">
+      <Wrench className="w-4 h-4 inline -mt-0.5 mr-2" />
+      Maintenance mode is on — only admins can use the app.
+    </div>
+  );
+}
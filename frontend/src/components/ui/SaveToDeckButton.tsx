@@ -0,0 +1,117 @@
+import { useEffect, useRef, useState, type FormEvent } from 'react';
+import { Bookmark, Check, Plus } from 'lucide-react';
+import { useAuthStore } from '@/stores/auth-store';
+import { useDeckStore } from '@/stores/deck-store';
+import type { OfflineWordContent } from '@/lib/offline-db';
+
+interface SaveToDeckButtonProps {
+  assetId: string;
+  content: OfflineWordContent;
+  className?: string;
+}
+
+/**
+ * Bookmark button that saves a word to one or more of the learner's decks
+ */
+export function SaveToDeckButton({ assetId, content, className = '' }: SaveToDeckButtonProps) {
+  const { user } = useAuthStore();
+  const { decks, fetchDecks, createDeck, addToDeck, removeFromDeck } = useDeckStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [newDeckName, setNewDeckName] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const isSaved = decks.some(deck => deck.items.some(item => item.assetId === assetId));
+
+  // Every button shares the store, so only the first one loads
+  useEffect(() => {
+    const { loadedUserId, isLoading } = useDeckStore.getState();
+    if (user?.id && loadedUserId !== user.id && !isLoading) {
+      fetchDecks(user.id);
+    }
+  }, [user?.id, fetchDecks]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const toggleDeck = (deckId: string, inDeck: boolean) => {
+    if (inDeck) removeFromDeck(deckId, assetId);
+    else addToDeck(deckId, assetId, content);
+  };
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!user?.id || !newDeckName.trim()) return;
+    const deck = await createDeck(user.id, newDeckName);
+    if (deck) {
+      await addToDeck(deck.id, assetId, content);
+      setNewDeckName('');
+    }
+  };
+
+  return (
+    <div ref={containerRef} className={`relative flex-shrink-0 ${className}`}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className={`w-10 h-10 rounded-full flex items-center justify-center transition-colors
+          ${isSaved
+            ? 'bg-ohafia-accent-100 text-ohafia-accent-600 dark:bg-ohafia-accent-900/30 dark:text-ohafia-accent-400'
+            : 'text-ohafia-earth-400 hover:bg-ohafia-sand-100 hover:text-ohafia-accent-600 dark:text-ohafia-sand-400 dark:hover:bg-ohafia-earth-700'}`}
+        title={isSaved ? 'Saved to a deck' : 'Save to a deck'}
+      >
+        <Bookmark className={`w-5 h-5 ${isSaved ? 'fill-current' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 w-56 bg-white dark:bg-ohafia-earth-800 rounded-xl shadow-lg border border-ohafia-sand-200 dark:border-ohafia-earth-700 py-1 z-20">
+          <p className="px-4 py-2 text-xs font-semibold text-ohafia-earth-500 dark:text-ohafia-sand-400 uppercase">
+            Save to deck
+          </p>
+          {decks.map(deck => {
+            const inDeck = deck.items.some(item => item.assetId === assetId);
+            return (
+              <button
+                key={deck.id}
+                type="button"
+                onClick={() => toggleDeck(deck.id, inDeck)}
+                className="w-full flex items-center gap-2 px-4 py-2 text-sm text-left text-ohafia-earth-700 dark:text-ohafia-sand-200 hover:bg-ohafia-sand-50 dark:hover:bg-ohafia-earth-700"
+              >
+                <span className={`w-4 h-4 rounded border flex items-center justify-center flex-shrink-0
+                  ${inDeck ? 'bg-ohafia-primary-500 border-ohafia-primary-500 text-white' : 'border-ohafia-sand-300 dark:border-ohafia-earth-600'}`}
+                >
+                  {inDeck && <Check className="w-3 h-3" />}
+                </span>
+                <span className="flex-1 truncate">{deck.name}</span>
+                <span className="text-xs text-ohafia-earth-400 dark:text-ohafia-sand-500">{deck.items.length}</span>
+              </button>
+            );
+          })}
+          <form onSubmit={handleCreate} className="flex items-center gap-1 px-3 py-2 border-t border-ohafia-sand-100 dark:border-ohafia-earth-700 mt-1">
+            <input
+              type="text"
+              value={newDeckName}
+              onChange={(e) => setNewDeckName(e.target.value)}
+              placeholder="New deck"
+              maxLength={80}
+              className="flex-1 min-w-0 px-2 py-1 text-sm rounded-lg border border-ohafia-sand-200 dark:border-ohafia-earth-600 bg-white dark:bg-ohafia-earth-900 text-ohafia-earth-900 dark:text-ohafia-sand-50"
+            />
+            <button
+              type="submit"
+              disabled={!newDeckName.trim()}
+              className="p-1.5 rounded-lg text-ohafia-primary-600 hover:bg-ohafia-primary-50 dark:text-ohafia-primary-400 dark:hover:bg-ohafia-primary-900/30 disabled:opacity-40"
+              title="Create deck and save"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
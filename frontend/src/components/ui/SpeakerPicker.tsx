@@ -0,0 +1,240 @@
+import { useEffect, useState } from 'react';
+import { Plus, X, Loader2, UserRound } from 'lucide-react';
+import { useAuthStore } from '@/stores/auth-store';
+import { useSpeakerStore, type SpeakerInput } from '@/stores/speaker-store';
+import {
+  AGE_GROUP_LABELS,
+  CONSENT_METHOD_LABELS,
+  CONSENT_TEXT,
+  GENDER_LABELS,
+  describeSpeaker,
+} from '@/lib/speakers';
+import type { AgeGroup, ConsentMethod, SpeakerGender } from '@/types/database';
+
+const EMPTY_FORM: SpeakerInput = {
+  display_name: '',
+  is_self: true,
+  age_group: null,
+  gender: null,
+  village: null,
+  consent_method: 'self',
+  consent_notes: null,
+};
+
+/**
+ * Choose who is speaking in new recordings, or add a speaker with their consent
+ */
+export function SpeakerPicker() {
+  const { user, profile } = useAuthStore();
+  const { speakers, selectedSpeakerId, isLoading, error, fetchSpeakers, createSpeaker, selectSpeaker, clearError } =
+    useSpeakerStore();
+
+  const [showModal, setShowModal] = useState(false);
+  const [form, setForm] = useState<SpeakerInput>(EMPTY_FORM);
+  const [hasConsent, setHasConsent] = useState(false);
+
+  useEffect(() => {
+    if (user) fetchSpeakers(user.id);
+  }, [user, fetchSpeakers]);
+
+  const selected = speakers.find(s => s.id === selectedSpeakerId);
+
+  const openModal = () => {
+    clearError();
+    const hasSelf = speakers.some(s => s.is_self);
+    setForm(hasSelf
+      ? { ...EMPTY_FORM, is_self: false, consent_method: 'verbal' }
+      : { ...EMPTY_FORM, display_name: profile?.display_name || '', age_group: profile?.age_group ?? null });
+    setHasConsent(false);
+    setShowModal(true);
+  };
+
+  const handleCreate = async () => {
+    if (!user || !form.display_name.trim() || !hasConsent) return;
+    const speaker = await createSpeaker(user.id, form);
+    if (speaker) setShowModal(false);
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-ohafia-earth-700 dark:text-ohafia-sand-200 mb-2">
+        Speaker
+      </label>
+      <div className="flex gap-2">
+        <select
+          value={selectedSpeakerId || ''}
+          onChange={(e) => selectSpeaker(e.target.value || null)}
+          className="input flex-1"
+        >
+          {speakers.length === 0 && <option value="">Add a speaker first</option>}
+          {speakers.map(speaker => (
+            <option key={speaker.id} value={speaker.id}>
+              {speaker.display_name}{speaker.is_self ? ' (me)' : ''}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={openModal}
+          className="px-3 py-2 rounded-xl border-2 border-ohafia-sand-200 dark:border-ohafia-earth-600 text-ohafia-earth-600 dark:text-ohafia-sand-300 hover:border-ohafia-primary-400 flex items-center gap-1 text-sm font-medium"
+          title="Add a speaker"
+        >
+          <Plus className="w-4 h-4" />
+          New
+        </button>
+      </div>
+      {selected && describeSpeaker(selected) && (
+        <p className="text-xs text-ohafia-earth-500 dark:text-ohafia-sand-400 mt-1">{describeSpeaker(selected)}</p>
+      )}
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-ohafia-earth-800 rounded-2xl w-full max-w-md max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-4 border-b border-ohafia-sand-200 dark:border-ohafia-earth-700">
+              <h2 className="text-lg font-semibold text-ohafia-earth-900 dark:text-ohafia-sand-50 flex items-center gap-2">
+                <UserRound className="w-5 h-5" />
+                New Speaker
+              </h2>
+              <button
+                onClick={() => setShowModal(false)}
+                className="p-2 text-ohafia-earth-400 hover:text-ohafia-earth-600 dark:hover:text-ohafia-sand-200 transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="p-4 space-y-4">
+              {error && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-xl text-red-700 text-sm">{error}</div>
+              )}
+
+              <label className="flex items-center gap-2 text-sm text-ohafia-earth-700 dark:text-ohafia-sand-200">
+                <input
+                  type="checkbox"
+                  checked={form.is_self}
+                  onChange={(e) => setForm({
+                    ...form,
+                    is_self: e.target.checked,
+                    consent_method: e.target.checked ? 'self' : 'verbal',
+                  })}
+                  className="rounded border-ohafia-sand-300 text-ohafia-primary-500 focus:ring-ohafia-primary-500"
+                />
+                This is my own voice
+              </label>
+
+              <div>
+                <label className="block text-sm font-medium text-ohafia-earth-700 dark:text-ohafia-sand-200 mb-1">
+                  Name *
+                </label>
+                <input
+                  type="text"
+                  value={form.display_name}
+                  onChange={(e) => setForm({ ...form, display_name: e.target.value })}
+                  placeholder="How learners will see the speaker"
+                  className="input"
+                  maxLength={80}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-ohafia-earth-700 dark:text-ohafia-sand-200 mb-1">
+                    Age group
+                  </label>
+                  <select
+                    value={form.age_group || ''}
+                    onChange={(e) => setForm({ ...form, age_group: (e.target.value || null) as AgeGroup | null })}
+                    className="input"
+                  >
+                    <option value="">Not given</option>
+                    {Object.entries(AGE_GROUP_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-ohafia-earth-700 dark:text-ohafia-sand-200 mb-1">
+                    Gender
+                  </label>
+                  <select
+                    value={form.gender || ''}
+                    onChange={(e) => setForm({ ...form, gender: (e.target.value || null) as SpeakerGender | null })}
+                    className="input"
+                  >
+                    <option value="">Not given</option>
+                    {Object.entries(GENDER_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-ohafia-earth-700 dark:text-ohafia-sand-200 mb-1">
+                  Village or sub-dialect
+                </label>
+                <input
+                  type="text"
+                  value={form.village || ''}
+                  onChange={(e) => setForm({ ...form, village: e.target.value })}
+                  placeholder="Where in Ohafia the speaker is from"
+                  className="input"
+                />
+              </div>
+
+              {/* Consent record */}
+              <div className="p-3 rounded-xl bg-ohafia-sand-50 dark:bg-ohafia-earth-700 space-y-3">
+                <p className="text-sm text-ohafia-earth-700 dark:text-ohafia-sand-200">{CONSENT_TEXT}</p>
+                {!form.is_self && (
+                  <select
+                    value={form.consent_method}
+                    onChange={(e) => setForm({ ...form, consent_method: e.target.value as ConsentMethod })}
+                    className="input"
+                  >
+                    {(['verbal', 'written'] as const).map(method => (
+                      <option key={method} value={method}>{CONSENT_METHOD_LABELS[method]}</option>
+                    ))}
+                  </select>
+                )}
+                {!form.is_self && (
+                  <textarea
+                    value={form.consent_notes || ''}
+                    onChange={(e) => setForm({ ...form, consent_notes: e.target.value })}
+                    placeholder="Optional: when and where consent was given, who was present"
+                    rows={2}
+                    className="input"
+                  />
+                )}
+                <label className="flex items-start gap-2 text-sm font-medium text-ohafia-earth-800 dark:text-ohafia-sand-100">
+                  <input
+                    type="checkbox"
+                    checked={hasConsent}
+                    onChange={(e) => setHasConsent(e.target.checked)}
+                    className="mt-0.5 rounded border-ohafia-sand-300 text-ohafia-primary-500 focus:ring-ohafia-primary-500"
+                  />
+                  {form.is_self ? 'I agree to this' : 'The speaker agreed to this'}
+                </label>
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-3 p-4 border-t border-ohafia-sand-200 dark:border-ohafia-earth-700">
+              <button
+                onClick={() => setShowModal(false)}
+                className="px-4 py-2 text-ohafia-earth-600 dark:text-ohafia-sand-300 hover:bg-ohafia-sand-100 dark:hover:bg-ohafia-earth-700 rounded-xl transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleCreate}
+                disabled={isLoading || !form.display_name.trim() || !hasConsent}
+                className="px-4 py-2 bg-ohafia-primary text-white rounded-xl hover:bg-ohafia-primary-600 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 transition-colors"
+              >
+                {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                Add Speaker
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react';
+import { CloudOff, RefreshCw, AlertTriangle, CheckCircle } from 'lucide-react';
+import { useSyncStore } from '@/stores/sync-store';
+
+// How long the "All synced" confirmation stays up after a sync clears the queue
+const SYNCED_FLASH_MS = 2500;
+
+export function SyncStatusIndicator({ userId }: { userId: string }) {
+  const { status, pendingCount, failedCount, lastSyncedAt, nextRetryAt, syncNow, retryFailed } = useSyncStore();
+  const [showSynced, setShowSynced] = useState(false);
+  const [, setTick] = useState(0);
+
+  // Briefly confirm a successful sync
+  useEffect(() => {
+    if (!lastSyncedAt) return;
+    setShowSynced(true);
+    const timeoutId = setTimeout(() => setShowSynced(false), SYNCED_FLASH_MS);
+    return () => clearTimeout(timeoutId);
+  }, [lastSyncedAt]);
+
+  // Keep the retry countdown current
+  useEffect(() => {
+    if (status !== 'retrying') return;
+    const intervalId = setInterval(() => setTick(t => t + 1), 1000);
+    return () => clearInterval(intervalId);
+  }, [status]);
+
+  const pillClass = 'flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium shadow-md backdrop-blur-sm';
+
+  let content: React.ReactNode = null;
+
+  if (status === 'offline') {
+    content = (
+      <div className={`${pillClass} bg-ohafia-earth-800/90 text-ohafia-sand-100`}>
+        <CloudOff className="w-3.5 h-3.5" />
+        Offline{pendingCount > 0 && ` · ${pendingCount} saved on this device`}
+      </div>
+    );
+  } else if (status === 'syncing') {
+    content = (
+      <div className={`${pillClass} bg-ohafia-primary-500/90 text-white`}>
+        <RefreshCw className="w-3.5 h-3.5 animate-spin" />
+        Syncing{pendingCount > 0 && ` ${pendingCount}`}…
+      </div>
+    );
+  } else if (status === 'retrying') {
+    const seconds = nextRetryAt ? Math.max(0, Math.ceil((new Date(nextRetryAt).getTime() - Date.now()) / 1000)) : 0;
+    content = (
+      <button onClick={() => syncNow(userId)} className={`${pillClass} bg-amber-500/90 text-white`}>
+        <RefreshCw className="w-3.5 h-3.5" />
+        {pendingCount} waiting · retry in {seconds}s
+      </button>
+    );
+  } else if (failedCount > 0) {
+    content = (
+      <button onClick={() => retryFailed(userId)} className={`${pillClass} bg-red-500/90 text-white`}>
+        <AlertTriangle className="w-3.5 h-3.5" />
+        {failedCount} couldn't sync · tap to retry
+      </button>
+    );
+  } else if (showSynced) {
+    content = (
+      <div className={`${pillClass} bg-ohafia-secondary-500/90 text-white`}>
+        <CheckCircle className="w-3.5 h-3.5" />
+        All progress synced
+      </div>
+    );
+  }
+
+  if (!content) return null;
+
+  return (
+    <div className="fixed bottom-20 left-1/2 -translate-x-1/2 z-40 animate-fade-in">
+      {content}
+    </div>
+  );
+}
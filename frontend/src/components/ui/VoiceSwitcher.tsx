@@ -0,0 +1,51 @@
+import { Volume2 } from 'lucide-react';
+import type { Voice } from '@/lib/speakers';
+
+interface VoiceSwitcherProps {
+  voices: Voice[];
+  selectedId: string | null;
+  onSelect: (voice: Voice) => void;
+  compact?: boolean;
+}
+
+/**
+ * Hear the same word from each speaker who recorded it. Renders nothing
+ * when there is only one voice.
+ */
+export function VoiceSwitcher({ voices, selectedId, onSelect, compact = false }: VoiceSwitcherProps) {
+  if (voices.length < 2) return null;
+  const activeId = selectedId ?? voices[0].id;
+
+  return (
+    <div className={compact ? 'mt-2' : 'w-full mb-6'}>
+      {!compact && (
+        <p className="text-xs font-semibold uppercase text-ohafia-earth-400 dark:text-ohafia-sand-500 mb-2 text-center">
+          {voices.length} voices
+        </p>
+      )}
+      <div className={`flex flex-wrap gap-2 ${compact ? '' : 'justify-center'}`}>
+        {voices.map(voice => {
+          const isActive = voice.id === activeId;
+          return (
+            <button
+              key={voice.id}
+              onClick={() => onSelect(voice)}
+              title={voice.details || undefined}
+              className={`rounded-full border transition-colors flex items-center gap-1.5 text-left
+                ${compact ? 'px-2 py-0.5 text-xs' : 'px-3 py-1.5 text-sm'}
+                ${isActive
+                  ? 'border-ohafia-primary-500 bg-ohafia-primary-50 text-ohafia-primary-700 dark:bg-ohafia-primary-900/30 dark:text-ohafia-primary-300'
+                  : 'border-ohafia-sand-200 dark:border-ohafia-earth-600 text-ohafia-earth-600 dark:text-ohafia-sand-300 hover:border-ohafia-primary-400'}`}
+            >
+              <Volume2 className={compact ? 'w-3 h-3' : 'w-4 h-4'} />
+              <span className="font-medium">{voice.name}</span>
+              {!compact && voice.details && (
+                <span className="text-xs text-ohafia-earth-400 dark:text-ohafia-sand-500">{voice.details}</span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
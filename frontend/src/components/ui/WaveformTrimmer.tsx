@@ -0,0 +1,105 @@
+import { useRef, type PointerEvent } from 'react';
+import type { TrimRange } from '@/lib/audio-processing';
+
+// Shortest clip the handles can be squeezed to, in seconds
+const MIN_LENGTH = 0.2;
+
+interface WaveformTrimmerProps {
+  peaks: number[];
+  duration: number;
+  range: TrimRange;
+  onChange: (range: TrimRange) => void;
+  // Playback position in seconds, if playing
+  position?: number | null;
+  // Called with a time in seconds when the waveform is clicked
+  onSeek?: (seconds: number) => void;
+}
+
+/**
+ * Waveform with start and end handles for trimming a recording
+ */
+export function WaveformTrimmer({ peaks, duration, range, onChange, position = null, onSeek }: WaveformTrimmerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<'start' | 'end' | null>(null);
+
+  const percent = (seconds: number) => `${(seconds / duration) * 100}%`;
+  const loudest = Math.max(...peaks, 0.01);
+
+  const handlePointerDown = (handle: 'start' | 'end') => (e: PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = handle;
+  };
+
+  const timeAt = (clientX: number) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return Math.max(0, Math.min(duration, ((clientX - rect.left) / rect.width) * duration));
+  };
+
+  // Clicks that don't land on a handle scrub playback
+  const handleContainerPointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    if (dragRef.current || !onSeek) return;
+    onSeek(timeAt(e.clientX));
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (!dragRef.current || !containerRef.current) return;
+    const seconds = timeAt(e.clientX);
+
+    if (dragRef.current === 'start') {
+      onChange({ ...range, start: Math.min(seconds, range.end - MIN_LENGTH) });
+    } else {
+      onChange({ ...range, end: Math.max(seconds, range.start + MIN_LENGTH) });
+    }
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative h-24 w-full select-none touch-none rounded-xl bg-ohafia-sand-50 dark:bg-ohafia-earth-700 overflow-hidden ${onSeek ? 'cursor-pointer' : ''}`}
+      onPointerDown={handleContainerPointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {/* Waveform */}
+      <div className="absolute inset-0 flex items-center gap-px px-px">
+        {peaks.map((peak, index) => {
+          const time = ((index + 0.5) / peaks.length) * duration;
+          const inRange = time >= range.start && time <= range.end;
+          return (
+            <div
+              key={index}
+              className={`flex-1 rounded-full ${inRange ? 'bg-ohafia-primary-500' : 'bg-ohafia-sand-300 dark:bg-ohafia-earth-500'}`}
+              style={{ height: `${Math.max(2, (peak / loudest) * 100)}%` }}
+            />
+          );
+        })}
+      </div>
+
+      {/* Trimmed-away parts */}
+      <div className="absolute inset-y-0 left-0 bg-white/50 dark:bg-black/40" style={{ width: percent(range.start) }} />
+      <div className="absolute inset-y-0 right-0 bg-white/50 dark:bg-black/40" style={{ left: percent(range.end) }} />
+
+      {position !== null && (
+        <div className="absolute inset-y-0 w-0.5 bg-ohafia-earth-900 dark:bg-ohafia-sand-50" style={{ left: percent(position) }} />
+      )}
+
+      {/* Handles */}
+      {(['start', 'end'] as const).map(handle => (
+        <div
+          key={handle}
+          onPointerDown={handlePointerDown(handle)}
+          className="absolute inset-y-0 w-4 -ml-2 cursor-ew-resize flex justify-center"
+          style={{ left: percent(range[handle]) }}
+          title={handle === 'start' ? 'Drag to trim the start' : 'Drag to trim the end'}
+        >
+          <div className="w-1 h-full bg-ohafia-primary-700 dark:bg-ohafia-primary-300 rounded-full" />
+        </div>
+      ))}
+    </div>
+  );
+}
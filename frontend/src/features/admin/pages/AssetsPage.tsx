@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { 
   Search,
   Filter,
@@ -9,15 +9,24 @@ import {
   Edit,
   X,
   Save,
-  Loader2
+  Loader2,
+  History,
+  AudioLines
 } from 'lucide-react';
 import { useAdminStore } from '@/stores/admin-store';
+import { useAuthStore } from '@/stores/auth-store';
+import { useSearchStore } from '@/stores/search-store';
+import { AssetHistoryDrawer } from '@/components/assets/AssetHistoryDrawer';
+import { AssetVoicesDrawer } from '@/components/assets/AssetVoicesDrawer';
+import { IgboCharacterPalette } from '@/components/ui/IgboCharacterPalette';
 import type { Asset } from '@/types/database';
 
 type StatusFilter = 'all' | 'draft' | 'pending' | 'approved' | 'rejected';
 
 export function AssetsPage() {
   const { assets, fetchAllAssets, updateAsset, isLoading } = useAdminStore();
+  const { profile } = useAuthStore();
+  const { results: searchResults, isLoading: isSearching, searchAssets, clearResults } = useSearchStore();
   
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
@@ -30,18 +39,35 @@ export function AssetsPage() {
     category: '',
   });
   const [isSaving, setIsSaving] = useState(false);
+  const [historyAsset, setHistoryAsset] = useState<Asset | null>(null);
+  const [voicesAsset, setVoicesAsset] = useState<Asset | null>(null);
+  const igboInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     fetchAllAssets();
   }, [fetchAllAssets]);
 
-  const filteredAssets = assets.filter(asset => {
-    const matchesSearch = 
-      asset.igbo_text.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      asset.english_text.toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesStatus = statusFilter === 'all' || asset.status === statusFilter;
-    return matchesSearch && matchesStatus;
-  });
+  // Searching goes to the server so accents, tones and ranking are handled there
+  const trimmedQuery = searchQuery.trim();
+  useEffect(() => {
+    if (!trimmedQuery) {
+      clearResults();
+      return;
+    }
+    const timeout = setTimeout(() => {
+      searchAssets({
+        query: trimmedQuery,
+        status: statusFilter === 'all' ? null : statusFilter,
+        limit: 200,
+      });
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [trimmedQuery, statusFilter, searchAssets, clearResults]);
+
+  const filteredAssets = trimmedQuery
+    // Prefer the loaded copy so edits made here show without searching again
+    ? searchResults.map(result => assets.find(asset => asset.id === result.id) ?? result)
+    : assets.filter(asset => statusFilter === 'all' || asset.status === statusFilter);
 
   const statusCounts = {
     all: assets.length,
@@ -148,7 +174,7 @@ export function AssetsPage() {
           <Search className="w-5 h-5 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 dark:text-ohafia-sand-500" />
           <input
             type="text"
-            placeholder="Search assets..."
+            placeholder="Search Igbo, English, tags or notes..."
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="w-full pl-10 pr-4 py-2 rounded-xl border border-gray-200 dark:border-ohafia-earth-700 dark:bg-ohafia-earth-800 dark:text-ohafia-sand-50 focus:outline-none focus:ring-2 focus:ring-ohafia-primary"
@@ -162,7 +188,7 @@ export function AssetsPage() {
       </div>
 
       {/* Assets Grid */}
-      {isLoading ? (
+      {isLoading || (trimmedQuery && isSearching && searchResults.length === 0) ? (
         <div className="bg-white dark:bg-ohafia-earth-800 rounded-xl border border-gray-200 dark:border-ohafia-earth-700 p-8 text-center">
           <div className="w-8 h-8 border-4 border-ohafia-primary border-t-transparent rounded-full animate-spin mx-auto" />
           <p className="text-gray-500 dark:text-ohafia-sand-400 mt-4">Loading assets...</p>
@@ -188,6 +214,20 @@ export function AssetsPage() {
                 </span>
                 <div className="flex items-center gap-2">
                   <span className="text-xs text-gray-400 dark:text-ohafia-sand-500">{asset.type}</span>
+                  <button
+                    onClick={() => setHistoryAsset(asset)}
+                    className="p-1 text-gray-400 hover:text-ohafia-primary dark:text-ohafia-sand-500 dark:hover:text-ohafia-primary transition-colors"
+                    title="Version history"
+                  >
+                    <History className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => setVoicesAsset(asset)}
+                    className="p-1 text-gray-400 hover:text-ohafia-primary dark:text-ohafia-sand-500 dark:hover:text-ohafia-primary transition-colors"
+                    title="Recordings and primary clip"
+                  >
+                    <AudioLines className="w-4 h-4" />
+                  </button>
                   {(asset.status === 'pending' || asset.status === 'approved') && (
                     <button
                       onClick={() => openEditModal(asset)}
@@ -217,6 +257,22 @@ export function AssetsPage() {
         </div>
       )}
 
+      {historyAsset && (
+        <AssetHistoryDrawer
+          asset={historyAsset}
+          isAdmin={profile?.role === 'admin'}
+          onClose={() => setHistoryAsset(null)}
+          onRollback={(asset) => {
+            setHistoryAsset(asset);
+            fetchAllAssets();
+          }}
+        />
+      )}
+
+      {voicesAsset && (
+        <AssetVoicesDrawer asset={voicesAsset} onClose={() => setVoicesAsset(null)} />
+      )}
+
       {/* Edit Modal */}
       {editingAsset && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -239,11 +295,17 @@ export function AssetsPage() {
                   Igbo Text *
                 </label>
                 <input
+                  ref={igboInputRef}
                   type="text"
                   value={editForm.igbo_text}
                   onChange={(e) => setEditForm(prev => ({ ...prev, igbo_text: e.target.value }))}
                   className="w-full px-3 py-2 rounded-xl border border-gray-200 dark:border-ohafia-earth-700 dark:bg-ohafia-earth-900 dark:text-ohafia-sand-50 focus:outline-none focus:ring-2 focus:ring-ohafia-primary"
                 />
+                <IgboCharacterPalette
+                  inputRef={igboInputRef}
+                  value={editForm.igbo_text}
+                  onChange={(igbo_text) => setEditForm(prev => ({ ...prev, igbo_text }))}
+                />
               </div>
               
               <div>
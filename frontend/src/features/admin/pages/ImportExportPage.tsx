@@ -0,0 +1,582 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Upload,
+  Download,
+  FileText,
+  AlertCircle,
+  CheckCircle,
+  Copy,
+  Loader2,
+  ArrowLeft,
+  ArrowRight
+} from 'lucide-react';
+import { useAdminStore } from '@/stores/admin-store';
+import { useCategoryStore } from '@/stores/category-store';
+import {
+  IMPORT_FIELDS,
+  LESSON_EXPORT_COLUMNS,
+  downloadFile,
+  exportAssets,
+  exportLessons,
+  getImportableAssets,
+  getImportableLessons,
+  guessMapping,
+  parseImportFile,
+  validateImportRows,
+  validateLessonImportRows,
+  type ColumnMapping,
+  type ParsedFile,
+  type TransferFormat,
+} from '@/lib/asset-transfer';
+import type { AssetStatus } from '@/types/database';
+
+type WizardStep = 'upload' | 'map' | 'preview' | 'done';
+type ExportScope = 'approved' | 'all';
+
+const STEPS: { id: WizardStep; label: string }[] = [
+  { id: 'upload', label: 'Upload' },
+  { id: 'map', label: 'Map Columns' },
+  { id: 'preview', label: 'Preview' },
+  { id: 'done', label: 'Done' },
+];
+
+export function ImportExportPage() {
+  const { assets, lessons, fetchAllAssets, fetchLessons, importAssets, isLoading, error, clearError } = useAdminStore();
+  const { categories, fetchCategories } = useCategoryStore();
+
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedFile | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [importStatus, setImportStatus] = useState<AssetStatus>('approved');
+  const [insertedCount, setInsertedCount] = useState(0);
+  const [skippedCount, setSkippedCount] = useState(0);
+
+  const [exportFormat, setExportFormat] = useState<TransferFormat>('csv');
+  const [exportScope, setExportScope] = useState<ExportScope>('approved');
+  const [includeAudio, setIncludeAudio] = useState(true);
+
+  useEffect(() => {
+    fetchAllAssets();
+    fetchLessons();
+    fetchCategories();
+  }, [fetchAllAssets, fetchLessons, fetchCategories]);
+
+  // Dry run: validate every row against the current database state
+  const importRows = useMemo(() => {
+    if (!parsed) return [];
+    return validateImportRows(parsed.rows, mapping, { categories, lessons, existingAssets: assets });
+  }, [parsed, mapping, categories, lessons, assets]);
+
+  const importable = useMemo(() => getImportableAssets(importRows), [importRows]);
+  const invalidCount = importRows.filter(row => row.errors.length > 0).length;
+  const duplicateCount = importRows.filter(row => row.asset && row.duplicate).length;
+  const missingRequired = IMPORT_FIELDS.filter(f => f.required && !mapping[f.field]);
+
+  const handleFile = async (file: File) => {
+    setParseError(null);
+    clearError();
+    try {
+      const format: TransferFormat = file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+      const result = parseImportFile(await file.text(), format);
+      if (result.rows.length === 0) throw new Error('The file has no rows to import');
+
+      setFileName(file.name);
+      setParsed(result);
+      setMapping(guessMapping(result.columns));
+      setStep('map');
+    } catch (err) {
+      setParseError(err instanceof Error ? err.message : 'Could not read the file');
+    }
+  };
+
+  const handleImport = async () => {
+    const skipped = importRows.length - importable.length;
+    const inserted = await importAssets(importable, importStatus);
+    if (inserted !== null) {
+      setInsertedCount(inserted);
+      setSkippedCount(skipped);
+      setStep('done');
+    }
+  };
+
+  const resetWizard = () => {
+    setStep('upload');
+    setFileName('');
+    setParsed(null);
+    setMapping({});
+    clearError();
+  };
+
+  const handleExportAssets = () => {
+    const selected = exportScope === 'approved' ? assets.filter(a => a.status === 'approved') : assets;
+    downloadFile(
+      exportAssets(selected, lessons, exportFormat, includeAudio),
+      `assets-${new Date().toISOString().slice(0, 10)}.${exportFormat}`,
+      exportFormat
+    );
+  };
+
+  const handleExportLessons = () => {
+    downloadFile(
+      exportLessons(lessons, exportFormat),
+      `lessons-${new Date().toISOString().slice(0, 10)}.${exportFormat}`,
+      exportFormat
+    );
+  };
+
+  const stepIndex = STEPS.findIndex(s => s.id === step);
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto">
+      <header className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-ohafia-sand-50 mb-2">Import & Export</h1>
+        <p className="text-gray-600 dark:text-ohafia-sand-300">
+          Add many assets or lessons at once from a spreadsheet, or download content as CSV or JSON
+        </p>
+      </header>
+
+      {/* Import Wizard */}
+      <div className="bg-white dark:bg-ohafia-earth-800 rounded-xl border border-gray-200 dark:border-ohafia-earth-700 overflow-hidden mb-6">
+        <div className="p-4 border-b border-gray-200 dark:border-ohafia-earth-700 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Upload className="w-5 h-5 text-ohafia-primary" />
+            <h2 className="font-semibold text-gray-900 dark:text-ohafia-sand-50">Import Assets</h2>
+          </div>
+          <ol className="hidden sm:flex items-center gap-2 text-xs">
+            {STEPS.map((s, i) => (
+              <li
+                key={s.id}
+                className={`px-2 py-1 rounded-full ${i === stepIndex
+                  ? 'bg-ohafia-primary text-white'
+                  : i < stepIndex
+                    ? 'bg-green-100 text-green-700'
+                    : 'bg-gray-100 dark:bg-ohafia-earth-700 text-gray-500 dark:text-ohafia-sand-400'}`}
+              >
+                {i + 1}. {s.label}
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        <div className="p-4">
+          {(parseError || error) && (
+            <div className="mb-4 flex items-start gap-2 p-3 rounded-xl bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+              <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              <span>{parseError || error}</span>
+            </div>
+          )}
+
+          {step === 'upload' && (
+            <label className="block border-2 border-dashed border-gray-200 dark:border-ohafia-earth-600 rounded-xl p-8 text-center cursor-pointer hover:border-ohafia-primary transition-colors">
+              <FileText className="w-12 h-12 text-gray-300 dark:text-ohafia-sand-600 mx-auto mb-3" />
+              <p className="font-medium text-gray-900 dark:text-ohafia-sand-50 mb-1">Choose a CSV or JSON file</p>
+              <p className="text-sm text-gray-500 dark:text-ohafia-sand-400">
+                CSV files need a header row. JSON files should be an array of objects. Separate tags with semicolons.
+              </p>
+              <input
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          )}
+
+          {step === 'map' && parsed && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600 dark:text-ohafia-sand-300">
+                <span className="font-medium">{fileName}</span> has {parsed.rows.length} rows.
+                Choose which column fills each field.
+              </p>
+              <div className="grid sm:grid-cols-2 gap-4">
+                {IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <div key={field}>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-ohafia-sand-300 mb-1">
+                      {label}{required && ' *'}
+                    </label>
+                    <select
+                      value={mapping[field] || ''}
+                      onChange={(e) => setMapping(prev => ({ ...prev, [field]: e.target.value || undefined }))}
+                      className="w-full px-3 py-2 rounded-xl border border-gray-200 dark:border-ohafia-earth-700 dark:bg-ohafia-earth-900 dark:text-ohafia-sand-50 focus:outline-none focus:ring-2 focus:ring-ohafia-primary"
+                    >
+                      <option value="">— Not imported —</option>
+                      {parsed.columns.map(column => (
+                        <option key={column} value={column}>{column}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-between pt-2">
+                <button onClick={resetWizard} className="btn-secondary flex items-center gap-2">
+                  <ArrowLeft className="w-4 h-4" />
+                  Back
+                </button>
+                <button
+                  onClick={() => setStep('preview')}
+                  disabled={missingRequired.length > 0}
+                  className="btn-primary flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Preview
+                  <ArrowRight className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <SummaryCard label="Ready to import" value={importable.length} className="text-green-600" />
+                <SummaryCard label="Duplicates (skipped)" value={duplicateCount} className="text-yellow-600" />
+                <SummaryCard label="Errors (skipped)" value={invalidCount} className="text-red-600" />
+              </div>
+
+              <div className="max-h-96 overflow-auto rounded-xl border border-gray-200 dark:border-ohafia-earth-700">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-ohafia-earth-900 sticky top-0">
+                    <tr className="text-left text-gray-500 dark:text-ohafia-sand-400">
+                      <th className="px-3 py-2 font-medium">Row</th>
+                      <th className="px-3 py-2 font-medium">Igbo</th>
+                      <th className="px-3 py-2 font-medium">English</th>
+                      <th className="px-3 py-2 font-medium">Type</th>
+                      <th className="px-3 py-2 font-medium">Result</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100 dark:divide-ohafia-earth-700">
+                    {importRows.map(row => {
+                      const source = parsed?.rows[row.line - 1] || {};
+                      return (
+                        <tr key={row.line} className="text-gray-900 dark:text-ohafia-sand-50">
+                          <td className="px-3 py-2 text-gray-400">{row.line}</td>
+                          <td className="px-3 py-2">{row.asset?.igbo_text ?? (mapping.igbo_text ? source[mapping.igbo_text] : '')}</td>
+                          <td className="px-3 py-2">{row.asset?.english_text ?? (mapping.english_text ? source[mapping.english_text] : '')}</td>
+                          <td className="px-3 py-2 text-gray-500 dark:text-ohafia-sand-400">{row.asset?.type ?? '—'}</td>
+                          <td className="px-3 py-2">
+                            {row.errors.length > 0 ? (
+                              <span className="flex items-start gap-1 text-red-600">
+                                <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                                {row.errors.join('; ')}
+                              </span>
+                            ) : row.duplicate ? (
+                              <span className="flex items-center gap-1 text-yellow-600">
+                                <Copy className="w-4 h-4" />
+                                {row.duplicate === 'existing' ? 'Already exists' : 'Repeated in file'}
+                              </span>
+                            ) : (
+                              <span className="flex items-center gap-1 text-green-600">
+                                <CheckCircle className="w-4 h-4" />
+                                Ready
+                              </span>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 pt-2">
+                <button onClick={() => setStep('map')} className="btn-secondary flex items-center gap-2">
+                  <ArrowLeft className="w-4 h-4" />
+                  Back
+                </button>
+                <div className="flex items-center gap-3">
+                  <select
+                    value={importStatus}
+                    onChange={(e) => setImportStatus(e.target.value as AssetStatus)}
+                    className="px-3 py-2 rounded-xl border border-gray-200 dark:border-ohafia-earth-700 dark:bg-ohafia-earth-900 dark:text-ohafia-sand-50 focus:outline-none focus:ring-2 focus:ring-ohafia-primary"
+                  >
+                    <option value="approved">Import as approved</option>
+                    <option value="pending">Import for review</option>
+                    <option value="draft">Import as drafts</option>
+                  </select>
+                  <button
+                    onClick={handleImport}
+                    disabled={isLoading || importable.length === 0}
+                    className="btn-primary flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                    Import {importable.length} {importable.length === 1 ? 'asset' : 'assets'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {step === 'done' && (
+            <div className="text-center py-8">
+              <CheckCircle className="w-12 h-12 text-green-600 mx-auto mb-3" />
+              <p className="font-semibold text-gray-900 dark:text-ohafia-sand-50 mb-1">
+                Imported {insertedCount} {insertedCount === 1 ? 'asset' : 'assets'}
+              </p>
+              <p className="text-sm text-gray-500 dark:text-ohafia-sand-400 mb-6">
+                {skippedCount > 0
+                  ? `${skippedCount} ${skippedCount === 1 ? 'row was' : 'rows were'} skipped.`
+                  : 'Every row was imported.'}
+              </p>
+              <button onClick={resetWizard} className="btn-secondary">
+                Import another file
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <LessonImport />
+
+      {/* Export */}
+      <div className="bg-white dark:bg-ohafia-earth-800 rounded-xl border border-gray-200 dark:border-ohafia-earth-700 overflow-hidden">
+        <div className="p-4 border-b border-gray-200 dark:border-ohafia-earth-700 flex items-center gap-3">
+          <Download className="w-5 h-5 text-ohafia-primary" />
+          <h2 className="font-semibold text-gray-900 dark:text-ohafia-sand-50">Export</h2>
+        </div>
+        <div className="p-4 space-y-4">
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-ohafia-sand-300 mb-1">Format</label>
+              <select
+                value={exportFormat}
+                onChange={(e) => setExportFormat(e.target.value as TransferFormat)}
+                className="w-full px-3 py-2 rounded-xl border border-gray-200 dark:border-ohafia-earth-700 dark:bg-ohafia-earth-900 dark:text-ohafia-sand-50 focus:outline-none focus:ring-2 focus:ring-ohafia-primary"
+              >
+                <option value="csv">CSV</option>
+                <option value="json">JSON</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-ohafia-sand-300 mb-1">Assets</label>
+              <select
+                value={exportScope}
+                onChange={(e) => setExportScope(e.target.value as ExportScope)}
+                className="w-full px-3 py-2 rounded-xl border border-gray-200 dark:border-ohafia-earth-700 dark:bg-ohafia-earth-900 dark:text-ohafia-sand-50 focus:outline-none focus:ring-2 focus:ring-ohafia-primary"
+              >
+                <option value="approved">Approved only</option>
+                <option value="all">All statuses</option>
+              </select>
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-ohafia-sand-300">
+            <input
+              type="checkbox"
+              checked={includeAudio}
+              onChange={(e) => setIncludeAudio(e.target.checked)}
+              className="rounded border-gray-300 text-ohafia-primary focus:ring-ohafia-primary"
+            />
+            Include audio URLs
+          </label>
+          <div className="flex flex-wrap gap-3">
+            <button onClick={handleExportAssets} disabled={assets.length === 0} className="btn-primary flex items-center gap-2 disabled:opacity-50">
+              <Download className="w-4 h-4" />
+              Export assets
+            </button>
+            <button onClick={handleExportLessons} disabled={lessons.length === 0} className="btn-secondary flex items-center gap-2 disabled:opacity-50">
+              <Download className="w-4 h-4" />
+              Export lessons
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+type LessonImportStep = 'upload' | 'preview' | 'done';
+
+// Lesson files use the lesson export's column names, so there's no mapping step
+function LessonImport() {
+  const { lessons, importLessons, isLoading, error, clearError } = useAdminStore();
+
+  const [step, setStep] = useState<LessonImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedFile | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [insertedCount, setInsertedCount] = useState(0);
+  const [skippedCount, setSkippedCount] = useState(0);
+
+  // Dry run: validate every row against the lessons already in the course
+  const importRows = useMemo(
+    () => (parsed ? validateLessonImportRows(parsed.rows, lessons) : []),
+    [parsed, lessons]
+  );
+  const importable = useMemo(() => getImportableLessons(importRows), [importRows]);
+  const invalidCount = importRows.filter(row => row.errors.length > 0).length;
+  const duplicateCount = importRows.filter(row => row.lesson && row.duplicate).length;
+
+  const handleFile = async (file: File) => {
+    setParseError(null);
+    clearError();
+    try {
+      const format: TransferFormat = file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+      const result = parseImportFile(await file.text(), format);
+      if (!result.columns.includes('title')) throw new Error('Lesson files need a "title" column');
+      if (result.rows.length === 0) throw new Error('The file has no rows to import');
+
+      setFileName(file.name);
+      setParsed(result);
+      setStep('preview');
+    } catch (err) {
+      setParseError(err instanceof Error ? err.message : 'Could not read the file');
+    }
+  };
+
+  const handleImport = async () => {
+    const skipped = importRows.length - importable.length;
+    const inserted = await importLessons(importable);
+    if (inserted !== null) {
+      setInsertedCount(inserted);
+      setSkippedCount(skipped);
+      setStep('done');
+    }
+  };
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setParsed(null);
+    clearError();
+  };
+
+  const shownError = parseError || (step === 'preview' ? error : null);
+
+  return (
+    <div className="bg-white dark:bg-ohafia-earth-800 rounded-xl border border-gray-200 dark:border-ohafia-earth-700 overflow-hidden mb-6">
+      <div className="p-4 border-b border-gray-200 dark:border-ohafia-earth-700 flex items-center gap-3">
+        <Upload className="w-5 h-5 text-ohafia-primary" />
+        <h2 className="font-semibold text-gray-900 dark:text-ohafia-sand-50">Import Lessons</h2>
+      </div>
+
+      <div className="p-4">
+        {shownError && (
+          <div className="mb-4 flex items-start gap-2 p-3 rounded-xl bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+            <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+            <span>{shownError}</span>
+          </div>
+        )}
+
+        {step === 'upload' && (
+          <label className="block border-2 border-dashed border-gray-200 dark:border-ohafia-earth-600 rounded-xl p-6 text-center cursor-pointer hover:border-ohafia-primary transition-colors">
+            <FileText className="w-10 h-10 text-gray-300 dark:text-ohafia-sand-600 mx-auto mb-3" />
+            <p className="font-medium text-gray-900 dark:text-ohafia-sand-50 mb-1">Choose a CSV or JSON file</p>
+            <p className="text-sm text-gray-500 dark:text-ohafia-sand-400">
+              Use the columns from a lesson export: {LESSON_EXPORT_COLUMNS.join(', ')}. Only title is required.
+            </p>
+            <input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-ohafia-sand-300">
+              <span className="font-medium">{fileName}</span> has {importRows.length} rows.
+            </p>
+            <div className="grid grid-cols-3 gap-4">
+              <SummaryCard label="Ready to import" value={importable.length} className="text-green-600" />
+              <SummaryCard label="Duplicates (skipped)" value={duplicateCount} className="text-yellow-600" />
+              <SummaryCard label="Errors (skipped)" value={invalidCount} className="text-red-600" />
+            </div>
+
+            <div className="max-h-96 overflow-auto rounded-xl border border-gray-200 dark:border-ohafia-earth-700">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-ohafia-earth-900 sticky top-0">
+                  <tr className="text-left text-gray-500 dark:text-ohafia-sand-400">
+                    <th className="px-3 py-2 font-medium">Row</th>
+                    <th className="px-3 py-2 font-medium">Title</th>
+                    <th className="px-3 py-2 font-medium">Difficulty</th>
+                    <th className="px-3 py-2 font-medium">Order</th>
+                    <th className="px-3 py-2 font-medium">Result</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 dark:divide-ohafia-earth-700">
+                  {importRows.map(row => (
+                    <tr key={row.line} className="text-gray-900 dark:text-ohafia-sand-50">
+                      <td className="px-3 py-2 text-gray-400">{row.line}</td>
+                      <td className="px-3 py-2">{row.lesson?.title ?? parsed?.rows[row.line - 1]?.title ?? ''}</td>
+                      <td className="px-3 py-2 text-gray-500 dark:text-ohafia-sand-400">{row.lesson?.difficulty ?? '—'}</td>
+                      <td className="px-3 py-2 text-gray-500 dark:text-ohafia-sand-400">{row.lesson?.order_index ?? '—'}</td>
+                      <td className="px-3 py-2">
+                        {row.errors.length > 0 ? (
+                          <span className="flex items-start gap-1 text-red-600">
+                            <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                            {row.errors.join('; ')}
+                          </span>
+                        ) : row.duplicate ? (
+                          <span className="flex items-center gap-1 text-yellow-600">
+                            <Copy className="w-4 h-4" />
+                            {row.duplicate === 'existing' ? 'Already exists' : 'Repeated in file'}
+                          </span>
+                        ) : (
+                          <span className="flex items-center gap-1 text-green-600">
+                            <CheckCircle className="w-4 h-4" />
+                            Ready
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-between pt-2">
+              <button onClick={reset} className="btn-secondary flex items-center gap-2">
+                <ArrowLeft className="w-4 h-4" />
+                Back
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={isLoading || importable.length === 0}
+                className="btn-primary flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                Import {importable.length} {importable.length === 1 ? 'lesson' : 'lessons'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'done' && (
+          <div className="text-center py-8">
+            <CheckCircle className="w-12 h-12 text-green-600 mx-auto mb-3" />
+            <p className="font-semibold text-gray-900 dark:text-ohafia-sand-50 mb-1">
+              Imported {insertedCount} {insertedCount === 1 ? 'lesson' : 'lessons'}
+            </p>
+            <p className="text-sm text-gray-500 dark:text-ohafia-sand-400 mb-6">
+              {skippedCount > 0
+                ? `${skippedCount} ${skippedCount === 1 ? 'row was' : 'rows were'} skipped.`
+                : 'Every row was imported.'}
+            </p>
+            <button onClick={reset} className="btn-secondary">
+              Import another file
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SummaryCard({ label, value, className }: { label: string; value: number; className: string }) {
+  return (
+    <div className="rounded-xl border border-gray-200 dark:border-ohafia-earth-700 p-3 text-center">
+      <p className={`text-2xl font-bold ${className}`}>{value}</p>
+      <p className="text-xs text-gray-500 dark:text-ohafia-sand-400">{label}</p>
+    </div>
+  );
+}
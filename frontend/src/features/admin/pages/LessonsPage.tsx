@@ -1,16 +1,19 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { 
   Plus,
   Edit,
   Trash2,
   GripVertical,
   BookOpen,
-  MoreVertical
+  MoreVertical,
+  Link2,
+  AlertCircle
 } from 'lucide-react';
 import { useAdminStore } from '@/stores/admin-store';
+import { findPrerequisiteCycle, getPrerequisiteIds } from '@/lib/lesson-graph';
 
 export function LessonsPage() {
-  const { lessons, fetchLessons, createLesson, updateLesson, deleteLesson, isLoading } = useAdminStore();
+  const { lessons, fetchLessons, createLesson, updateLesson, deleteLesson, isLoading, error, clearError } = useAdminStore();
   
   const [showModal, setShowModal] = useState(false);
   const [editingLesson, setEditingLesson] = useState<string | null>(null);
@@ -19,11 +22,14 @@ export function LessonsPage() {
     description: string;
     category: string;
     difficulty: 'beginner' | 'intermediate' | 'advanced';
+    // null follows course order (requires the previous lesson)
+    prerequisites: string[] | null;
   }>({
     title: '',
     description: '',
     category: '',
     difficulty: 'beginner',
+    prerequisites: null,
   });
   const [openMenu, setOpenMenu] = useState<string | null>(null);
 
@@ -31,8 +37,16 @@ export function LessonsPage() {
     fetchLessons();
   }, [fetchLessons]);
 
+  // Lesson titles along a cycle the current selection would create
+  const prerequisiteCycle = useMemo(() => {
+    if (!editingLesson || !formData.prerequisites) return null;
+    const cycle = findPrerequisiteCycle(editingLesson, formData.prerequisites, lessons);
+    return cycle?.map(id => lessons.find(l => l.id === id)?.title || 'Unknown lesson') || null;
+  }, [editingLesson, formData.prerequisites, lessons]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (prerequisiteCycle) return;
     
     if (editingLesson) {
       await updateLesson(editingLesson, formData);
@@ -43,11 +57,26 @@ export function LessonsPage() {
         is_published: false,
       });
     }
+
+    // The database rejects cycles too; keep the form open so the error shows
+    if (useAdminStore.getState().error) return;
     
     setShowModal(false);
     resetForm();
   };
 
+  const togglePrerequisite = (lessonId: string) => {
+    setFormData(prev => {
+      const current = prev.prerequisites || [];
+      return {
+        ...prev,
+        prerequisites: current.includes(lessonId)
+          ? current.filter(id => id !== lessonId)
+          : [...current, lessonId],
+      };
+    });
+  };
+
   const handleEdit = (lesson: typeof lessons[0]) => {
     setEditingLesson(lesson.id);
     const diff = lesson.difficulty || 'beginner';
@@ -57,7 +86,9 @@ export function LessonsPage() {
       description: lesson.description || '',
       category: lesson.category || '',
       difficulty: validDiff,
+      prerequisites: lesson.prerequisites,
     });
+    clearError();
     setShowModal(true);
     setOpenMenu(null);
   };
@@ -76,7 +107,9 @@ export function LessonsPage() {
       description: '',
       category: '',
       difficulty: 'beginner',
+      prerequisites: null,
     });
+    clearError();
   };
 
   const difficultyColors: Record<string, string> = {
@@ -155,6 +188,15 @@ export function LessonsPage() {
               </div>
 
               <div className="flex items-center gap-3">
+                {lesson.prerequisites && lesson.prerequisites.length > 0 && (
+                  <span
+                    className="px-2 py-1 text-xs rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400 flex items-center gap-1"
+                    title={lesson.prerequisites.map(id => lessons.find(l => l.id === id)?.title).filter(Boolean).join(', ')}
+                  >
+                    <Link2 className="w-3 h-3" />
+                    {lesson.prerequisites.length} {lesson.prerequisites.length === 1 ? 'prerequisite' : 'prerequisites'}
+                  </span>
+                )}
                 {lesson.difficulty && (
                   <span className={`px-2 py-1 text-xs rounded-full ${difficultyColors[lesson.difficulty]}`}>
                     {lesson.difficulty}
@@ -197,7 +239,7 @@ export function LessonsPage() {
       {/* Create/Edit Modal */}
       {showModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-          <div className="bg-white dark:bg-ohafia-earth-800 rounded-2xl max-w-md w-full p-6">
+          <div className="bg-white dark:bg-ohafia-earth-800 rounded-2xl max-w-md w-full p-6 max-h-[90vh] overflow-y-auto">
             <h3 className="text-lg font-semibold text-gray-900 dark:text-ohafia-sand-50 mb-4">
               {editingLesson ? 'Edit Lesson' : 'Create New Lesson'}
             </h3>
@@ -258,6 +300,67 @@ export function LessonsPage() {
                 </select>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-ohafia-sand-200 mb-1">
+                  Prerequisites
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-ohafia-sand-300 mb-2">
+                  <input
+                    type="checkbox"
+                    checked={formData.prerequisites === null}
+                    onChange={(e) => setFormData(prev => ({
+                      ...prev,
+                      prerequisites: e.target.checked
+                        ? null
+                        : editingLesson
+                          ? getPrerequisiteIds({ ...lessons.find(l => l.id === editingLesson)!, prerequisites: null }, lessons)
+                          : [],
+                    }))}
+                    className="rounded border-gray-300 text-ohafia-primary focus:ring-ohafia-primary"
+                  />
+                  Follow course order (requires the previous lesson)
+                </label>
+                {formData.prerequisites !== null && (
+                  <div className="max-h-40 overflow-y-auto rounded-xl border border-gray-200 dark:border-ohafia-earth-600 divide-y divide-gray-100 dark:divide-ohafia-earth-700">
+                    {lessons.filter(l => l.id !== editingLesson).length === 0 ? (
+                      <p className="px-3 py-2 text-sm text-gray-500 dark:text-ohafia-sand-400">No other lessons yet</p>
+                    ) : (
+                      lessons.filter(l => l.id !== editingLesson).map(lesson => (
+                        <label
+                          key={lesson.id}
+                          className="flex items-center gap-2 px-3 py-2 text-sm text-gray-700 dark:text-ohafia-sand-200 hover:bg-gray-50 dark:hover:bg-ohafia-earth-700 cursor-pointer"
+                        >
+                          <input
+                            type="checkbox"
+                            checked={formData.prerequisites?.includes(lesson.id) || false}
+                            onChange={() => togglePrerequisite(lesson.id)}
+                            className="rounded border-gray-300 text-ohafia-primary focus:ring-ohafia-primary"
+                          />
+                          <span className="truncate">{lesson.title}</span>
+                        </label>
+                      ))
+                    )}
+                  </div>
+                )}
+                {formData.prerequisites?.length === 0 && (
+                  <p className="text-xs text-gray-500 dark:text-ohafia-sand-400 mt-1">
+                    No prerequisites — this lesson is open from the start
+                  </p>
+                )}
+                {prerequisiteCycle && (
+                  <p className="text-xs text-red-600 dark:text-red-400 mt-2 flex items-start gap-1">
+                    <AlertCircle className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+                    <span>These prerequisites would create a cycle: {prerequisiteCycle.join(' → ')}</span>
+                  </p>
+                )}
+              </div>
+
+              {error && (
+                <div className="p-3 rounded-xl bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-400">
+                  {error}
+                </div>
+              )}
+
               <div className="flex gap-3 pt-4">
                 <button
                   type="button"
@@ -271,7 +374,7 @@ export function LessonsPage() {
                 </button>
                 <button
                   type="submit"
-                  disabled={!formData.title.trim() || isLoading}
+                  disabled={!formData.title.trim() || isLoading || !!prerequisiteCycle}
                   className="btn-primary flex-1"
                 >
                   {editingLesson ? 'Save Changes' : 'Create Lesson'}
@@ -7,25 +7,55 @@ import {
   Volume2,
   Clock,
   ChevronRight,
-  MessageSquare
+  MessageSquare,
+  AlertTriangle,
+  AlertCircle,
+  Users
 } from 'lucide-react';
 import { useAdminStore } from '@/stores/admin-store';
+import { useSettingsStore } from '@/stores/settings-store';
 import { useAuthStore } from '@/stores/auth-store';
-import type { Asset, Audio } from '@/types/database';
+import { AUDIO_QUALITY_CRITERIA, isQualityRubricComplete } from '@/lib/audio-quality';
+import { AudioQualityScores } from '@/components/ui/AudioQualityScores';
+import type { Asset, Audio, ReviewItemType, ReviewVote, SubmitReviewResult } from '@/types/database';
+
+// Rubric criteria scored 1-5 alongside each vote; audio quality scores
+// are required and averaged onto the submission
+const RUBRIC: Record<ReviewItemType, { key: string; label: string; hint?: string }[]> = {
+  asset: [
+    { key: 'accuracy', label: 'Translation accuracy' },
+    { key: 'spelling', label: 'Spelling & tone marks' },
+    { key: 'cultural', label: 'Cultural context' },
+  ],
+  audio: AUDIO_QUALITY_CRITERIA,
+};
 
 export function ReviewQueuePage() {
-  const { user } = useAuthStore();
-  const { reviewQueue, fetchReviewQueue, approveItem, rejectItem, isLoading } = useAdminStore();
+  const { profile } = useAuthStore();
+  const {
+    reviewQueue,
+    fetchReviewQueue,
+    submitReview,
+    isLoading,
+    error,
+    clearError,
+  } = useAdminStore();
+  const { settings: { minReviewsRequired }, fetchSettings } = useSettingsStore();
   
   const [selectedItem, setSelectedItem] = useState<string | null>(null);
   const [rejectReason, setRejectReason] = useState('');
   const [showRejectModal, setShowRejectModal] = useState(false);
+  const [rubricScores, setRubricScores] = useState<Record<string, number>>({});
+  const [reviewNotes, setReviewNotes] = useState('');
+  const [lastResult, setLastResult] = useState<SubmitReviewResult | null>(null);
   const [playingAudioId, setPlayingAudioId] = useState<string | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  const isAdmin = profile?.role === 'admin';
 
   useEffect(() => {
+    fetchSettings();
     fetchReviewQueue();
-  }, [fetchReviewQueue]);
+  }, [fetchSettings, fetchReviewQueue]);
 
   // Cleanup audio on unmount
   useEffect(() => {
@@ -37,21 +67,30 @@ export function ReviewQueuePage() {
     };
   }, []);
 
-  const handleApprove = async (id: string, type: 'asset' | 'audio') => {
-    if (!user) return;
-    await approveItem(id, type, user.id);
-    setSelectedItem(null);
+  const selectItem = (id: string | null) => {
+    setSelectedItem(id);
+    setRubricScores({});
+    setReviewNotes('');
+  };
+
+  const castVote = async (id: string, type: ReviewItemType, vote: ReviewVote, notes: string) => {
+    const result = await submitReview(id, type, vote, rubricScores, notes);
+    if (result) {
+      setLastResult(result);
+      selectItem(null);
+    }
+    return !!result;
   };
 
   const handleReject = async () => {
-    if (!user || !selectedItem || !rejectReason.trim()) return;
+    if (!selectedItem || !rejectReason.trim()) return;
     const item = reviewQueue.find(i => i.id === selectedItem);
     if (!item) return;
     
-    await rejectItem(selectedItem, item.type, user.id, rejectReason);
-    setShowRejectModal(false);
-    setRejectReason('');
-    setSelectedItem(null);
+    if (await castVote(selectedItem, item.type, 'reject', rejectReason)) {
+      setShowRejectModal(false);
+      setRejectReason('');
+    }
   };
 
   const openRejectModal = (id: string) => {
@@ -59,6 +98,13 @@ export function ReviewQueuePage() {
     setShowRejectModal(true);
   };
 
+  const describeResult = (result: SubmitReviewResult) => {
+    if (result.status === 'approved') return 'Vote recorded — the item is now approved.';
+    if (result.status === 'rejected') return 'Vote recorded — the item has been rejected.';
+    if (result.escalated) return 'Reviewers disagree, so this item has been escalated to an admin.';
+    return `Vote recorded — ${result.approvals + result.rejections} of ${result.quorum} matching votes so far.`;
+  };
+
   const playAudio = async (audioItem: Audio) => {
     try {
       // Stop currently playing audio
@@ -103,8 +149,31 @@ export function ReviewQueuePage() {
         <p className="text-gray-600 dark:text-ohafia-sand-300">
           Review and approve community contributions
         </p>
+        <p className="text-sm text-gray-500 dark:text-ohafia-sand-400 mt-1 flex items-center gap-1">
+          <Users className="w-4 h-4" />
+          {minReviewsRequired === 1
+            ? 'Items are decided by a single review'
+            : `Items are decided once ${minReviewsRequired} reviewers agree`}
+          {isAdmin && ' · your vote as an admin is final'}
+        </p>
       </header>
 
+      {error && (
+        <div className="flex items-start gap-3 p-4 mb-4 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-100 dark:border-red-800 text-red-700 dark:text-red-400">
+          <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+          <p className="flex-1 text-sm font-medium">{error}</p>
+          <button onClick={clearError} className="text-sm underline">Dismiss</button>
+        </div>
+      )}
+
+      {lastResult && (
+        <div className="flex items-start gap-3 p-4 mb-4 rounded-xl bg-blue-50 dark:bg-blue-900/20 border border-blue-100 dark:border-blue-800 text-blue-700 dark:text-blue-300">
+          <CheckCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+          <p className="flex-1 text-sm font-medium">{describeResult(lastResult)}</p>
+          <button onClick={() => setLastResult(null)} className="text-sm underline">Dismiss</button>
+        </div>
+      )}
+
       {isLoading ? (
         <div className="bg-white dark:bg-ohafia-earth-800 rounded-xl border border-gray-200 dark:border-ohafia-earth-700 p-8 text-center">
           <div className="w-8 h-8 border-4 border-ohafia-primary border-t-transparent rounded-full animate-spin mx-auto" />
@@ -120,6 +189,7 @@ export function ReviewQueuePage() {
         <div className="space-y-4">
           {reviewQueue.map(item => {
             const asset = item.type === 'asset' ? item.item as Asset : null;
+            const needsQualityScores = item.type === 'audio' && !isQualityRubricComplete(rubricScores);
             
             return (
               <div 
@@ -130,7 +200,7 @@ export function ReviewQueuePage() {
                     : 'border-gray-200 dark:border-ohafia-earth-700 hover:border-gray-300 dark:hover:border-ohafia-earth-600'}`}
               >
                 <button
-                  onClick={() => setSelectedItem(selectedItem === item.id ? null : item.id)}
+                  onClick={() => selectItem(selectedItem === item.id ? null : item.id)}
                   className="w-full p-4 flex items-center justify-between text-left"
                 >
                   <div className="flex items-center gap-4">
@@ -152,6 +222,25 @@ export function ReviewQueuePage() {
                     </div>
                   </div>
                   <div className="flex items-center gap-3">
+                    {item.escalated && (
+                      <span className="flex items-center gap-1 px-2 py-0.5 text-xs rounded-full bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-400">
+                        <AlertTriangle className="w-3 h-3" />
+                        Needs admin
+                      </span>
+                    )}
+                    {item.reviews.length > 0 && (
+                      <span className="flex items-center gap-2 text-xs text-gray-500 dark:text-ohafia-sand-400" title="Approve / reject votes">
+                        <span className="flex items-center gap-0.5 text-green-600 dark:text-green-400">
+                          <CheckCircle className="w-3.5 h-3.5" />
+                          {item.approvals}
+                        </span>
+                        <span className="flex items-center gap-0.5 text-red-600 dark:text-red-400">
+                          <XCircle className="w-3.5 h-3.5" />
+                          {item.rejections}
+                        </span>
+                        <span>/ {minReviewsRequired}</span>
+                      </span>
+                    )}
                     <span className="flex items-center gap-1 text-sm text-gray-500 dark:text-ohafia-sand-400">
                       <Clock className="w-4 h-4" />
                       {new Date(item.submittedAt).toLocaleDateString()}
@@ -216,17 +305,98 @@ export function ReviewQueuePage() {
                       )}
                     </div>
 
+                    {/* Votes so far */}
+                    {item.reviews.length > 0 && (
+                      <div className="py-4 border-t border-gray-100 dark:border-ohafia-earth-700 space-y-2">
+                        <p className="text-sm font-medium text-gray-700 dark:text-ohafia-sand-200">Votes so far</p>
+                        {item.type === 'audio' && <AudioQualityScores quality={item.item as Audio} />}
+                        {item.reviews.map(review => {
+                          const scores = Object.values(review.rubric || {});
+                          const average = scores.length > 0
+                            ? (scores.reduce((sum, score) => sum + score, 0) / scores.length).toFixed(1)
+                            : null;
+
+                          return (
+                            <div key={review.id} className="flex items-start gap-2 text-sm">
+                              {review.vote === 'approve' ? (
+                                <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0 mt-0.5" />
+                              ) : (
+                                <XCircle className="w-4 h-4 text-red-500 flex-shrink-0 mt-0.5" />
+                              )}
+                              <div className="flex-1 min-w-0">
+                                <span className="font-medium text-gray-900 dark:text-ohafia-sand-50">
+                                  {review.reviewer?.display_name || 'Reviewer'}
+                                </span>
+                                {average && (
+                                  <span className="text-gray-500 dark:text-ohafia-sand-400"> · rubric {average}/5</span>
+                                )}
+                                {review.notes && (
+                                  <p className="text-gray-600 dark:text-ohafia-sand-300 break-words">{review.notes}</p>
+                                )}
+                              </div>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+
+                    {/* Rubric */}
+                    <div className="py-4 border-t border-gray-100 dark:border-ohafia-earth-700 space-y-3">
+                      {RUBRIC[item.type].map(criterion => (
+                        <div key={criterion.key} className="flex items-center justify-between gap-4">
+                          <div>
+                            <span className="text-sm text-gray-700 dark:text-ohafia-sand-200">{criterion.label}</span>
+                            {criterion.hint && (
+                              <p className="text-xs text-gray-400 dark:text-ohafia-sand-500">{criterion.hint}</p>
+                            )}
+                          </div>
+                          <div className="flex gap-1">
+                            {[1, 2, 3, 4, 5].map(score => (
+                              <button
+                                key={score}
+                                type="button"
+                                onClick={() => setRubricScores(prev => ({ ...prev, [criterion.key]: score }))}
+                                className={`w-8 h-8 rounded-lg text-sm font-medium transition-colors
+                                  ${rubricScores[criterion.key] === score
+                                    ? 'bg-ohafia-primary text-white'
+                                    : 'bg-gray-100 dark:bg-ohafia-earth-700 text-gray-600 dark:text-ohafia-sand-300 hover:bg-gray-200 dark:hover:bg-ohafia-earth-600'}`}
+                              >
+                                {score}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                      <textarea
+                        value={reviewNotes}
+                        onChange={(e) => setReviewNotes(e.target.value)}
+                        placeholder="Notes for other reviewers (optional)"
+                        rows={2}
+                        className="w-full px-4 py-2 rounded-xl border border-gray-200 dark:border-ohafia-earth-700 dark:bg-ohafia-earth-900 dark:text-ohafia-sand-50 text-sm focus:outline-none focus:ring-2 focus:ring-ohafia-primary focus:border-transparent"
+                      />
+                    </div>
+
+                    {needsQualityScores && (
+                      <p className="pb-3 text-sm text-amber-600 dark:text-amber-400">
+                        Rate every quality criterion before voting.
+                      </p>
+                    )}
+
                     <div className="flex gap-3 pt-4 border-t border-gray-100 dark:border-ohafia-earth-700">
                       <button
-                        onClick={() => handleApprove(item.id, item.type)}
-                        disabled={isLoading}
+                        onClick={() => castVote(item.id, item.type, 'approve', reviewNotes)}
+                        disabled={isLoading || needsQualityScores}
                         className="btn-primary flex items-center gap-2"
                       >
                         <CheckCircle className="w-4 h-4" />
                         Approve
                       </button>
                       <button
-                        onClick={() => openRejectModal(item.id)}
+                        onClick={() => {
+                          setRejectReason(reviewNotes);
+                          openRejectModal(item.id);
+                        }}
+                        disabled={needsQualityScores}
                         className="btn-secondary flex items-center gap-2 text-red-600 border-red-200 hover:bg-red-50"
                       >
                         <XCircle className="w-4 h-4" />
@@ -1,28 +1,37 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { 
   Globe,
   Bell,
   Shield,
   Database,
-  Save
+  Save,
+  Loader2,
+  AlertCircle,
+  CheckCircle
 } from 'lucide-react';
+import { useSettingsStore, type AppSettings } from '@/stores/settings-store';
 
 export function SettingsPage() {
-  const [settings, setSettings] = useState({
-    siteName: 'Asụsụ Ohafia',
-    siteDescription: 'Learn Igbo (Ohafia Dialect)',
-    maintenanceMode: false,
-    allowRegistration: true,
-    requireEmailVerification: true,
-    autoApproveContributors: false,
-    minReviewsRequired: 1,
-    enableAudioRecording: true,
-    enableAIAssist: false,
-  });
+  const { settings: savedSettings, isSaving, error, fetchSettings, saveSettings, clearError } = useSettingsStore();
+  const [settings, setSettings] = useState<AppSettings>(savedSettings);
+  const [isSaved, setIsSaved] = useState(false);
 
-  const handleSave = () => {
-    // In production, this would save to Supabase
-    alert('Settings saved successfully!');
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  // Pick up the stored values once they arrive
+  useEffect(() => {
+    setSettings(savedSettings);
+  }, [savedSettings]);
+
+  const isDirty = (Object.keys(settings) as (keyof AppSettings)[])
+    .some(key => settings[key] !== savedSettings[key]);
+
+  const handleSave = async () => {
+    clearError();
+    const saved = await saveSettings(settings);
+    setIsSaved(saved);
   };
 
   return (
@@ -129,7 +138,7 @@ export function SettingsPage() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="font-medium text-gray-900">Auto-approve Contributors</p>
-                <p className="text-sm text-gray-500">Skip review for trusted contributors</p>
+                <p className="text-sm text-gray-500">Approve contributor role requests automatically</p>
               </div>
               <button
                 onClick={() => setSettings(prev => ({ ...prev, autoApproveContributors: !prev.autoApproveContributors }))}
@@ -196,13 +205,26 @@ export function SettingsPage() {
         </div>
 
         {/* Save Button */}
-        <div className="flex justify-end">
+        <div className="flex items-center justify-end gap-4">
+          {error && (
+            <p className="flex items-center gap-2 text-sm text-red-600">
+              <AlertCircle className="w-4 h-4" />
+              {error}
+            </p>
+          )}
+          {isSaved && !isDirty && (
+            <p className="flex items-center gap-2 text-sm text-green-600">
+              <CheckCircle className="w-4 h-4" />
+              Settings saved
+            </p>
+          )}
           <button
             onClick={handleSave}
+            disabled={isSaving}
             className="btn-primary flex items-center gap-2"
           >
-            <Save className="w-4 h-4" />
-            Save Changes
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            {isSaving ? 'Saving...' : 'Save Changes'}
           </button>
         </div>
       </div>
@@ -1,10 +1,11 @@
 import { useState } from 'react';
 import { useNavigate, Navigate } from 'react-router-dom';
-import { ArrowRight, User, Target, Sparkles, CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
+import { ArrowRight, User, Target, Sparkles, CheckCircle, AlertCircle, Loader2, Compass } from 'lucide-react';
 import { useAuthStore } from '@/stores/auth-store';
 import type { AgeGroup, LearningStyle } from '@/types/database';
+import { DAILY_MINUTES_OPTIONS, DEFAULT_DAILY_MINUTES } from '@/lib/daily-plan';
 
-const steps = ['Profile', 'Goals', 'Style'];
+const steps = ['Profile', 'Goals', 'Style', 'Level'];
 
 const goals = [
   { id: 'speak', label: 'Speak fluently', icon: '🗣️' },
@@ -38,7 +39,9 @@ export function OnboardingPage() {
   const [fullName, setFullName] = useState(existingName);
   const [ageGroup, setAgeGroup] = useState<AgeGroup | null>(null);
   const [selectedGoals, setSelectedGoals] = useState<string[]>([]);
+  const [dailyMinutes, setDailyMinutes] = useState(DEFAULT_DAILY_MINUTES);
   const [learningStyle, setLearningStyle] = useState<LearningStyle | null>(null);
+  const [takePlacement, setTakePlacement] = useState<boolean | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   // Redirect if not authenticated or already onboarded
@@ -58,6 +61,8 @@ export function OnboardingPage() {
         return selectedGoals.length >= 1;
       case 2:
         return learningStyle !== null;
+      case 3:
+        return takePlacement !== null;
       default:
         return false;
     }
@@ -75,8 +80,14 @@ export function OnboardingPage() {
           ageGroup: ageGroup!,
           learningStyle: learningStyle!,
           goals: selectedGoals,
+          dailyMinutes,
         });
-        navigate('/home');
+        // The placement test runs once the profile exists
+        if (takePlacement) {
+          navigate('/placement', { state: { fromOnboarding: true } });
+        } else {
+          navigate('/home');
+        }
       } catch (err) {
         console.error('Onboarding error:', err);
         setError(err instanceof Error ? err.message : 'Failed to save your preferences. Please try again.');
@@ -199,6 +210,28 @@ export function OnboardingPage() {
                 </button>
               ))}
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-ohafia-earth-700 mb-3">
+                Daily practice goal
+              </label>
+              <div className="grid grid-cols-5 gap-2">
+                {DAILY_MINUTES_OPTIONS.map((minutes) => (
+                  <button
+                    key={minutes}
+                    type="button"
+                    onClick={() => setDailyMinutes(minutes)}
+                    className={`py-3 rounded-xl border-2 text-center transition-all duration-200
+                      ${dailyMinutes === minutes 
+                        ? 'border-ohafia-primary-500 bg-ohafia-primary-50' 
+                        : 'border-ohafia-sand-200 bg-white hover:border-ohafia-primary-200'}`}
+                  >
+                    <span className="block font-semibold text-ohafia-earth-800">{minutes}</span>
+                    <span className="block text-xs text-ohafia-earth-500">min</span>
+                  </button>
+                ))}
+              </div>
+            </div>
           </div>
         )}
 
@@ -238,6 +271,46 @@ export function OnboardingPage() {
             </div>
           </div>
         )}
+
+        {step === 3 && (
+          <div className="space-y-6">
+            <div className="text-center mb-8">
+              <div className="w-16 h-16 rounded-2xl bg-ohafia-primary-100 flex items-center justify-center mx-auto mb-4">
+                <Compass className="w-8 h-8 text-ohafia-primary-600" />
+              </div>
+              <h1 className="font-display text-2xl font-bold text-ohafia-earth-900 mb-2">
+                How much Igbo do you know?
+              </h1>
+              <p className="text-ohafia-earth-600">A short test can skip lessons you already know</p>
+            </div>
+
+            <div className="space-y-3">
+              {[
+                { id: false, label: "I'm new to Igbo", description: 'Start from the first lesson', icon: '🌱' },
+                { id: true, label: 'I know some already', description: 'Take a quick placement test', icon: '🧭' },
+              ].map((option) => (
+                <button
+                  key={option.label}
+                  type="button"
+                  onClick={() => setTakePlacement(option.id)}
+                  className={`w-full p-4 rounded-xl border-2 text-left transition-all duration-200 flex items-center gap-4
+                    ${takePlacement === option.id 
+                      ? 'border-ohafia-primary-500 bg-ohafia-primary-50' 
+                      : 'border-ohafia-sand-200 bg-white hover:border-ohafia-primary-200'}`}
+                >
+                  <span className="text-3xl">{option.icon}</span>
+                  <div>
+                    <span className="font-semibold text-ohafia-earth-800 block">{option.label}</span>
+                    <span className="text-sm text-ohafia-earth-500">{option.description}</span>
+                  </div>
+                  {takePlacement === option.id && (
+                    <CheckCircle className="w-6 h-6 text-ohafia-primary-500 ml-auto" />
+                  )}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Navigation */}
@@ -253,7 +326,7 @@ export function OnboardingPage() {
               Saving your preferences...
             </span>
           ) : step === steps.length - 1 ? (
-            '🎉 Start learning'
+            takePlacement ? 'Continue to placement test' : '🎉 Start learning'
           ) : (
             <span className="flex items-center justify-center gap-2">
               Continue
@@ -1,11 +1,13 @@
 import { useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { ArrowLeft, Mail, Lock, Eye, EyeOff, AlertCircle, CheckCircle, Loader2, User, MailCheck } from 'lucide-react';
+import { ArrowLeft, Mail, Lock, Eye, EyeOff, AlertCircle, CheckCircle, Loader2, User, MailCheck, UserX } from 'lucide-react';
 import { useAuthStore } from '@/stores/auth-store';
+import { useSettingsStore } from '@/stores/settings-store';
 
 export function SignUpPage() {
   const navigate = useNavigate();
   const { signUp, error, clearError } = useAuthStore();
+  const { allowRegistration } = useSettingsStore(state => state.settings);
   
   const [displayName, setDisplayName] = useState('');
   const [email, setEmail] = useState('');
@@ -102,6 +104,40 @@ export function SignUpPage() {
 
   const displayError = formatErrorMessage(error) || validationError;
 
+  // New accounts are turned off in admin settings; the database rejects them too
+  if (!allowRegistration) {
+    return (
+      <div className="min-h-screen flex flex-col px-6 py-8 bg-gradient-to-b from-ohafia-sand-50 to-white dark:from-ohafia-earth-900 dark:to-ohafia-earth-800">
+        {/* Header */}
+        <div className="flex items-center mb-8">
+          <Link to="/" className="p-2 -ml-2 rounded-xl hover:bg-ohafia-sand-200 dark:hover:bg-ohafia-earth-700 transition-colors">
+            <ArrowLeft className="w-6 h-6 text-ohafia-earth-700 dark:text-ohafia-sand-300" />
+          </Link>
+        </div>
+
+        <div className="flex-1 flex flex-col items-center justify-center max-w-md mx-auto w-full text-center">
+          <div className="w-24 h-24 rounded-full bg-ohafia-sand-200 dark:bg-ohafia-earth-700 flex items-center justify-center mb-6">
+            <UserX className="w-12 h-12 text-ohafia-earth-600 dark:text-ohafia-sand-300" />
+          </div>
+
+          <h1 className="font-display text-3xl font-bold text-ohafia-earth-900 dark:text-ohafia-sand-50 mb-3">
+            Registration is closed
+          </h1>
+          <p className="text-lg text-ohafia-earth-600 dark:text-ohafia-sand-300 mb-8">
+            We're not accepting new accounts right now. Please check back later.
+          </p>
+
+          <Link
+            to="/auth/sign-in"
+            className="block w-full py-3 text-center text-ohafia-primary-600 dark:text-ohafia-primary-400 font-medium hover:text-ohafia-primary-700 dark:hover:text-ohafia-primary-300"
+          >
+            Already have an account? Sign in →
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
   // Show email verification message after successful signup
   if (showEmailSent) {
     return (
@@ -11,10 +11,12 @@ import {
 import { Link } from 'react-router-dom';
 import { useContributorStore } from '@/stores/contributor-store';
 import { useAuthStore } from '@/stores/auth-store';
+import { useSettingsStore } from '@/stores/settings-store';
 
 export function ContributorDashboard() {
   const { user } = useAuthStore();
   const { stats, myAssets, fetchMyContributions, fetchStats } = useContributorStore();
+  const { enableAudioRecording } = useSettingsStore(state => state.settings);
 
   useEffect(() => {
     if (user) {
@@ -114,22 +116,24 @@ export function ContributorDashboard() {
           </div>
         </Link>
 
-        <Link
-          to="/contributor/record"
-          className="card p-6 hover:shadow-md transition-shadow group"
-        >
-          <div className="flex items-center gap-4">
-            <div className="w-12 h-12 rounded-xl bg-purple-100 flex items-center justify-center group-hover:bg-purple-200 transition-colors">
-              <Mic className="w-6 h-6 text-purple-600" />
-            </div>
-            <div>
-              <h3 className="font-semibold text-ohafia-earth-900 dark:text-ohafia-sand-50">Recording Studio</h3>
-              <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400">
-                Record audio for existing assets
-              </p>
+        {enableAudioRecording && (
+          <Link
+            to="/contributor/record"
+            className="card p-6 hover:shadow-md transition-shadow group"
+          >
+            <div className="flex items-center gap-4">
+              <div className="w-12 h-12 rounded-xl bg-purple-100 flex items-center justify-center group-hover:bg-purple-200 transition-colors">
+                <Mic className="w-6 h-6 text-purple-600" />
+              </div>
+              <div>
+                <h3 className="font-semibold text-ohafia-earth-900 dark:text-ohafia-sand-50">Recording Studio</h3>
+                <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400">
+                  Record audio for existing assets
+                </p>
+              </div>
             </div>
-          </div>
-        </Link>
+          </Link>
+        )}
       </div>
 
       {/* Contribution Tips */}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { 
   ArrowLeft, 
@@ -14,9 +14,13 @@ import {
 import { useContributorStore } from '@/stores/contributor-store';
 import { useCategoryStore } from '@/stores/category-store';
 import { useAuthStore } from '@/stores/auth-store';
+import { useProverbStore } from '@/stores/proverb-store';
+import { useSettingsStore } from '@/stores/settings-store';
 import { useAudioPlayer } from '@/lib/audio-service';
-
-type AssetType = 'word' | 'phrase' | 'sentence' | 'proverb' | 'greeting';
+import { IgboCharacterPalette } from '@/components/ui/IgboCharacterPalette';
+import { DialogueEditor } from '@/components/assets/DialogueEditor';
+import { cleanDialogue, createEmptyDialogue, validateDialogue } from '@/lib/dialogue';
+import type { AssetType, Dialogue } from '@/types/database';
 
 const assetTypes: { value: AssetType; label: string; description: string }[] = [
   { value: 'word', label: 'Word', description: 'Single vocabulary word' },
@@ -24,22 +28,37 @@ const assetTypes: { value: AssetType; label: string; description: string }[] = [
   { value: 'sentence', label: 'Sentence', description: 'Complete sentence' },
   { value: 'proverb', label: 'Proverb', description: 'Traditional Igbo proverb' },
   { value: 'greeting', label: 'Greeting', description: 'Cultural greeting' },
+  { value: 'dialogue', label: 'Dialogue', description: 'Short conversation between speakers' },
 ];
 
 export function CreateAssetPage() {
   const navigate = useNavigate();
   const { user, profile } = useAuthStore();
-  const { createAsset, isLoading, error } = useContributorStore();
+  const { createAsset, updateAsset, uploadDialogueAudio, isLoading, error } = useContributorStore();
   const { categories, fetchCategories, createCategory } = useCategoryStore();
   const { speak, stop, isPlaying, isAvailable: ttsAvailable } = useAudioPlayer();
+  const { proverbs, fetchProverbs } = useProverbStore();
+  const { enableAIAssist } = useSettingsStore(state => state.settings);
 
   const [assetType, setAssetType] = useState<AssetType>('word');
   const [igboText, setIgboText] = useState('');
+  const igboInputRef = useRef<HTMLInputElement>(null);
   const [englishText, setEnglishText] = useState('');
   const [pronunciation, setPronunciation] = useState('');
   const [culturalNote, setCulturalNote] = useState('');
   const [category, setCategory] = useState('');
   const [showPreview, setShowPreview] = useState(false);
+  const [dialogue, setDialogue] = useState<Dialogue>(createEmptyDialogue);
+  const [turnAudio, setTurnAudio] = useState<Record<string, Blob>>({});
+  const [dialogueError, setDialogueError] = useState<string | null>(null);
+
+  const [literalTranslation, setLiteralTranslation] = useState('');
+  const [figurativeMeaning, setFigurativeMeaning] = useState('');
+  const [usageContext, setUsageContext] = useState('');
+  const [relatedProverbIds, setRelatedProverbIds] = useState<string[]>([]);
+
+  const isDialogue = assetType === 'dialogue';
+  const isProverb = assetType === 'proverb';
   
   // New category modal state
   const [showNewCategoryModal, setShowNewCategoryModal] = useState(false);
@@ -55,6 +74,11 @@ export function CreateAssetPage() {
     fetchCategories();
   }, [fetchCategories]);
 
+  // Published proverbs to link as related
+  useEffect(() => {
+    if (isProverb) fetchProverbs();
+  }, [isProverb, fetchProverbs]);
+
   // Handle text-to-speech for the Igbo text
   const handleSpeak = (text: string) => {
     if (isPlaying) {
@@ -95,9 +119,24 @@ export function CreateAssetPage() {
     }
   };
 
+  const handleTurnAudioChange = (turnId: string, blob: Blob | null) => {
+    setTurnAudio(prev => {
+      const next = { ...prev };
+      if (blob) next[turnId] = blob;
+      else delete next[turnId];
+      return next;
+    });
+  };
+
   const handleSubmit = async (asDraft: boolean = true) => {
     if (!user || !igboText.trim() || !englishText.trim()) return;
 
+    if (isDialogue) {
+      const problem = validateDialogue(dialogue);
+      setDialogueError(problem);
+      if (problem) return;
+    }
+
     console.log('Submitting asset with:', {
       type: assetType,
       igbo_text: igboText.trim(),
@@ -115,10 +154,26 @@ export function CreateAssetPage() {
       category: category.trim() || null,
       created_by: user.id,
       status: asDraft ? 'draft' : 'pending',
+      dialogue: isDialogue ? cleanDialogue(dialogue) : null,
+      literal_translation: isProverb ? literalTranslation.trim() || null : null,
+      figurative_meaning: isProverb ? figurativeMeaning.trim() || null : null,
+      usage_context: isProverb ? usageContext.trim() || null : null,
+      related_proverb_ids: isProverb && relatedProverbIds.length > 0 ? relatedProverbIds : null,
     });
 
     console.log('Asset created result:', asset);
 
+    // Turn clips are stored under the asset's id, so upload them once it exists
+    if (asset?.dialogue && Object.keys(turnAudio).length > 0) {
+      const turns = await Promise.all(asset.dialogue.turns.map(async turn => {
+        const clip = turnAudio[turn.id];
+        if (!clip) return turn;
+        const audioUrl = await uploadDialogueAudio(clip, asset.id, turn.id, user.id);
+        return audioUrl ? { ...turn, audio_url: audioUrl } : turn;
+      }));
+      await updateAsset(asset.id, { dialogue: { ...asset.dialogue, turns } });
+    }
+
     if (asset) {
       navigate('/contributor/my-assets');
     }
@@ -154,7 +209,7 @@ export function CreateAssetPage() {
           <label className="block text-sm font-medium text-ohafia-earth-700 dark:text-ohafia-sand-200 mb-3">
             Asset Type
           </label>
-          <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
             {assetTypes.map(type => (
               <button
                 key={type.value}
@@ -173,10 +228,11 @@ export function CreateAssetPage() {
         {/* Igbo Text */}
         <div className="mb-4">
           <label className="block text-sm font-medium text-ohafia-earth-700 dark:text-ohafia-sand-200 mb-2">
-            Igbo Text (Ohafia Dialect) *
+            {isDialogue ? 'Title in Igbo *' : 'Igbo Text (Ohafia Dialect) *'}
           </label>
           <div className="flex gap-2">
             <input
+              ref={igboInputRef}
               type="text"
               value={igboText}
               onChange={(e) => setIgboText(e.target.value)}
@@ -203,6 +259,7 @@ export function CreateAssetPage() {
               </button>
             )}
           </div>
+          <IgboCharacterPalette inputRef={igboInputRef} value={igboText} onChange={setIgboText} />
           <p className="text-xs text-ohafia-earth-500 dark:text-ohafia-sand-400 mt-1">
             {ttsAvailable 
               ? 'Click the speaker icon to hear an approximation of the pronunciation' 
@@ -213,7 +270,7 @@ export function CreateAssetPage() {
         {/* English Translation */}
         <div className="mb-4">
           <label className="block text-sm font-medium text-ohafia-earth-700 dark:text-ohafia-sand-200 mb-2">
-            English Translation *
+            {isDialogue ? 'Title in English *' : 'English Translation *'}
           </label>
           <div className="flex gap-2">
             <input
@@ -245,6 +302,101 @@ export function CreateAssetPage() {
           </div>
         </div>
 
+        {/* Dialogue speakers and lines */}
+        {isDialogue && (
+          <div className="mb-4">
+            {dialogueError && (
+              <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-xl text-red-700 text-sm">
+                {dialogueError}
+              </div>
+            )}
+            <DialogueEditor
+              dialogue={dialogue}
+              onChange={setDialogue}
+              turnAudio={turnAudio}
+              onTurnAudioChange={handleTurnAudioChange}
+            />
+          </div>
+        )}
+
+        {/* Proverb details */}
+        {isProverb && (
+          <div className="mb-4 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-ohafia-earth-700 dark:text-ohafia-sand-200 mb-2">
+                Literal Translation <span className="text-ohafia-earth-400 dark:text-ohafia-sand-500 font-normal">(Optional)</span>
+              </label>
+              <input
+                type="text"
+                value={literalTranslation}
+                onChange={(e) => setLiteralTranslation(e.target.value)}
+                placeholder="Word-for-word translation..."
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-ohafia-earth-700 dark:text-ohafia-sand-200 mb-2">
+                Figurative Meaning <span className="text-ohafia-earth-400 dark:text-ohafia-sand-500 font-normal">(Optional)</span>
+              </label>
+              <textarea
+                value={figurativeMeaning}
+                onChange={(e) => setFigurativeMeaning(e.target.value)}
+                placeholder="What the proverb really means..."
+                rows={2}
+                className="input"
+              />
+              <p className="text-xs text-ohafia-earth-500 dark:text-ohafia-sand-400 mt-1">
+                Learners guess this meaning in proverb study
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-ohafia-earth-700 dark:text-ohafia-sand-200 mb-2">
+                Usage Context <span className="text-ohafia-earth-400 dark:text-ohafia-sand-500 font-normal">(Optional)</span>
+              </label>
+              <textarea
+                value={usageContext}
+                onChange={(e) => setUsageContext(e.target.value)}
+                placeholder="When and by whom is it said?"
+                rows={2}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-ohafia-earth-700 dark:text-ohafia-sand-200 mb-2">
+                Related Proverbs <span className="text-ohafia-earth-400 dark:text-ohafia-sand-500 font-normal">(Optional)</span>
+              </label>
+              {relatedProverbIds.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-2">
+                  {relatedProverbIds.map(id => (
+                    <span key={id} className="badge-primary flex items-center gap-1 igbo-text">
+                      {proverbs.find(p => p.id === id)?.igbo_text || 'Proverb'}
+                      <button
+                        type="button"
+                        onClick={() => setRelatedProverbIds(relatedProverbIds.filter(relatedId => relatedId !== id))}
+                        title="Remove"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+              <select
+                value=""
+                onChange={(e) => e.target.value && setRelatedProverbIds([...relatedProverbIds, e.target.value])}
+                className="input"
+              >
+                <option value="">Add a related proverb...</option>
+                {proverbs
+                  .filter(p => !relatedProverbIds.includes(p.id))
+                  .map(p => (
+                    <option key={p.id} value={p.id}>{p.igbo_text}</option>
+                  ))}
+              </select>
+            </div>
+          </div>
+        )}
+
         {/* Pronunciation Guide */}
         <div className="mb-4">
           <label className="block text-sm font-medium text-ohafia-earth-700 dark:text-ohafia-sand-200 mb-2">
@@ -310,17 +462,19 @@ export function CreateAssetPage() {
         </div>
 
         {/* AI Assistance Banner */}
-        <div className="mb-6 p-4 bg-gradient-to-r from-purple-50 to-blue-50 dark:from-purple-900/20 dark:to-blue-900/20 rounded-xl border border-purple-200 dark:border-purple-800">
-          <div className="flex items-start gap-3">
-            <Sparkles className="w-5 h-5 text-purple-500 dark:text-purple-400 flex-shrink-0 mt-0.5" />
-            <div>
-              <p className="font-medium text-purple-900 dark:text-purple-200 text-sm">AI Assistance Available</p>
-              <p className="text-xs text-purple-700 dark:text-purple-300 mt-1">
-                Coming soon: Get suggestions for pronunciation guides and cultural context
-              </p>
+        {enableAIAssist && (
+          <div className="mb-6 p-4 bg-gradient-to-r from-purple-50 to-blue-50 dark:from-purple-900/20 dark:to-blue-900/20 rounded-xl border border-purple-200 dark:border-purple-800">
+            <div className="flex items-start gap-3">
+              <Sparkles className="w-5 h-5 text-purple-500 dark:text-purple-400 flex-shrink-0 mt-0.5" />
+              <div>
+                <p className="font-medium text-purple-900 dark:text-purple-200 text-sm">AI Assistance Available</p>
+                <p className="text-xs text-purple-700 dark:text-purple-300 mt-1">
+                  Coming soon: Get suggestions for pronunciation guides and cultural context
+                </p>
+              </div>
             </div>
           </div>
-        </div>
+        )}
 
         {/* Preview */}
         {showPreview && (
@@ -347,6 +501,12 @@ export function CreateAssetPage() {
               {pronunciation && (
                 <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400 italic">/{pronunciation}/</p>
               )}
+              {isProverb && literalTranslation && (
+                <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400">Literally: {literalTranslation}</p>
+              )}
+              {isProverb && figurativeMeaning && (
+                <p className="text-sm text-ohafia-earth-600 dark:text-ohafia-sand-300">Meaning: {figurativeMeaning}</p>
+              )}
               {culturalNote && (
                 <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400 bg-white dark:bg-ohafia-earth-700 p-2 rounded-lg mt-2">
                   💡 {culturalNote}
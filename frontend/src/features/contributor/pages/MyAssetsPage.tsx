@@ -9,20 +9,26 @@ import {
   Trash2,
   Send,
   MoreVertical,
-  FileText
+  FileText,
+  History
 } from 'lucide-react';
 import { useContributorStore } from '@/stores/contributor-store';
 import { useAuthStore } from '@/stores/auth-store';
+import { useSearchStore } from '@/stores/search-store';
+import { AssetHistoryDrawer } from '@/components/assets/AssetHistoryDrawer';
+import type { Asset } from '@/types/database';
 
 type StatusFilter = 'all' | 'draft' | 'pending' | 'approved' | 'rejected';
 
 export function MyAssetsPage() {
-  const { user } = useAuthStore();
+  const { user, profile } = useAuthStore();
   const { myAssets, fetchMyContributions, deleteAsset, submitForReview, isLoading } = useContributorStore();
+  const { results: searchResults, isLoading: isSearching, searchAssets, clearResults } = useSearchStore();
 
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
   const [openMenu, setOpenMenu] = useState<string | null>(null);
+  const [historyAsset, setHistoryAsset] = useState<Asset | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -30,13 +36,31 @@ export function MyAssetsPage() {
     }
   }, [user, fetchMyContributions]);
 
-  const filteredAssets = myAssets.filter(asset => {
-    const matchesSearch = 
-      asset.igbo_text.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      asset.english_text.toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesStatus = statusFilter === 'all' || asset.status === statusFilter;
-    return matchesSearch && matchesStatus;
-  });
+  // Search on the server so "oma" also finds "ọma", best matches first
+  const trimmedQuery = searchQuery.trim();
+  const userId = user?.id;
+  useEffect(() => {
+    if (!trimmedQuery || !userId) {
+      clearResults();
+      return;
+    }
+    const timeout = setTimeout(() => {
+      searchAssets({
+        query: trimmedQuery,
+        status: statusFilter === 'all' ? null : statusFilter,
+        createdBy: userId,
+        limit: 200,
+      });
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [trimmedQuery, statusFilter, userId, searchAssets, clearResults]);
+
+  const filteredAssets = trimmedQuery
+    ? searchResults
+        // Drop deleted assets and pick up status changes made on this page
+        .map(result => myAssets.find(asset => asset.id === result.id))
+        .filter((asset): asset is Asset => !!asset)
+    : myAssets.filter(asset => statusFilter === 'all' || asset.status === statusFilter);
 
   const handleDelete = async (id: string) => {
     if (confirm('Are you sure you want to delete this asset?')) {
@@ -88,7 +112,7 @@ export function MyAssetsPage() {
           <Search className="w-5 h-5 absolute left-3 top-1/2 -translate-y-1/2 text-ohafia-earth-400 dark:text-ohafia-sand-400" />
           <input
             type="text"
-            placeholder="Search assets..."
+            placeholder="Search Igbo, English, tags or notes..."
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="input pl-10"
@@ -112,7 +136,7 @@ export function MyAssetsPage() {
       </div>
 
       {/* Assets List */}
-      {isLoading ? (
+      {isLoading || (trimmedQuery && isSearching && searchResults.length === 0) ? (
         <div className="card p-8 text-center">
           <div className="w-8 h-8 border-4 border-ohafia-primary border-t-transparent rounded-full animate-spin mx-auto" />
           <p className="text-ohafia-earth-500 dark:text-ohafia-sand-400 mt-4">Loading assets...</p>
@@ -167,6 +191,16 @@ export function MyAssetsPage() {
 
                   {openMenu === asset.id && (
                     <div className="absolute right-0 top-full mt-1 w-48 bg-white dark:bg-ohafia-earth-800 rounded-xl shadow-lg border border-ohafia-sand-200 dark:border-ohafia-earth-700 py-1 z-10">
+                      <button
+                        onClick={() => {
+                          setHistoryAsset(asset);
+                          setOpenMenu(null);
+                        }}
+                        className="w-full px-4 py-2 text-left text-sm text-ohafia-earth-700 dark:text-ohafia-sand-200 hover:bg-ohafia-sand-50 dark:hover:bg-ohafia-earth-700 flex items-center gap-2"
+                      >
+                        <History className="w-4 h-4" />
+                        Version History
+                      </button>
                       {asset.status === 'draft' && (
                         <>
                           <button
@@ -209,6 +243,18 @@ export function MyAssetsPage() {
           ))}
         </div>
       )}
+
+      {historyAsset && (
+        <AssetHistoryDrawer
+          asset={historyAsset}
+          isAdmin={profile?.role === 'admin'}
+          onClose={() => setHistoryAsset(null)}
+          onRollback={(asset) => {
+            setHistoryAsset(asset);
+            if (user) fetchMyContributions(user.id);
+          }}
+        />
+      )}
     </div>
   );
 }
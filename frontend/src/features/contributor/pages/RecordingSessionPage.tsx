@@ -0,0 +1,584 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  ArrowLeft,
+  Mic,
+  Square,
+  Play,
+  Pause,
+  RotateCcw,
+  Check,
+  SkipForward,
+  Scissors,
+  Loader2,
+  AlertCircle,
+  CheckCircle,
+  CloudOff,
+  CloudUpload,
+  Keyboard,
+} from 'lucide-react';
+import { useAuthStore } from '@/stores/auth-store';
+import { useCategoryStore } from '@/stores/category-store';
+import { useRecordingSessionStore, type UploadStatus } from '@/stores/recording-session-store';
+import { useSpeakerStore } from '@/stores/speaker-store';
+import { supabase } from '@/lib/supabase';
+import { useAudioRecorder } from '@/lib/audio-service';
+import {
+  decodeRecording,
+  detectSpeechRange,
+  getPeaks,
+  measureRange,
+  processRecording,
+  type DecodedClip,
+  type TrimRange,
+} from '@/lib/audio-processing';
+import type { OfflineRecordingTake } from '@/lib/offline-db';
+import { WaveformTrimmer } from '@/components/ui/WaveformTrimmer';
+import { LiveWaveform } from '@/components/ui/AudioWaveform';
+import { LevelWarning } from '@/components/ui/LevelWarning';
+import { SpeakerPicker } from '@/components/ui/SpeakerPicker';
+
+const WAVEFORM_BARS = 120;
+
+const SHORTCUTS = [
+  { keys: 'Space', action: 'Record / stop, then play the take' },
+  { keys: 'R', action: 'Re-record' },
+  { keys: 'Enter', action: 'Accept and go to the next' },
+  { keys: 'S', action: 'Skip' },
+];
+
+interface Take {
+  url: string;
+  clip: DecodedClip;
+}
+
+export function RecordingSessionPage() {
+  const { user } = useAuthStore();
+  const { categories, fetchCategories } = useCategoryStore();
+  const {
+    session,
+    takes,
+    uploadStatus,
+    nextRetryAt,
+    isLoading,
+    error,
+    loadSession,
+    startSession,
+    acceptTake,
+    skipAsset,
+    endSession,
+    retryFailed,
+    startUploader,
+    clearError,
+  } = useRecordingSessionStore();
+  const { selectedSpeakerId } = useSpeakerStore();
+  const recorder = useAudioRecorder();
+
+  const [lessons, setLessons] = useState<{ id: string; title: string }[]>([]);
+  const [category, setCategory] = useState('');
+  const [lessonId, setLessonId] = useState('');
+  const [autoRecord, setAutoRecord] = useState(false);
+  const [resumed, setResumed] = useState(false);
+
+  const [take, setTake] = useState<Take | null>(null);
+  const [trimRange, setTrimRange] = useState<TrimRange | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playhead, setPlayhead] = useState<number | null>(null);
+  const [takeError, setTakeError] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  const current = session && session.position < session.queue.length ? session.queue[session.position] : null;
+  const peaks = useMemo(() => (take ? getPeaks(take.clip.samples, WAVEFORM_BARS) : []), [take]);
+  const levels = useMemo(() => (take && trimRange ? measureRange(take.clip, trimRange) : null), [take, trimRange]);
+
+  // Pick up an unfinished session and keep uploading in the background
+  useEffect(() => {
+    if (!user) return;
+    loadSession(user.id).then(() => {
+      const saved = useRecordingSessionStore.getState().session;
+      setResumed(!!saved && saved.position > 0);
+    });
+    return startUploader(user.id);
+  }, [user, loadSession, startUploader]);
+
+  useEffect(() => {
+    fetchCategories();
+    supabase
+      .from('lessons')
+      .select('id, title')
+      .order('order_index', { ascending: true })
+      .then(({ data, error }) => {
+        if (error) console.error('Error fetching lessons:', error);
+        setLessons((data || []) as { id: string; title: string }[]);
+      });
+  }, [fetchCategories]);
+
+  // Release the take when it's replaced or the page goes away
+  useEffect(() => () => {
+    if (take) URL.revokeObjectURL(take.url);
+  }, [take]);
+
+  useEffect(() => () => audioRef.current?.pause(), []);
+
+  const stopPlayback = () => {
+    audioRef.current?.pause();
+    audioRef.current = null;
+    setIsPlaying(false);
+    setPlayhead(null);
+  };
+
+  const discardTake = () => {
+    stopPlayback();
+    setTake(null);
+    setTrimRange(null);
+    setTakeError(null);
+  };
+
+  const startRecording = async () => {
+    discardTake();
+    await recorder.start();
+  };
+
+  // Decode the take and start with the silence trimmed off
+  const stopRecording = async () => {
+    const blob = await recorder.stop();
+    if (!blob) return;
+    setIsAnalyzing(true);
+    try {
+      const clip = await decodeRecording(blob);
+      setTake({ url: URL.createObjectURL(blob), clip });
+      setTrimRange(detectSpeechRange(clip));
+    } catch (err) {
+      console.error('Error decoding recording:', err);
+      setTakeError('Could not read this recording. Please record it again.');
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  // Plays only the trimmed part
+  const playTake = (from?: number) => {
+    if (!take || !trimRange) return;
+    stopPlayback();
+    const audio = new Audio(take.url);
+    audioRef.current = audio;
+    audio.currentTime = from ?? trimRange.start;
+    audio.ontimeupdate = () => {
+      if (audio.currentTime >= trimRange.end) stopPlayback();
+      else setPlayhead(audio.currentTime);
+    };
+    audio.onended = stopPlayback;
+    audio.onerror = stopPlayback;
+    setIsPlaying(true);
+    audio.play().catch(stopPlayback);
+  };
+
+  const handleAccept = async () => {
+    if (!user || !current || !take || !trimRange || isSaving) return;
+    if (!selectedSpeakerId) {
+      setTakeError('Choose who is speaking before accepting the take.');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const processed = await processRecording(take.clip, trimRange);
+      if (!(await acceptTake(user.id, current, processed, selectedSpeakerId))) return;
+      discardTake();
+      const next = useRecordingSessionStore.getState().session;
+      if (autoRecord && next && next.position < next.queue.length) {
+        await recorder.start();
+      }
+    } catch (err) {
+      console.error('Error saving take:', err);
+      setTakeError(err instanceof Error ? err.message : 'Could not save this take');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSkip = async () => {
+    if (recorder.isRecording) await recorder.stop();
+    discardTake();
+    await skipAsset();
+  };
+
+  const handleStart = () => {
+    if (!user) return;
+    setResumed(false);
+    startSession(user.id, { category: category || null, lessonId: lessonId || null });
+  };
+
+  const handleEnd = async () => {
+    if (!user) return;
+    if (recorder.isRecording) await recorder.stop();
+    discardTake();
+    setResumed(false);
+    await endSession(user.id);
+  };
+
+  // Keyboard shortcuts; the ref always points at this render's handlers
+  const handleKeyRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  handleKeyRef.current = (e: KeyboardEvent) => {
+    if (!current || isAnalyzing || isSaving || e.repeat || e.metaKey || e.ctrlKey || e.altKey) return;
+    const target = e.target as HTMLElement;
+    if (['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName)) return;
+    // Focused buttons already answer Space and Enter themselves
+    if (target.tagName === 'BUTTON' && (e.key === ' ' || e.key === 'Enter')) return;
+
+    if (e.key === ' ') {
+      e.preventDefault();
+      if (recorder.isRecording) stopRecording();
+      else if (!take) startRecording();
+      else if (isPlaying) stopPlayback();
+      else playTake();
+    } else if (e.key === 'r' || e.key === 'R') {
+      e.preventDefault();
+      if (!recorder.isRecording) startRecording();
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (take) handleAccept();
+    } else if (e.key === 's' || e.key === 'S') {
+      e.preventDefault();
+      handleSkip();
+    }
+  };
+
+  useEffect(() => {
+    const listener = (e: KeyboardEvent) => handleKeyRef.current(e);
+    window.addEventListener('keydown', listener);
+    return () => window.removeEventListener('keydown', listener);
+  }, []);
+
+  const recorded = session?.recordedIds.length ?? 0;
+  const skipped = session?.skippedIds.length ?? 0;
+
+  return (
+    <div className="p-6 max-w-3xl mx-auto">
+      <header className="mb-6 flex items-start gap-3">
+        <Link
+          to="/contributor/record"
+          className="p-2 -ml-2 rounded-lg hover:bg-ohafia-sand-100 dark:hover:bg-ohafia-earth-700 text-ohafia-earth-600 dark:text-ohafia-sand-400"
+          title="Back to the studio"
+        >
+          <ArrowLeft className="w-5 h-5" />
+        </Link>
+        <div className="flex-1">
+          <h1 className="text-2xl font-bold text-ohafia-earth-900 dark:text-ohafia-sand-50 mb-1">Recording Session</h1>
+          <p className="text-ohafia-earth-600 dark:text-ohafia-sand-300">
+            Record every asset that still needs audio, one after another
+          </p>
+        </div>
+        {session && (
+          <button onClick={handleEnd} className="btn-outline px-4 py-2 text-sm">
+            End session
+          </button>
+        )}
+      </header>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-xl text-red-700 text-sm flex items-center gap-2">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span className="flex-1">{error}</span>
+          <button onClick={clearError} className="font-medium hover:underline">Dismiss</button>
+        </div>
+      )}
+
+      <UploadQueue
+        takes={takes}
+        status={uploadStatus}
+        nextRetryAt={nextRetryAt}
+        onRetry={() => user && retryFailed(user.id)}
+      />
+
+      {isLoading ? (
+        <div className="card p-12 flex items-center justify-center">
+          <Loader2 className="w-6 h-6 animate-spin text-ohafia-primary-500" />
+        </div>
+      ) : !session ? (
+        /* Session setup */
+        <div className="card p-6 space-y-4">
+          <h2 className="font-semibold text-ohafia-earth-900 dark:text-ohafia-sand-50">Start a session</h2>
+          <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400">
+            Approved assets without audio are queued in order. Takes are kept on this device and upload in the
+            background, so you can keep recording while offline.
+          </p>
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-ohafia-earth-700 dark:text-ohafia-sand-200 mb-2">
+                Category <span className="text-ohafia-earth-400 dark:text-ohafia-sand-500 font-normal">(Optional)</span>
+              </label>
+              <select value={category} onChange={(e) => setCategory(e.target.value)} className="input w-full">
+                <option value="">All categories</option>
+                {categories.map(cat => (
+                  <option key={cat.id} value={cat.name}>
+                    {cat.icon && `${cat.icon} `}{cat.name.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-ohafia-earth-700 dark:text-ohafia-sand-200 mb-2">
+                Lesson <span className="text-ohafia-earth-400 dark:text-ohafia-sand-500 font-normal">(Optional)</span>
+              </label>
+              <select value={lessonId} onChange={(e) => setLessonId(e.target.value)} className="input w-full">
+                <option value="">All lessons</option>
+                {lessons.map(lesson => (
+                  <option key={lesson.id} value={lesson.id}>{lesson.title}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <SpeakerPicker />
+          <button onClick={handleStart} className="btn-primary flex items-center gap-2">
+            <Mic className="w-4 h-4" />
+            Start session
+          </button>
+        </div>
+      ) : !current ? (
+        /* Session finished */
+        <div className="card p-8 text-center">
+          <CheckCircle className="w-12 h-12 text-green-500 mx-auto mb-3" />
+          <h2 className="text-xl font-bold text-ohafia-earth-900 dark:text-ohafia-sand-50 mb-1">
+            {session.queue.length === 0 ? 'Nothing to record' : 'Session complete'}
+          </h2>
+          <p className="text-ohafia-earth-600 dark:text-ohafia-sand-300 mb-6">
+            {session.queue.length === 0
+              ? 'Every asset matching these filters already has audio.'
+              : `${recorded} recorded · ${skipped} skipped`}
+          </p>
+          <div className="flex justify-center gap-3">
+            <button onClick={handleEnd} className="btn-primary px-6 py-2">
+              New session
+            </button>
+            <Link to="/contributor/record" className="btn-outline px-6 py-2">
+              Back to studio
+            </Link>
+          </div>
+        </div>
+      ) : (
+        /* Recording the current asset */
+        <div className="card p-6">
+          {resumed && (
+            <p className="mb-4 text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400">
+              Picked up where you left off.
+            </p>
+          )}
+
+          {/* Progress */}
+          <div className="flex items-center justify-between text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400 mb-2">
+            <span>{session.position + 1} of {session.queue.length}</span>
+            <span>{recorded} recorded · {skipped} skipped</span>
+          </div>
+          <div className="h-2 rounded-full bg-ohafia-sand-200 dark:bg-ohafia-earth-600 overflow-hidden mb-6">
+            <div
+              className="h-full bg-ohafia-primary-500 transition-all"
+              style={{ width: `${(session.position / session.queue.length) * 100}%` }}
+            />
+          </div>
+
+          <div className="p-4 bg-ohafia-sand-50 dark:bg-ohafia-earth-700 rounded-xl mb-6 text-center">
+            <p className="text-3xl font-bold text-ohafia-earth-900 dark:text-ohafia-sand-50 igbo-text mb-1">
+              {current.igbo}
+            </p>
+            <p className="text-ohafia-earth-600 dark:text-ohafia-sand-300">{current.english}</p>
+          </div>
+
+          {(takeError || recorder.error) && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-xl text-red-700 text-sm flex items-center gap-2">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              {takeError || recorder.error}
+            </div>
+          )}
+
+          <div className="flex flex-col items-center">
+            {recorder.isRecording && recorder.stream && (
+              <div className="w-full mb-6">
+                <LiveWaveform stream={recorder.stream} />
+              </div>
+            )}
+
+            {isAnalyzing && (
+              <div className="flex items-center gap-2 mb-6 text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Analyzing recording...
+              </div>
+            )}
+
+            {take && trimRange && (
+              <div className="w-full mb-6">
+                <WaveformTrimmer
+                  peaks={peaks}
+                  duration={take.clip.duration}
+                  range={trimRange}
+                  onChange={setTrimRange}
+                  position={isPlaying ? playhead : null}
+                  onSeek={playTake}
+                />
+                <div className="flex items-center justify-between mt-2 text-xs text-ohafia-earth-500 dark:text-ohafia-sand-400">
+                  <span>
+                    {trimRange.start.toFixed(2)}s – {trimRange.end.toFixed(2)}s · {(trimRange.end - trimRange.start).toFixed(2)}s
+                  </span>
+                  <button
+                    onClick={() => setTrimRange(detectSpeechRange(take.clip))}
+                    className="flex items-center gap-1 font-medium text-ohafia-primary-600 dark:text-ohafia-primary-400 hover:underline"
+                  >
+                    <Scissors className="w-3 h-3" />
+                    Auto-trim
+                  </button>
+                </div>
+                {levels?.issues.includes('clipping') && (
+                  <LevelWarning>
+                    The recording is too loud and distorted. Move a little further from the microphone and record again.
+                  </LevelWarning>
+                )}
+                {levels?.issues.includes('too-quiet') && (
+                  <LevelWarning>
+                    The recording is very quiet. Move closer to the microphone or speak up, then record again.
+                  </LevelWarning>
+                )}
+              </div>
+            )}
+
+            {/* Controls */}
+            <div className="flex items-center gap-4">
+              {!take ? (
+                <button
+                  onClick={recorder.isRecording ? stopRecording : startRecording}
+                  disabled={isAnalyzing}
+                  className={`w-20 h-20 rounded-full flex items-center justify-center transition-all shadow-lg disabled:opacity-50
+                    ${recorder.isRecording
+                      ? 'bg-red-500 hover:bg-red-600 animate-pulse'
+                      : 'bg-ohafia-primary-500 hover:bg-ohafia-primary-600'}`}
+                  title={recorder.isRecording ? 'Stop (Space)' : 'Record (Space)'}
+                >
+                  {recorder.isRecording ? (
+                    <Square className="w-8 h-8 text-white" fill="white" />
+                  ) : (
+                    <Mic className="w-8 h-8 text-white" />
+                  )}
+                </button>
+              ) : (
+                <>
+                  <button
+                    onClick={startRecording}
+                    disabled={isSaving}
+                    className="w-12 h-12 rounded-full bg-ohafia-sand-200 dark:bg-ohafia-earth-600 hover:bg-ohafia-sand-300 dark:hover:bg-ohafia-earth-500 flex items-center justify-center disabled:opacity-50"
+                    title="Re-record (R)"
+                  >
+                    <RotateCcw className="w-5 h-5 text-ohafia-earth-600 dark:text-ohafia-sand-300" />
+                  </button>
+                  <button
+                    onClick={() => (isPlaying ? stopPlayback() : playTake())}
+                    className="w-16 h-16 rounded-full bg-ohafia-primary-500 hover:bg-ohafia-primary-600 flex items-center justify-center shadow-lg"
+                    title="Play (Space)"
+                  >
+                    {isPlaying ? <Pause className="w-6 h-6 text-white" /> : <Play className="w-6 h-6 text-white ml-1" />}
+                  </button>
+                  <button
+                    onClick={handleAccept}
+                    disabled={isSaving}
+                    className="w-12 h-12 rounded-full bg-green-500 hover:bg-green-600 flex items-center justify-center disabled:opacity-50"
+                    title="Accept (Enter)"
+                  >
+                    {isSaving ? <Loader2 className="w-5 h-5 text-white animate-spin" /> : <Check className="w-5 h-5 text-white" />}
+                  </button>
+                </>
+              )}
+            </div>
+
+            <button
+              onClick={handleSkip}
+              disabled={isSaving}
+              className="mt-6 flex items-center gap-1 text-sm font-medium text-ohafia-earth-500 dark:text-ohafia-sand-400 hover:text-ohafia-earth-700 dark:hover:text-ohafia-sand-200 disabled:opacity-50"
+              title="Skip (S)"
+            >
+              <SkipForward className="w-4 h-4" />
+              Skip this one
+            </button>
+
+            <div className="w-full mt-6">
+              <SpeakerPicker />
+            </div>
+
+            <label className="mt-4 flex items-center gap-2 text-sm text-ohafia-earth-600 dark:text-ohafia-sand-300">
+              <input
+                type="checkbox"
+                checked={autoRecord}
+                onChange={(e) => setAutoRecord(e.target.checked)}
+                className="rounded border-ohafia-sand-300 text-ohafia-primary-500 focus:ring-ohafia-primary-500"
+              />
+              Start recording the next one straight away
+            </label>
+          </div>
+        </div>
+      )}
+
+      {/* Shortcuts */}
+      <div className="card p-4 mt-6">
+        <h3 className="font-semibold text-ohafia-earth-900 dark:text-ohafia-sand-50 mb-3 flex items-center gap-2">
+          <Keyboard className="w-4 h-4" />
+          Keyboard shortcuts
+        </h3>
+        <div className="grid sm:grid-cols-2 gap-2 text-sm text-ohafia-earth-600 dark:text-ohafia-sand-300">
+          {SHORTCUTS.map(({ keys, action }) => (
+            <div key={keys} className="flex items-center gap-2">
+              <kbd className="px-2 py-0.5 rounded-md bg-ohafia-sand-100 dark:bg-ohafia-earth-700 font-mono text-xs text-ohafia-earth-800 dark:text-ohafia-sand-100">
+                {keys}
+              </kbd>
+              {action}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface UploadQueueProps {
+  takes: OfflineRecordingTake[];
+  status: UploadStatus;
+  nextRetryAt: string | null;
+  onRetry: () => void;
+}
+
+function UploadQueue({ takes, status, nextRetryAt, onRetry }: UploadQueueProps) {
+  if (takes.length === 0) return null;
+
+  const failed = takes.filter(take => take.failed);
+  const waiting = takes.length - failed.length;
+
+  return (
+    <div className="card p-4 mb-6 flex items-center gap-3 text-sm">
+      {status === 'offline' ? (
+        <CloudOff className="w-5 h-5 text-ohafia-earth-400 dark:text-ohafia-sand-500 flex-shrink-0" />
+      ) : status === 'uploading' ? (
+        <Loader2 className="w-5 h-5 text-ohafia-primary-500 animate-spin flex-shrink-0" />
+      ) : (
+        <CloudUpload className="w-5 h-5 text-ohafia-primary-500 flex-shrink-0" />
+      )}
+      <div className="flex-1 min-w-0">
+        <p className="text-ohafia-earth-800 dark:text-ohafia-sand-100">
+          {waiting > 0 && `${waiting} ${waiting === 1 ? 'take' : 'takes'} waiting to upload`}
+          {waiting > 0 && failed.length > 0 && ' · '}
+          {failed.length > 0 && <span className="text-red-600 dark:text-red-400">{failed.length} failed</span>}
+        </p>
+        <p className="text-xs text-ohafia-earth-500 dark:text-ohafia-sand-400 truncate">
+          {status === 'offline'
+            ? "You're offline. Takes will upload when you're back online."
+            : status === 'uploading'
+              ? 'Uploading...'
+              : status === 'retrying' && nextRetryAt
+                ? `Retrying at ${new Date(nextRetryAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+                : failed[0]?.lastError || 'Saved on this device'}
+        </p>
+      </div>
+      {failed.length > 0 && status !== 'offline' && (
+        <button onClick={onRetry} className="btn-outline px-3 py-1.5 text-sm">
+          Retry
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
 import { 
   Mic, 
   Square, 
@@ -9,11 +10,31 @@ import {
   Volume2,
   CheckCircle,
   AlertCircle,
-  Loader2
+  Loader2,
+  Scissors,
+  ListChecks
 } from 'lucide-react';
 import { useContributorStore } from '@/stores/contributor-store';
 import { useAuthStore } from '@/stores/auth-store';
+import { useSpeakerStore } from '@/stores/speaker-store';
 import { supabase } from '@/lib/supabase';
+import { WaveformTrimmer } from '@/components/ui/WaveformTrimmer';
+import { LiveWaveform } from '@/components/ui/AudioWaveform';
+import { LevelWarning } from '@/components/ui/LevelWarning';
+import { SpeakerPicker } from '@/components/ui/SpeakerPicker';
+import { AUDIO_QUALITY_CRITERIA, weakestCriterion } from '@/lib/audio-quality';
+import type { Audio } from '@/types/database';
+import {
+  decodeRecording,
+  detectSpeechRange,
+  getPeaks,
+  measureRange,
+  processRecording,
+  type DecodedClip,
+  type TrimRange,
+} from '@/lib/audio-processing';
+
+const WAVEFORM_BARS = 120;
 
 interface RecordingState {
   isRecording: boolean;
@@ -28,13 +49,17 @@ interface AssetForRecording {
   english_text: string;
   audio_url: string | null;
   has_audio_submission: boolean;
+  // The primary clip rated poorly; names what reviewers marked it down for
+  needs_rerecord: boolean;
+  rerecord_reason: string | null;
 }
 
-type FilterType = 'all' | 'with-audio' | 'without-audio';
+type FilterType = 'all' | 'with-audio' | 'without-audio' | 'needs-rerecord';
 
 export function RecordingStudioPage() {
   const { user } = useAuthStore();
   const { uploadAudio } = useContributorStore();
+  const { selectedSpeakerId } = useSpeakerStore();
 
   const [assets, setAssets] = useState<AssetForRecording[]>([]);
   const [isLoadingAssets, setIsLoadingAssets] = useState(true);
@@ -50,6 +75,15 @@ export function RecordingStudioPage() {
   const [uploadSuccess, setUploadSuccess] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
+  // Decoded take for trimming, and the part of it to keep
+  const [clip, setClip] = useState<DecodedClip | null>(null);
+  const [trimRange, setTrimRange] = useState<TrimRange | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [playhead, setPlayhead] = useState<number | null>(null);
+  const [liveStream, setLiveStream] = useState<MediaStream | null>(null);
+
+  const peaks = useMemo(() => (clip ? getPeaks(clip.samples, WAVEFORM_BARS) : []), [clip]);
+  const levels = useMemo(() => (clip && trimRange ? measureRange(clip, trimRange) : null), [clip, trimRange]);
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
@@ -66,7 +100,7 @@ export function RecordingStudioPage() {
           .from('assets')
           .select(`
             id, igbo_text, english_text, audio_url,
-            audio_submissions (id, audio_url, status)
+            audio_submissions (id, audio_url, status, needs_rerecord, quality_scores)
           `)
           .eq('status', 'approved')
           .order('created_at', { ascending: false })
@@ -80,16 +114,20 @@ export function RecordingStudioPage() {
           igbo_text: string;
           english_text: string;
           audio_url: string | null;
-          audio_submissions?: { id: string; audio_url: string; status: string }[];
+          audio_submissions?: Pick<Audio, 'id' | 'audio_url' | 'status' | 'needs_rerecord' | 'quality_scores'>[];
         }) => {
           const hasSubmission = asset.audio_submissions && asset.audio_submissions.length > 0;
           const submissionUrl = hasSubmission ? asset.audio_submissions![0].audio_url : null;
+          const flagged = asset.audio_submissions?.find(submission => submission.needs_rerecord);
+          const weakest = flagged ? weakestCriterion(flagged.quality_scores) : null;
           return {
             id: asset.id,
             igbo_text: asset.igbo_text,
             english_text: asset.english_text,
             audio_url: asset.audio_url || submissionUrl,
             has_audio_submission: !!(asset.audio_url || hasSubmission),
+            needs_rerecord: !!flagged,
+            rerecord_reason: AUDIO_QUALITY_CRITERIA.find(criterion => criterion.key === weakest)?.label ?? null,
           };
         });
 
@@ -120,9 +158,10 @@ export function RecordingStudioPage() {
     try {
       setError(null);
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      const mediaRecorder = new MediaRecorder(stream, {
-        mimeType: 'audio/webm',
-      });
+      // Safari can't record webm; let it use its own format
+      const mediaRecorder = MediaRecorder.isTypeSupported('audio/webm')
+        ? new MediaRecorder(stream, { mimeType: 'audio/webm' })
+        : new MediaRecorder(stream);
 
       mediaRecorderRef.current = mediaRecorder;
       chunksRef.current = [];
@@ -134,7 +173,7 @@ export function RecordingStudioPage() {
       };
 
       mediaRecorder.onstop = () => {
-        const blob = new Blob(chunksRef.current, { type: 'audio/webm' });
+        const blob = new Blob(chunksRef.current, { type: mediaRecorder.mimeType || 'audio/webm' });
         const url = URL.createObjectURL(blob);
         setRecording(prev => ({
           ...prev,
@@ -143,9 +182,12 @@ export function RecordingStudioPage() {
           audioBlob: blob,
         }));
         stream.getTracks().forEach(track => track.stop());
+        setLiveStream(null);
+        analyzeRecording(blob);
       };
 
       mediaRecorder.start();
+      setLiveStream(stream);
       setRecording(prev => ({ ...prev, isRecording: true, duration: 0 }));
 
       timerRef.current = window.setInterval(() => {
@@ -156,6 +198,21 @@ export function RecordingStudioPage() {
     }
   };
 
+  // Decode the take and start with the silence trimmed off
+  const analyzeRecording = async (blob: Blob) => {
+    setIsAnalyzing(true);
+    try {
+      const decoded = await decodeRecording(blob);
+      setClip(decoded);
+      setTrimRange(detectSpeechRange(decoded));
+    } catch (err) {
+      console.error('Error decoding recording:', err);
+      setError('Could not read this recording. Please record it again.');
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
   const stopRecording = () => {
     if (mediaRecorderRef.current && recording.isRecording) {
       mediaRecorderRef.current.stop();
@@ -165,8 +222,10 @@ export function RecordingStudioPage() {
     }
   };
 
+  // Plays only the trimmed part
   const playRecording = () => {
     if (recording.audioUrl && audioRef.current) {
+      if (trimRange) audioRef.current.currentTime = trimRange.start;
       audioRef.current.play();
       setIsPlaying(true);
     }
@@ -176,6 +235,28 @@ export function RecordingStudioPage() {
     if (audioRef.current) {
       audioRef.current.pause();
       setIsPlaying(false);
+      setPlayhead(null);
+    }
+  };
+
+  const seekRecording = (seconds: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = seconds;
+    setPlayhead(seconds);
+    if (!isPlaying) {
+      audio.play();
+      setIsPlaying(true);
+    }
+  };
+
+  const handleTimeUpdate = () => {
+    const audio = audioRef.current;
+    if (!audio || !isPlaying) return;
+    if (trimRange && audio.currentTime >= trimRange.end) {
+      pauseRecording();
+    } else {
+      setPlayhead(audio.currentTime);
     }
   };
 
@@ -189,27 +270,36 @@ export function RecordingStudioPage() {
       audioBlob: null,
       duration: 0,
     });
+    setClip(null);
+    setTrimRange(null);
+    setPlayhead(null);
     setIsPlaying(false);
     setUploadSuccess(false);
   };
 
   const handleUpload = async () => {
-    if (!recording.audioBlob || !selectedAsset || !user) {
+    if (!clip || !trimRange || !selectedAsset || !user) {
       setError('Missing required data for upload');
       return;
     }
+    if (!selectedSpeakerId) {
+      setError('Choose who is speaking before uploading.');
+      return;
+    }
 
     setIsUploading(true);
     setError(null);
     
-    console.log('Starting upload...', {
-      blobSize: recording.audioBlob.size,
-      assetId: selectedAsset.id,
-      userId: user.id,
-    });
-
     try {
-      const url = await uploadAudio(recording.audioBlob, selectedAsset.id, user.id);
+      const processed = await processRecording(clip, trimRange);
+      console.log('Starting upload...', {
+        blobSize: processed.blob.size,
+        duration: processed.durationSeconds,
+        assetId: selectedAsset.id,
+        userId: user.id,
+      });
+
+      const url = await uploadAudio(processed.blob, selectedAsset.id, user.id, processed.durationSeconds, selectedSpeakerId);
       console.log('Upload result:', url);
       
       if (url) {
@@ -241,21 +331,29 @@ export function RecordingStudioPage() {
   const totalAssets = assets.length;
   const withAudio = assets.filter(a => a.has_audio_submission).length;
   const withoutAudio = totalAssets - withAudio;
+  const needsRerecord = assets.filter(a => a.needs_rerecord).length;
 
   // Filtered assets
   const filteredAssets = assets.filter(asset => {
     if (filter === 'with-audio') return asset.has_audio_submission;
     if (filter === 'without-audio') return !asset.has_audio_submission;
+    if (filter === 'needs-rerecord') return asset.needs_rerecord;
     return true;
   });
 
   return (
     <div className="p-6 max-w-4xl mx-auto">
-      <header className="mb-6">
-        <h1 className="text-2xl font-bold text-ohafia-earth-900 dark:text-ohafia-sand-50 mb-2">Recording Studio</h1>
-        <p className="text-ohafia-earth-600 dark:text-ohafia-sand-300">
-          Record audio pronunciations for learning assets
-        </p>
+      <header className="mb-6 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-ohafia-earth-900 dark:text-ohafia-sand-50 mb-2">Recording Studio</h1>
+          <p className="text-ohafia-earth-600 dark:text-ohafia-sand-300">
+            Record audio pronunciations for learning assets
+          </p>
+        </div>
+        <Link to="/contributor/record/session" className="btn-primary flex items-center gap-2">
+          <ListChecks className="w-4 h-4" />
+          Recording session
+        </Link>
       </header>
 
       {/* Metrics Summary */}
@@ -310,6 +408,17 @@ export function RecordingStudioPage() {
             >
               Has Audio ({withAudio})
             </button>
+            {needsRerecord > 0 && (
+              <button
+                onClick={() => setFilter('needs-rerecord')}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-all
+                  ${filter === 'needs-rerecord'
+                    ? 'bg-ohafia-primary-500 text-white'
+                    : 'bg-ohafia-sand-100 dark:bg-ohafia-earth-700 text-ohafia-earth-600 dark:text-ohafia-sand-300 hover:bg-ohafia-sand-200 dark:hover:bg-ohafia-earth-600'}`}
+              >
+                Needs Re-record ({needsRerecord})
+              </button>
+            )}
           </div>
           
           {isLoadingAssets ? (
@@ -319,7 +428,13 @@ export function RecordingStudioPage() {
             </div>
           ) : filteredAssets.length === 0 ? (
             <div className="text-center py-8 text-ohafia-earth-500 dark:text-ohafia-sand-400">
-              <p>{filter === 'all' ? 'No approved assets available.' : `No assets ${filter === 'with-audio' ? 'with' : 'without'} audio.`}</p>
+              <p>
+                {filter === 'all'
+                  ? 'No approved assets available.'
+                  : filter === 'needs-rerecord'
+                    ? 'No recordings need re-recording.'
+                    : `No assets ${filter === 'with-audio' ? 'with' : 'without'} audio.`}
+              </p>
               <p className="text-sm mt-2">{filter === 'all' ? 'Assets need to be approved before recording.' : 'Try a different filter.'}</p>
             </div>
           ) : (
@@ -341,7 +456,15 @@ export function RecordingStudioPage() {
                     <p className={`font-medium ${selectedAsset?.id === asset.id ? 'text-ohafia-primary-700 dark:text-ohafia-primary-300' : 'text-ohafia-earth-900 dark:text-ohafia-sand-100'}`}>{asset.igbo_text}</p>
                     <p className={`text-sm ${selectedAsset?.id === asset.id ? 'text-ohafia-primary-600 dark:text-ohafia-primary-400' : 'text-ohafia-earth-500 dark:text-ohafia-sand-400'}`}>{asset.english_text}</p>
                   </div>
-                  {asset.has_audio_submission ? (
+                  {asset.needs_rerecord ? (
+                    <span
+                      className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400 font-medium"
+                      title={asset.rerecord_reason ? `Rated low for ${asset.rerecord_reason.toLowerCase()}` : undefined}
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      Needs re-record
+                    </span>
+                  ) : asset.has_audio_submission ? (
                     <span className="flex items-center gap-1 text-xs text-green-600 dark:text-green-400 font-medium">
                       <Volume2 className="w-4 h-4" />
                       Has audio
@@ -379,6 +502,17 @@ export function RecordingStudioPage() {
                   {selectedAsset.igbo_text}
                 </p>
                 <p className="text-ohafia-earth-600 dark:text-ohafia-sand-300">{selectedAsset.english_text}</p>
+                {selectedAsset.needs_rerecord && (
+                  <p className="text-sm text-amber-600 dark:text-amber-400 mt-2">
+                    Reviewers rated the current recording low
+                    {selectedAsset.rerecord_reason ? ` for ${selectedAsset.rerecord_reason.toLowerCase()}` : ''}.
+                    A new recording is welcome.
+                  </p>
+                )}
+              </div>
+
+              <div className="mb-6">
+                <SpeakerPicker />
               </div>
 
               {error && (
@@ -402,6 +536,13 @@ export function RecordingStudioPage() {
                   {formatDuration(recording.duration)}
                 </div>
 
+                {/* Live input level while recording */}
+                {recording.isRecording && liveStream && (
+                  <div className="w-full mb-6">
+                    <LiveWaveform stream={liveStream} />
+                  </div>
+                )}
+
                 {/* Main Recording Button */}
                 {!recording.audioUrl && (
                   <button
@@ -419,6 +560,48 @@ export function RecordingStudioPage() {
                   </button>
                 )}
 
+                {/* Trim and level check */}
+                {recording.audioUrl && isAnalyzing && (
+                  <div className="flex items-center gap-2 mb-6 text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Analyzing recording...
+                  </div>
+                )}
+                {clip && trimRange && (
+                  <div className="w-full mb-6">
+                    <WaveformTrimmer
+                      peaks={peaks}
+                      duration={clip.duration}
+                      range={trimRange}
+                      onChange={setTrimRange}
+                      position={isPlaying ? playhead : null}
+                      onSeek={seekRecording}
+                    />
+                    <div className="flex items-center justify-between mt-2 text-xs text-ohafia-earth-500 dark:text-ohafia-sand-400">
+                      <span>
+                        {trimRange.start.toFixed(2)}s – {trimRange.end.toFixed(2)}s · {(trimRange.end - trimRange.start).toFixed(2)}s
+                      </span>
+                      <button
+                        onClick={() => setTrimRange(detectSpeechRange(clip))}
+                        className="flex items-center gap-1 font-medium text-ohafia-primary-600 dark:text-ohafia-primary-400 hover:underline"
+                      >
+                        <Scissors className="w-3 h-3" />
+                        Auto-trim
+                      </button>
+                    </div>
+                    {levels?.issues.includes('clipping') && (
+                      <LevelWarning>
+                        The recording is too loud and distorted. Move a little further from the microphone and record again.
+                      </LevelWarning>
+                    )}
+                    {levels?.issues.includes('too-quiet') && (
+                      <LevelWarning>
+                        The recording is very quiet. Move closer to the microphone or speak up, then record again.
+                      </LevelWarning>
+                    )}
+                  </div>
+                )}
+
                 {/* Playback Controls */}
                 {recording.audioUrl && (
                   <div className="flex items-center gap-4">
@@ -444,7 +627,11 @@ export function RecordingStudioPage() {
                 <audio
                   ref={audioRef}
                   src={recording.audioUrl || undefined}
-                  onEnded={() => setIsPlaying(false)}
+                  onEnded={() => {
+                    setIsPlaying(false);
+                    setPlayhead(null);
+                  }}
+                  onTimeUpdate={handleTimeUpdate}
                 />
 
                 {/* Instructions */}
@@ -452,7 +639,7 @@ export function RecordingStudioPage() {
                   {recording.isRecording
                     ? 'Recording... Click to stop'
                     : recording.audioUrl
-                    ? 'Listen to your recording before uploading'
+                    ? 'Drag the handles to trim and tap the waveform to listen. Volume is evened out on upload.'
                     : 'Click the microphone to start recording'}
                 </p>
 
@@ -460,11 +647,11 @@ export function RecordingStudioPage() {
                 {recording.audioUrl && !uploadSuccess && (
                   <button
                     onClick={handleUpload}
-                    disabled={isUploading}
+                    disabled={isUploading || !clip}
                     className="btn-primary mt-6 flex items-center gap-2 disabled:opacity-50"
                   >
                     <Upload className="w-4 h-4" />
-                    {isUploading ? 'Uploading...' : 'Upload Recording'}
+                    {isUploading ? 'Processing & uploading...' : 'Upload Recording'}
                   </button>
                 )}
               </div>
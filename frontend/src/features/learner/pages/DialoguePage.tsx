@@ -0,0 +1,108 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Loader2, AlertCircle, Lightbulb } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { DialoguePlayer } from '@/components/assets/DialoguePlayer';
+import type { Asset } from '@/types/database';
+
+function formatLabel(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1).replace(/_/g, ' ');
+}
+
+export function DialoguePage() {
+  const navigate = useNavigate();
+  const { assetId } = useParams<{ assetId: string }>();
+  const [asset, setAsset] = useState<Asset | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!assetId) return;
+    async function fetchDialogue() {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const { data, error } = await supabase
+          .from('assets')
+          .select('*')
+          .eq('id', assetId)
+          .eq('status', 'approved')
+          .maybeSingle();
+
+        if (error) throw error;
+        setAsset(data as Asset | null);
+      } catch (err) {
+        console.error('Error fetching dialogue:', err);
+        setError('Failed to load dialogue');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+    fetchDialogue();
+  }, [assetId]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-ohafia-sand-50 dark:bg-ohafia-earth-900 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-ohafia-primary-500" />
+      </div>
+    );
+  }
+
+  if (!asset?.dialogue) {
+    return (
+      <div className="min-h-screen bg-ohafia-sand-50 dark:bg-ohafia-earth-900 flex items-center justify-center p-6">
+        <div className="card p-8 text-center max-w-sm">
+          <AlertCircle className="w-12 h-12 text-ohafia-sand-400 dark:text-ohafia-earth-500 mx-auto mb-3" />
+          <p className="text-ohafia-earth-600 dark:text-ohafia-sand-300 mb-4">
+            {error || (asset ? "This dialogue doesn't have any lines yet" : "This dialogue isn't available")}
+          </p>
+          <button onClick={() => navigate(-1)} className="btn-primary px-6 py-2">
+            Go back
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-ohafia-sand-50 dark:bg-ohafia-earth-900">
+      {/* Header */}
+      <header className="bg-white dark:bg-ohafia-earth-800 border-b border-ohafia-sand-200 dark:border-ohafia-earth-700 px-6 py-4">
+        <div className="flex items-start gap-3">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 -ml-2 rounded-lg hover:bg-ohafia-sand-100 dark:hover:bg-ohafia-earth-700 text-ohafia-earth-600 dark:text-ohafia-sand-400"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div className="flex-1 min-w-0">
+            <h1 className="text-2xl font-bold text-ohafia-earth-900 dark:text-ohafia-sand-50 igbo-text">{asset.igbo_text}</h1>
+            <p className="text-ohafia-earth-600 dark:text-ohafia-sand-300">{asset.english_text}</p>
+            <div className="flex flex-wrap gap-1.5 mt-3">
+              <span className="badge-primary">
+                {asset.dialogue.speakers.length} speakers · {asset.dialogue.turns.length} lines
+              </span>
+              <span className="badge-secondary">{formatLabel(asset.difficulty)}</span>
+              {asset.category && <span className="badge-accent">{formatLabel(asset.category)}</span>}
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="p-6 pb-24 space-y-6">
+        <DialoguePlayer key={asset.id} dialogue={asset.dialogue} />
+
+        {asset.cultural_note && (
+          <section className="card p-4 flex gap-3">
+            <Lightbulb className="w-5 h-5 text-ohafia-accent-500 flex-shrink-0 mt-0.5" />
+            <div>
+              <h2 className="font-semibold text-ohafia-earth-900 dark:text-ohafia-sand-50 mb-1">Cultural note</h2>
+              <p className="text-sm text-ohafia-earth-600 dark:text-ohafia-sand-300">{asset.cultural_note}</p>
+            </div>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
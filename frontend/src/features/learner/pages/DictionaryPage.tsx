@@ -0,0 +1,141 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { ArrowLeft, BookA, ChevronRight, Loader2, AlertCircle, X, Search } from 'lucide-react';
+import { useDictionaryStore } from '@/stores/dictionary-store';
+import { IGBO_ALPHABET, igboInitial, igboMatchKey } from '@/lib/igbo-orthography';
+import type { Asset } from '@/types/database';
+
+const HEADINGS = [...IGBO_ALPHABET, '#'];
+
+export function DictionaryPage() {
+  const navigate = useNavigate();
+  const { entries, isLoading, error, fetchEntries, clearError } = useDictionaryStore();
+  const [filter, setFilter] = useState('');
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  // Entries arrive in Igbo order, so grouping keeps each section sorted
+  const sections = useMemo(() => {
+    const filterKey = igboMatchKey(filter, { ignoreTones: true });
+    const grouped = new Map<string, Asset[]>();
+    entries.forEach(entry => {
+      if (filterKey && !igboMatchKey(entry.igbo_text, { ignoreTones: true }).startsWith(filterKey)
+        && !entry.english_text.toLowerCase().includes(filterKey)) {
+        return;
+      }
+      const initial = igboInitial(entry.igbo_text);
+      grouped.set(initial, [...(grouped.get(initial) || []), entry]);
+    });
+    return HEADINGS.filter(letter => grouped.has(letter)).map(letter => ({ letter, entries: grouped.get(letter)! }));
+  }, [entries, filter]);
+
+  const availableLetters = new Set(sections.map(section => section.letter));
+
+  const jumpTo = (letter: string) => {
+    document.getElementById(`letter-${letter}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  return (
+    <div className="min-h-screen bg-ohafia-sand-50 dark:bg-ohafia-earth-900">
+      {/* Header */}
+      <header className="bg-white dark:bg-ohafia-earth-800 border-b border-ohafia-sand-200 dark:border-ohafia-earth-700 px-6 py-4">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 -ml-2 rounded-lg hover:bg-ohafia-sand-100 dark:hover:bg-ohafia-earth-700 text-ohafia-earth-600 dark:text-ohafia-sand-400"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div className="flex-1">
+            <h1 className="text-lg font-bold text-ohafia-earth-900 dark:text-ohafia-sand-50">Dictionary</h1>
+            <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400">
+              {entries.length > 0 ? `${entries.length} words and phrases` : 'Words and phrases from the course'}
+            </p>
+          </div>
+        </div>
+
+        <div className="relative mt-4">
+          <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-ohafia-earth-400 dark:text-ohafia-sand-400" />
+          <input
+            type="search"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter by Igbo or English"
+            className="input pl-9 py-2"
+          />
+        </div>
+      </header>
+
+      {/* A–Z in Igbo order */}
+      <nav className="sticky top-12 z-10 bg-white/95 dark:bg-ohafia-earth-800/95 backdrop-blur-sm border-b border-ohafia-sand-200 dark:border-ohafia-earth-700 px-4 py-2 overflow-x-auto">
+        <div className="flex gap-1">
+          {HEADINGS.map(letter => (
+            <button
+              key={letter}
+              onClick={() => jumpTo(letter)}
+              disabled={!availableLetters.has(letter)}
+              className="min-w-[2rem] h-8 px-1.5 rounded-lg text-sm font-semibold igbo-text text-ohafia-primary-600 dark:text-ohafia-primary-400 hover:bg-ohafia-primary-50 dark:hover:bg-ohafia-primary-900/30 disabled:text-ohafia-sand-300 dark:disabled:text-ohafia-earth-600 disabled:hover:bg-transparent"
+            >
+              {letter === '#' ? '#' : letter.charAt(0).toUpperCase() + letter.slice(1)}
+            </button>
+          ))}
+        </div>
+      </nav>
+
+      <main className="p-6 pb-24 space-y-6">
+        {error && (
+          <div className="flex items-center gap-2 p-3 rounded-xl bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 text-sm">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            <span className="flex-1">{error}</span>
+            <button onClick={clearError}>
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        {isLoading && entries.length === 0 ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-ohafia-primary-500" />
+          </div>
+        ) : sections.length === 0 ? (
+          <div className="card p-8 text-center">
+            <BookA className="w-12 h-12 text-ohafia-sand-400 dark:text-ohafia-earth-500 mx-auto mb-3" />
+            <p className="text-ohafia-earth-600 dark:text-ohafia-sand-300">
+              {filter ? `Nothing matches "${filter}"` : 'No words yet'}
+            </p>
+          </div>
+        ) : (
+          sections.map(section => (
+            <section key={section.letter} id={`letter-${section.letter}`} className="scroll-mt-28">
+              <h2 className="text-sm font-bold text-ohafia-earth-500 dark:text-ohafia-sand-400 uppercase mb-2 igbo-text">
+                {section.letter}
+              </h2>
+              <div className="card divide-y divide-ohafia-sand-100 dark:divide-ohafia-earth-700">
+                {section.entries.map(entry => (
+                  <DictionaryRow key={entry.id} entry={entry} />
+                ))}
+              </div>
+            </section>
+          ))
+        )}
+      </main>
+    </div>
+  );
+}
+
+function DictionaryRow({ entry }: { entry: Asset }) {
+  return (
+    <Link
+      to={`/dictionary/${entry.id}`}
+      className="flex items-center gap-3 px-4 py-3 hover:bg-ohafia-sand-50 dark:hover:bg-ohafia-earth-700/50 transition-colors"
+    >
+      <div className="flex-1 min-w-0">
+        <p className="font-semibold text-ohafia-earth-900 dark:text-ohafia-sand-50 igbo-text truncate">{entry.igbo_text}</p>
+        <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400 truncate">{entry.english_text}</p>
+      </div>
+      <ChevronRight className="w-4 h-4 text-ohafia-earth-400 dark:text-ohafia-sand-500 flex-shrink-0" />
+    </Link>
+  );
+}
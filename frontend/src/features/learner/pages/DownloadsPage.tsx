@@ -0,0 +1,208 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Download, HardDrive, Trash2, RefreshCw, Loader2, AlertCircle, X } from 'lucide-react';
+import { useOfflineStore } from '@/stores/offline-store';
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+export function DownloadsPage() {
+  const navigate = useNavigate();
+  const {
+    packs,
+    updatesAvailable,
+    downloading,
+    storageEstimate,
+    isLoading,
+    error,
+    loadPacks,
+    downloadLessonPack,
+    removeLessonPack,
+    checkForUpdates,
+    fetchStorageEstimate,
+    clearError,
+  } = useOfflineStore();
+  const [isChecking, setIsChecking] = useState(false);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadPacks().then(() => {
+      if (navigator.onLine) checkForUpdates();
+    });
+    fetchStorageEstimate();
+  }, [loadPacks, checkForUpdates, fetchStorageEstimate]);
+
+  const handleCheckForUpdates = async () => {
+    setIsChecking(true);
+    await checkForUpdates();
+    setIsChecking(false);
+  };
+
+  const packList = Object.values(packs).sort((a, b) => a.data.lesson.order_index - b.data.lesson.order_index);
+  const packBytes = packList.reduce((sum, pack) => sum + pack.data.sizeBytes, 0);
+  const usagePercent = storageEstimate && storageEstimate.quota > 0
+    ? Math.min(100, Math.round((storageEstimate.usage / storageEstimate.quota) * 100))
+    : 0;
+
+  return (
+    <div className="min-h-screen bg-ohafia-sand-50 dark:bg-ohafia-earth-900">
+      {/* Header */}
+      <header className="bg-white dark:bg-ohafia-earth-800 border-b border-ohafia-sand-200 dark:border-ohafia-earth-700 px-6 py-4">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 -ml-2 rounded-lg hover:bg-ohafia-sand-100 dark:hover:bg-ohafia-earth-700 text-ohafia-earth-600 dark:text-ohafia-sand-400"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div className="flex-1">
+            <h1 className="text-lg font-bold text-ohafia-earth-900 dark:text-ohafia-sand-50">Downloaded Lessons</h1>
+            <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400">Learn without an internet connection</p>
+          </div>
+          {packList.length > 0 && navigator.onLine && (
+            <button
+              onClick={handleCheckForUpdates}
+              disabled={isChecking}
+              className="p-2 rounded-lg hover:bg-ohafia-sand-100 dark:hover:bg-ohafia-earth-700 text-ohafia-earth-600 dark:text-ohafia-sand-400"
+              title="Check for updates"
+            >
+              <RefreshCw className={`w-5 h-5 ${isChecking ? 'animate-spin' : ''}`} />
+            </button>
+          )}
+        </div>
+      </header>
+
+      <main className="p-6 pb-24 space-y-6">
+        {error && (
+          <div className="flex items-start gap-3 p-4 rounded-xl bg-red-50 border border-red-100 text-red-700">
+            <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+            <p className="text-sm font-medium flex-1">{error}</p>
+            <button onClick={clearError} className="text-red-500 hover:text-red-700">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        {/* Storage usage */}
+        <div className="card p-4">
+          <div className="flex items-center gap-3 mb-3">
+            <div className="w-10 h-10 rounded-xl bg-ohafia-primary-100 dark:bg-ohafia-primary-900/30 flex items-center justify-center">
+              <HardDrive className="w-5 h-5 text-ohafia-primary-600 dark:text-ohafia-primary-400" />
+            </div>
+            <div className="flex-1">
+              <p className="font-medium text-ohafia-earth-800 dark:text-ohafia-sand-100">Storage</p>
+              <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400">
+                {packList.length} {packList.length === 1 ? 'lesson' : 'lessons'} · {formatBytes(packBytes)} of audio
+              </p>
+            </div>
+          </div>
+          {storageEstimate && (
+            <>
+              <div className="progress-bar">
+                <div className="progress-bar-fill" style={{ width: `${usagePercent}%` }}></div>
+              </div>
+              <p className="text-xs text-ohafia-earth-400 dark:text-ohafia-sand-400 mt-2">
+                {formatBytes(storageEstimate.usage)} used of {formatBytes(storageEstimate.quota)} available to this app
+              </p>
+            </>
+          )}
+        </div>
+
+        {/* Pack list */}
+        {isLoading && packList.length === 0 ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-ohafia-primary-500" />
+          </div>
+        ) : packList.length === 0 ? (
+          <div className="card p-8 text-center">
+            <Download className="w-12 h-12 text-ohafia-sand-300 dark:text-ohafia-earth-600 mx-auto mb-4" />
+            <h3 className="font-semibold text-ohafia-earth-800 dark:text-ohafia-sand-50 mb-2">No Downloads Yet</h3>
+            <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400 mb-4">
+              Download lessons from the Learn tab to practise without an internet connection.
+            </p>
+            <button onClick={() => navigate('/learn')} className="btn-primary">
+              Browse lessons
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {packList.map(pack => {
+              const lessonId = pack.id;
+              const progress = downloading[lessonId];
+              const hasUpdate = !!updatesAvailable[lessonId];
+
+              return (
+                <div key={lessonId} className="card p-4">
+                  <div className="flex items-start gap-3">
+                    <div className="flex-1 min-w-0">
+                      <h3 className="font-semibold text-ohafia-earth-800 dark:text-ohafia-sand-100 break-words">
+                        {pack.data.lesson.title}
+                      </h3>
+                      <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400">
+                        {pack.data.assets.length} words · {formatBytes(pack.data.sizeBytes)}
+                      </p>
+                      <p className="text-xs text-ohafia-earth-400 dark:text-ohafia-sand-500 mt-1">
+                        Downloaded {new Date(pack.downloadedAt).toLocaleDateString()}
+                      </p>
+                      {hasUpdate && (
+                        <span className="inline-block mt-2 text-xs font-semibold px-2 py-0.5 rounded-full bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300">
+                          Update available
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1">
+                      {progress !== undefined ? (
+                        <span className="flex items-center gap-1 text-xs text-ohafia-primary-600 dark:text-ohafia-primary-400 px-2">
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                          {progress}%
+                        </span>
+                      ) : hasUpdate && (
+                        <button
+                          onClick={() => downloadLessonPack(lessonId)}
+                          className="p-2 rounded-lg text-amber-600 hover:bg-amber-50 dark:text-amber-400 dark:hover:bg-amber-900/20"
+                          title="Download update"
+                        >
+                          <RefreshCw className="w-5 h-5" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setConfirmDeleteId(lessonId)}
+                        disabled={progress !== undefined}
+                        className="p-2 rounded-lg text-ohafia-earth-400 hover:text-red-600 hover:bg-red-50 dark:text-ohafia-sand-400 dark:hover:bg-red-900/20 disabled:opacity-50"
+                        title="Remove download"
+                      >
+                        <Trash2 className="w-5 h-5" />
+                      </button>
+                    </div>
+                  </div>
+
+                  {confirmDeleteId === lessonId && (
+                    <div className="flex items-center gap-2 mt-3 pt-3 border-t border-ohafia-sand-200 dark:border-ohafia-earth-700">
+                      <p className="text-sm text-ohafia-earth-600 dark:text-ohafia-sand-300 flex-1">Remove this lesson from your device?</p>
+                      <button onClick={() => setConfirmDeleteId(null)} className="btn-ghost text-sm px-3 py-1.5">
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => {
+                          removeLessonPack(lessonId);
+                          setConfirmDeleteId(null);
+                        }}
+                        className="text-sm px-3 py-1.5 rounded-lg bg-red-500 text-white hover:bg-red-600"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,9 +1,12 @@
 import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { Flame, BookOpen, Mic, PenTool, ChevronRight, Play, UserPlus, Clock, XCircle, X, Loader2 } from 'lucide-react';
+import { Flame, BookOpen, Mic, PenTool, ChevronRight, Play, UserPlus, Clock, XCircle, X, Loader2, RotateCcw, Target, Quote } from 'lucide-react';
 import { useAuthStore } from '@/stores/auth-store';
 import { useLearnerStore } from '@/stores/learner-store';
+import { useProverbStore } from '@/stores/proverb-store';
+import { pickProverbOfTheDay } from '@/lib/proverbs';
 import { supabase } from '@/lib/supabase';
+import type { DailyPlanItem, DailyPlanItemType } from '@/lib/daily-plan';
 
 // Map difficulty to icons
 const difficultyIcons: Record<string, string> = {
@@ -15,6 +18,20 @@ const difficultyIcons: Record<string, string> = {
   'C2': '🏆',
 };
 
+const planItemIcons: Record<DailyPlanItemType, React.ElementType> = {
+  review: RotateCcw,
+  lesson: BookOpen,
+  weak: Target,
+};
+
+function planItemLink(item: DailyPlanItem): string {
+  switch (item.type) {
+    case 'review': return '/practice?review=due';
+    case 'weak': return '/practice?review=weak';
+    default: return `/practice?lesson=${item.lessonId}`;
+  }
+}
+
 const practiceCards = [
   { id: 'speak', title: 'Speak', icon: Mic, bgColor: 'bg-ohafia-primary-100 dark:bg-ohafia-primary-900/30', iconColor: 'text-ohafia-primary-600 dark:text-ohafia-primary-400', description: 'Practice pronunciation' },
   { id: 'listen', title: 'Listen', icon: BookOpen, bgColor: 'bg-ohafia-secondary-100 dark:bg-ohafia-secondary-900/30', iconColor: 'text-ohafia-secondary-600 dark:text-ohafia-secondary-400', description: 'Hear native audio' },
@@ -25,15 +42,17 @@ export function HomePage() {
   const { user, profile } = useAuthStore();
   const { 
     streak, 
-    updateStreak, 
+    fetchStreakStatus, 
     syncOfflineAttempts, 
     fetchTodaysPlan, 
     fetchContinueLesson, 
-    todaysPlan, 
+    dailyPlan, 
     continueLesson, 
     dailyGoal,
     isLoading 
   } = useLearnerStore();
+  const { proverbs, fetchProverbs } = useProverbStore();
+  const proverbOfTheDay = pickProverbOfTheDay(proverbs);
   
   // Role request state
   const [showRequestModal, setShowRequestModal] = useState(false);
@@ -44,14 +63,18 @@ export function HomePage() {
 
   useEffect(() => {
     if (profile?.id) {
-      updateStreak(profile.id);
-      syncOfflineAttempts(profile.id);
+      // Queued practice may extend the streak, so sync before asking for it
+      syncOfflineAttempts(profile.id).then(() => fetchStreakStatus());
       checkExistingRequest();
       // Fetch lessons based on user's proficiency level
       fetchTodaysPlan(profile.id, profile.proficiency_level || undefined);
       fetchContinueLesson(profile.id);
     }
-  }, [profile?.id, profile?.proficiency_level, updateStreak, syncOfflineAttempts, fetchTodaysPlan, fetchContinueLesson]);
+  }, [profile?.id, profile?.proficiency_level, fetchStreakStatus, syncOfflineAttempts, fetchTodaysPlan, fetchContinueLesson]);
+
+  useEffect(() => {
+    fetchProverbs();
+  }, [fetchProverbs]);
 
   // Check if user already has a pending request
   async function checkExistingRequest() {
@@ -92,6 +115,17 @@ export function HomePage() {
       setRequestStatus('pending');
       setShowRequestModal(false);
       setRequestReason('');
+
+      // The request may have been approved automatically; pick up the new role
+      await checkExistingRequest();
+      const { data: updatedProfile } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', profile.id)
+        .single();
+      if (updatedProfile && updatedProfile.role !== profile.role) {
+        useAuthStore.setState({ profile: { ...profile, role: updatedProfile.role } });
+      }
     } catch (err: any) {
       console.error('Error submitting request:', err);
       setRequestError(err?.message || 'Failed to submit request');
@@ -145,10 +179,10 @@ export function HomePage() {
         <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-4">
           <div className="flex items-center justify-between mb-3">
             <span className="font-medium">Today's Goal</span>
-            <span className="text-sm text-ohafia-primary-100">{dailyGoal.completed}/{dailyGoal.total} lessons</span>
+            <span className="text-sm text-ohafia-primary-100">{dailyGoal.completed}/{dailyGoal.total} min</span>
           </div>
           <div className="progress-bar bg-white/20">
-            <div className="progress-bar-fill bg-white" style={{ width: `${(dailyGoal.completed / dailyGoal.total) * 100}%` }}></div>
+            <div className="progress-bar-fill bg-white" style={{ width: `${Math.min(100, (dailyGoal.completed / dailyGoal.total) * 100)}%` }}></div>
           </div>
         </div>
       </header>
@@ -202,6 +236,24 @@ export function HomePage() {
           </div>
         )}
 
+        {/* Proverb of the day */}
+        {proverbOfTheDay && (
+          <Link
+            to={`/proverbs?id=${proverbOfTheDay.id}`}
+            className="card-interactive p-5 mb-6 block bg-gradient-to-br from-ohafia-accent-50 to-ohafia-accent-100 dark:from-ohafia-accent-900/30 dark:to-ohafia-accent-800/20"
+          >
+            <div className="flex items-center gap-2 mb-2">
+              <Quote className="w-4 h-4 text-ohafia-accent-600 dark:text-ohafia-accent-400" />
+              <span className="text-xs font-semibold uppercase text-ohafia-accent-700 dark:text-ohafia-accent-300">Proverb of the day</span>
+            </div>
+            <p className="font-semibold text-ohafia-earth-900 dark:text-ohafia-sand-50 igbo-text">{proverbOfTheDay.igbo_text}</p>
+            <div className="flex items-center justify-between mt-2">
+              <span className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400">What does it mean?</span>
+              <ChevronRight className="w-5 h-5 text-ohafia-earth-300 dark:text-ohafia-earth-600" />
+            </div>
+          </Link>
+        )}
+
         {/* Quick practice section */}
         <section className="mb-6">
           <div className="flex items-center justify-between mb-4">
@@ -241,42 +293,39 @@ export function HomePage() {
             <div className="flex justify-center py-8">
               <Loader2 className="w-6 h-6 animate-spin text-ohafia-primary-500" />
             </div>
-          ) : todaysPlan.length > 0 ? (
+          ) : dailyPlan && dailyPlan.items.length > 0 ? (
             <div className="space-y-3">
-              {todaysPlan.map((lesson) => (
-                <Link key={lesson.id} to={`/learn?lesson=${lesson.id}`} className="lesson-card">
-                  <div className="w-12 h-12 rounded-xl bg-ohafia-sand-100 dark:bg-ohafia-earth-800 flex items-center justify-center text-2xl flex-shrink-0">
-                    {difficultyIcons[lesson.difficulty] || '📚'}
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-2 mb-1">
-                      <h3 className="font-semibold text-ohafia-earth-800 dark:text-ohafia-sand-100 truncate">{lesson.title}</h3>
-                      <span className="badge-secondary text-xs">{lesson.difficulty}</span>
+              {dailyPlan.items.map((item) => {
+                const ItemIcon = planItemIcons[item.type];
+                return (
+                  <Link key={item.id} to={planItemLink(item)} className="lesson-card">
+                    <div className="w-12 h-12 rounded-xl bg-ohafia-sand-100 dark:bg-ohafia-earth-800 flex items-center justify-center flex-shrink-0">
+                      <ItemIcon className="w-6 h-6 text-ohafia-primary-600 dark:text-ohafia-primary-400" />
                     </div>
-                    <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400 truncate">{lesson.description || `${lesson.category || 'Lesson'}`}</p>
-                    {lesson.progress && lesson.progress > 0 && lesson.progress < 100 && (
-                      <div className="progress-bar mt-2 h-1">
-                        <div className="progress-bar-fill" style={{ width: `${lesson.progress}%` }}></div>
-                      </div>
-                    )}
-                  </div>
-                  <div className="flex items-center gap-2">
-                    {lesson.progress === 100 ? (
-                      <span className="text-ohafia-secondary-500 dark:text-ohafia-secondary-400 text-sm font-medium">✓ Done</span>
-                    ) : (
-                      <span className="text-xs text-ohafia-earth-400 dark:text-ohafia-sand-500">{lesson.estimated_minutes} min</span>
-                    )}
-                    <ChevronRight className="w-5 h-5 text-ohafia-earth-300 dark:text-ohafia-earth-600" />
-                  </div>
-                </Link>
-              ))}
+                    <div className="flex-1 min-w-0">
+                      <h3 className={`font-semibold truncate mb-1 ${item.completed ? 'text-ohafia-earth-400 dark:text-ohafia-sand-500 line-through' : 'text-ohafia-earth-800 dark:text-ohafia-sand-100'}`}>
+                        {item.title}
+                      </h3>
+                      <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400 truncate">{item.description}</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {item.completed ? (
+                        <span className="text-ohafia-secondary-500 dark:text-ohafia-secondary-400 text-sm font-medium">✓ Done</span>
+                      ) : (
+                        <span className="text-xs text-ohafia-earth-400 dark:text-ohafia-sand-500">{item.minutes} min</span>
+                      )}
+                      <ChevronRight className="w-5 h-5 text-ohafia-earth-300 dark:text-ohafia-earth-600" />
+                    </div>
+                  </Link>
+                );
+              })}
             </div>
           ) : (
             <div className="card p-6 text-center">
               <BookOpen className="w-10 h-10 mx-auto text-ohafia-earth-300 dark:text-ohafia-earth-600 mb-2" />
-              <p className="text-ohafia-earth-500 dark:text-ohafia-sand-400">No lessons available</p>
+              <p className="text-ohafia-earth-500 dark:text-ohafia-sand-400">Nothing planned for today</p>
               <p className="text-sm text-ohafia-earth-400 dark:text-ohafia-sand-500 mt-1">
-                Lessons will appear here once they're published
+                New lessons will appear here once they're published
               </p>
             </div>
           )}
@@ -1,9 +1,15 @@
 import { useState, useEffect, useRef, useMemo } from 'react';
 import { useNavigate, useSearchParams, useLocation } from 'react-router-dom';
-import { ChevronRight, Play, Lock, CheckCircle, Volume2, Loader2, AlertCircle, RefreshCw, Trophy, Star, ArrowRight, X, Filter } from 'lucide-react';
+import { ChevronRight, Play, Lock, CheckCircle, Volume2, Loader2, AlertCircle, RefreshCw, Trophy, Star, ArrowRight, X, Filter, Download, HardDrive, BookA, WifiOff, List, GitBranch, Zap, MessagesSquare } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
 import { useAuthStore } from '@/stores/auth-store';
+import { useOfflineStore } from '@/stores/offline-store';
 import { useAudioPlayer } from '@/lib/audio-service';
+import { SaveToDeckButton } from '@/components/ui/SaveToDeckButton';
+import { VoiceSwitcher } from '@/components/ui/VoiceSwitcher';
+import { getAllLessonPacks, openLessonPack, releasePackAudio } from '@/lib/offline-db';
+import { getPrerequisiteIds, groupLessonsForSkillTree, isLessonUnlocked } from '@/lib/lesson-graph';
+import { getVoices, VOICE_CLIP_COLUMNS, type Voice, type VoiceClip } from '@/lib/speakers';
 import type { Lesson, Asset, Progress } from '@/types/database';
 
 // Completion state from navigation
@@ -21,6 +27,7 @@ export function LearnPage() {
   const selectedLessonId = searchParams.get('lesson');
   const { user } = useAuthStore();
   const { speak, stop, isAvailable: ttsAvailable } = useAudioPlayer();
+  const { packs, updatesAvailable, downloading, loadPacks, downloadLessonPack, checkForUpdates } = useOfflineStore();
   const [lessons, setLessons] = useState<Lesson[]>([]);
   const [assets, setAssets] = useState<Asset[]>([]);
   const [progressMap, setProgressMap] = useState<Record<string, Progress>>({});
@@ -28,9 +35,14 @@ export function LearnPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [playingAudioId, setPlayingAudioId] = useState<string | null>(null);
+  // Approved recordings per asset, and the speaker picked for each
+  const [voicesByAsset, setVoicesByAsset] = useState<Record<string, Voice[]>>({});
+  const [selectedVoiceIds, setSelectedVoiceIds] = useState<Record<string, string>>({});
   const [speakingAssetId, setSpeakingAssetId] = useState<string | null>(null);
   const [highlightedLessonId, setHighlightedLessonId] = useState<string | null>(null);
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
+  const [isOfflineContent, setIsOfflineContent] = useState(false);
+  const [lessonView, setLessonView] = useState<'list' | 'path'>('list');
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const lessonRefs = useRef<Record<string, HTMLDivElement | null>>({});
   
@@ -39,13 +51,46 @@ export function LearnPage() {
   const [showCompletionModal, setShowCompletionModal] = useState(!!completionState?.completed);
   const [nextLesson, setNextLesson] = useState<Lesson | null>(null);
 
+  // Load downloaded packs, then see whether any have newer content
+  useEffect(() => {
+    loadPacks().then(() => {
+      if (navigator.onLine) checkForUpdates();
+    });
+  }, [loadPacks, checkForUpdates]);
+
+  // Free downloaded-pack audio once these assets are replaced or the page closes
+  useEffect(() => () => releasePackAudio(assets), [assets]);
+
   // Fetch lessons, assets, and progress from database
   useEffect(() => {
+    // Build the course from downloaded packs when the network is unavailable
+    async function loadFromPacks(): Promise<boolean> {
+      const storedPacks = await getAllLessonPacks();
+      if (storedPacks.length === 0) return false;
+
+      const opened = await Promise.all(storedPacks.map(pack => openLessonPack(pack.id)));
+      const available = opened.filter((pack): pack is NonNullable<typeof pack> => !!pack);
+
+      setLessons(available.map(pack => pack.lesson).sort((a, b) => a.order_index - b.order_index));
+      setAssets(available.flatMap(pack => pack.assets));
+      setProgressMap({});
+      setIsOfflineContent(true);
+      return true;
+    }
+
     async function fetchContent() {
       setIsLoading(true);
       setError(null);
+      setIsOfflineContent(false);
 
       try {
+        if (!navigator.onLine) {
+          if (!(await loadFromPacks())) {
+            setError("You're offline and no lessons are downloaded yet");
+          }
+          return;
+        }
+
         // Fetch published lessons
         const { data: lessonsData, error: lessonsError } = await supabase
           .from('lessons')
@@ -63,10 +108,7 @@ export function LearnPage() {
           .from('assets')
           .select(`
             *,
-            audio_submissions (
-              audio_url,
-              status
-            )
+            audio_submissions (${VOICE_CLIP_COLUMNS})
           `)
           .in('status', ['approved', 'pending'])
           .order('category', { ascending: true })
@@ -77,20 +119,14 @@ export function LearnPage() {
           throw assetsError;
         }
 
-        // Process assets to include audio_url from submissions if asset doesn't have one
-        const processedAssets = (assetsData || []).map((asset: Asset & { audio_submissions?: { audio_url: string; status: string }[] }) => {
-          // If asset has audio_url, use it; otherwise check submissions
-          if (!asset.audio_url && asset.audio_submissions?.length) {
-            // Prefer approved submissions, fall back to pending
-            const approvedAudio = asset.audio_submissions.find(s => s.status === 'approved');
-            const pendingAudio = asset.audio_submissions.find(s => s.status === 'pending');
-            const audioSubmission = approvedAudio || pendingAudio;
-            if (audioSubmission) {
-              return { ...asset, audio_url: audioSubmission.audio_url };
-            }
-          }
-          return asset;
+        // Play the primary recording by default, falling back to a pending one
+        const voices: Record<string, Voice[]> = {};
+        const processedAssets = (assetsData || []).map((asset: Asset & { audio_submissions?: VoiceClip[] }) => {
+          voices[asset.id] = getVoices(asset.audio_submissions, asset.audio_url);
+          const pendingAudio = asset.audio_submissions?.find(s => s.status === 'pending');
+          return { ...asset, audio_url: voices[asset.id][0]?.url || pendingAudio?.audio_url || null };
         });
+        setVoicesByAsset(voices);
 
         // Fetch user's progress for all lessons
         let progressData: Progress[] = [];
@@ -118,7 +154,10 @@ export function LearnPage() {
         setProgressMap(progressByLesson);
       } catch (err) {
         console.error('Error fetching content:', err);
-        setError(err instanceof Error ? err.message : 'Failed to load content');
+        const hasPacks = await loadFromPacks().catch(() => false);
+        if (!hasPacks) {
+          setError(err instanceof Error ? err.message : 'Failed to load content');
+        }
       } finally {
         setIsLoading(false);
       }
@@ -127,15 +166,26 @@ export function LearnPage() {
     fetchContent();
   }, [user?.id]);
 
-  // Find next lesson after completion
+  const completedIds = useMemo(
+    () => new Set(Object.values(progressMap).filter(p => p.is_completed).map(p => p.lesson_id)),
+    [progressMap]
+  );
+
+  // Progress isn't available offline, so downloaded lessons stay open
+  const isLessonLocked = (lesson: Lesson) =>
+    !isOfflineContent && !isLessonUnlocked(lesson, lessons, completedIds);
+
+  // Find next lesson after completion: the first unlocked lesson still to do,
+  // preferring ones that come after the lesson just finished
   useEffect(() => {
     if (completionState?.completed && completionState?.lessonId && lessons.length > 0) {
+      const done = new Set(completedIds).add(completionState.lessonId);
       const completedIndex = lessons.findIndex(l => l.id === completionState.lessonId);
-      if (completedIndex !== -1 && completedIndex < lessons.length - 1) {
-        setNextLesson(lessons[completedIndex + 1]);
-      }
+      const available = lessons.filter(l => !done.has(l.id) && isLessonUnlocked(l, lessons, done));
+      const next = available.find(l => lessons.indexOf(l) > completedIndex) || available[0] || null;
+      setNextLesson(next);
     }
-  }, [completionState, lessons]);
+  }, [completionState, lessons, completedIds]);
 
   // Scroll to selected lesson when data is loaded
   useEffect(() => {
@@ -155,8 +205,8 @@ export function LearnPage() {
   }, [isLoading, selectedLessonId, lessons]);
 
   // Play audio for an asset
-  const playAudio = async (asset: Asset) => {
-    if (!asset.audio_url) {
+  const playAudio = async (asset: Asset, url?: string) => {
+    if (!url && !asset.audio_url) {
       console.log('No audio URL for asset:', asset.id);
       return;
     }
@@ -171,10 +221,11 @@ export function LearnPage() {
       setPlayingAudioId(asset.id);
 
       // Get the audio URL - if it's a Supabase storage URL, get the public URL
-      let audioUrl = asset.audio_url;
+      let audioUrl = url || asset.audio_url!;
       
       // If it's a relative path, get signed URL from Supabase storage
-      if (!audioUrl.startsWith('http')) {
+      // (blob: URLs come from downloaded lesson packs)
+      if (!audioUrl.startsWith('http') && !audioUrl.startsWith('blob:')) {
         const { data } = supabase.storage
           .from('audio')
           .getPublicUrl(audioUrl);
@@ -247,13 +298,13 @@ export function LearnPage() {
   }, {} as Record<string, Asset[]>);
 
   // Calculate progress from actual data
-  const completedLessons = Object.values(progressMap).filter(p => p.is_completed).length;
+  const completedLessons = completedIds.size;
   const totalLessons = lessons.length;
   const progressPercent = totalLessons > 0 ? Math.round((completedLessons / totalLessons) * 100) : 0;
 
   // Helper to check if a lesson is completed
   const isLessonCompleted = (lessonId: string) => {
-    return progressMap[lessonId]?.is_completed || false;
+    return completedIds.has(lessonId);
   };
 
   // Helper to get lesson progress percentage
@@ -278,12 +329,38 @@ export function LearnPage() {
   return (
     <div className="min-h-screen bg-ohafia-sand-50 dark:bg-ohafia-earth-900">
       {/* Header */}
-      <header className="bg-white dark:bg-ohafia-earth-800 border-b border-ohafia-sand-200 dark:border-ohafia-earth-700 px-6 py-4 sticky top-0 z-10">
-        <h1 className="text-xl font-bold text-ohafia-earth-900 dark:text-ohafia-sand-50">Learn</h1>
-        <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400">Ohafia Igbo Course</p>
+      <header className="bg-white dark:bg-ohafia-earth-800 border-b border-ohafia-sand-200 dark:border-ohafia-earth-700 px-6 py-4 sticky top-0 z-10 flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-bold text-ohafia-earth-900 dark:text-ohafia-sand-50">Learn</h1>
+          <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400">Ohafia Igbo Course</p>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => navigate('/dictionary')}
+            className="p-2 rounded-xl text-ohafia-earth-500 dark:text-ohafia-sand-400 hover:bg-ohafia-sand-100 dark:hover:bg-ohafia-earth-700"
+            title="Dictionary"
+          >
+            <BookA className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => navigate('/downloads')}
+            className="p-2 rounded-xl text-ohafia-earth-500 dark:text-ohafia-sand-400 hover:bg-ohafia-sand-100 dark:hover:bg-ohafia-earth-700"
+            title="Downloaded lessons"
+          >
+            <HardDrive className="w-5 h-5" />
+          </button>
+        </div>
       </header>
 
       <main className="px-6 py-6 pb-24">
+        {/* Offline notice */}
+        {isOfflineContent && (
+          <div className="flex items-center gap-3 p-4 mb-6 rounded-xl bg-amber-50 dark:bg-amber-900/20 border border-amber-100 dark:border-amber-800 text-amber-700 dark:text-amber-300">
+            <WifiOff className="w-5 h-5 flex-shrink-0" />
+            <p className="text-sm font-medium">You're offline — showing your downloaded lessons</p>
+          </div>
+        )}
+
         {/* Error message */}
         {error && (
           <div className="flex items-start gap-3 p-4 mb-6 rounded-xl bg-red-50 border border-red-100 text-red-700">
@@ -390,10 +467,32 @@ export function LearnPage() {
                               /{asset.pronunciation_guide}/
                             </p>
                           )}
+                          {asset.dialogue && (
+                            <button
+                              onClick={() => navigate(`/dialogue/${asset.id}`)}
+                              className="mt-2 flex items-center gap-1 text-sm font-medium text-ohafia-primary-600 dark:text-ohafia-primary-400 hover:underline"
+                            >
+                              <MessagesSquare className="w-4 h-4" />
+                              Play dialogue · {asset.dialogue.turns.length} lines
+                            </button>
+                          )}
+                          <VoiceSwitcher
+                            compact
+                            voices={voicesByAsset[asset.id] || []}
+                            selectedId={selectedVoiceIds[asset.id] ?? null}
+                            onSelect={(voice) => {
+                              setSelectedVoiceIds(prev => ({ ...prev, [asset.id]: voice.id }));
+                              playAudio(asset, voice.url);
+                            }}
+                          />
                         </div>
+                        <SaveToDeckButton
+                          assetId={asset.id}
+                          content={{ igbo: asset.igbo_text, english: asset.english_text, audioUrl: asset.audio_url || '' }}
+                        />
                         {asset.audio_url ? (
                           <button 
-                            onClick={() => playAudio(asset)}
+                            onClick={() => playAudio(asset, voicesByAsset[asset.id]?.find(v => v.id === selectedVoiceIds[asset.id])?.url)}
                             disabled={playingAudioId === asset.id}
                             className={`w-10 h-10 rounded-full flex items-center justify-center transition-colors flex-shrink-0
                               ${playingAudioId === asset.id 
@@ -447,15 +546,38 @@ export function LearnPage() {
 
         {/* Lesson units */}
         <section>
-          <h2 className="font-semibold text-ohafia-earth-900 dark:text-ohafia-sand-50 mb-4">Course Lessons</h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="font-semibold text-ohafia-earth-900 dark:text-ohafia-sand-50">Course Lessons</h2>
+            {lessons.length > 0 && (
+              <div className="flex rounded-lg bg-ohafia-sand-100 dark:bg-ohafia-earth-700 p-1">
+                {([['list', List, 'List'], ['path', GitBranch, 'Path']] as const).map(([view, Icon, label]) => (
+                  <button
+                    key={view}
+                    onClick={() => setLessonView(view)}
+                    className={`px-3 py-1 rounded-md text-xs font-medium flex items-center gap-1 transition-colors
+                      ${lessonView === view
+                        ? 'bg-white dark:bg-ohafia-earth-800 text-ohafia-primary-600 dark:text-ohafia-primary-400 shadow-sm'
+                        : 'text-ohafia-earth-500 dark:text-ohafia-sand-400'}`}
+                  >
+                    <Icon className="w-3.5 h-3.5" />
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
           
-          {lessons.length > 0 ? (
+          {lessons.length > 0 && lessonView === 'path' ? (
+            <SkillTree
+              lessons={lessons}
+              completedIds={completedIds}
+              isLocked={isLessonLocked}
+              onOpen={(lesson) => navigate(isLessonLocked(lesson) ? `/learn/test-out/${lesson.id}` : `/practice?lesson=${lesson.id}`)}
+            />
+          ) : lessons.length > 0 ? (
             <div className="space-y-3">
-              {lessons.map((lesson, index) => {
-                // Unlock lesson if previous is completed, or if it's the first lesson
-                const previousLesson = index > 0 ? lessons[index - 1] : null;
-                const isPreviousCompleted = previousLesson ? isLessonCompleted(previousLesson.id) : true;
-                const isLocked = index > 0 && !isPreviousCompleted;
+              {lessons.map((lesson) => {
+                const isLocked = isLessonLocked(lesson);
                 const isCompleted = isLessonCompleted(lesson.id);
                 const lessonProgress = getLessonProgress(lesson.id);
                 const isHighlighted = highlightedLessonId === lesson.id;
@@ -470,54 +592,85 @@ export function LearnPage() {
                         : ''
                     }`}
                   >
-                    <button
-                      onClick={() => !isLocked && navigate(`/practice?lesson=${lesson.id}`)}
-                      disabled={isLocked}
-                      className={`w-full p-4 flex items-center gap-4 transition-colors
-                        ${isLocked ? 'opacity-50 cursor-not-allowed' : 'hover:bg-ohafia-sand-50 cursor-pointer'}`}
-                    >
-                      <div className={`w-12 h-12 rounded-xl flex items-center justify-center relative
-                        ${isCompleted 
-                          ? 'bg-ohafia-secondary-500 text-white' 
-                          : isLocked 
-                            ? 'bg-ohafia-sand-200 text-ohafia-earth-400'
-                            : 'bg-ohafia-primary-100 text-ohafia-primary-600'}`}
+                    <div className="flex items-center">
+                      <button
+                        onClick={() => !isLocked && navigate(`/practice?lesson=${lesson.id}`)}
+                        disabled={isLocked}
+                        className={`flex-1 min-w-0 p-4 flex items-center gap-4 transition-colors
+                          ${isLocked ? 'opacity-50 cursor-not-allowed' : 'hover:bg-ohafia-sand-50 cursor-pointer'}`}
                       >
-                        {isCompleted ? (
-                          <CheckCircle className="w-6 h-6" />
-                        ) : isLocked ? (
-                          <Lock className="w-5 h-5" />
-                        ) : (
-                          <Play className="w-5 h-5 ml-0.5" />
-                        )}
-                      </div>
-                      <div className="flex-1 text-left min-w-0">
-                        <h3 className={`font-semibold break-words ${isLocked ? 'text-ohafia-earth-400 dark:text-ohafia-sand-500' : 'text-ohafia-earth-800 dark:text-ohafia-sand-100'}`}>
-                          {lesson.title}
-                        </h3>
-                        {lesson.description && (
-                          <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400 break-words line-clamp-2">
-                            {lesson.description}
-                          </p>
-                        )}
-                        <div className="flex items-center gap-3 mt-1">
-                          <span className="text-xs text-ohafia-earth-400 dark:text-ohafia-sand-500">
-                            {lesson.estimated_minutes || 10} min
-                          </span>
-                          <span className="text-xs text-ohafia-primary-500 font-medium">
-                            +{lesson.xp_reward || 10} XP
-                          </span>
-                          {lessonProgress > 0 && !isCompleted && (
-                            <span className="text-xs text-ohafia-secondary-500 font-medium">
-                              {lessonProgress}% done
+                        <div className={`w-12 h-12 rounded-xl flex items-center justify-center relative
+                          ${isCompleted 
+                            ? 'bg-ohafia-secondary-500 text-white' 
+                            : isLocked 
+                              ? 'bg-ohafia-sand-200 text-ohafia-earth-400'
+                              : 'bg-ohafia-primary-100 text-ohafia-primary-600'}`}
+                        >
+                          {isCompleted ? (
+                            <CheckCircle className="w-6 h-6" />
+                          ) : isLocked ? (
+                            <Lock className="w-5 h-5" />
+                          ) : (
+                            <Play className="w-5 h-5 ml-0.5" />
+                          )}
+                        </div>
+                        <div className="flex-1 text-left min-w-0">
+                          <h3 className={`font-semibold break-words ${isLocked ? 'text-ohafia-earth-400 dark:text-ohafia-sand-500' : 'text-ohafia-earth-800 dark:text-ohafia-sand-100'}`}>
+                            {lesson.title}
+                          </h3>
+                          {lesson.description && (
+                            <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400 break-words line-clamp-2">
+                              {lesson.description}
+                            </p>
+                          )}
+                          <div className="flex items-center gap-3 mt-1">
+                            <span className="text-xs text-ohafia-earth-400 dark:text-ohafia-sand-500">
+                              {lesson.estimated_minutes || 10} min
+                            </span>
+                            <span className="text-xs text-ohafia-primary-500 font-medium">
+                              +{lesson.xp_reward || 10} XP
                             </span>
+                            {lessonProgress > 0 && !isCompleted && (
+                              <span className="text-xs text-ohafia-secondary-500 font-medium">
+                                {lessonProgress}% done
+                              </span>
+                            )}
+                            {isCompleted && progressMap[lesson.id]?.tested_out && (
+                              <span className="text-xs text-ohafia-earth-400 dark:text-ohafia-sand-500">
+                                Tested out
+                              </span>
+                            )}
+                          </div>
+                          {isLocked && (
+                            <p className="text-xs text-ohafia-earth-400 dark:text-ohafia-sand-500 mt-1 break-words">
+                              Requires {lessonTitles(getPrerequisiteIds(lesson, lessons).filter(id => !completedIds.has(id)), lessons)}
+                            </p>
                           )}
                         </div>
-                      </div>
-                      {!isLocked && (
-                        <ChevronRight className="w-5 h-5 text-ohafia-earth-300" />
+                        {!isLocked && (
+                          <ChevronRight className="w-5 h-5 text-ohafia-earth-300" />
+                        )}
+                      </button>
+                      {isLocked && (
+                        <button
+                          onClick={() => navigate(`/learn/test-out/${lesson.id}`)}
+                          className="mr-2 px-3 py-1.5 rounded-full text-xs font-medium flex items-center gap-1 flex-shrink-0 bg-ohafia-accent-100 text-ohafia-accent-700 hover:bg-ohafia-accent-200 dark:bg-ohafia-accent-900/30 dark:text-ohafia-accent-400"
+                          title="Take a quiz to unlock this lesson early"
+                        >
+                          <Zap className="w-3.5 h-3.5" />
+                          Test out
+                        </button>
+                      )}
+                      {!isOfflineContent && (
+                        <LessonDownloadButton
+                          isDownloaded={!!packs[lesson.id]}
+                          hasUpdate={!!updatesAvailable[lesson.id]}
+                          progress={downloading[lesson.id]}
+                          onDownload={() => downloadLessonPack(lesson.id)}
+                          onManage={() => navigate('/downloads')}
+                        />
                       )}
-                    </button>
+                    </div>
                   </div>
                 );
               })}
@@ -626,3 +779,163 @@ export function LearnPage() {
     </div>
   );
 }
+
+function LessonDownloadButton({
+  isDownloaded,
+  hasUpdate,
+  progress,
+  onDownload,
+  onManage,
+}: {
+  isDownloaded: boolean;
+  hasUpdate: boolean;
+  progress: number | undefined;
+  onDownload: () => void;
+  onManage: () => void;
+}) {
+  const baseClass = 'w-10 h-10 mr-3 rounded-full flex items-center justify-center flex-shrink-0 transition-colors';
+
+  if (progress !== undefined) {
+    return (
+      <div className={`${baseClass} bg-ohafia-primary-50 dark:bg-ohafia-earth-700`} title={`Downloading ${progress}%`}>
+        <Loader2 className="w-5 h-5 animate-spin text-ohafia-primary-500" />
+      </div>
+    );
+  }
+
+  if (isDownloaded && hasUpdate) {
+    return (
+      <button
+        onClick={onDownload}
+        className={`${baseClass} bg-amber-100 text-amber-600 hover:bg-amber-200 dark:bg-amber-900/30 dark:text-amber-400`}
+        title="Update available — download again"
+      >
+        <RefreshCw className="w-5 h-5" />
+      </button>
+    );
+  }
+
+  if (isDownloaded) {
+    return (
+      <button
+        onClick={onManage}
+        className={`${baseClass} bg-ohafia-secondary-100 text-ohafia-secondary-600 hover:bg-ohafia-secondary-200 dark:bg-ohafia-secondary-900/30 dark:text-ohafia-secondary-400`}
+        title="Available offline"
+      >
+        <CheckCircle className="w-5 h-5" />
+      </button>
+    );
+  }
+
+  return (
+    <button
+      onClick={onDownload}
+      className={`${baseClass} text-ohafia-earth-400 hover:bg-ohafia-sand-100 hover:text-ohafia-primary-600 dark:text-ohafia-sand-400 dark:hover:bg-ohafia-earth-700`}
+      title="Download for offline"
+    >
+      <Download className="w-5 h-5" />
+    </button>
+  );
+}
+
+// Lesson titles for a list of ids, e.g. "Greetings and Numbers"
+function lessonTitles(ids: string[], lessons: Lesson[]): string {
+  const titles = ids
+    .map(id => lessons.find(l => l.id === id)?.title)
+    .filter((title): title is string => !!title);
+  if (titles.length <= 1) return titles[0] || '';
+  return `${titles.slice(0, -1).join(', ')} and ${titles[titles.length - 1]}`;
+}
+
+const DIFFICULTY_LABELS: Record<string, string> = {
+  beginner: 'Beginner',
+  elementary: 'Elementary',
+  intermediate: 'Intermediate',
+  upper_intermediate: 'Upper Intermediate',
+  advanced: 'Advanced',
+  fluent: 'Fluent',
+};
+
+function SkillTree({
+  lessons,
+  completedIds,
+  isLocked,
+  onOpen,
+}: {
+  lessons: Lesson[];
+  completedIds: Set<string>;
+  isLocked: (lesson: Lesson) => boolean;
+  onOpen: (lesson: Lesson) => void;
+}) {
+  const tiers = useMemo(() => groupLessonsForSkillTree(lessons), [lessons]);
+
+  return (
+    <div className="space-y-8">
+      {tiers.map((tier, tierIndex) => {
+        const tierLessons = tier.categories.flatMap(c => c.lessons);
+        const tierDone = tierLessons.filter(l => completedIds.has(l.id)).length;
+
+        return (
+          <div key={tier.difficulty} className="relative">
+            {/* Connector from the previous tier */}
+            {tierIndex > 0 && (
+              <div className="absolute -top-8 left-1/2 w-0.5 h-8 bg-ohafia-sand-300 dark:bg-ohafia-earth-600" />
+            )}
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-xs font-semibold text-ohafia-earth-500 dark:text-ohafia-sand-400 uppercase tracking-wide">
+                {DIFFICULTY_LABELS[tier.difficulty] || tier.difficulty}
+              </h3>
+              <span className="text-xs text-ohafia-earth-400 dark:text-ohafia-sand-500">
+                {tierDone}/{tierLessons.length}
+              </span>
+            </div>
+
+            <div className="space-y-4">
+              {tier.categories.map(({ category, lessons: categoryLessons }) => (
+                <div key={category} className="card p-4">
+                  <p className="text-sm font-medium text-ohafia-earth-700 dark:text-ohafia-sand-200 capitalize mb-3">
+                    {category}
+                  </p>
+                  <div className="flex flex-wrap gap-4">
+                    {categoryLessons.map(lesson => {
+                      const isCompleted = completedIds.has(lesson.id);
+                      const locked = isLocked(lesson);
+
+                      return (
+                        <button
+                          key={lesson.id}
+                          onClick={() => onOpen(lesson)}
+                          className="w-20 flex flex-col items-center gap-1.5 group"
+                          title={locked ? 'Locked — take a quiz to test out' : lesson.title}
+                        >
+                          <div className={`w-14 h-14 rounded-full flex items-center justify-center border-4 transition-transform group-hover:scale-105
+                            ${isCompleted
+                              ? 'bg-ohafia-secondary-500 border-ohafia-secondary-200 text-white'
+                              : locked
+                                ? 'bg-ohafia-sand-200 border-ohafia-sand-100 text-ohafia-earth-400 dark:bg-ohafia-earth-700 dark:border-ohafia-earth-600'
+                                : 'bg-ohafia-primary-500 border-ohafia-primary-200 text-white'}`}
+                          >
+                            {isCompleted ? (
+                              <CheckCircle className="w-6 h-6" />
+                            ) : locked ? (
+                              <Lock className="w-5 h-5" />
+                            ) : (
+                              <Play className="w-5 h-5 ml-0.5" />
+                            )}
+                          </div>
+                          <span className={`text-xs text-center leading-tight line-clamp-2 ${locked ? 'text-ohafia-earth-400 dark:text-ohafia-sand-500' : 'text-ohafia-earth-700 dark:text-ohafia-sand-200'}`}>
+                            {lesson.title}
+                          </span>
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { ArrowLeft, Loader2, AlertCircle, CheckCircle, XCircle, Volume2, Compass, GraduationCap } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { useAudioPlayer } from '@/lib/audio-service';
+import { useAuthStore } from '@/stores/auth-store';
+import { useLearnerStore } from '@/stores/learner-store';
+import {
+  answerPlacementItem,
+  createPlacementTest,
+  getPlacedLevel,
+  getPlacementAnswers,
+  getPlacementScore,
+  nextPlacementItem,
+  PLACEMENT_MAX_ITEMS,
+  type PlacementItem,
+  type PlacementState,
+} from '@/lib/placement-test';
+import type { Asset, ProficiencyLevel } from '@/types/database';
+
+const LEVEL_LABELS: Record<ProficiencyLevel, string> = {
+  beginner: 'Beginner',
+  elementary: 'Elementary',
+  intermediate: 'Intermediate',
+  upper_intermediate: 'Upper Intermediate',
+  advanced: 'Advanced',
+  fluent: 'Fluent',
+};
+
+interface PlacementLocationState {
+  fromOnboarding?: boolean;
+}
+
+export function PlacementTestPage() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const fromOnboarding = !!(location.state as PlacementLocationState | null)?.fromOnboarding;
+  const { user } = useAuthStore();
+  const { applyPlacement, error: storeError } = useLearnerStore();
+  const { speak, playUrl, stop, isPlaying, isAvailable: ttsAvailable } = useAudioPlayer();
+  const [assets, setAssets] = useState<Asset[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [test, setTest] = useState<PlacementState | null>(null);
+  const [item, setItem] = useState<PlacementItem | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSaved, setIsSaved] = useState(false);
+
+  const doneRoute = fromOnboarding ? '/home' : '/profile';
+
+  useEffect(() => {
+    async function fetchAssets() {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const { data, error: assetsError } = await supabase
+          .from('assets')
+          .select('*')
+          .eq('status', 'approved')
+          .limit(500);
+
+        if (assetsError) throw assetsError;
+        setAssets((data || []) as Asset[]);
+      } catch (err) {
+        console.error('Error loading placement test:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load the placement test');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchAssets();
+  }, []);
+
+  const playItem = useCallback((placementItem: PlacementItem) => {
+    const { asset } = placementItem;
+    if (asset.audio_url) {
+      let audioUrl = asset.audio_url;
+      if (!audioUrl.startsWith('http')) {
+        audioUrl = supabase.storage.from('audio').getPublicUrl(audioUrl).data.publicUrl;
+      }
+      playUrl(audioUrl);
+    } else {
+      speak(asset.igbo_text, { rate: 0.8 });
+    }
+  }, [playUrl, speak]);
+
+  // Listening items play as soon as they appear
+  useEffect(() => {
+    if (item?.mode === 'listening') playItem(item);
+    return () => stop();
+  }, [item, playItem, stop]);
+
+  const saveResult = async (finished: PlacementState) => {
+    if (!user?.id) return;
+    setIsSaving(true);
+    const success = await applyPlacement(user.id, getPlacementAnswers(finished));
+    setIsSaving(false);
+    setIsSaved(success);
+  };
+
+  const startTest = () => {
+    const created = createPlacementTest(assets);
+    setTest(created);
+    setSelected(null);
+    setIsSaved(false);
+
+    const first = nextPlacementItem(created, ttsAvailable);
+    setItem(first);
+    if (!first) saveResult({ ...created, finished: true });
+  };
+
+  const handleNext = () => {
+    if (!test || !item || selected === null) return;
+
+    let updated = answerPlacementItem(test, item, selected);
+    const next = nextPlacementItem(updated, ttsAvailable);
+    if (!next) updated = { ...updated, finished: true };
+
+    setTest(updated);
+    setItem(next);
+    setSelected(null);
+    if (updated.finished) saveResult(updated);
+  };
+
+  const placedLevel = test?.finished ? getPlacedLevel(test) : null;
+
+  return (
+    <div className="min-h-screen bg-ohafia-sand-50 dark:bg-ohafia-earth-900">
+      {/* Header */}
+      <header className="bg-white dark:bg-ohafia-earth-800 border-b border-ohafia-sand-200 dark:border-ohafia-earth-700 px-6 py-4">
+        <div className="flex items-center gap-3">
+          {!fromOnboarding && (
+            <button
+              onClick={() => navigate(-1)}
+              className="p-2 -ml-2 rounded-lg hover:bg-ohafia-sand-100 dark:hover:bg-ohafia-earth-700 text-ohafia-earth-600 dark:text-ohafia-sand-400"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </button>
+          )}
+          <div className="flex-1">
+            <h1 className="text-lg font-bold text-ohafia-earth-900 dark:text-ohafia-sand-50">Placement Test</h1>
+            <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400">Find the right place to start</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="p-6 pb-24 space-y-6">
+        {(error || storeError) && (
+          <div className="flex items-start gap-3 p-4 rounded-xl bg-red-50 border border-red-100 text-red-700">
+            <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+            <p className="text-sm font-medium">{error || storeError}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-ohafia-primary-500" />
+          </div>
+        ) : !test ? (
+          /* Intro */
+          <div className="card p-8 text-center">
+            <div className="w-16 h-16 rounded-2xl bg-ohafia-primary-100 flex items-center justify-center mx-auto mb-4">
+              <Compass className="w-8 h-8 text-ohafia-primary-600" />
+            </div>
+            <h2 className="font-display text-xl font-bold text-ohafia-earth-900 dark:text-ohafia-sand-50 mb-2">
+              Already know some Igbo?
+            </h2>
+            <p className="text-ohafia-earth-600 dark:text-ohafia-sand-300 mb-6">
+              Listen to and read up to {PLACEMENT_MAX_ITEMS} words. Questions get harder as you go, and the test
+              stops as soon as we know your level. Lessons below it will be marked complete.
+            </p>
+            <div className="space-y-3">
+              <button onClick={startTest} className="w-full btn-primary py-3">
+                Start placement test
+              </button>
+              <button
+                onClick={() => navigate(doneRoute)}
+                className="w-full py-3 text-ohafia-earth-600 dark:text-ohafia-sand-400 hover:text-ohafia-earth-800 dark:hover:text-ohafia-sand-200 transition-colors"
+              >
+                {fromOnboarding ? "I'm new — start from the beginning" : 'Not now'}
+              </button>
+            </div>
+          </div>
+        ) : item && !test.finished ? (
+          /* Question */
+          <>
+            <div className="card p-6">
+              <div className="flex items-center justify-between mb-3 text-xs text-ohafia-earth-500 dark:text-ohafia-sand-400">
+                <span>Question {test.answers.length + 1}</span>
+                <span>{item.mode === 'listening' ? 'Listening' : 'Reading'}</span>
+              </div>
+              <div className="progress-bar mb-6">
+                <div
+                  className="progress-bar-fill"
+                  style={{ width: `${Math.round((test.answers.length / PLACEMENT_MAX_ITEMS) * 100)}%` }}
+                ></div>
+              </div>
+
+              {item.mode === 'listening' ? (
+                <div className="text-center mb-6">
+                  <button
+                    onClick={() => playItem(item)}
+                    className={`w-20 h-20 rounded-full flex items-center justify-center mx-auto mb-3 transition-colors
+                      ${isPlaying ? 'bg-ohafia-primary-500 text-white' : 'bg-ohafia-primary-100 text-ohafia-primary-600 hover:bg-ohafia-primary-200'}`}
+                  >
+                    <Volume2 className="w-8 h-8" />
+                  </button>
+                  <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400">
+                    {selected !== null ? item.asset.igbo_text : 'Listen and pick the meaning'}
+                  </p>
+                </div>
+              ) : (
+                <p className="text-2xl font-bold text-center text-ohafia-earth-900 dark:text-ohafia-sand-50 mb-6 igbo-text">
+                  {item.question.prompt}
+                </p>
+              )}
+
+              <div className="space-y-2">
+                {item.question.options.map(option => {
+                  const isAnswer = option === item.question.answer;
+                  const isSelected = option === selected;
+                  const stateClass = selected === null
+                    ? 'border-ohafia-sand-200 dark:border-ohafia-earth-600 hover:border-ohafia-primary-400'
+                    : isAnswer
+                      ? 'border-green-500 bg-green-50 dark:bg-green-900/20'
+                      : isSelected
+                        ? 'border-red-500 bg-red-50 dark:bg-red-900/20'
+                        : 'border-ohafia-sand-200 dark:border-ohafia-earth-600 opacity-60';
+
+                  return (
+                    <button
+                      key={option}
+                      onClick={() => selected === null && setSelected(option)}
+                      disabled={selected !== null}
+                      className={`w-full p-4 rounded-xl border-2 text-left flex items-center justify-between transition-colors ${stateClass}`}
+                    >
+                      <span className="font-medium text-ohafia-earth-800 dark:text-ohafia-sand-100">{option}</span>
+                      {selected !== null && isAnswer && <CheckCircle className="w-5 h-5 text-green-500" />}
+                      {isSelected && !isAnswer && <XCircle className="w-5 h-5 text-red-500" />}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
+            {selected !== null && (
+              <button onClick={handleNext} className="w-full btn-primary py-3">
+                Next
+              </button>
+            )}
+          </>
+        ) : (
+          /* Result */
+          <div className="card p-8 text-center animate-scale-in">
+            <div className="w-20 h-20 rounded-full bg-ohafia-secondary-100 text-ohafia-secondary-600 flex items-center justify-center mx-auto mb-4">
+              <GraduationCap className="w-10 h-10" />
+            </div>
+            <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400 mb-1">Your level</p>
+            <p className="text-3xl font-bold text-ohafia-primary-600 dark:text-ohafia-primary-400 mb-2">
+              {placedLevel && LEVEL_LABELS[placedLevel]}
+            </p>
+            <p className="text-ohafia-earth-600 dark:text-ohafia-sand-300 mb-6">
+              {test.answers.length > 0
+                ? `${getPlacementScore(test)}% correct across ${test.answers.length} ${test.answers.length === 1 ? 'question' : 'questions'}.`
+                : "There isn't enough course content to test you yet, so you'll start from the beginning."}
+              {placedLevel !== 'beginner' && ` Lessons below ${placedLevel && LEVEL_LABELS[placedLevel]} are marked complete.`}
+            </p>
+            <div className="space-y-3">
+              <button
+                onClick={() => (isSaved ? navigate(doneRoute) : saveResult(test))}
+                disabled={isSaving}
+                className="w-full btn-primary py-3 flex items-center justify-center gap-2"
+              >
+                {isSaving && <Loader2 className="w-5 h-5 animate-spin" />}
+                {isSaving ? 'Saving...' : isSaved ? (fromOnboarding ? 'Start learning' : 'Done') : 'Try saving again'}
+              </button>
+              {!fromOnboarding && (
+                <button
+                  onClick={startTest}
+                  disabled={isSaving}
+                  className="w-full py-3 text-ohafia-earth-600 dark:text-ohafia-sand-400 hover:text-ohafia-earth-800 dark:hover:text-ohafia-sand-200 transition-colors"
+                >
+                  Retake test
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,18 +1,71 @@
 import { useState, useEffect, useRef } from 'react';
 import { useSearchParams, useNavigate } from 'react-router-dom';
-import { Mic, Play, RotateCcw, Volume2, Check, X, Loader2, ArrowLeft, AlertCircle, Square, BookOpen, ChevronRight } from 'lucide-react';
+import { Mic, Play, RotateCcw, Volume2, Check, X, Loader2, ArrowLeft, AlertCircle, Square, BookOpen, ChevronRight, Repeat, Bookmark, Trash2 } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
 import { useAuthStore } from '@/stores/auth-store';
+import { useLearnerStore } from '@/stores/learner-store';
+import { useAchievementStore } from '@/stores/achievement-store';
+import { useDeckStore } from '@/stores/deck-store';
+import { SaveToDeckButton } from '@/components/ui/SaveToDeckButton';
+import { VoiceSwitcher } from '@/components/ui/VoiceSwitcher';
+import { LiveWaveform, WaveformPlayer, type WaveformTrack } from '@/components/ui/AudioWaveform';
 import { useAudioPlayer } from '@/lib/audio-service';
-import type { Asset, Lesson } from '@/types/database';
+import { getAllLessonPacks, getCachedAudio, getDeck, openLessonPack, releasePackAudio } from '@/lib/offline-db';
+import { scorePronunciation, feedbackToJson, type PronunciationFeedback } from '@/lib/pronunciation-scorer';
+import { getVoices, VOICE_CLIP_COLUMNS, type Voice, type VoiceClip } from '@/lib/speakers';
+import type { Asset, Lesson, Json } from '@/types/database';
 
 type PracticeMode = 'speak' | 'listen' | 'flashcard';
 
+// Cap a review session so a long backlog doesn't turn into one endless drill
+const REVIEW_SESSION_SIZE = 20;
+
+// Same threshold ProgressPage uses to count a scored attempt as correct
+const PASSING_SCORE = 70;
+
+type AssetWithAudio = Asset & { audio_submissions?: VoiceClip[] };
+
 interface PracticeWord {
   id: string;
   igbo: string;
   english: string;
   audioUrl: string;
+  referenceAudioUrl?: string; // approved clip used for pronunciation scoring
+  voices?: Voice[]; // every approved recording, primary first
+}
+
+// Only approved recordings are trusted as a scoring reference
+function getReferenceAudioUrl(asset: AssetWithAudio): string | undefined {
+  const approved = (asset.audio_submissions || []).filter(s => s.status === 'approved');
+  return (approved.find(s => s.is_primary) || approved[0])?.audio_url;
+}
+
+function practiceWordFromAsset(asset: AssetWithAudio): PracticeWord {
+  const voices = getVoices(asset.audio_submissions, asset.audio_url);
+  return {
+    id: asset.id,
+    igbo: asset.igbo_text,
+    english: asset.english_text,
+    audioUrl: voices[0]?.url || '',
+    referenceAudioUrl: getReferenceAudioUrl(asset),
+    voices,
+  };
+}
+
+// Packs only bundle approved assets, so their audio doubles as the reference
+async function loadWordsFromPack(lessonId: string): Promise<{ lesson: Lesson; words: PracticeWord[] } | null> {
+  const pack = await openLessonPack(lessonId);
+  if (!pack) return null;
+  return {
+    lesson: pack.lesson,
+    words: pack.assets.map(asset => ({
+      id: asset.id,
+      igbo: asset.igbo_text,
+      english: asset.english_text,
+      audioUrl: asset.audio_url || '',
+      referenceAudioUrl: asset.audio_url || undefined,
+    })),
+  };
 }
 
 interface LessonWithAssetCount extends Lesson {
@@ -23,9 +76,17 @@ export function PracticePage() {
   const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
   const { user } = useAuthStore();
+  const { dueReviews, fetchDueReviews, reviewAsset, recordAttempt, uploadAttemptAudio, completeLessonPractice, syncOfflineAttempts, completePlanItem } = useLearnerStore();
+  const evaluateAchievements = useAchievementStore(state => state.evaluateAchievements);
+  const { decks, fetchDecks, deleteDeck } = useDeckStore();
   const { speak, stop, isPlaying: ttsSpeaking } = useAudioPlayer();
   const lessonId = searchParams.get('lesson');
+  const deckId = searchParams.get('deck');
   const modeParam = searchParams.get('mode');
+  const reviewParam = searchParams.get('review');
+  // 'due' runs spaced reviews; 'weak' runs the daily plan's tricky words
+  const isWeakSession = reviewParam === 'weak';
+  const isReviewSession = reviewParam === 'due' || isWeakSession;
 
   // Set initial mode from URL parameter or default to flashcard
   const getInitialMode = (): PracticeMode => {
@@ -39,24 +100,39 @@ export function PracticePage() {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isRecording, setIsRecording] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
+  // Speaker the learner switched to for the current word
+  const [voiceId, setVoiceId] = useState<string | null>(null);
 
   const [feedback, setFeedback] = useState<'correct' | 'incorrect' | null>(null);
   
   // Data fetching state
   const [practiceWords, setPracticeWords] = useState<PracticeWord[]>([]);
   const [lesson, setLesson] = useState<Lesson | null>(null);
+  const [deckName, setDeckName] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [correctCount, setCorrectCount] = useState(0);
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const recordedChunksRef = useRef<Blob[]>([]);
+  const recordedBlobRef = useRef<Blob | null>(null);
   const [recordedAudioUrl, setRecordedAudioUrl] = useState<string | null>(null);
+  const [liveStream, setLiveStream] = useState<MediaStream | null>(null);
+
+  // Pronunciation scoring state (speak mode)
+  const [pronunciation, setPronunciation] = useState<PronunciationFeedback | null>(null);
+  const [isScoring, setIsScoring] = useState(false);
+  const [scoringError, setScoringError] = useState<string | null>(null);
+  const [shareRecording, setShareRecording] = useState(false);
+  const [isSubmittingSpeak, setIsSubmittingSpeak] = useState(false);
   
   // Available lessons for selection
   const [availableLessons, setAvailableLessons] = useState<LessonWithAssetCount[]>([]);
   const [isLoadingLessons, setIsLoadingLessons] = useState(false);
 
+  // Free cached-audio blob URLs once these words are replaced or the page closes
+  useEffect(() => () => releasePackAudio(practiceWords.map(word => ({ audio_url: word.audioUrl }))), [practiceWords]);
+
   // Update mode when URL param changes
   useEffect(() => {
     if (modeParam === 'speak' || modeParam === 'listen' || modeParam === 'flashcard') {
@@ -64,13 +140,39 @@ export function PracticePage() {
     }
   }, [modeParam]);
 
+  // Load due review cards for the "Review due" entry point
+  useEffect(() => {
+    if (user?.id) {
+      fetchDueReviews(user.id);
+    }
+  }, [user?.id, fetchDueReviews]);
+
+  // The learner's decks, for the picker and for running a deck session
+  useEffect(() => {
+    if (user?.id) {
+      fetchDecks(user.id);
+    }
+  }, [user?.id, fetchDecks]);
+
   // Fetch available lessons when no lesson is selected
   useEffect(() => {
     async function fetchAvailableLessons() {
-      if (lessonId) return; // Don't fetch if we already have a lesson
+      if (lessonId || deckId || isReviewSession) return; // Don't fetch if we already have content
       
       setIsLoadingLessons(true);
       try {
+        // Offline: only downloaded lessons can be practised
+        if (!navigator.onLine) {
+          const packs = await getAllLessonPacks();
+          setAvailableLessons(
+            packs
+              .map(pack => ({ ...pack.data.lesson, assetCount: pack.data.assets.length }))
+              .filter(l => l.assetCount > 0)
+              .sort((a, b) => a.order_index - b.order_index)
+          );
+          return;
+        }
+
         // Fetch lessons with their asset counts
         const { data: lessons, error: lessonsError } = await supabase
           .from('lessons')
@@ -107,11 +209,21 @@ export function PracticePage() {
     }
 
     fetchAvailableLessons();
-  }, [lessonId]);
+  }, [lessonId, deckId, isReviewSession]);
 
   // Fetch lesson and assets from database
   useEffect(() => {
     async function fetchPracticeContent() {
+      if (deckId) {
+        await fetchDeckContent(deckId);
+        return;
+      }
+
+      if (isReviewSession) {
+        await fetchReviewContent();
+        return;
+      }
+
       if (!lessonId) {
         setError('No lesson selected');
         setIsLoading(false);
@@ -122,6 +234,17 @@ export function PracticePage() {
       setError(null);
 
       try {
+        if (!navigator.onLine) {
+          const offline = await loadWordsFromPack(lessonId);
+          if (!offline) {
+            setError('This lesson is not downloaded for offline use');
+            return;
+          }
+          setLesson(offline.lesson);
+          setPracticeWords(offline.words);
+          return;
+        }
+
         // Fetch lesson info
         const { data: lessonData, error: lessonError } = await supabase
           .from('lessons')
@@ -137,7 +260,7 @@ export function PracticePage() {
           .from('assets')
           .select(`
             *,
-            audio_submissions (audio_url, status)
+            audio_submissions (${VOICE_CLIP_COLUMNS})
           `)
           .eq('lesson_id', lessonId)
           .in('status', ['approved', 'pending'])
@@ -146,20 +269,13 @@ export function PracticePage() {
         if (assetsError) throw assetsError;
 
         // Transform assets to practice words, including audio from submissions
-        const words: PracticeWord[] = (assetsData || []).map((asset: Asset & { audio_submissions?: { audio_url: string; status: string }[] }) => {
-          // Check for audio from submissions if asset doesn't have audio_url
-          let audioUrl = asset.audio_url || '';
-          if (!audioUrl && asset.audio_submissions?.length) {
-            const approvedAudio = asset.audio_submissions.find(s => s.status === 'approved');
-            const pendingAudio = asset.audio_submissions.find(s => s.status === 'pending');
-            audioUrl = (approvedAudio || pendingAudio)?.audio_url || '';
+        const words: PracticeWord[] = (assetsData || []).map((asset: AssetWithAudio) => {
+          // Primary recording first; a pending one beats no audio at all
+          const word = practiceWordFromAsset(asset);
+          if (!word.audioUrl) {
+            word.audioUrl = asset.audio_submissions?.find(s => s.status === 'pending')?.audio_url || '';
           }
-          return {
-            id: asset.id,
-            igbo: asset.igbo_text,
-            english: asset.english_text,
-            audioUrl,
-          };
+          return word;
         }).filter(word => word.igbo && word.english);
 
         if (words.length === 0) {
@@ -170,17 +286,157 @@ export function PracticePage() {
         console.log('Practice words loaded:', words);
       } catch (err) {
         console.error('Error fetching practice content:', err);
-        setError('Failed to load practice content');
+        // Flaky connection: use the downloaded pack if there is one
+        const offline = await loadWordsFromPack(lessonId).catch(() => null);
+        if (offline) {
+          setLesson(offline.lesson);
+          setPracticeWords(offline.words);
+        } else {
+          setError('Failed to load practice content');
+        }
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    // Build a session from cards due across all lessons, or from the
+    // weak words picked for today's plan
+    async function fetchReviewContent() {
+      if (!user?.id) return;
+
+      setIsLoading(true);
+      setError(null);
+      setLesson(null);
+
+      try {
+        await fetchDueReviews(user.id);
+        const { dueReviews: allDue, dailyPlan } = useLearnerStore.getState();
+        const dueCards = isWeakSession
+          ? (dailyPlan?.items.find(item => item.type === 'weak')?.assetIds || []).map(assetId => ({
+              assetId,
+              content: allDue.find(card => card.assetId === assetId)?.content,
+            }))
+          : allDue.slice(0, REVIEW_SESSION_SIZE);
+
+        let words: PracticeWord[] = [];
+        if (navigator.onLine && dueCards.length > 0) {
+          const { data: assetsData, error: assetsError } = await supabase
+            .from('assets')
+            .select(`
+              *,
+              audio_submissions (${VOICE_CLIP_COLUMNS})
+            `)
+            .in('id', dueCards.map(c => c.assetId));
+
+          if (assetsError) throw assetsError;
+
+          const assetsById = new Map(
+            (assetsData || []).map((asset: AssetWithAudio) => [asset.id, asset])
+          );
+          // Keep the scheduler's most-overdue-first order
+          words = dueCards.flatMap(card => {
+            const asset = assetsById.get(card.assetId);
+            return asset ? [practiceWordFromAsset(asset)] : [];
+          });
+        } else {
+          // Offline: fall back to the content snapshot stored with each card
+          words = dueCards.flatMap(card => card.content ? [{ id: card.assetId, ...card.content }] : []);
+        }
+
+        if (words.length === 0) {
+          setError(isWeakSession ? 'No tricky words to practise right now' : 'Nothing is due for review right now');
+        }
+
+        setPracticeWords(words);
+      } catch (err) {
+        console.error('Error fetching review content:', err);
+        setError('Failed to load review cards');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    // Practise the words saved in one of the learner's decks, oldest first
+    async function fetchDeckContent(id: string) {
+      setIsLoading(true);
+      setError(null);
+      setLesson(null);
+
+      try {
+        // A deck made on another device isn't stored locally yet
+        if (user?.id && navigator.onLine) {
+          await useDeckStore.getState().fetchDecks(user.id);
+        }
+        const deck = await getDeck(id);
+        if (!deck || deck.deleted) {
+          setError('This deck no longer exists');
+          return;
+        }
+        setDeckName(deck.name);
+
+        let words: PracticeWord[] = [];
+        if (navigator.onLine && deck.items.length > 0) {
+          const { data: assetsData, error: assetsError } = await supabase
+            .from('assets')
+            .select(`
+              *,
+              audio_submissions (${VOICE_CLIP_COLUMNS})
+            `)
+            .in('id', deck.items.map(item => item.assetId));
+
+          if (assetsError) throw assetsError;
+
+          const assetsById = new Map(
+            (assetsData || []).map((asset: AssetWithAudio) => [asset.id, asset])
+          );
+          words = deck.items.flatMap(item => {
+            const asset = assetsById.get(item.assetId);
+            return asset ? [practiceWordFromAsset(asset)] : [];
+          });
+        } else {
+          // Offline: use the content saved with each deck item, playing
+          // audio from a downloaded lesson pack when there is one
+          words = await Promise.all(deck.items.flatMap(item => item.content ? [item] : []).map(async item => {
+            const cached = await getCachedAudio(item.assetId);
+            return {
+              id: item.assetId,
+              ...item.content!,
+              audioUrl: cached ? URL.createObjectURL(cached) : item.content!.audioUrl,
+            };
+          }));
+        }
+
+        if (words.length === 0) {
+          setError('This deck has no words yet');
+        }
+
+        setPracticeWords(words);
+      } catch (err) {
+        console.error('Error fetching deck content:', err);
+        setError('Failed to load this deck');
       } finally {
         setIsLoading(false);
       }
     }
 
     fetchPracticeContent();
-  }, [lessonId]);
+  }, [lessonId, deckId, isReviewSession, isWeakSession, user?.id, fetchDueReviews]);
 
   const currentWord = practiceWords[currentIndex] || { id: '', igbo: '', english: '', audioUrl: '' };
   const progress = practiceWords.length > 0 ? ((currentIndex + 1) / practiceWords.length) * 100 : 0;
+  const selectedVoice = currentWord.voices?.find(voice => voice.id === voiceId);
+
+  // Each word starts with its primary voice
+  useEffect(() => {
+    setVoiceId(null);
+  }, [currentWord.id]);
+
+  const resetSpeakState = () => {
+    recordedBlobRef.current = null;
+    setPronunciation(null);
+    setScoringError(null);
+    setIsScoring(false);
+  };
 
   const handleNext = () => {
     console.log('Next clicked, currentIndex:', currentIndex, 'total:', practiceWords.length);
@@ -189,6 +445,7 @@ export function PracticePage() {
       URL.revokeObjectURL(recordedAudioUrl);
       setRecordedAudioUrl(null);
     }
+    resetSpeakState();
     if (currentIndex < practiceWords.length - 1) {
       setCurrentIndex(prev => prev + 1);
       setFeedback(null);
@@ -205,6 +462,7 @@ export function PracticePage() {
       URL.revokeObjectURL(recordedAudioUrl);
       setRecordedAudioUrl(null);
     }
+    resetSpeakState();
     if (currentIndex > 0) {
       setCurrentIndex(prev => prev - 1);
       setFeedback(null);
@@ -212,30 +470,43 @@ export function PracticePage() {
   };
 
   const handlePracticeComplete = async (finalCorrectCount: number) => {
-    if (!user || !lessonId) return;
-
     const accuracy = practiceWords.length > 0 
       ? Math.round((finalCorrectCount / practiceWords.length) * 100) 
       : 0;
 
-    try {
-      // Save or update progress
-      const { error: progressError } = await supabase
-        .from('progress')
-        .upsert({
-          user_id: user.id,
-          lesson_id: lessonId,
-          is_completed: true,
-          accuracy_rate: accuracy,
-          completed_assets: practiceWords.map(w => w.id),
-          last_practiced_at: new Date().toISOString(),
-        }, {
-          onConflict: 'user_id,lesson_id'
-        });
+    // Decks and review sessions span lessons, so there's no lesson progress to save
+    if (deckId) {
+      if (user) {
+        syncOfflineAttempts(user.id).then(() => evaluateAchievements());
+      }
+      navigate('/learn', {
+        state: { completed: true, accuracy, lessonTitle: deckName || 'your deck' },
+      });
+      return;
+    }
 
-      if (progressError) {
-        console.error('Error saving progress:', progressError);
+    if (isReviewSession) {
+      if (user) {
+        completePlanItem(user.id, isWeakSession ? 'weak' : 'review');
+        syncOfflineAttempts(user.id).then(() => evaluateAchievements());
       }
+      navigate('/learn', {
+        state: {
+          completed: true,
+          accuracy,
+          lessonTitle: isWeakSession ? 'your tricky words' : 'your review session',
+        },
+      });
+      return;
+    }
+
+    if (!user || !lessonId) return;
+
+    try {
+      // Progress is aggregated server-side from the attempts just recorded
+      await completeLessonPractice(user.id, lessonId);
+      completePlanItem(user.id, 'lesson', lessonId);
+      evaluateAchievements();
 
       // Navigate to completion screen or back to learn
       navigate('/learn', { 
@@ -266,6 +537,7 @@ export function PracticePage() {
           URL.revokeObjectURL(recordedAudioUrl);
           setRecordedAudioUrl(null);
         }
+        resetSpeakState();
         recordedChunksRef.current = [];
 
         const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
@@ -281,12 +553,16 @@ export function PracticePage() {
         mediaRecorder.onstop = () => {
           const blob = new Blob(recordedChunksRef.current, { type: 'audio/webm' });
           const url = URL.createObjectURL(blob);
+          recordedBlobRef.current = blob;
           setRecordedAudioUrl(url);
           // Stop all tracks
           stream.getTracks().forEach(track => track.stop());
+          setLiveStream(null);
+          scoreRecording(blob);
         };
 
         mediaRecorder.start();
+        setLiveStream(stream);
         setIsRecording(true);
       } catch (err) {
         console.error('Error starting recording:', err);
@@ -295,7 +571,58 @@ export function PracticePage() {
     }
   };
 
-  const handlePlayAudio = async () => {
+  // Compare the learner's take with the approved reference clip
+  const scoreRecording = async (blob: Blob) => {
+    if (!currentWord.referenceAudioUrl) return;
+
+    setIsScoring(true);
+    setScoringError(null);
+    try {
+      const result = await scorePronunciation({
+        recording: blob,
+        referenceUrl: currentWord.referenceAudioUrl,
+        text: currentWord.igbo,
+      });
+      setPronunciation(result);
+    } catch (err) {
+      console.error('Error scoring pronunciation:', err);
+      setScoringError(err instanceof Error ? err.message : 'Could not score your recording');
+    } finally {
+      setIsScoring(false);
+    }
+  };
+
+  // Save a speak attempt: scored when a reference exists, self-graded otherwise
+  const submitSpeakAttempt = async (selfGradedCorrect?: boolean) => {
+    if (isSubmittingSpeak) return;
+    setIsSubmittingSpeak(true);
+
+    try {
+      let userAudioUrl: string | undefined;
+      if (shareRecording && user && recordedBlobRef.current && navigator.onLine) {
+        userAudioUrl = (await uploadAttemptAudio(recordedBlobRef.current, user.id, currentWord.id)) || undefined;
+      }
+
+      if (pronunciation) {
+        handleAnswer(pronunciation.score >= PASSING_SCORE, {
+          score: pronunciation.score,
+          feedback: feedbackToJson(pronunciation),
+          userAudioUrl,
+        });
+      } else {
+        const correct = !!selfGradedCorrect;
+        handleAnswer(correct, {
+          score: correct ? 100 : 0,
+          feedback: { self_graded: true },
+          userAudioUrl,
+        });
+      }
+    } finally {
+      setIsSubmittingSpeak(false);
+    }
+  };
+
+  const handlePlayAudio = async (voice?: Voice) => {
     // Stop any current playback
     if (audioRef.current) {
       audioRef.current.pause();
@@ -303,15 +630,15 @@ export function PracticePage() {
     }
     stop(); // Stop TTS if playing
 
-    if (isPlaying) {
+    if (isPlaying && !voice) {
       setIsPlaying(false);
       return;
     }
 
     setIsPlaying(true);
 
-    // Try to play recorded audio first, then asset audio, then TTS
-    const audioToPlay = currentWord.audioUrl;
+    // Try the chosen speaker's recording first, then the default audio, then TTS
+    const audioToPlay = (voice || selectedVoice)?.url || currentWord.audioUrl;
 
     if (audioToPlay) {
       try {
@@ -337,6 +664,11 @@ export function PracticePage() {
     }
   };
 
+  const handleSelectVoice = (voice: Voice) => {
+    setVoiceId(voice.id);
+    handlePlayAudio(voice);
+  };
+
   const speakWithTTS = () => {
     speak(currentWord.igbo, {
       rate: 0.8,
@@ -345,23 +677,32 @@ export function PracticePage() {
     });
   };
 
-  const playRecordedAudio = () => {
-    if (!recordedAudioUrl) return;
-    
-    if (audioRef.current) {
-      audioRef.current.pause();
+  const handleAnswer = (
+    correct: boolean,
+    details?: { score: number; feedback?: Json; userAudioUrl?: string }
+  ) => {
+    setFeedback(correct ? 'correct' : 'incorrect');
+
+    // Record the attempt and reschedule the card; both queue locally when offline
+    if (user && currentWord.id) {
+      const reviewedAt = new Date().toISOString();
+      recordAttempt({
+        userId: user.id,
+        assetId: currentWord.id,
+        lessonId: lessonId || undefined,
+        mode: mode === 'flashcard' ? 'read' : mode,
+        score: details?.score ?? (correct ? 100 : 0),
+        metadata: { is_correct: correct, practice_mode: mode },
+        feedback: details?.feedback,
+        userAudioUrl: details?.userAudioUrl,
+      });
+      reviewAsset(
+        user.id,
+        { assetId: currentWord.id, isCorrect: correct, score: details?.score ?? null, reviewedAt },
+        { igbo: currentWord.igbo, english: currentWord.english, audioUrl: currentWord.audioUrl }
+      );
     }
-    
-    const audio = new Audio(recordedAudioUrl);
-    audioRef.current = audio;
-    audio.onended = () => {
-      audioRef.current = null;
-    };
-    audio.play();
-  };
 
-  const handleAnswer = (correct: boolean) => {
-    setFeedback(correct ? 'correct' : 'incorrect');
     const newCorrectCount = correct ? correctCount + 1 : correctCount;
     if (correct) {
       setCorrectCount(newCorrectCount);
@@ -402,7 +743,7 @@ export function PracticePage() {
   const modeInfo = getModeInfo();
 
   // No lesson selected - show lesson selector
-  if (!lessonId) {
+  if (!lessonId && !deckId && !isReviewSession) {
     return (
       <div className="min-h-screen bg-ohafia-sand-50 dark:bg-ohafia-earth-900">
         {/* Header */}
@@ -434,6 +775,74 @@ export function PracticePage() {
             </p>
           </div>
 
+          {/* Review due - cards from every lesson whose interval has elapsed */}
+          {mode !== 'speak' && (
+            <button
+              onClick={() => setSearchParams({ review: 'due', mode })}
+              disabled={dueReviews.length === 0}
+              className="w-full mb-6 bg-gradient-to-br from-ohafia-secondary-500 to-ohafia-secondary-700 text-white rounded-2xl p-4 text-left shadow-md hover:shadow-lg transition-all disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              <div className="flex items-center gap-4">
+                <div className="w-12 h-12 rounded-xl bg-white/20 flex items-center justify-center flex-shrink-0">
+                  <Repeat className="w-6 h-6" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <h3 className="font-semibold">Review due</h3>
+                  <p className="text-sm text-white/80">
+                    {dueReviews.length > 0
+                      ? `${dueReviews.length} ${dueReviews.length === 1 ? 'word is' : 'words are'} ready for review`
+                      : 'All caught up! Nothing due right now'}
+                  </p>
+                </div>
+                {dueReviews.length > 0 && <ChevronRight className="w-5 h-5 text-white/80" />}
+              </div>
+            </button>
+          )}
+
+          {/* Personal decks */}
+          {decks.length > 0 && (
+            <div className="mb-6">
+              <h3 className="text-sm font-semibold text-ohafia-earth-500 dark:text-ohafia-sand-400 uppercase mb-2">
+                Your decks
+              </h3>
+              <div className="space-y-2">
+                {decks.map(deck => (
+                  <div
+                    key={deck.id}
+                    className="flex items-center gap-3 bg-white dark:bg-ohafia-earth-800 rounded-2xl p-3 border border-ohafia-sand-200 dark:border-ohafia-earth-700"
+                  >
+                    <button
+                      onClick={() => setSearchParams({ deck: deck.id, mode })}
+                      disabled={deck.items.length === 0}
+                      className="flex-1 min-w-0 flex items-center gap-3 text-left disabled:opacity-60"
+                    >
+                      <div className="w-10 h-10 rounded-xl bg-ohafia-accent-100 dark:bg-ohafia-accent-900/30 flex items-center justify-center flex-shrink-0">
+                        <Bookmark className="w-5 h-5 text-ohafia-accent-600 dark:text-ohafia-accent-400" />
+                      </div>
+                      <div className="min-w-0">
+                        <p className="font-semibold text-ohafia-earth-900 dark:text-ohafia-sand-50 truncate">{deck.name}</p>
+                        <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400">
+                          {deck.items.length} {deck.items.length === 1 ? 'word' : 'words'}
+                        </p>
+                      </div>
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (confirm(`Delete the deck "${deck.name}"? The words stay in your lessons.`)) {
+                          deleteDeck(deck.id);
+                        }
+                      }}
+                      className="p-2 rounded-lg text-ohafia-earth-400 hover:text-red-600 hover:bg-red-50 dark:text-ohafia-sand-500 dark:hover:bg-red-900/20"
+                      title="Delete deck"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Lesson list */}
           {availableLessons.length > 0 ? (
             <div className="space-y-3">
@@ -519,10 +928,20 @@ export function PracticePage() {
               <AlertCircle className="w-10 h-10 text-ohafia-earth-400 dark:text-ohafia-sand-500" />
             </div>
             <h2 className="text-xl font-semibold text-ohafia-earth-800 dark:text-ohafia-sand-100 mb-2">
-              {lesson?.title ? `"${lesson.title}" has no vocabulary yet` : 'No vocabulary available'}
+              {deckId
+                ? error || 'This deck is empty'
+                : isReviewSession
+                ? 'Nothing to review'
+                : lesson?.title ? `"${lesson.title}" has no vocabulary yet` : 'No vocabulary available'}
             </h2>
             <p className="text-ohafia-earth-600 dark:text-ohafia-sand-300 mb-8">
-              This lesson doesn't have any vocabulary to practice. Try selecting a different lesson.
+              {deckId
+                ? 'Save words to this deck with the bookmark button on lesson and practice cards.'
+                : isWeakSession
+                ? "You're getting all your recent words right. Keep it up!"
+                : isReviewSession
+                ? 'You have no words due for review. Practice a lesson and they will come back when it is time.'
+                : "This lesson doesn't have any vocabulary to practice. Try selecting a different lesson."}
             </p>
             <div className="space-y-3">
               <button
@@ -557,12 +976,19 @@ export function PracticePage() {
           </button>
           <div className="flex-1">
             <h1 className="text-lg font-bold text-ohafia-earth-900 dark:text-ohafia-sand-50">
-              {lesson?.title || 'Practice'}
+              {deckId ? deckName || 'Deck' : isWeakSession ? 'Tricky words' : isReviewSession ? 'Review due' : lesson?.title || 'Practice'}
             </h1>
             <span className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400">
               {currentIndex + 1} of {practiceWords.length} words
             </span>
           </div>
+          {currentWord.id && (
+            <SaveToDeckButton
+              key={currentWord.id}
+              assetId={currentWord.id}
+              content={{ igbo: currentWord.igbo, english: currentWord.english, audioUrl: currentWord.audioUrl }}
+            />
+          )}
         </div>
         <div className="progress-bar">
           <div className="progress-bar-fill" style={{ width: `${progress}%` }}></div>
@@ -604,7 +1030,7 @@ export function PracticePage() {
               
               {/* Native audio player */}
               <button
-                onClick={handlePlayAudio}
+                onClick={() => handlePlayAudio()}
                 disabled={isPlaying || ttsSpeaking}
                 className={`flex items-center gap-2 px-4 py-2 rounded-xl mb-6 transition-colors
                   ${isPlaying || ttsSpeaking 
@@ -624,6 +1050,8 @@ export function PracticePage() {
                 )}
               </button>
 
+              <VoiceSwitcher voices={currentWord.voices || []} selectedId={voiceId} onSelect={handleSelectVoice} />
+
               {/* Recording button */}
               <button
                 onClick={handleRecord}
@@ -642,15 +1070,75 @@ export function PracticePage() {
                 {isRecording ? 'Recording... Tap to stop' : 'Tap to record'}
               </p>
 
-              {/* Play back recorded audio */}
+              {isRecording && liveStream && (
+                <div className="w-full mt-4">
+                  <LiveWaveform stream={liveStream} />
+                </div>
+              )}
+
+              {/* Your take next to the native speaker's */}
               {recordedAudioUrl && !isRecording && (
-                <button
-                  onClick={playRecordedAudio}
-                  className="flex items-center gap-2 mt-4 px-4 py-2 rounded-xl bg-ohafia-secondary-100 text-ohafia-secondary-700 hover:bg-ohafia-secondary-200 transition-colors"
-                >
-                  <Play className="w-4 h-4" />
-                  <span className="text-sm font-medium">Play your recording</span>
-                </button>
+                <div className="w-full mt-4">
+                  <WaveformPlayer tracks={speakTracks(recordedAudioUrl, selectedVoice?.url || currentWord.referenceAudioUrl)} />
+                </div>
+              )}
+
+              {/* Pronunciation result */}
+              {recordedAudioUrl && !isRecording && (
+                <div className="w-full mt-6">
+                  {isScoring ? (
+                    <div className="flex items-center justify-center gap-2 text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400">
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      Comparing with native speaker...
+                    </div>
+                  ) : pronunciation ? (
+                    <PronunciationResult result={pronunciation} />
+                  ) : scoringError ? (
+                    <p className="text-sm text-center text-red-600 dark:text-red-400">{scoringError}</p>
+                  ) : null}
+
+                  {!isScoring && (
+                    <>
+                      <label className="flex items-center justify-center gap-2 mt-4 text-sm text-ohafia-earth-600 dark:text-ohafia-sand-300">
+                        <input
+                          type="checkbox"
+                          checked={shareRecording}
+                          onChange={(e) => setShareRecording(e.target.checked)}
+                          className="rounded border-ohafia-sand-300 text-ohafia-primary-500 focus:ring-ohafia-primary-500"
+                        />
+                        Save my recording with this attempt
+                      </label>
+
+                      {pronunciation ? (
+                        <button
+                          onClick={() => submitSpeakAttempt()}
+                          disabled={isSubmittingSpeak}
+                          className="btn-primary w-full mt-4"
+                        >
+                          {isSubmittingSpeak ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Save score & continue'}
+                        </button>
+                      ) : (
+                        // No approved reference clip (or scoring failed): fall back to self-grading
+                        <div className="flex gap-3 mt-4">
+                          <button
+                            onClick={() => submitSpeakAttempt(false)}
+                            disabled={isSubmittingSpeak}
+                            className="btn-outline flex-1"
+                          >
+                            Needs work
+                          </button>
+                          <button
+                            onClick={() => submitSpeakAttempt(true)}
+                            disabled={isSubmittingSpeak}
+                            className="btn-primary flex-1"
+                          >
+                            I said it well
+                          </button>
+                        </div>
+                      )}
+                    </>
+                  )}
+                </div>
               )}
             </>
           )}
@@ -661,7 +1149,7 @@ export function PracticePage() {
               
               {/* Audio play button */}
               <button
-                onClick={handlePlayAudio}
+                onClick={() => handlePlayAudio()}
                 disabled={isPlaying || ttsSpeaking}
                 className={`w-20 h-20 rounded-full flex items-center justify-center mb-8 transition-all shadow-lg
                   ${isPlaying || ttsSpeaking
@@ -675,6 +1163,8 @@ export function PracticePage() {
                 )}
               </button>
 
+              <VoiceSwitcher voices={currentWord.voices || []} selectedId={voiceId} onSelect={handleSelectVoice} />
+
               {/* Answer options - show 4 options including the correct one */}
               <div className="w-full space-y-3">
                 {(() => {
@@ -772,3 +1262,77 @@ export function PracticePage() {
     </div>
   );
 }
+
+const toneLabels = { high: 'high', mid: 'mid', low: 'low' } as const;
+
+function speakTracks(recordingUrl: string, referenceUrl?: string): WaveformTrack[] {
+  const tracks: WaveformTrack[] = [];
+  if (referenceUrl) tracks.push({ src: referenceUrl, label: 'Native speaker', variant: 'reference' });
+  tracks.push({ src: recordingUrl, label: 'Your attempt' });
+  return tracks;
+}
+
+function PronunciationResult({ result }: { result: PronunciationFeedback }) {
+  const scoreColor = result.score >= PASSING_SCORE
+    ? 'text-ohafia-secondary-600 dark:text-ohafia-secondary-400'
+    : result.score >= 50
+      ? 'text-amber-600 dark:text-amber-400'
+      : 'text-red-600 dark:text-red-400';
+
+  // Plot both pitch contours on a shared semitone scale
+  const toPoints = (contour: (number | null)[]) => contour
+    .map((value, i) => value === null ? null : `${(i / Math.max(1, contour.length - 1)) * 100},${30 - Math.max(-8, Math.min(8, value)) * 3.5}`)
+    .filter(Boolean)
+    .join(' ');
+
+  const toneMisses = result.syllables.filter(s => s.toneMatch === false);
+
+  return (
+    <div className="bg-ohafia-sand-100 dark:bg-ohafia-earth-700 rounded-2xl p-4 text-left">
+      <div className="flex items-baseline justify-between mb-3">
+        <span className="text-sm font-medium text-ohafia-earth-600 dark:text-ohafia-sand-300">Pronunciation</span>
+        <span className={`text-3xl font-bold ${scoreColor}`}>{result.score}</span>
+      </div>
+
+      {/* Per-syllable scores */}
+      <div className="flex flex-wrap gap-1.5 mb-3">
+        {result.syllables.map((syllable, i) => (
+          <span
+            key={i}
+            title={`${syllable.score}/100`}
+            className={`px-2 py-1 rounded-lg text-sm font-medium igbo-text
+              ${syllable.score >= PASSING_SCORE
+                ? 'bg-ohafia-secondary-100 text-ohafia-secondary-700 dark:bg-ohafia-secondary-900/30 dark:text-ohafia-secondary-300'
+                : syllable.score >= 50
+                  ? 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300'
+                  : 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300'}`}
+          >
+            {syllable.text}
+          </span>
+        ))}
+      </div>
+
+      {/* Tone contour: reference vs learner */}
+      <svg viewBox="0 0 100 60" preserveAspectRatio="none" className="w-full h-16 mb-2">
+        <line x1="0" y1="30" x2="100" y2="30" className="stroke-ohafia-sand-300 dark:stroke-ohafia-earth-500" strokeWidth="0.5" />
+        <polyline points={toPoints(result.contour.reference)} fill="none" className="stroke-ohafia-secondary-500" strokeWidth="1.5" />
+        <polyline points={toPoints(result.contour.learner)} fill="none" className="stroke-ohafia-primary-500" strokeWidth="1.5" strokeDasharray="3 2" />
+      </svg>
+      <div className="flex gap-4 text-xs text-ohafia-earth-500 dark:text-ohafia-sand-400 mb-2">
+        <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-ohafia-secondary-500" /> Native speaker</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-ohafia-primary-500" /> You</span>
+        {result.toneScore !== null && <span className="ml-auto">Tone {result.toneScore}/100</span>}
+      </div>
+
+      {toneMisses.length > 0 && (
+        <ul className="text-xs text-ohafia-earth-600 dark:text-ohafia-sand-300 space-y-1">
+          {toneMisses.slice(0, 3).map((syllable, i) => (
+            <li key={i}>
+              “<span className="igbo-text font-medium">{syllable.text}</span>” should be {toneLabels[syllable.referenceTone!]} — yours was {toneLabels[syllable.learnerTone!]}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
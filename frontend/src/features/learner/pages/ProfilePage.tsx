@@ -2,12 +2,14 @@ import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { 
   Settings, Bell, Download, Shield, HelpCircle, LogOut, 
-  ChevronRight, Moon, Globe, Volume2, MessageSquarePlus, X, Check, ExternalLink, Sun
+  ChevronRight, Moon, Globe, Volume2, MessageSquarePlus, X, Check, ExternalLink, Sun, Timer, Compass
 } from 'lucide-react';
 import { useAuthStore } from '@/stores/auth-store';
 import { useThemeStore } from '@/stores/theme-store';
+import { useOfflineStore } from '@/stores/offline-store';
+import { DAILY_MINUTES_OPTIONS, getDailyMinutesGoal } from '@/lib/daily-plan';
 
-type ModalType = 'dialect' | 'audio' | 'darkMode' | 'notifications' | 'downloads' | 'privacy' | 'help' | 'settings' | null;
+type ModalType = 'dialect' | 'audio' | 'dailyGoal' | 'darkMode' | 'notifications' | 'privacy' | 'help' | 'settings' | null;
 
 interface UserPreferences {
   dialect: string;
@@ -17,8 +19,9 @@ interface UserPreferences {
 
 export function ProfilePage() {
   const navigate = useNavigate();
-  const { profile, signOut, isLoading } = useAuthStore();
+  const { profile, signOut, updateProfile, isLoading } = useAuthStore();
   const { isDarkMode, setDarkMode } = useThemeStore();
+  const { packs, loadPacks } = useOfflineStore();
   const [showLogoutConfirm, setShowLogoutConfirm] = useState(false);
   const [activeModal, setActiveModal] = useState<ModalType>(null);
   
@@ -42,6 +45,10 @@ export function ProfilePage() {
     };
   });
 
+  useEffect(() => {
+    loadPacks();
+  }, [loadPacks]);
+
   // Save preferences to localStorage when they change
   useEffect(() => {
     localStorage.setItem('userPreferences', JSON.stringify(preferences));
@@ -52,6 +59,29 @@ export function ProfilePage() {
     navigate('/');
   };
 
+  const dailyMinutesGoal = getDailyMinutesGoal(profile?.preferences ?? null);
+
+  // Stored on the profile so the daily plan follows the learner across devices
+  const updateDailyMinutesGoal = async (minutes: number) => {
+    try {
+      await updateProfile({
+        preferences: {
+          ...(profile?.preferences as Record<string, unknown> | null),
+          daily_minutes_goal: minutes,
+        },
+      });
+    } catch {
+      // Error is surfaced by the auth store
+    }
+  };
+
+  const hasTakenPlacement = !!(
+    profile?.preferences &&
+    typeof profile.preferences === 'object' &&
+    !Array.isArray(profile.preferences) &&
+    profile.preferences.placement
+  );
+
   const updatePreference = <K extends keyof UserPreferences>(key: K, value: UserPreferences[K]) => {
     setPreferences(prev => ({ ...prev, [key]: value }));
   };
@@ -60,6 +90,18 @@ export function ProfilePage() {
     {
       title: 'Preferences',
       items: [
+        { 
+          icon: Timer, 
+          label: 'Daily goal', 
+          value: `${dailyMinutesGoal} min`, 
+          action: () => setActiveModal('dailyGoal') 
+        },
+        { 
+          icon: Compass, 
+          label: 'Placement test', 
+          value: hasTakenPlacement ? 'Retake' : 'Take test', 
+          action: () => navigate('/placement') 
+        },
         { 
           icon: Globe, 
           label: 'Dialect', 
@@ -89,7 +131,7 @@ export function ProfilePage() {
     {
       title: 'Data',
       items: [
-        { icon: Download, label: 'Downloaded lessons', value: '0 packs', action: () => setActiveModal('downloads') },
+        { icon: Download, label: 'Downloaded lessons', value: `${Object.keys(packs).length} packs`, action: () => navigate('/downloads') },
         { icon: Shield, label: 'Privacy settings', action: () => setActiveModal('privacy') },
       ],
     },
@@ -269,6 +311,35 @@ export function ProfilePage() {
         </SettingsModal>
       )}
 
+      {/* Daily Goal Modal */}
+      {activeModal === 'dailyGoal' && (
+        <SettingsModal title="Daily Goal" onClose={() => setActiveModal(null)}>
+          <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400 mb-3">
+            Your daily plan is sized to fit this many minutes of practice.
+          </p>
+          <div className="space-y-2">
+            {DAILY_MINUTES_OPTIONS.map((minutes) => (
+              <button
+                key={minutes}
+                onClick={() => {
+                  updateDailyMinutesGoal(minutes);
+                  setActiveModal(null);
+                }}
+                className={`w-full p-4 rounded-xl border-2 text-left flex items-center justify-between transition-all
+                  ${dailyMinutesGoal === minutes 
+                    ? 'border-ohafia-primary-500 bg-ohafia-primary-50 dark:bg-ohafia-primary-900/30' 
+                    : 'border-ohafia-sand-200 dark:border-ohafia-earth-600 hover:border-ohafia-sand-300 dark:hover:border-ohafia-earth-500'}`}
+              >
+                <span className="font-medium text-ohafia-earth-800 dark:text-ohafia-sand-50">{minutes} minutes a day</span>
+                {dailyMinutesGoal === minutes && (
+                  <Check className="w-5 h-5 text-ohafia-primary-600 dark:text-ohafia-primary-400" />
+                )}
+              </button>
+            ))}
+          </div>
+        </SettingsModal>
+      )}
+
       {/* Audio Quality Modal */}
       {activeModal === 'audio' && (
         <SettingsModal title="Audio Quality" onClose={() => setActiveModal(null)}>
@@ -374,22 +445,6 @@ export function ProfilePage() {
         </SettingsModal>
       )}
 
-      {/* Downloads Modal */}
-      {activeModal === 'downloads' && (
-        <SettingsModal title="Downloaded Lessons" onClose={() => setActiveModal(null)}>
-          <div className="text-center py-8">
-            <Download className="w-12 h-12 text-ohafia-sand-300 dark:text-ohafia-earth-600 mx-auto mb-4" />
-            <h3 className="font-semibold text-ohafia-earth-800 dark:text-ohafia-sand-50 mb-2">No Downloads Yet</h3>
-            <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400 mb-4">
-              Download lessons to learn offline without internet connection.
-            </p>
-            <p className="text-xs text-ohafia-earth-400 dark:text-ohafia-sand-500">
-              Offline mode coming soon!
-            </p>
-          </div>
-        </SettingsModal>
-      )}
-
       {/* Privacy Modal */}
       {activeModal === 'privacy' && (
         <SettingsModal title="Privacy Settings" onClose={() => setActiveModal(null)}>
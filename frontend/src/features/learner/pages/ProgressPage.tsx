@@ -1,7 +1,9 @@
 import { useState, useEffect } from 'react';
-import { Flame, BookOpen, Mic, Headphones, Trophy, Target, Loader2 } from 'lucide-react';
+import { Flame, BookOpen, Mic, Headphones, Trophy, Target, Loader2, ChevronLeft, ChevronRight, Snowflake } from 'lucide-react';
 import { useAuthStore } from '@/stores/auth-store';
-import { supabase } from '@/lib/supabase';
+import { useLearnerStore } from '@/stores/learner-store';
+import { useAchievementStore } from '@/stores/achievement-store';
+import { getCriteriaProgress } from '@/lib/achievement-criteria';
 
 interface UserStats {
   totalXP: number;
@@ -39,6 +41,7 @@ interface WeeklyStats {
 
 export function ProgressPage() {
   const { profile } = useAuthStore();
+  const { progressSummary, streakStatus, fetchProgressSummary, isLoading: isFetching } = useLearnerStore();
   const [stats, setStats] = useState<UserStats>({
     totalXP: 0,
     wordsLearned: 0,
@@ -55,227 +58,76 @@ export function ProgressPage() {
     correctAttempts: 0,
     daysActive: 0,
   });
-  const [achievements, setAchievements] = useState<Achievement[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const {
+    achievements: achievementRows,
+    earned,
+    metrics,
+    fetchAchievements,
+  } = useAchievementStore();
+  const isLoading = isFetching && !progressSummary;
 
   useEffect(() => {
     if (profile?.id) {
-      fetchUserProgress();
+      fetchProgressSummary();
+      fetchAchievements(profile.id);
     }
-  }, [profile?.id]);
-
-  async function fetchUserProgress() {
-    if (!profile?.id) return;
-    
-    setIsLoading(true);
-    
-    try {
-      // Fetch user profile stats including last_active_at
-      const { data: profileData } = await supabase
-        .from('profiles')
-        .select('total_xp, streak_count, last_active_at, created_at')
-        .eq('id', profile.id)
-        .single();
-
-      // Fetch all attempts for the user (include score to determine correctness)
-      const { data: attempts, error: attemptsError } = await supabase
-        .from('attempts')
-        .select('id, is_correct, score, created_at, asset_id')
-        .eq('user_id', profile.id);
-      
-      if (attemptsError) {
-        console.error('Error fetching attempts:', attemptsError);
-      }
-
-      // Fetch progress records (lessons completed)
-      const { data: progressRecords, error: progressError } = await supabase
-        .from('progress')
-        .select('lesson_id, is_completed, completed_assets, last_practiced_at')
-        .eq('user_id', profile.id);
-      
-      if (progressError) {
-        console.error('Error fetching progress:', progressError);
-      }
-
-      // Fetch total lessons count
-      const { count: totalLessons } = await supabase
-        .from('lessons')
-        .select('id', { count: 'exact', head: true })
-        .eq('is_published', true);
-
-      // Calculate stats
-      const totalAttempts = attempts?.length || 0;
-      // Consider an attempt correct if is_correct is true OR score >= 70
-      const correctAttempts = attempts?.filter(a => a.is_correct === true || (a.score !== null && a.score >= 70))?.length || 0;
-      const accuracy = totalAttempts > 0 ? Math.round((correctAttempts / totalAttempts) * 100) : 0;
-      
-      // Count unique assets learned from multiple sources:
-      // 1. Assets with correct attempts (is_correct = true OR score >= 70)
-      // 2. Assets in progress.completed_assets arrays
-      const learnedAssetsSet = new Set<string>();
-      
-      // From attempts with correct answers
-      attempts?.filter(a => a.is_correct === true || (a.score !== null && a.score >= 70))
-        .forEach(a => learnedAssetsSet.add(a.asset_id));
-      
-      // From progress completed_assets arrays
-      progressRecords?.forEach(p => {
-        if (p.completed_assets && Array.isArray(p.completed_assets)) {
-          p.completed_assets.forEach((assetId: string) => learnedAssetsSet.add(assetId));
-        }
-      });
-      
-      const uniqueAssetsLearned = learnedAssetsSet.size;
-
-      // Count completed lessons
-      const lessonsCompleted = progressRecords?.filter(p => p.is_completed)?.length || 0;
-      
-      console.log('Progress Debug:', {
-        totalAttempts,
-        correctAttempts,
-        uniqueAssetsLearned,
-        lessonsCompleted,
-        attemptsData: attempts?.slice(0, 3),
-        progressData: progressRecords?.slice(0, 3),
-      });
-
-      setStats({
-        totalXP: profileData?.total_xp || 0,
-        wordsLearned: uniqueAssetsLearned,
-        lessonsCompleted,
-        totalLessons: totalLessons || 0,
-        currentStreak: profileData?.streak_count || 0,
-        totalAttempts,
-        correctAttempts,
-        accuracy,
-      });
-
-      // Calculate weekly activity from multiple sources:
-      // 1. Attempts (practice exercises)
-      // 2. Progress records (last_practiced_at - lesson practice)
-      const today = new Date();
-      const weekDays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-      const weekActivity: WeeklyActivity[] = [];
-      
-      for (let i = 6; i >= 0; i--) {
-        const date = new Date(today);
-        date.setDate(date.getDate() - i);
-        // Get start and end of the day for comparison
-        const dayStart = new Date(date);
-        dayStart.setHours(0, 0, 0, 0);
-        const dayEnd = new Date(date);
-        dayEnd.setHours(23, 59, 59, 999);
-        
-        // Count attempts on this day
-        const dayAttempts = attempts?.filter(a => {
-          const attemptDate = new Date(a.created_at);
-          return attemptDate >= dayStart && attemptDate <= dayEnd;
-        })?.length || 0;
-        
-        // Check if user practiced any lessons on this day
-        const dayPracticed = progressRecords?.some(p => {
-          if (!p.last_practiced_at) return false;
-          const practiceDate = new Date(p.last_practiced_at);
-          return practiceDate >= dayStart && practiceDate <= dayEnd;
-        }) || false;
-        
-        // Day is active if there were attempts OR lesson practice
-        const hasActivity = dayAttempts > 0 || dayPracticed;
-        
-        weekActivity.push({
-          day: weekDays[date.getDay()],
-          date: date.toISOString().split('T')[0],
-          attempts: dayAttempts,
-          completed: hasActivity,
-        });
-      }
-      
-      console.log('Weekly Activity Debug:', {
-        weekActivity,
-        profileLastActive: profileData?.last_active_at,
-        progressRecords: progressRecords?.map(p => ({ lesson_id: p.lesson_id, last_practiced_at: p.last_practiced_at })),
-      });
-      
-      setWeeklyActivity(weekActivity);
-
-      // Calculate weekly stats
-      const weekStart = new Date(today);
-      weekStart.setDate(weekStart.getDate() - 6);
-      weekStart.setHours(0, 0, 0, 0);
-      
-      const weeklyAttempts = attempts?.filter(a => {
-        const attemptDate = new Date(a.created_at);
-        return attemptDate >= weekStart;
-      }) || [];
-      
-      // Consider correct if is_correct OR score >= 70
-      const weeklyCorrect = weeklyAttempts.filter(a => a.is_correct === true || (a.score !== null && a.score >= 70)).length;
-      const daysWithActivity = weekActivity.filter(d => d.completed).length;
-      
-      // Count lessons practiced this week
-      const lessonsPracticedThisWeek = progressRecords?.filter(p => {
-        if (!p.last_practiced_at) return false;
-        const practiceDate = new Date(p.last_practiced_at);
-        return practiceDate >= weekStart;
-      })?.length || 0;
-      
-      setWeeklyStats({
-        totalAttempts: weeklyAttempts.length,
-        correctAttempts: weeklyCorrect,
-        daysActive: daysWithActivity,
-        lessonsPracticed: lessonsPracticedThisWeek,
-      });
-
-      // Calculate achievements
-      const userAchievements: Achievement[] = [
-        {
-          id: '1',
-          title: 'First Steps',
-          description: 'Complete your first lesson',
-          icon: '🎯',
-          earned: lessonsCompleted >= 1,
-        },
-        {
-          id: '2',
-          title: 'Week Warrior',
-          description: '7 day streak',
-          icon: '🔥',
-          earned: (profileData?.streak_count || 0) >= 7,
-          progress: Math.min(100, ((profileData?.streak_count || 0) / 7) * 100),
-        },
-        {
-          id: '3',
-          title: 'Word Master',
-          description: 'Learn 100 words',
-          icon: '📚',
-          earned: uniqueAssetsLearned >= 100,
-          progress: Math.min(100, (uniqueAssetsLearned / 100) * 100),
-        },
-        {
-          id: '4',
-          title: 'Perfect Score',
-          description: 'Get 100% accuracy on 10+ attempts',
-          icon: '⭐',
-          earned: accuracy === 100 && totalAttempts >= 10,
-        },
-        {
-          id: '5',
-          title: 'Dedicated Learner',
-          description: 'Complete 10 lessons',
-          icon: '🏆',
-          earned: lessonsCompleted >= 10,
-          progress: Math.min(100, (lessonsCompleted / 10) * 100),
-        },
-      ];
-      
-      setAchievements(userAchievements);
-
-    } catch (err) {
-      console.error('Error fetching progress:', err);
-    } finally {
-      setIsLoading(false);
-    }
-  }
+  }, [profile?.id, fetchProgressSummary, fetchAchievements]);
+
+  // Earned first, then closest to unlocking
+  const achievements: Achievement[] = achievementRows
+    .map(row => ({
+      id: row.id,
+      title: row.name,
+      description: row.description || '',
+      icon: row.icon || '🏆',
+      earned: !!earned[row.id],
+      progress: getCriteriaProgress(row.criteria, metrics),
+    }))
+    .sort((a, b) => Number(b.earned) - Number(a.earned) || (b.progress ?? 0) - (a.progress ?? 0));
+
+  // Derive the screen's view models from the server-side summary
+  useEffect(() => {
+    if (!progressSummary) return;
+
+    const {
+      total_xp: totalXP,
+      streak_count: currentStreak,
+      total_attempts: totalAttempts,
+      correct_attempts: correctAttempts,
+      words_learned: wordsLearned,
+      lessons_completed: lessonsCompleted,
+      total_lessons: totalLessons,
+    } = progressSummary;
+    const accuracy = totalAttempts > 0 ? Math.round((correctAttempts / totalAttempts) * 100) : 0;
+
+    setStats({
+      totalXP,
+      wordsLearned,
+      lessonsCompleted,
+      totalLessons,
+      currentStreak,
+      totalAttempts,
+      correctAttempts,
+      accuracy,
+    });
+
+    const weekDays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+    const weekActivity: WeeklyActivity[] = progressSummary.weekly_activity.map(day => ({
+      // Dates are local calendar days; parse at noon so the weekday can't shift
+      day: weekDays[new Date(`${day.date}T12:00:00`).getDay()],
+      date: day.date,
+      attempts: day.attempts,
+      completed: day.active,
+    }));
+    setWeeklyActivity(weekActivity);
+
+    setWeeklyStats({
+      totalAttempts: progressSummary.weekly_activity.reduce((sum, d) => sum + d.attempts, 0),
+      correctAttempts: progressSummary.weekly_activity.reduce((sum, d) => sum + d.correct, 0),
+      daysActive: weekActivity.filter(d => d.completed).length,
+      lessonsPracticed: progressSummary.lessons_practiced_this_week,
+    });
+  }, [progressSummary]);
 
   if (isLoading) {
     return (
@@ -294,7 +146,7 @@ export function ProgressPage() {
         {/* Stats grid */}
         <div className="grid grid-cols-2 gap-3">
           <StatCard icon={Trophy} label="Total XP" value={stats.totalXP.toLocaleString()} />
-          <StatCard icon={Flame} label="Day Streak" value={stats.currentStreak} />
+          <StatCard icon={Flame} label="Day Streak" value={streakStatus?.streak_count ?? stats.currentStreak} />
           <StatCard icon={BookOpen} label="Words Learned" value={stats.wordsLearned} />
           <StatCard icon={Target} label="Lessons Done" value={`${stats.lessonsCompleted}/${stats.totalLessons}`} />
         </div>
@@ -363,6 +215,9 @@ export function ProgressPage() {
           </div>
         </section>
 
+        {/* Streak history */}
+        {profile?.id && <StreakCalendar userId={profile.id} />}
+
         {/* Skills breakdown - based on attempt types */}
         <section className="mb-6">
           <h2 className="font-semibold text-ohafia-earth-900 dark:text-ohafia-sand-50 mb-4">Learning Stats</h2>
@@ -436,7 +291,7 @@ export function ProgressPage() {
                 <div className="flex-1">
                   <h3 className="font-semibold text-ohafia-earth-800 dark:text-ohafia-sand-100">{achievement.title}</h3>
                   <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400">{achievement.description}</p>
-                  {achievement.progress !== undefined && !achievement.earned && (
+                  {achievement.progress !== undefined && achievement.progress > 0 && !achievement.earned && (
                     <div className="mt-2">
                       <div className="progress-bar h-1.5">
                         <div 
@@ -460,6 +315,150 @@ export function ProgressPage() {
   );
 }
 
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+function toDateKey(year: number, month: number, day: number): string {
+  return `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function StreakCalendar({ userId }: { userId: string }) {
+  const { streakStatus, streakDays, fetchStreakStatus, fetchStreakDays, purchaseStreakFreeze, error } = useLearnerStore();
+  // Days are the learner's local calendar days as computed by the server
+  const today = streakStatus?.today ?? toDateKey(new Date().getFullYear(), new Date().getMonth(), new Date().getDate());
+  const [month, setMonth] = useState(() => {
+    const [year, monthNumber] = today.split('-').map(Number);
+    return { year, month: monthNumber - 1 };
+  });
+  const [isBuying, setIsBuying] = useState(false);
+
+  useEffect(() => {
+    fetchStreakStatus();
+  }, [fetchStreakStatus]);
+
+  useEffect(() => {
+    const lastDay = new Date(month.year, month.month + 1, 0).getDate();
+    fetchStreakDays(userId, toDateKey(month.year, month.month, 1), toDateKey(month.year, month.month, lastDay));
+  }, [userId, month, fetchStreakDays]);
+
+  const dayKinds: Record<string, 'active' | 'freeze'> = {};
+  streakDays.forEach(day => {
+    dayKinds[day.day] = day.kind;
+  });
+
+  const daysInMonth = new Date(month.year, month.month + 1, 0).getDate();
+  const leadingBlanks = new Date(month.year, month.month, 1).getDay();
+  const isCurrentMonth = today.startsWith(toDateKey(month.year, month.month, 1).slice(0, 7));
+
+  const shiftMonth = (delta: number) => {
+    setMonth(current => {
+      const next = new Date(current.year, current.month + delta, 1);
+      return { year: next.getFullYear(), month: next.getMonth() };
+    });
+  };
+
+  const handleBuyFreeze = async () => {
+    setIsBuying(true);
+    await purchaseStreakFreeze();
+    setIsBuying(false);
+  };
+
+  const freezes = streakStatus?.streak_freezes ?? 0;
+  const maxFreezes = streakStatus?.max_freezes ?? 2;
+  const freezeCost = streakStatus?.freeze_cost ?? 50;
+
+  return (
+    <section className="card p-5 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="font-semibold text-ohafia-earth-900 dark:text-ohafia-sand-50">Streak History</h2>
+        <span className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400">
+          Best: {streakStatus?.longest_streak ?? 0} days
+        </span>
+      </div>
+
+      <div className="flex items-center justify-between mb-3">
+        <button
+          onClick={() => shiftMonth(-1)}
+          className="p-1.5 rounded-lg hover:bg-ohafia-sand-100 dark:hover:bg-ohafia-earth-700 text-ohafia-earth-600 dark:text-ohafia-sand-300"
+          aria-label="Previous month"
+        >
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+        <span className="font-medium text-ohafia-earth-800 dark:text-ohafia-sand-100">
+          {MONTH_NAMES[month.month]} {month.year}
+        </span>
+        <button
+          onClick={() => shiftMonth(1)}
+          disabled={isCurrentMonth}
+          className="p-1.5 rounded-lg hover:bg-ohafia-sand-100 dark:hover:bg-ohafia-earth-700 text-ohafia-earth-600 dark:text-ohafia-sand-300 disabled:opacity-30"
+          aria-label="Next month"
+        >
+          <ChevronRight className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center">
+        {['S', 'M', 'T', 'W', 'T', 'F', 'S'].map((label, index) => (
+          <span key={index} className="text-xs text-ohafia-earth-400 dark:text-ohafia-sand-500 pb-1">{label}</span>
+        ))}
+        {Array.from({ length: leadingBlanks }).map((_, index) => (
+          <span key={`blank-${index}`} />
+        ))}
+        {Array.from({ length: daysInMonth }).map((_, index) => {
+          const key = toDateKey(month.year, month.month, index + 1);
+          const kind = dayKinds[key];
+          return (
+            <div
+              key={key}
+              title={kind === 'freeze' ? 'Streak freeze used' : undefined}
+              className={`aspect-square rounded-lg flex items-center justify-center text-xs
+                ${kind === 'active'
+                  ? 'bg-ohafia-primary-500 text-white font-medium'
+                  : kind === 'freeze'
+                    ? 'bg-sky-100 dark:bg-sky-900/40 text-sky-600 dark:text-sky-300'
+                    : 'text-ohafia-earth-500 dark:text-ohafia-sand-400'}
+                ${key === today ? 'ring-2 ring-ohafia-primary-300 dark:ring-ohafia-primary-600' : ''}`}
+            >
+              {kind === 'freeze' ? <Snowflake className="w-3.5 h-3.5" /> : index + 1}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Streak freezes */}
+      <div className="mt-4 pt-4 border-t border-ohafia-sand-200 dark:border-ohafia-earth-700">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <Snowflake className="w-5 h-5 text-sky-500" />
+            <div>
+              <p className="text-sm font-medium text-ohafia-earth-800 dark:text-ohafia-sand-100">
+                {freezes} of {maxFreezes} freezes
+              </p>
+              <p className="text-xs text-ohafia-earth-500 dark:text-ohafia-sand-400">
+                Each one covers a missed day
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={handleBuyFreeze}
+            disabled={isBuying || freezes >= maxFreezes}
+            className="px-3 py-1.5 text-sm font-medium rounded-lg bg-sky-50 dark:bg-sky-900/30 text-sky-700 dark:text-sky-300 hover:bg-sky-100 dark:hover:bg-sky-900/50 disabled:opacity-50"
+          >
+            {isBuying ? <Loader2 className="w-4 h-4 animate-spin" /> : `Buy · ${freezeCost} XP`}
+          </button>
+        </div>
+        {streakStatus && streakStatus.days_to_freeze > 0 && (
+          <p className="text-xs text-sky-600 dark:text-sky-400 mt-2">
+            Practise today and {streakStatus.days_to_freeze === 1 ? 'a freeze' : `${streakStatus.days_to_freeze} freezes`} will keep your streak.
+          </p>
+        )}
+        {error && (
+          <p className="text-xs text-red-600 dark:text-red-400 mt-2">{error}</p>
+        )}
+      </div>
+    </section>
+  );
+}
+
 function StatCard({ icon: Icon, label, value }: { icon: React.ElementType; label: string; value: string | number }) {
   return (
     <div className="bg-white/10 backdrop-blur-sm rounded-xl p-3">
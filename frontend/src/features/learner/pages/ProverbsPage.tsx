@@ -0,0 +1,280 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import {
+  ArrowLeft,
+  ArrowRight,
+  Volume2,
+  Square,
+  Loader2,
+  AlertCircle,
+  CheckCircle,
+  XCircle,
+  Lightbulb,
+  MessageCircle,
+  Eye,
+  Quote,
+} from 'lucide-react';
+import { useProverbStore } from '@/stores/proverb-store';
+import { useAudioPlayer } from '@/lib/audio-service';
+import { buildMeaningChoices, pickProverbOfTheDay, proverbMeaning } from '@/lib/proverbs';
+import type { Asset } from '@/types/database';
+
+export function ProverbsPage() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { proverbs, isLoading, error, fetchProverbs } = useProverbStore();
+  const { speak, stop: stopSpeech, isPlaying: isSpeaking } = useAudioPlayer();
+
+  const [selected, setSelected] = useState<string | null>(null);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [score, setScore] = useState({ correct: 0, answered: 0 });
+  const [isPlayingAudio, setIsPlayingAudio] = useState(false);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  useEffect(() => {
+    fetchProverbs();
+  }, [fetchProverbs]);
+
+  // Stop playback when leaving the page
+  useEffect(() => () => audioRef.current?.pause(), []);
+
+  const requestedId = searchParams.get('id');
+  const proverb = proverbs.find(p => p.id === requestedId) || pickProverbOfTheDay(proverbs);
+  const choices = useMemo(
+    () => (proverb ? buildMeaningChoices(proverb, proverbs) : []),
+    [proverb, proverbs]
+  );
+
+  // Start each proverb unanswered, including when going back in history
+  useEffect(() => {
+    setSelected(null);
+    setIsRevealed(false);
+  }, [proverb?.id]);
+
+  const related = proverb?.related_proverb_ids
+    ? proverbs.filter(p => proverb.related_proverb_ids!.includes(p.id))
+    : [];
+
+  const stopAudio = () => {
+    audioRef.current?.pause();
+    audioRef.current = null;
+    setIsPlayingAudio(false);
+    stopSpeech();
+  };
+
+  const showProverb = (target: Asset) => {
+    stopAudio();
+    setSearchParams({ id: target.id });
+    window.scrollTo({ top: 0 });
+  };
+
+  const showNext = () => {
+    if (!proverb) return;
+    const index = proverbs.findIndex(p => p.id === proverb.id);
+    showProverb(proverbs[(index + 1) % proverbs.length]);
+  };
+
+  const toggleListen = () => {
+    if (!proverb) return;
+    if (isPlayingAudio || isSpeaking) {
+      stopAudio();
+      return;
+    }
+    // Recorded audio when there is some, otherwise text-to-speech
+    if (proverb.audio_url) {
+      const audio = new Audio(proverb.audio_url);
+      audioRef.current = audio;
+      audio.onended = () => setIsPlayingAudio(false);
+      audio.onerror = () => setIsPlayingAudio(false);
+      setIsPlayingAudio(true);
+      audio.play().catch(() => setIsPlayingAudio(false));
+    } else {
+      speak(proverb.igbo_text, { rate: 0.8 });
+    }
+  };
+
+  const handleAnswer = (choice: string) => {
+    if (!proverb || selected !== null) return;
+    setSelected(choice);
+    setIsRevealed(true);
+    setScore(prev => ({
+      correct: prev.correct + (choice === proverbMeaning(proverb) ? 1 : 0),
+      answered: prev.answered + 1,
+    }));
+  };
+
+  if (isLoading && proverbs.length === 0) {
+    return (
+      <div className="min-h-screen bg-ohafia-sand-50 dark:bg-ohafia-earth-900 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-ohafia-primary-500" />
+      </div>
+    );
+  }
+
+  if (!proverb) {
+    return (
+      <div className="min-h-screen bg-ohafia-sand-50 dark:bg-ohafia-earth-900 flex items-center justify-center p-6">
+        <div className="card p-8 text-center max-w-sm">
+          <AlertCircle className="w-12 h-12 text-ohafia-sand-400 dark:text-ohafia-earth-500 mx-auto mb-3" />
+          <p className="text-ohafia-earth-600 dark:text-ohafia-sand-300 mb-4">
+            {error || 'No proverbs have been published yet'}
+          </p>
+          <button onClick={() => navigate(-1)} className="btn-primary px-6 py-2">
+            Go back
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const answer = proverbMeaning(proverb);
+  const isListening = isPlayingAudio || isSpeaking;
+
+  return (
+    <div className="min-h-screen bg-ohafia-sand-50 dark:bg-ohafia-earth-900">
+      {/* Header */}
+      <header className="bg-white dark:bg-ohafia-earth-800 border-b border-ohafia-sand-200 dark:border-ohafia-earth-700 px-6 py-4">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 -ml-2 rounded-lg hover:bg-ohafia-sand-100 dark:hover:bg-ohafia-earth-700 text-ohafia-earth-600 dark:text-ohafia-sand-400"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div className="flex-1">
+            <h1 className="text-xl font-bold text-ohafia-earth-900 dark:text-ohafia-sand-50">Ilu · Proverbs</h1>
+            <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400">
+              {proverbs.length} proverbs
+              {score.answered > 0 && ` · ${score.correct}/${score.answered} meanings guessed`}
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <main className="p-6 pb-24 space-y-6">
+        {/* Read and listen */}
+        <section className="card p-6">
+          <Quote className="w-8 h-8 text-ohafia-primary-300 dark:text-ohafia-primary-700 mb-2" />
+          <p className="text-2xl font-bold text-ohafia-earth-900 dark:text-ohafia-sand-50 igbo-text mb-4">
+            {proverb.igbo_text}
+          </p>
+          {proverb.literal_translation && (
+            <p className="text-ohafia-earth-600 dark:text-ohafia-sand-300 mb-4">
+              <span className="text-xs font-semibold uppercase text-ohafia-earth-400 dark:text-ohafia-sand-500 block mb-0.5">
+                Literally
+              </span>
+              {proverb.literal_translation}
+            </p>
+          )}
+          <button onClick={toggleListen} className="btn-outline flex items-center gap-2 px-4 py-2">
+            {isListening ? <Square className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+            {isListening ? 'Stop' : 'Listen'}
+          </button>
+        </section>
+
+        {/* Guess the meaning */}
+        <section>
+          <h2 className="text-sm font-semibold text-ohafia-earth-500 dark:text-ohafia-sand-400 uppercase mb-2">
+            What does it mean?
+          </h2>
+          {choices.length > 1 ? (
+            <div className="space-y-2">
+              {choices.map(choice => {
+                const isAnswer = choice === answer;
+                const isSelected = choice === selected;
+                const stateClass = selected === null
+                  ? 'border-ohafia-sand-200 dark:border-ohafia-earth-600 hover:border-ohafia-primary-400'
+                  : isAnswer
+                    ? 'border-green-500 bg-green-50 dark:bg-green-900/20'
+                    : isSelected
+                      ? 'border-red-500 bg-red-50 dark:bg-red-900/20'
+                      : 'border-ohafia-sand-200 dark:border-ohafia-earth-600 opacity-60';
+
+                return (
+                  <button
+                    key={choice}
+                    onClick={() => handleAnswer(choice)}
+                    disabled={selected !== null}
+                    className={`w-full p-4 rounded-xl border-2 text-left flex items-center justify-between gap-3 bg-white dark:bg-ohafia-earth-800 transition-colors ${stateClass}`}
+                  >
+                    <span className="text-ohafia-earth-800 dark:text-ohafia-sand-100">{choice}</span>
+                    {selected !== null && isAnswer && <CheckCircle className="w-5 h-5 text-green-500 flex-shrink-0" />}
+                    {isSelected && !isAnswer && <XCircle className="w-5 h-5 text-red-500 flex-shrink-0" />}
+                  </button>
+                );
+              })}
+            </div>
+          ) : !isRevealed && (
+            <button
+              onClick={() => setIsRevealed(true)}
+              className="btn-outline w-full py-3 flex items-center justify-center gap-2"
+            >
+              <Eye className="w-5 h-5" />
+              Reveal the meaning
+            </button>
+          )}
+        </section>
+
+        {/* Meaning and cultural context */}
+        {isRevealed && (
+          <>
+            <section className="card p-4">
+              <h2 className="font-semibold text-ohafia-earth-900 dark:text-ohafia-sand-50 mb-1">Meaning</h2>
+              <p className="text-ohafia-earth-700 dark:text-ohafia-sand-200">{answer}</p>
+              {proverb.figurative_meaning && proverb.english_text !== answer && (
+                <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400 mt-1">{proverb.english_text}</p>
+              )}
+            </section>
+
+            {proverb.usage_context && (
+              <section className="card p-4 flex gap-3">
+                <MessageCircle className="w-5 h-5 text-ohafia-primary-500 flex-shrink-0 mt-0.5" />
+                <div>
+                  <h2 className="font-semibold text-ohafia-earth-900 dark:text-ohafia-sand-50 mb-1">When it's used</h2>
+                  <p className="text-sm text-ohafia-earth-600 dark:text-ohafia-sand-300">{proverb.usage_context}</p>
+                </div>
+              </section>
+            )}
+
+            {proverb.cultural_note && (
+              <section className="card p-4 flex gap-3">
+                <Lightbulb className="w-5 h-5 text-ohafia-accent-500 flex-shrink-0 mt-0.5" />
+                <div>
+                  <h2 className="font-semibold text-ohafia-earth-900 dark:text-ohafia-sand-50 mb-1">Cultural context</h2>
+                  <p className="text-sm text-ohafia-earth-600 dark:text-ohafia-sand-300">{proverb.cultural_note}</p>
+                </div>
+              </section>
+            )}
+
+            {related.length > 0 && (
+              <section>
+                <h2 className="text-sm font-semibold text-ohafia-earth-500 dark:text-ohafia-sand-400 uppercase mb-2">
+                  Related proverbs
+                </h2>
+                <div className="space-y-2">
+                  {related.map(p => (
+                    <button
+                      key={p.id}
+                      onClick={() => showProverb(p)}
+                      className="card-interactive w-full p-4 text-left"
+                    >
+                      <p className="font-medium text-ohafia-earth-900 dark:text-ohafia-sand-50 igbo-text">{p.igbo_text}</p>
+                      <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400">{p.english_text}</p>
+                    </button>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {proverbs.length > 1 && (
+              <button onClick={showNext} className="btn-primary w-full py-3 flex items-center justify-center gap-2">
+                Next proverb
+                <ArrowRight className="w-5 h-5" />
+              </button>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
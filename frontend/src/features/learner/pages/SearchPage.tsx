@@ -0,0 +1,248 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Search, X, Loader2, AlertCircle, Volume2 } from 'lucide-react';
+import { useSearchStore, type AssetSearchResult } from '@/stores/search-store';
+import { useCategoryStore } from '@/stores/category-store';
+import { ASSET_TYPES, PROFICIENCY_LEVELS } from '@/lib/asset-transfer';
+import type { AssetType, ProficiencyLevel } from '@/types/database';
+
+function formatLabel(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1).replace(/_/g, ' ');
+}
+
+export function SearchPage() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { results, total, isLoading, error, searchAssets, clearError } = useSearchStore();
+  const { categories, fetchCategories } = useCategoryStore();
+
+  const query = searchParams.get('q') || '';
+  const type = (searchParams.get('type') || null) as AssetType | null;
+  const difficulty = (searchParams.get('difficulty') || null) as ProficiencyLevel | null;
+  const category = searchParams.get('category') || null;
+
+  const [input, setInput] = useState(query);
+
+  useEffect(() => {
+    fetchCategories();
+  }, [fetchCategories]);
+
+  // Follow the URL when it changes from outside, e.g. the header search bar
+  useEffect(() => {
+    setInput(query);
+  }, [query]);
+
+  const updateParam = useCallback((key: string, value: string | null) => {
+    setSearchParams(params => {
+      const next = new URLSearchParams(params);
+      if (value) next.set(key, value);
+      else next.delete(key);
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  // Write the typed query to the URL once typing pauses
+  useEffect(() => {
+    if (input.trim() === query) return;
+    const timeout = setTimeout(() => updateParam('q', input.trim() || null), 300);
+    return () => clearTimeout(timeout);
+  }, [input, query, updateParam]);
+
+  useEffect(() => {
+    searchAssets({ query, type, difficulty, category, status: 'approved' });
+  }, [query, type, difficulty, category, searchAssets]);
+
+  const playAudio = (url: string) => {
+    new Audio(url).play().catch(() => undefined);
+  };
+
+  const visibleResults = query ? results : [];
+
+  return (
+    <div className="min-h-screen bg-ohafia-sand-50 dark:bg-ohafia-earth-900">
+      {/* Header */}
+      <header className="bg-white dark:bg-ohafia-earth-800 border-b border-ohafia-sand-200 dark:border-ohafia-earth-700 px-6 py-4">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 -ml-2 rounded-lg hover:bg-ohafia-sand-100 dark:hover:bg-ohafia-earth-700 text-ohafia-earth-600 dark:text-ohafia-sand-400"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div className="relative flex-1">
+            <Search className="w-5 h-5 absolute left-3 top-1/2 -translate-y-1/2 text-ohafia-earth-400 dark:text-ohafia-sand-400" />
+            <input
+              type="search"
+              autoFocus
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder="Search in Igbo or English..."
+              className="input pl-10 pr-10 py-2"
+            />
+            {input && (
+              <button
+                onClick={() => setInput('')}
+                className="absolute right-3 top-1/2 -translate-y-1/2 text-ohafia-earth-400 hover:text-ohafia-earth-600 dark:text-ohafia-sand-400"
+                title="Clear search"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="p-6 pb-24 space-y-4">
+        {/* Filters */}
+        <div className="grid grid-cols-3 gap-2">
+          <FilterSelect
+            label="Type"
+            allLabel="All types"
+            value={type}
+            options={ASSET_TYPES.map(value => ({ value, label: formatLabel(value) }))}
+            onChange={(value) => updateParam('type', value)}
+          />
+          <FilterSelect
+            label="Level"
+            allLabel="All levels"
+            value={difficulty}
+            options={PROFICIENCY_LEVELS.map(value => ({ value, label: formatLabel(value) }))}
+            onChange={(value) => updateParam('difficulty', value)}
+          />
+          <FilterSelect
+            label="Category"
+            allLabel="All categories"
+            value={category}
+            options={categories.map(c => ({ value: c.name, label: formatLabel(c.name) }))}
+            onChange={(value) => updateParam('category', value)}
+          />
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 rounded-xl bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 text-sm">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            <span className="flex-1">{error}</span>
+            <button onClick={clearError}>
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        {!query ? (
+          <div className="card p-8 text-center">
+            <Search className="w-12 h-12 text-ohafia-sand-400 dark:text-ohafia-earth-500 mx-auto mb-3" />
+            <p className="text-ohafia-earth-600 dark:text-ohafia-sand-300">
+              Search words, phrases and proverbs
+            </p>
+            <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400 mt-1">
+              No need to type tone marks: "oma" finds "ọma"
+            </p>
+          </div>
+        ) : isLoading && visibleResults.length === 0 ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-ohafia-primary-500" />
+          </div>
+        ) : visibleResults.length === 0 ? (
+          <div className="card p-8 text-center">
+            <p className="text-ohafia-earth-600 dark:text-ohafia-sand-300">No results for "{query}"</p>
+            {(type || difficulty || category) && (
+              <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400 mt-1">
+                Try removing some filters
+              </p>
+            )}
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400">
+              {total} {total === 1 ? 'result' : 'results'}
+            </p>
+            <div className="space-y-3">
+              {visibleResults.map(result => (
+                <SearchResultCard key={result.id} result={result} onPlay={playAudio} />
+              ))}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+function FilterSelect({
+  label,
+  allLabel,
+  value,
+  options,
+  onChange,
+}: {
+  label: string;
+  allLabel: string;
+  value: string | null;
+  options: { value: string; label: string }[];
+  onChange: (value: string | null) => void;
+}) {
+  return (
+    <select
+      value={value || ''}
+      onChange={(e) => onChange(e.target.value || null)}
+      aria-label={label}
+      className="w-full px-3 py-2 rounded-xl border border-ohafia-sand-300 dark:border-ohafia-earth-600 bg-white dark:bg-ohafia-earth-800 text-sm text-ohafia-earth-800 dark:text-ohafia-sand-100"
+    >
+      <option value="">{allLabel}</option>
+      {options.map(option => (
+        <option key={option.value} value={option.value}>{option.label}</option>
+      ))}
+    </select>
+  );
+}
+
+// Dialogues and proverbs open in their own study pages
+function resultLink(result: AssetSearchResult): string {
+  if (result.dialogue) return `/dialogue/${result.id}`;
+  if (result.type === 'proverb') return `/proverbs?id=${result.id}`;
+  return `/dictionary/${result.id}`;
+}
+
+function SearchResultCard({ result, onPlay }: { result: AssetSearchResult; onPlay: (url: string) => void }) {
+  return (
+    <div className="card p-4">
+      <div className="flex items-start gap-3">
+        <div className="flex-1 min-w-0">
+          <Link
+            to={resultLink(result)}
+            className="text-lg font-semibold text-ohafia-earth-900 dark:text-ohafia-sand-50 igbo-text hover:text-ohafia-primary-600 dark:hover:text-ohafia-primary-400"
+          >
+            {result.igbo_text}
+          </Link>
+          <p className="text-ohafia-earth-600 dark:text-ohafia-sand-300">{result.english_text}</p>
+          {result.pronunciation_guide && (
+            <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400 mt-1">
+              /{result.pronunciation_guide}/
+            </p>
+          )}
+        </div>
+        {result.audio_url && (
+          <button
+            onClick={() => onPlay(result.audio_url!)}
+            className="p-2 rounded-full bg-ohafia-primary-50 dark:bg-ohafia-primary-900/30 text-ohafia-primary-600 dark:text-ohafia-primary-400 hover:bg-ohafia-primary-100"
+            title="Play pronunciation"
+          >
+            <Volume2 className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+
+      {result.cultural_note && (
+        <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400 mt-2 line-clamp-2">
+          {result.cultural_note}
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-1.5 mt-3">
+        <span className="badge-primary">{formatLabel(result.type)}</span>
+        <span className="badge-secondary">{formatLabel(result.difficulty)}</span>
+        {result.category && <span className="badge-accent">{formatLabel(result.category)}</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Loader2, AlertCircle, CheckCircle, XCircle, Lock, Unlock, RefreshCw } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { useAuthStore } from '@/stores/auth-store';
+import { useLearnerStore } from '@/stores/learner-store';
+import { getMissingPrerequisites } from '@/lib/lesson-graph';
+import { buildQuiz, scoreQuiz, toQuizAnswers, TEST_OUT_PASS_SCORE, type QuizQuestion } from '@/lib/lesson-quiz';
+import type { Asset, Lesson } from '@/types/database';
+
+export function TestOutPage() {
+  const navigate = useNavigate();
+  const { lessonId } = useParams<{ lessonId: string }>();
+  const { user } = useAuthStore();
+  const { progressMap, fetchAllProgress, testOutOfLessons, error: storeError } = useLearnerStore();
+  const [lessons, setLessons] = useState<Lesson[]>([]);
+  const [assets, setAssets] = useState<Asset[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [answers, setAnswers] = useState<Record<number, string>>({});
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [score, setScore] = useState<number | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  useEffect(() => {
+    async function fetchContent() {
+      if (!user?.id) return;
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const [{ data: lessonsData, error: lessonsError }, { data: assetsData, error: assetsError }] = await Promise.all([
+          supabase.from('lessons').select('*').eq('is_published', true).order('order_index', { ascending: true }),
+          supabase.from('assets').select('*').eq('status', 'approved').not('lesson_id', 'is', null),
+          fetchAllProgress(user.id),
+        ]);
+
+        if (lessonsError) throw lessonsError;
+        if (assetsError) throw assetsError;
+
+        setLessons((lessonsData || []) as Lesson[]);
+        setAssets((assetsData || []) as Asset[]);
+      } catch (err) {
+        console.error('Error loading test-out quiz:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load the quiz');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchContent();
+  }, [user?.id, fetchAllProgress]);
+
+  const targetLesson = lessons.find(l => l.id === lessonId) || null;
+
+  // Lessons this quiz would unlock: everything still standing in the way
+  const skippedLessons = useMemo(() => {
+    if (!targetLesson) return [];
+    const completedIds = new Set(
+      Object.values(progressMap).filter(p => p.is_completed).map(p => p.lesson_id)
+    );
+    return getMissingPrerequisites(targetLesson, lessons, completedIds);
+  }, [targetLesson, lessons, progressMap]);
+
+  // Questions only come from the lessons being skipped
+  const quizAssets = useMemo(() => {
+    const skippedIds = new Set(skippedLessons.map(l => l.id));
+    return assets.filter(a => a.lesson_id && skippedIds.has(a.lesson_id));
+  }, [assets, skippedLessons]);
+
+  // Build the first quiz once content has loaded
+  useEffect(() => {
+    if (!isLoading && questions.length === 0 && score === null && quizAssets.length > 0) {
+      setQuestions(buildQuiz(quizAssets));
+    }
+  }, [isLoading, quizAssets, questions.length, score]);
+
+  const startQuiz = () => {
+    setQuestions(buildQuiz(quizAssets));
+    setAnswers({});
+    setCurrentIndex(0);
+    setScore(null);
+  };
+
+  const handleAnswer = (option: string) => {
+    if (answers[currentIndex] !== undefined) return;
+    setAnswers(prev => ({ ...prev, [currentIndex]: option }));
+  };
+
+  const handleNext = () => {
+    if (currentIndex < questions.length - 1) {
+      setCurrentIndex(currentIndex + 1);
+    } else {
+      setScore(scoreQuiz(questions, answers));
+    }
+  };
+
+  const handleUnlock = async () => {
+    if (score === null || !lessonId) return;
+    setIsUnlocking(true);
+    const success = await testOutOfLessons(skippedLessons.map(l => l.id), toQuizAnswers(questions, answers));
+    setIsUnlocking(false);
+    if (success) navigate(`/learn?lesson=${lessonId}`, { replace: true });
+  };
+
+  const question = questions[currentIndex];
+  const selected = answers[currentIndex];
+  const passed = score !== null && score >= TEST_OUT_PASS_SCORE;
+
+  return (
+    <div className="min-h-screen bg-ohafia-sand-50 dark:bg-ohafia-earth-900">
+      {/* Header */}
+      <header className="bg-white dark:bg-ohafia-earth-800 border-b border-ohafia-sand-200 dark:border-ohafia-earth-700 px-6 py-4">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 -ml-2 rounded-lg hover:bg-ohafia-sand-100 dark:hover:bg-ohafia-earth-700 text-ohafia-earth-600 dark:text-ohafia-sand-400"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div className="flex-1 min-w-0">
+            <h1 className="text-lg font-bold text-ohafia-earth-900 dark:text-ohafia-sand-50">Test Out</h1>
+            <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400 truncate">
+              {targetLesson ? `Unlock ${targetLesson.title}` : 'Skip ahead by showing what you know'}
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <main className="p-6 pb-24 space-y-6">
+        {(error || storeError) && (
+          <div className="flex items-start gap-3 p-4 rounded-xl bg-red-50 border border-red-100 text-red-700">
+            <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+            <p className="text-sm font-medium">{error || storeError}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-ohafia-primary-500" />
+          </div>
+        ) : !targetLesson ? (
+          <div className="card p-8 text-center">
+            <p className="text-ohafia-earth-600 dark:text-ohafia-sand-300">This lesson isn't available.</p>
+          </div>
+        ) : skippedLessons.length === 0 ? (
+          <div className="card p-8 text-center">
+            <Unlock className="w-10 h-10 text-ohafia-secondary-500 mx-auto mb-3" />
+            <p className="font-semibold text-ohafia-earth-800 dark:text-ohafia-sand-100 mb-4">
+              {targetLesson.title} is already unlocked
+            </p>
+            <button onClick={() => navigate(`/practice?lesson=${targetLesson.id}`)} className="btn-primary">
+              Start lesson
+            </button>
+          </div>
+        ) : questions.length === 0 ? (
+          <div className="card p-8 text-center">
+            <Lock className="w-10 h-10 text-ohafia-earth-300 mx-auto mb-3" />
+            <p className="text-ohafia-earth-600 dark:text-ohafia-sand-300">
+              There isn't enough vocabulary in the earlier lessons to build a quiz yet.
+            </p>
+          </div>
+        ) : score === null ? (
+          <>
+            {/* Lessons being skipped */}
+            <div className="card p-4">
+              <p className="text-sm text-ohafia-earth-600 dark:text-ohafia-sand-300 mb-2">
+                Score {TEST_OUT_PASS_SCORE}% or more to complete:
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {skippedLessons.map(lesson => (
+                  <span
+                    key={lesson.id}
+                    className="px-2.5 py-1 rounded-full text-xs font-medium bg-ohafia-sand-100 dark:bg-ohafia-earth-700 text-ohafia-earth-600 dark:text-ohafia-sand-300"
+                  >
+                    {lesson.title}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            {/* Question */}
+            <div className="card p-6">
+              <div className="flex items-center justify-between mb-3 text-xs text-ohafia-earth-500 dark:text-ohafia-sand-400">
+                <span>Question {currentIndex + 1} of {questions.length}</span>
+                <span>{question.direction === 'igbo-to-english' ? 'Igbo → English' : 'English → Igbo'}</span>
+              </div>
+              <div className="progress-bar mb-6">
+                <div
+                  className="progress-bar-fill"
+                  style={{ width: `${((currentIndex + (selected !== undefined ? 1 : 0)) / questions.length) * 100}%` }}
+                ></div>
+              </div>
+              <p className={`text-2xl font-bold text-center text-ohafia-earth-900 dark:text-ohafia-sand-50 mb-6 ${question.direction === 'igbo-to-english' ? 'igbo-text' : ''}`}>
+                {question.prompt}
+              </p>
+              <div className="space-y-2">
+                {question.options.map(option => {
+                  const isAnswer = option === question.answer;
+                  const isSelected = option === selected;
+                  const stateClass = selected === undefined
+                    ? 'border-ohafia-sand-200 dark:border-ohafia-earth-600 hover:border-ohafia-primary-400'
+                    : isAnswer
+                      ? 'border-green-500 bg-green-50 dark:bg-green-900/20'
+                      : isSelected
+                        ? 'border-red-500 bg-red-50 dark:bg-red-900/20'
+                        : 'border-ohafia-sand-200 dark:border-ohafia-earth-600 opacity-60';
+
+                  return (
+                    <button
+                      key={option}
+                      onClick={() => handleAnswer(option)}
+                      disabled={selected !== undefined}
+                      className={`w-full p-4 rounded-xl border-2 text-left flex items-center justify-between transition-colors ${stateClass}`}
+                    >
+                      <span className={`font-medium text-ohafia-earth-800 dark:text-ohafia-sand-100 ${question.direction === 'english-to-igbo' ? 'igbo-text' : ''}`}>
+                        {option}
+                      </span>
+                      {selected !== undefined && isAnswer && <CheckCircle className="w-5 h-5 text-green-500" />}
+                      {isSelected && !isAnswer && <XCircle className="w-5 h-5 text-red-500" />}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
+            {selected !== undefined && (
+              <button onClick={handleNext} className="w-full btn-primary py-3">
+                {currentIndex < questions.length - 1 ? 'Next question' : 'See result'}
+              </button>
+            )}
+          </>
+        ) : (
+          /* Result */
+          <div className="card p-8 text-center animate-scale-in">
+            <div className={`w-20 h-20 rounded-full flex items-center justify-center mx-auto mb-4 ${passed ? 'bg-ohafia-secondary-100 text-ohafia-secondary-600' : 'bg-ohafia-sand-100 text-ohafia-earth-400'}`}>
+              {passed ? <Unlock className="w-10 h-10" /> : <Lock className="w-10 h-10" />}
+            </div>
+            <p className="text-4xl font-bold text-ohafia-primary-600 dark:text-ohafia-primary-400 mb-2">{score}%</p>
+            <p className="text-ohafia-earth-600 dark:text-ohafia-sand-300 mb-6">
+              {passed
+                ? `You passed! ${skippedLessons.length} ${skippedLessons.length === 1 ? 'lesson' : 'lessons'} will be marked complete.`
+                : `You need ${TEST_OUT_PASS_SCORE}% to test out. Work through the earlier lessons or try again.`}
+            </p>
+            <div className="space-y-3">
+              {passed ? (
+                <button
+                  onClick={handleUnlock}
+                  disabled={isUnlocking}
+                  className="w-full btn-primary py-3 flex items-center justify-center gap-2"
+                >
+                  {isUnlocking ? <Loader2 className="w-5 h-5 animate-spin" /> : <Unlock className="w-5 h-5" />}
+                  Unlock {targetLesson.title}
+                </button>
+              ) : (
+                <button onClick={startQuiz} className="w-full btn-primary py-3 flex items-center justify-center gap-2">
+                  <RefreshCw className="w-5 h-5" />
+                  Try again
+                </button>
+              )}
+              <button
+                onClick={() => navigate('/learn')}
+                className="w-full py-3 text-ohafia-earth-600 dark:text-ohafia-sand-400 hover:text-ohafia-earth-800 dark:hover:text-ohafia-sand-200 transition-colors"
+              >
+                Back to Lessons
+              </button>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import {
+  ArrowLeft,
+  Volume2,
+  Square,
+  Loader2,
+  AlertCircle,
+  BookmarkPlus,
+  BookmarkCheck,
+  Lightbulb,
+  Star,
+  Quote,
+} from 'lucide-react';
+import { useDictionaryStore, type DictionaryRecording } from '@/stores/dictionary-store';
+import { useLearnerStore } from '@/stores/learner-store';
+import { useAuthStore } from '@/stores/auth-store';
+import { getReviewCards } from '@/lib/offline-db';
+import { describeSpeaker } from '@/lib/speakers';
+import type { Asset } from '@/types/database';
+
+function formatLabel(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1).replace(/_/g, ' ');
+}
+
+export function WordDetailPage() {
+  const navigate = useNavigate();
+  const { assetId } = useParams<{ assetId: string }>();
+  const { user } = useAuthStore();
+  const { entry, isLoadingEntry, error, fetchEntry } = useDictionaryStore();
+  const addToReview = useLearnerStore(state => state.addToReview);
+
+  const [inDeck, setInDeck] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [playingUrl, setPlayingUrl] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  useEffect(() => {
+    if (assetId) fetchEntry(assetId);
+  }, [assetId, fetchEntry]);
+
+  useEffect(() => {
+    if (!user?.id || !assetId) return;
+    getReviewCards(user.id).then(cards => {
+      setInDeck(cards.some(card => card.assetId === assetId));
+    });
+  }, [user?.id, assetId]);
+
+  // Stop playback when leaving the page
+  useEffect(() => () => audioRef.current?.pause(), []);
+
+  const togglePlay = (url: string) => {
+    audioRef.current?.pause();
+    if (playingUrl === url) {
+      setPlayingUrl(null);
+      return;
+    }
+    const audio = new Audio(url);
+    audioRef.current = audio;
+    audio.onended = () => setPlayingUrl(null);
+    audio.onerror = () => setPlayingUrl(null);
+    setPlayingUrl(url);
+    audio.play().catch(() => setPlayingUrl(null));
+  };
+
+  const handleAddToReview = async () => {
+    if (!user?.id || !entry) return;
+    setIsAdding(true);
+    // The primary recording is what the review session plays
+    const audioUrl = entry.asset.audio_url || entry.recordings[0]?.audio_url || null;
+    await addToReview(user.id, { ...entry.asset, audio_url: audioUrl });
+    setInDeck(true);
+    setIsAdding(false);
+  };
+
+  const asset = entry && entry.asset.id === assetId ? entry.asset : null;
+
+  if (isLoadingEntry && !asset) {
+    return (
+      <div className="min-h-screen bg-ohafia-sand-50 dark:bg-ohafia-earth-900 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-ohafia-primary-500" />
+      </div>
+    );
+  }
+
+  if (!asset || !entry) {
+    return (
+      <div className="min-h-screen bg-ohafia-sand-50 dark:bg-ohafia-earth-900 flex items-center justify-center p-6">
+        <div className="card p-8 text-center max-w-sm">
+          <AlertCircle className="w-12 h-12 text-ohafia-sand-400 dark:text-ohafia-earth-500 mx-auto mb-3" />
+          <p className="text-ohafia-earth-600 dark:text-ohafia-sand-300 mb-4">
+            {error || "This word isn't in the dictionary"}
+          </p>
+          <button onClick={() => navigate('/dictionary')} className="btn-primary px-6 py-2">
+            Back to dictionary
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-ohafia-sand-50 dark:bg-ohafia-earth-900">
+      {/* Header */}
+      <header className="bg-white dark:bg-ohafia-earth-800 border-b border-ohafia-sand-200 dark:border-ohafia-earth-700 px-6 py-4">
+        <div className="flex items-start gap-3">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 -ml-2 rounded-lg hover:bg-ohafia-sand-100 dark:hover:bg-ohafia-earth-700 text-ohafia-earth-600 dark:text-ohafia-sand-400"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div className="flex-1 min-w-0">
+            <h1 className="text-2xl font-bold text-ohafia-earth-900 dark:text-ohafia-sand-50 igbo-text">{asset.igbo_text}</h1>
+            <p className="text-ohafia-earth-600 dark:text-ohafia-sand-300">{asset.english_text}</p>
+            {asset.pronunciation_guide && (
+              <p className="text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400 mt-1">/{asset.pronunciation_guide}/</p>
+            )}
+            <div className="flex flex-wrap gap-1.5 mt-3">
+              <span className="badge-primary">{formatLabel(asset.type)}</span>
+              <span className="badge-secondary">{formatLabel(asset.difficulty)}</span>
+              {asset.category && <span className="badge-accent">{formatLabel(asset.category)}</span>}
+            </div>
+          </div>
+        </div>
+
+        <button
+          onClick={inDeck ? () => navigate('/practice?review=due') : handleAddToReview}
+          disabled={isAdding}
+          className={`w-full mt-4 py-2.5 flex items-center justify-center gap-2 ${inDeck ? 'btn-outline' : 'btn-primary'}`}
+        >
+          {isAdding ? (
+            <Loader2 className="w-5 h-5 animate-spin" />
+          ) : inDeck ? (
+            <BookmarkCheck className="w-5 h-5" />
+          ) : (
+            <BookmarkPlus className="w-5 h-5" />
+          )}
+          {inDeck ? 'In your review deck · Practice now' : 'Add to my review deck'}
+        </button>
+      </header>
+
+      <main className="p-6 pb-24 space-y-6">
+        {/* Recordings */}
+        <section>
+          <h2 className="text-sm font-semibold text-ohafia-earth-500 dark:text-ohafia-sand-400 uppercase mb-2">
+            Recordings
+          </h2>
+          {entry.recordings.length === 0 && !asset.audio_url ? (
+            <div className="card p-4 text-sm text-ohafia-earth-500 dark:text-ohafia-sand-400">
+              No recordings yet
+            </div>
+          ) : (
+            <div className="card divide-y divide-ohafia-sand-100 dark:divide-ohafia-earth-700">
+              {entry.recordings.length === 0 && asset.audio_url && (
+                <RecordingRow
+                  label="Pronunciation"
+                  isPrimary
+                  isPlaying={playingUrl === asset.audio_url}
+                  onToggle={() => togglePlay(asset.audio_url!)}
+                />
+              )}
+              {entry.recordings.map((recording, index) => (
+                <RecordingRow
+                  key={recording.id}
+                  label={speakerLabel(recording, index)}
+                  details={describeSpeaker(recording.speaker)}
+                  isPrimary={recording.is_primary}
+                  duration={recording.duration_seconds}
+                  isPlaying={playingUrl === recording.audio_url}
+                  onToggle={() => togglePlay(recording.audio_url)}
+                />
+              ))}
+            </div>
+          )}
+        </section>
+
+        {/* Cultural note */}
+        {asset.cultural_note && (
+          <section className="card p-4 flex gap-3">
+            <Lightbulb className="w-5 h-5 text-ohafia-accent-500 flex-shrink-0 mt-0.5" />
+            <div>
+              <h2 className="font-semibold text-ohafia-earth-900 dark:text-ohafia-sand-50 mb-1">Cultural note</h2>
+              <p className="text-sm text-ohafia-earth-600 dark:text-ohafia-sand-300">{asset.cultural_note}</p>
+            </div>
+          </section>
+        )}
+
+        {/* Examples */}
+        {entry.examples.length > 0 && (
+          <section>
+            <h2 className="text-sm font-semibold text-ohafia-earth-500 dark:text-ohafia-sand-400 uppercase mb-2">
+              Examples
+            </h2>
+            <div className="space-y-3">
+              {entry.examples.map(example => (
+                <ExampleCard
+                  key={example.id}
+                  example={example}
+                  isPlaying={!!example.audio_url && playingUrl === example.audio_url}
+                  onToggle={() => example.audio_url && togglePlay(example.audio_url)}
+                />
+              ))}
+            </div>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
+
+function speakerLabel(recording: DictionaryRecording, index: number): string {
+  return recording.speaker?.display_name || recording.submitter?.display_name || `Speaker ${index + 1}`;
+}
+
+function PlayButton({ isPlaying, onToggle }: { isPlaying: boolean; onToggle: () => void }) {
+  return (
+    <button
+      onClick={onToggle}
+      className="p-2 rounded-full bg-ohafia-primary-50 dark:bg-ohafia-primary-900/30 text-ohafia-primary-600 dark:text-ohafia-primary-400 hover:bg-ohafia-primary-100 flex-shrink-0"
+      title={isPlaying ? 'Stop' : 'Play'}
+    >
+      {isPlaying ? <Square className="w-5 h-5" /> : <Volume2 className="w-5 h-5" />}
+    </button>
+  );
+}
+
+function RecordingRow({
+  label,
+  details,
+  isPrimary,
+  duration,
+  isPlaying,
+  onToggle,
+}: {
+  label: string;
+  details?: string | null;
+  isPrimary: boolean;
+  duration?: number | null;
+  isPlaying: boolean;
+  onToggle: () => void;
+}) {
+  return (
+    <div className="flex items-center gap-3 px-4 py-3">
+      <PlayButton isPlaying={isPlaying} onToggle={onToggle} />
+      <div className="flex-1 min-w-0">
+        <p className="font-medium text-ohafia-earth-900 dark:text-ohafia-sand-50 truncate">{label}</p>
+        {(details || duration) ? (
+          <p className="text-xs text-ohafia-earth-500 dark:text-ohafia-sand-400">
+            {[details, duration ? `${duration}s` : null].filter(Boolean).join(' · ')}
+          </p>
+        ) : null}
+      </div>
+      {isPrimary && (
+        <span className="flex items-center gap-1 text-xs text-ohafia-accent-600 dark:text-ohafia-accent-400">
+          <Star className="w-3 h-3" />
+          Main
+        </span>
+      )}
+    </div>
+  );
+}
+
+function ExampleCard({ example, isPlaying, onToggle }: { example: Asset; isPlaying: boolean; onToggle: () => void }) {
+  return (
+    <div className="card p-4 flex items-start gap-3">
+      <Quote className="w-4 h-4 text-ohafia-earth-400 dark:text-ohafia-sand-500 flex-shrink-0 mt-1" />
+      <div className="flex-1 min-w-0">
+        <p className="font-medium text-ohafia-earth-900 dark:text-ohafia-sand-50 igbo-text">{example.igbo_text}</p>
+        <p className="text-sm text-ohafia-earth-600 dark:text-ohafia-sand-300">{example.english_text}</p>
+        <span className="text-xs text-ohafia-earth-400 dark:text-ohafia-sand-500">{formatLabel(example.type)}</span>
+      </div>
+      {example.audio_url && <PlayButton isPlaying={isPlaying} onToggle={onToggle} />}
+    </div>
+  );
+}
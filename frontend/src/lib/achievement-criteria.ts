@@ -0,0 +1,78 @@
+// Client-side reading of the achievements.criteria DSL
+// Awarding happens on the server (evaluate_achievements in
+// supabase/achievement-engine.sql); this mirrors the same rules so the
+// progress screen can show how close a learner is to each achievement.
+
+import type { Json } from '@/types/database';
+
+export type AchievementMetric =
+  | 'streak_days'
+  | 'words_learned'
+  | 'lessons_completed'
+  | 'perfect_lessons'
+  | 'accuracy'
+  | 'total_attempts'
+  | 'speak_attempts'
+  | 'speak_attempts_passed'
+  | 'assets_submitted'
+  | 'assets_approved'
+  | 'recordings'
+  | 'recordings_approved'
+  | 'reviews_completed';
+
+export type AchievementMetrics = Partial<Record<AchievementMetric, number>>;
+
+type CriteriaObject = { [key: string]: Json | undefined };
+
+function isObject(value: Json | undefined): value is CriteriaObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function metricValue(metrics: AchievementMetrics, key: string): number {
+  return Number(metrics[key as AchievementMetric] ?? 0);
+}
+
+function ratio(actual: number, target: number): number {
+  if (target <= 0) return actual >= target ? 1 : 0;
+  return Math.max(0, Math.min(1, actual / target));
+}
+
+// Fraction (0-1) of the way to satisfying a criteria node
+function progressOf(criteria: Json | undefined, metrics: AchievementMetrics): number {
+  if (!isObject(criteria) || Object.keys(criteria).length === 0) return 0;
+
+  if (Array.isArray(criteria.all)) {
+    if (criteria.all.length === 0) return 0;
+    return Math.min(...criteria.all.map(child => progressOf(child, metrics)));
+  }
+
+  if (Array.isArray(criteria.any)) {
+    if (criteria.any.length === 0) return 0;
+    return Math.max(...criteria.any.map(child => progressOf(child, metrics)));
+  }
+
+  if (typeof criteria.metric === 'string') {
+    const actual = metricValue(metrics, criteria.metric);
+    const target = Number(criteria.value);
+    switch (criteria.op ?? 'gte') {
+      case 'gte': return ratio(actual, target);
+      case 'gt': return actual > target ? 1 : ratio(actual, target + 1);
+      case 'eq': return actual === target ? 1 : 0;
+      case 'lte': return actual <= target ? 1 : 0;
+      case 'lt': return actual < target ? 1 : 0;
+      default: return 0;
+    }
+  }
+
+  // Shorthand: every key is a metric threshold
+  const thresholds = Object.entries(criteria);
+  if (thresholds.some(([, target]) => typeof target !== 'number')) return 0;
+  return Math.min(...thresholds.map(([key, target]) => ratio(metricValue(metrics, key), target as number)));
+}
+
+/**
+ * Percentage (0-100) progress towards an achievement
+ */
+export function getCriteriaProgress(criteria: Json, metrics: AchievementMetrics): number {
+  return Math.round(progressOf(criteria, metrics) * 100);
+}
@@ -0,0 +1,246 @@
+import { describe, expect, it } from 'vitest';
+import {
+  exportAssets,
+  exportLessons,
+  getImportableAssets,
+  getImportableLessons,
+  guessMapping,
+  parseCsv,
+  parseImportFile,
+  serializeRecords,
+  validateImportRows,
+  validateLessonImportRows,
+} from '@/lib/asset-transfer';
+import type { Asset, AssetCategory, Lesson } from '@/types/database';
+
+const categories = [
+  { id: 'cat-1', name: 'greetings', status: 'approved' },
+  { id: 'cat-2', name: 'food', status: 'pending' },
+] as AssetCategory[];
+
+const lessons = [{ id: 'lesson-1', title: 'First Words' }] as Lesson[];
+
+function asset(overrides: Partial<Asset>): Asset {
+  return {
+    id: 'asset-1',
+    lesson_id: null,
+    type: 'word',
+    igbo_text: '',
+    english_text: '',
+    pronunciation_guide: null,
+    cultural_note: null,
+    category: null,
+    tags: null,
+    audio_url: null,
+    difficulty: 'beginner',
+    ...overrides,
+  } as Asset;
+}
+
+describe('parseCsv', () => {
+  it('reads quoted fields with commas, doubled quotes and line breaks', () => {
+    const text = 'igbo,english\r\n"Kedụ, nna?","How are you, father?"\r\n"Ọ sị ""bịa""","He said ""come"""\n"line\none",two';
+    expect(parseCsv(text)).toEqual([
+      ['igbo', 'english'],
+      ['Kedụ, nna?', 'How are you, father?'],
+      ['Ọ sị "bịa"', 'He said "come"'],
+      ['line\none', 'two'],
+    ]);
+  });
+
+  it('drops a byte order mark and blank lines', () => {
+    expect(parseCsv('﻿a,b\n\n1,2\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
+
+describe('serializeRecords', () => {
+  const records = [
+    { igbo_text: 'Ndewo, nna', english_text: 'Hello "sir"', tags: ['greeting', 'polite'], note: null },
+    { igbo_text: 'mmiri', english_text: 'water\nrain', tags: null, note: 'Also "rain"' },
+  ];
+  const columns: (keyof (typeof records)[number])[] = ['igbo_text', 'english_text', 'tags', 'note'];
+
+  it('round-trips CSV through parseCsv', () => {
+    const csv = serializeRecords(records, columns, 'csv');
+    expect(parseCsv(csv)).toEqual([
+      columns,
+      ['Ndewo, nna', 'Hello "sir"', 'greeting; polite', ''],
+      ['mmiri', 'water\nrain', '', 'Also "rain"'],
+    ]);
+  });
+
+  it('round-trips JSON through parseImportFile', () => {
+    const json = serializeRecords(records, columns, 'json');
+    expect(parseImportFile(json, 'json')).toEqual({
+      columns,
+      rows: [
+        { igbo_text: 'Ndewo, nna', english_text: 'Hello "sir"', tags: 'greeting; polite' },
+        { igbo_text: 'mmiri', english_text: 'water\nrain', note: 'Also "rain"' },
+      ],
+    });
+  });
+
+  it('keeps only the requested columns, in order', () => {
+    expect(serializeRecords([{ b: 2, a: 1, c: 3 }], ['a', 'b'], 'csv')).toBe('a,b\r\n1,2');
+  });
+});
+
+describe('exportAssets', () => {
+  it('exports a file that imports back to the same assets', () => {
+    const assets = [
+      asset({
+        igbo_text: 'Ndèwò',
+        english_text: 'Hello, welcome',
+        type: 'greeting',
+        category: 'greetings',
+        tags: ['greeting', 'morning'],
+        lesson_id: 'lesson-1',
+      }),
+      asset({ igbo_text: 'ji', english_text: 'yam', difficulty: 'elementary', cultural_note: 'King of crops' }),
+    ];
+
+    for (const format of ['csv', 'json'] as const) {
+      const parsed = parseImportFile(exportAssets(assets, lessons, format, false), format);
+      const rows = validateImportRows(parsed.rows, guessMapping(parsed.columns), {
+        categories,
+        lessons,
+        existingAssets: [],
+      });
+
+      expect(rows.every(row => row.errors.length === 0)).toBe(true);
+      expect(getImportableAssets(rows)).toEqual([
+        {
+          igbo_text: 'Ndèwò',
+          english_text: 'Hello, welcome',
+          type: 'greeting',
+          difficulty: 'beginner',
+          category: 'greetings',
+          pronunciation_guide: null,
+          cultural_note: null,
+          tags: ['greeting', 'morning'],
+          audio_url: null,
+          lesson_id: 'lesson-1',
+        },
+        {
+          igbo_text: 'ji',
+          english_text: 'yam',
+          type: 'word',
+          difficulty: 'elementary',
+          category: null,
+          pronunciation_guide: null,
+          cultural_note: 'King of crops',
+          tags: null,
+          audio_url: null,
+          lesson_id: null,
+        },
+      ]);
+    }
+  });
+});
+
+describe('validateImportRows', () => {
+  const mapping = guessMapping(['Igbo', 'English', 'Type', 'Difficulty', 'Category']);
+
+  it('reports every problem on a row', () => {
+    const [row] = validateImportRows(
+      [{ Igbo: '', English: 'x', Type: 'song', Difficulty: 'expert', Category: 'food' }],
+      mapping,
+      { categories, lessons, existingAssets: [] }
+    );
+
+    expect(row.asset).toBeNull();
+    expect(row.errors).toEqual([
+      'Igbo text is required',
+      'Unknown type "song"',
+      'Unknown difficulty "expert"',
+      'Category "food" does not exist',
+    ]);
+  });
+
+  it('flags duplicates of existing assets and of earlier rows', () => {
+    const rows = validateImportRows(
+      [
+        { Igbo: 'ọma', English: 'good' },
+        { Igbo: 'Ji', English: 'yam' },
+        { Igbo: 'ji', English: 'yam again' },
+      ],
+      mapping,
+      { categories, lessons, existingAssets: [asset({ igbo_text: 'Ọma' })] }
+    );
+
+    expect(rows.map(row => row.duplicate)).toEqual(['existing', null, 'file']);
+    expect(getImportableAssets(rows).map(a => a.igbo_text)).toEqual(['Ji']);
+  });
+});
+
+describe('validateLessonImportRows', () => {
+  const existing = [{ id: 'lesson-1', title: 'First Words', order_index: 4 }] as Lesson[];
+
+  it('imports an exported lesson file back to the same lessons', () => {
+    const exported = [
+      {
+        title: 'Market Day',
+        description: 'Buying and selling',
+        category: 'food',
+        difficulty: 'elementary',
+        order_index: 7,
+        estimated_minutes: 15,
+        xp_reward: 20,
+        is_published: true,
+      },
+    ] as Lesson[];
+
+    for (const format of ['csv', 'json'] as const) {
+      const parsed = parseImportFile(exportLessons(exported, format), format);
+      const rows = validateLessonImportRows(parsed.rows, existing);
+      expect(getImportableLessons(rows)).toEqual(exported);
+    }
+  });
+
+  it('fills defaults and appends lessons without an order', () => {
+    const rows = validateLessonImportRows(
+      [{ title: 'Family' }, { title: 'Colours', is_published: 'yes' }],
+      existing
+    );
+
+    expect(getImportableLessons(rows)).toEqual([
+      {
+        title: 'Family',
+        description: null,
+        category: null,
+        difficulty: 'beginner',
+        order_index: 5,
+        estimated_minutes: 10,
+        xp_reward: 10,
+        is_published: false,
+      },
+      expect.objectContaining({ title: 'Colours', order_index: 6, is_published: true }),
+    ]);
+  });
+
+  it('reports every problem on a row', () => {
+    const [row] = validateLessonImportRows(
+      [{ title: '', difficulty: 'expert', order_index: '2.5', xp_reward: '-5', is_published: 'maybe' }],
+      existing
+    );
+
+    expect(row.lesson).toBeNull();
+    expect(row.errors).toEqual([
+      'Title is required',
+      'Unknown difficulty "expert"',
+      'Order must be a whole number, not "2.5"',
+      'XP reward must be a whole number, not "-5"',
+      'Published must be true or false, not "maybe"',
+    ]);
+  });
+
+  it('flags titles already in the course or repeated in the file', () => {
+    const rows = validateLessonImportRows(
+      [{ title: 'first words' }, { title: 'Numbers' }, { title: 'NUMBERS ' }],
+      existing
+    );
+
+    expect(rows.map(row => row.duplicate)).toEqual(['existing', null, 'file']);
+    expect(getImportableLessons(rows).map(l => l.title)).toEqual(['Numbers']);
+  });
+});
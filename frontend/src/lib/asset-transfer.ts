@@ -0,0 +1,459 @@
+// Bulk asset import and content export
+// Import files (CSV or JSON) are parsed into raw rows, mapped onto asset
+// fields, then validated row by row so the admin can preview the result
+// before anything is written. Exports use the same column names, so an
+// exported file can be edited and imported again.
+
+import { igboMatchKey, normalizeIgbo } from '@/lib/igbo-orthography';
+import type { Asset, AssetCategory, AssetType, Lesson, ProficiencyLevel } from '@/types/database';
+
+export type TransferFormat = 'csv' | 'json';
+
+export type ImportField =
+  | 'igbo_text'
+  | 'english_text'
+  | 'type'
+  | 'difficulty'
+  | 'category'
+  | 'pronunciation_guide'
+  | 'cultural_note'
+  | 'tags'
+  | 'audio_url'
+  | 'lesson';
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required?: boolean }[] = [
+  { field: 'igbo_text', label: 'Igbo Text', required: true },
+  { field: 'english_text', label: 'English Translation', required: true },
+  { field: 'type', label: 'Type' },
+  { field: 'difficulty', label: 'Difficulty' },
+  { field: 'category', label: 'Category' },
+  { field: 'pronunciation_guide', label: 'Pronunciation Guide' },
+  { field: 'cultural_note', label: 'Cultural Note' },
+  { field: 'tags', label: 'Tags' },
+  { field: 'audio_url', label: 'Audio URL' },
+  { field: 'lesson', label: 'Lesson (title)' },
+];
+
+export const ASSET_TYPES: AssetType[] = ['word', 'phrase', 'sentence', 'proverb', 'greeting', 'dialogue'];
+export const PROFICIENCY_LEVELS: ProficiencyLevel[] = [
+  'beginner',
+  'elementary',
+  'intermediate',
+  'upper_intermediate',
+  'advanced',
+  'fluent',
+];
+
+// Column header -> asset field; unmapped columns are ignored
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ParsedFile {
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+export interface ImportedAsset {
+  igbo_text: string;
+  english_text: string;
+  type: AssetType;
+  difficulty: ProficiencyLevel;
+  category: string | null;
+  pronunciation_guide: string | null;
+  cultural_note: string | null;
+  tags: string[] | null;
+  audio_url: string | null;
+  lesson_id: string | null;
+}
+
+export interface ImportRow {
+  line: number; // 1-based row number in the file, for error messages
+  asset: ImportedAsset | null; // null when the row has errors
+  errors: string[];
+  duplicate: 'existing' | 'file' | null;
+}
+
+interface ValidationContext {
+  categories: AssetCategory[];
+  lessons: Lesson[];
+  existingAssets: Asset[];
+}
+
+// Tags are a single cell in CSV files
+const TAG_SEPARATOR = /[;|]/;
+
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, doubled quotes, CRLF)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+/**
+ * Read an import file into columns and string-valued rows
+ */
+export function parseImportFile(text: string, format: TransferFormat): ParsedFile {
+  if (format === 'json') {
+    const data = JSON.parse(text);
+    if (!Array.isArray(data)) {
+      throw new Error('JSON imports must be an array of objects');
+    }
+
+    const columns: string[] = [];
+    const rows = data.map((item, index) => {
+      if (!item || typeof item !== 'object' || Array.isArray(item)) {
+        throw new Error(`Item ${index + 1} is not an object`);
+      }
+      const row: Record<string, string> = {};
+      Object.entries(item as Record<string, unknown>).forEach(([key, value]) => {
+        if (!columns.includes(key)) columns.push(key);
+        if (value === null || value === undefined) return;
+        row[key] = Array.isArray(value) ? value.join('; ') : String(value);
+      });
+      return row;
+    });
+    return { columns, rows };
+  }
+
+  const [header, ...body] = parseCsv(text);
+  if (!header) throw new Error('The file is empty');
+
+  const columns = header.map(column => column.trim());
+  const rows = body.map(cells => {
+    const row: Record<string, string> = {};
+    columns.forEach((column, i) => {
+      if (column) row[column] = cells[i] ?? '';
+    });
+    return row;
+  });
+  return { columns, rows };
+}
+
+/**
+ * Map columns whose header matches a field name or label
+ */
+export function guessMapping(columns: string[]): ColumnMapping {
+  const simplify = (value: string) => value.toLowerCase().replace(/[^a-z]/g, '');
+  const mapping: ColumnMapping = {};
+
+  IMPORT_FIELDS.forEach(({ field, label }) => {
+    const match = columns.find(column =>
+      [field, label].some(name => simplify(name) === simplify(column))
+    );
+    if (match) mapping[field] = match;
+  });
+
+  // Common spreadsheet headings
+  mapping.igbo_text ||= columns.find(column => simplify(column) === 'igbo');
+  mapping.english_text ||= columns.find(column => ['english', 'translation', 'meaning'].includes(simplify(column)));
+  return mapping;
+}
+
+/**
+ * Validate mapped rows against enums, approved categories, lessons and
+ * assets already in the database
+ */
+export function validateImportRows(
+  rows: Record<string, string>[],
+  mapping: ColumnMapping,
+  { categories, lessons, existingAssets }: ValidationContext
+): ImportRow[] {
+  const approvedCategories = new Map(
+    categories.filter(c => c.status === 'approved').map(c => [c.name.toLowerCase(), c.name])
+  );
+  const lessonsByTitle = new Map(lessons.map(l => [l.title.trim().toLowerCase(), l.id]));
+  const existingKeys = new Set(existingAssets.map(a => igboMatchKey(a.igbo_text)));
+  const seenKeys = new Set<string>();
+
+  return rows.map((row, index) => {
+    const value = (field: ImportField) => {
+      const column = mapping[field];
+      return column ? (row[column] ?? '').trim() : '';
+    };
+    const errors: string[] = [];
+
+    const igboText = normalizeIgbo(value('igbo_text'));
+    const englishText = value('english_text');
+    if (!igboText) errors.push('Igbo text is required');
+    if (!englishText) errors.push('English translation is required');
+
+    const type = (value('type').toLowerCase() || 'word') as AssetType;
+    if (!ASSET_TYPES.includes(type)) errors.push(`Unknown type "${value('type')}"`);
+
+    const difficulty = (value('difficulty').toLowerCase().replace(/[\s-]+/g, '_') || 'beginner') as ProficiencyLevel;
+    if (!PROFICIENCY_LEVELS.includes(difficulty)) errors.push(`Unknown difficulty "${value('difficulty')}"`);
+
+    let category: string | null = null;
+    if (value('category')) {
+      category = approvedCategories.get(value('category').toLowerCase().replace(/\s+/g, '_'))
+        || approvedCategories.get(value('category').toLowerCase())
+        || null;
+      if (!category) errors.push(`Category "${value('category')}" does not exist`);
+    }
+
+    let lessonId: string | null = null;
+    if (value('lesson')) {
+      lessonId = lessonsByTitle.get(value('lesson').toLowerCase()) || null;
+      if (!lessonId) errors.push(`Lesson "${value('lesson')}" does not exist`);
+    }
+
+    const tags = value('tags')
+      .split(TAG_SEPARATOR)
+      .map(tag => tag.trim())
+      .filter(Boolean);
+
+    let duplicate: ImportRow['duplicate'] = null;
+    if (igboText) {
+      const key = igboMatchKey(igboText);
+      if (existingKeys.has(key)) duplicate = 'existing';
+      else if (seenKeys.has(key)) duplicate = 'file';
+      seenKeys.add(key);
+    }
+
+    return {
+      line: index + 1,
+      errors,
+      duplicate,
+      asset: errors.length > 0 ? null : {
+        igbo_text: igboText,
+        english_text: englishText,
+        type,
+        difficulty,
+        category,
+        pronunciation_guide: value('pronunciation_guide') || null,
+        cultural_note: value('cultural_note') || null,
+        tags: tags.length > 0 ? tags : null,
+        audio_url: value('audio_url') || null,
+        lesson_id: lessonId,
+      },
+    };
+  });
+}
+
+/**
+ * Rows that will be written: valid and not already present
+ */
+export function getImportableAssets(rows: ImportRow[]): ImportedAsset[] {
+  return rows
+    .filter(row => row.asset && !row.duplicate)
+    .map(row => row.asset as ImportedAsset);
+}
+
+// ============================================
+// Export
+// ============================================
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = Array.isArray(value) ? value.join('; ') : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize records with the given columns, in column order
+ */
+export function serializeRecords<T extends object>(
+  records: T[],
+  columns: (keyof T & string)[],
+  format: TransferFormat
+): string {
+  if (format === 'json') {
+    const picked = records.map(record =>
+      Object.fromEntries(columns.map(column => [column, record[column] ?? null]))
+    );
+    return JSON.stringify(picked, null, 2);
+  }
+
+  const lines = [
+    columns.join(','),
+    ...records.map(record => columns.map(column => csvCell(record[column])).join(',')),
+  ];
+  return lines.join('\r\n');
+}
+
+/**
+ * Assets in the import column layout, with lesson ids swapped for titles
+ */
+export function exportAssets(
+  assets: Asset[],
+  lessons: Lesson[],
+  format: TransferFormat,
+  includeAudio: boolean
+): string {
+  const lessonTitles = new Map(lessons.map(l => [l.id, l.title]));
+  const columns = IMPORT_FIELDS
+    .map(({ field }) => field)
+    .filter(field => includeAudio || field !== 'audio_url');
+
+  const records = assets.map(asset => ({
+    ...asset,
+    lesson: asset.lesson_id ? lessonTitles.get(asset.lesson_id) ?? null : null,
+  }));
+  return serializeRecords(records, columns, format);
+}
+
+export const LESSON_EXPORT_COLUMNS: (keyof Lesson)[] = [
+  'title',
+  'description',
+  'category',
+  'difficulty',
+  'order_index',
+  'estimated_minutes',
+  'xp_reward',
+  'is_published',
+];
+
+export function exportLessons(lessons: Lesson[], format: TransferFormat): string {
+  return serializeRecords(lessons, LESSON_EXPORT_COLUMNS, format);
+}
+
+// ============================================
+// Lesson import
+// ============================================
+
+// The LESSON_EXPORT_COLUMNS fields
+export type ImportedLesson = Pick<
+  Lesson,
+  'title' | 'description' | 'category' | 'difficulty' | 'order_index' | 'estimated_minutes' | 'xp_reward' | 'is_published'
+>;
+
+export interface LessonImportRow {
+  line: number; // 1-based row number in the file, for error messages
+  lesson: ImportedLesson | null; // null when the row has errors
+  errors: string[];
+  duplicate: 'existing' | 'file' | null;
+}
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', ''];
+
+/**
+ * Validate lesson rows read with the export column names. Lessons are
+ * matched by title, as asset imports refer to them, so a title already in
+ * use is a duplicate. Rows without an order index go after the last lesson.
+ */
+export function validateLessonImportRows(
+  rows: Record<string, string>[],
+  existingLessons: Lesson[]
+): LessonImportRow[] {
+  const existingTitles = new Set(existingLessons.map(l => l.title.trim().toLowerCase()));
+  const seenTitles = new Set<string>();
+  let nextOrder = existingLessons.reduce((max, l) => Math.max(max, l.order_index), 0) + 1;
+
+  return rows.map((row, index) => {
+    const value = (column: keyof ImportedLesson) => (row[column] ?? '').trim();
+    const errors: string[] = [];
+
+    const wholeNumber = (column: 'order_index' | 'estimated_minutes' | 'xp_reward', label: string, fallback: number) => {
+      if (!value(column)) return fallback;
+      const number = Number(value(column));
+      if (!Number.isInteger(number) || number < 0) {
+        errors.push(`${label} must be a whole number, not "${value(column)}"`);
+      }
+      return number;
+    };
+
+    const title = value('title');
+    if (!title) errors.push('Title is required');
+
+    const difficulty = (value('difficulty').toLowerCase().replace(/[\s-]+/g, '_') || 'beginner') as ProficiencyLevel;
+    if (!PROFICIENCY_LEVELS.includes(difficulty)) errors.push(`Unknown difficulty "${value('difficulty')}"`);
+
+    const orderIndex = value('order_index') ? wholeNumber('order_index', 'Order', 0) : nextOrder++;
+    const estimatedMinutes = wholeNumber('estimated_minutes', 'Estimated minutes', 10);
+    const xpReward = wholeNumber('xp_reward', 'XP reward', 10);
+
+    const published = value('is_published').toLowerCase();
+    if (!TRUE_VALUES.includes(published) && !FALSE_VALUES.includes(published)) {
+      errors.push(`Published must be true or false, not "${value('is_published')}"`);
+    }
+
+    let duplicate: LessonImportRow['duplicate'] = null;
+    if (title) {
+      const key = title.toLowerCase();
+      if (existingTitles.has(key)) duplicate = 'existing';
+      else if (seenTitles.has(key)) duplicate = 'file';
+      seenTitles.add(key);
+    }
+
+    return {
+      line: index + 1,
+      errors,
+      duplicate,
+      lesson: errors.length > 0 ? null : {
+        title,
+        description: value('description') || null,
+        category: value('category') || null,
+        difficulty,
+        order_index: orderIndex,
+        estimated_minutes: estimatedMinutes,
+        xp_reward: xpReward,
+        is_published: TRUE_VALUES.includes(published),
+      },
+    };
+  });
+}
+
+/**
+ * Lesson rows that will be written: valid and not already present
+ */
+export function getImportableLessons(rows: LessonImportRow[]): ImportedLesson[] {
+  return rows
+    .filter(row => row.lesson && !row.duplicate)
+    .map(row => row.lesson as ImportedLesson);
+}
+
+/**
+ * Offer text as a file download
+ */
+export function downloadFile(content: string, filename: string, format: TransferFormat) {
+  const type = format === 'json' ? 'application/json' : 'text/csv;charset=utf-8';
+  // The byte order mark lets spreadsheet apps read tone marks correctly
+  const body = format === 'csv' ? `\uFEFF${content}` : content;
+  const url = URL.createObjectURL(new Blob([body], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,298 @@
+// Clean-up for contributor recordings before upload
+// Recordings are decoded with Web Audio, trimmed to the range the
+// contributor picks (silence is trimmed automatically to start with),
+// normalized to a common loudness and encoded as Opus. MediaRecorder is the
+// only Opus encoder browsers expose, so the clip is played into it in real
+// time; that costs the length of the clip, a few seconds for a word or
+// phrase, and saves roughly ten times the storage and bandwidth of WAV.
+// Browsers without an Opus MediaRecorder get 16-bit mono WAV instead.
+
+export interface DecodedClip {
+  samples: Float32Array; // mono
+  sampleRate: number;
+  duration: number; // seconds
+}
+
+// Seconds from the start of the clip
+export interface TrimRange {
+  start: number;
+  end: number;
+}
+
+export type LevelIssue = 'clipping' | 'too-quiet';
+
+export interface ClipLevels {
+  peakDb: number;
+  rmsDb: number;
+  issues: LevelIssue[];
+}
+
+export interface ProcessedClip {
+  blob: Blob;
+  durationSeconds: number;
+  levels: ClipLevels;
+}
+
+export const OUTPUT_SAMPLE_RATE = 24000;
+export const OUTPUT_MIME_TYPE = 'audio/wav';
+// Opus containers in order of preference; the audio bucket accepts both
+const COMPRESSED_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus'];
+const OPUS_BITS_PER_SECOND = 48000;
+
+const TARGET_RMS_DB = -20;
+const PEAK_CEILING_DB = -1;
+const SILENCE_THRESHOLD_DB = -45;
+const TRIM_PADDING_SECONDS = 0.15;
+const FADE_SECONDS = 0.01;
+// More than 0.1% of samples at full scale means the input was clipped
+const CLIPPING_LEVEL = 0.99;
+const CLIPPING_RATIO = 0.001;
+const TOO_QUIET_RMS_DB = -40;
+
+const toDb = (gain: number) => (gain > 0 ? 20 * Math.log10(gain) : -Infinity);
+const fromDb = (db: number) => Math.pow(10, db / 20);
+
+/**
+ * Decode a recorded blob and mix it down to mono
+ */
+export async function decodeRecording(blob: Blob): Promise<DecodedClip> {
+  const context = new AudioContext();
+  try {
+    const buffer = await context.decodeAudioData(await blob.arrayBuffer());
+    const samples = new Float32Array(buffer.length);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const data = buffer.getChannelData(channel);
+      for (let i = 0; i < data.length; i++) {
+        samples[i] += data[i] / buffer.numberOfChannels;
+      }
+    }
+    return { samples, sampleRate: buffer.sampleRate, duration: buffer.duration };
+  } finally {
+    context.close();
+  }
+}
+
+/**
+ * Loudest sample in each of `count` equal slices, for drawing a waveform
+ */
+export function getPeaks(samples: Float32Array, count: number): number[] {
+  const size = Math.max(1, Math.floor(samples.length / count));
+  const peaks: number[] = [];
+  for (let bucket = 0; bucket < count; bucket++) {
+    let peak = 0;
+    const end = Math.min(samples.length, (bucket + 1) * size);
+    for (let i = bucket * size; i < end; i++) {
+      const value = Math.abs(samples[i]);
+      if (value > peak) peak = value;
+    }
+    peaks.push(peak);
+  }
+  return peaks;
+}
+
+/**
+ * The part of the clip between the first and last sound above the
+ * silence threshold, with a little padding either side
+ */
+export function detectSpeechRange(clip: DecodedClip): TrimRange {
+  const windowSize = Math.max(1, Math.round(clip.sampleRate * 0.01));
+  const threshold = fromDb(SILENCE_THRESHOLD_DB);
+  let first = -1;
+  let last = -1;
+
+  for (let start = 0; start < clip.samples.length; start += windowSize) {
+    const end = Math.min(clip.samples.length, start + windowSize);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += clip.samples[i] * clip.samples[i];
+    if (Math.sqrt(sum / (end - start)) >= threshold) {
+      if (first < 0) first = start;
+      last = end;
+    }
+  }
+
+  if (first < 0) return { start: 0, end: clip.duration };
+  return {
+    start: Math.max(0, first / clip.sampleRate - TRIM_PADDING_SECONDS),
+    end: Math.min(clip.duration, last / clip.sampleRate + TRIM_PADDING_SECONDS),
+  };
+}
+
+function sliceRange(clip: DecodedClip, range: TrimRange): Float32Array {
+  const start = Math.max(0, Math.floor(range.start * clip.sampleRate));
+  const end = Math.min(clip.samples.length, Math.ceil(range.end * clip.sampleRate));
+  return clip.samples.slice(start, Math.max(start, end));
+}
+
+/**
+ * Peak and RMS level of the recording, with warnings for clipping and
+ * recordings too quiet to normalize cleanly
+ */
+export function measureLevels(samples: Float32Array): ClipLevels {
+  let peak = 0;
+  let sum = 0;
+  let clipped = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const value = Math.abs(samples[i]);
+    if (value > peak) peak = value;
+    if (value >= CLIPPING_LEVEL) clipped++;
+    sum += samples[i] * samples[i];
+  }
+
+  const rmsDb = toDb(Math.sqrt(sum / Math.max(1, samples.length)));
+  const issues: LevelIssue[] = [];
+  if (samples.length > 0 && clipped / samples.length > CLIPPING_RATIO) issues.push('clipping');
+  if (rmsDb < TOO_QUIET_RMS_DB) issues.push('too-quiet');
+
+  return { peakDb: toDb(peak), rmsDb, issues };
+}
+
+export function measureRange(clip: DecodedClip, range: TrimRange): ClipLevels {
+  return measureLevels(sliceRange(clip, range));
+}
+
+// Bring the clip to the target loudness without pushing peaks past the ceiling
+function normalize(samples: Float32Array, levels: ClipLevels): Float32Array {
+  if (!Number.isFinite(levels.rmsDb)) return samples;
+  const gain = Math.min(fromDb(TARGET_RMS_DB - levels.rmsDb), fromDb(PEAK_CEILING_DB - levels.peakDb));
+  const fade = Math.min(Math.floor(samples.length / 2), Math.round(OUTPUT_SAMPLE_RATE * FADE_SECONDS));
+
+  const output = new Float32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    // Short fades so trimmed edges don't click
+    const edge = Math.min(i, samples.length - 1 - i);
+    const fadeGain = edge < fade ? edge / fade : 1;
+    output[i] = samples[i] * gain * fadeGain;
+  }
+  return output;
+}
+
+async function resample(samples: Float32Array, fromRate: number, toRate: number): Promise<Float32Array> {
+  if (fromRate === toRate || samples.length === 0) return samples;
+  const length = Math.max(1, Math.round((samples.length * toRate) / fromRate));
+  const context = new OfflineAudioContext(1, length, toRate);
+  const buffer = context.createBuffer(1, samples.length, fromRate);
+  buffer.getChannelData(0).set(samples);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  source.start();
+  const rendered = await context.startRendering();
+  return rendered.getChannelData(0);
+}
+
+/**
+ * 16-bit PCM mono WAV
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  const view = new DataView(new ArrayBuffer(44 + samples.length * 2));
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const value = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, value < 0 ? value * 0x8000 : value * 0x7fff, true);
+  }
+  return new Blob([view], { type: OUTPUT_MIME_TYPE });
+}
+
+/**
+ * Opus in WebM or Ogg, recorded by playing the samples into MediaRecorder.
+ * Resolves null when the browser can't do that, so callers fall back to WAV
+ */
+export async function encodeOpus(samples: Float32Array, sampleRate: number): Promise<Blob | null> {
+  if (typeof MediaRecorder === 'undefined' || samples.length === 0) return null;
+  const mimeType = COMPRESSED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) return null;
+
+  const context = new AudioContext({ sampleRate });
+  try {
+    await context.resume();
+    // A suspended context would never play the clip to the end
+    if (context.state !== 'running') return null;
+
+    const buffer = context.createBuffer(1, samples.length, sampleRate);
+    buffer.getChannelData(0).set(samples);
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    const destination = context.createMediaStreamDestination();
+    source.connect(destination);
+
+    const recorder = new MediaRecorder(destination.stream, { mimeType, audioBitsPerSecond: OPUS_BITS_PER_SECOND });
+    const chunks: Blob[] = [];
+    const stopped = new Promise<void>((resolve, reject) => {
+      recorder.ondataavailable = event => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.onstop = () => resolve();
+      recorder.onerror = () => reject(new Error('Could not encode the recording'));
+    });
+
+    source.onended = () => recorder.stop();
+    recorder.start();
+    source.start();
+    await stopped;
+
+    // Upload content types are matched without codec parameters
+    return chunks.length > 0 ? new Blob(chunks, { type: mimeType.split(';')[0] }) : null;
+  } catch (error) {
+    console.warn('Opus encoding failed, falling back to WAV:', error);
+    return null;
+  } finally {
+    context.close();
+  }
+}
+
+/**
+ * File extension for an uploaded clip's MIME type
+ */
+export function getAudioExtension(mimeType: string): string {
+  switch (mimeType.split(';')[0]) {
+    case 'audio/wav':
+      return 'wav';
+    case 'audio/ogg':
+      return 'ogg';
+    default:
+      return 'webm';
+  }
+}
+
+/**
+ * Trim, normalize and encode a recording for upload
+ */
+export async function processRecording(clip: DecodedClip, range: TrimRange): Promise<ProcessedClip> {
+  const trimmed = sliceRange(clip, range);
+  // Levels of the raw take: clipping can't be undone by normalizing
+  const levels = measureLevels(trimmed);
+  const resampled = await resample(trimmed, clip.sampleRate, OUTPUT_SAMPLE_RATE);
+  const output = normalize(resampled, levels);
+
+  return {
+    blob: (await encodeOpus(output, OUTPUT_SAMPLE_RATE)) ?? encodeWav(output, OUTPUT_SAMPLE_RATE),
+    durationSeconds: Math.round((output.length / OUTPUT_SAMPLE_RATE) * 100) / 100,
+    levels,
+  };
+}
+
+/**
+ * Waveform peaks and length of a clip, from a blob or a URL
+ */
+export async function loadPeaks(source: Blob | string, count: number): Promise<{ peaks: number[]; duration: number }> {
+  const blob = typeof source === 'string' ? await (await fetch(source)).blob() : source;
+  const clip = await decodeRecording(blob);
+  return { peaks: getPeaks(clip.samples, count), duration: clip.duration };
+}
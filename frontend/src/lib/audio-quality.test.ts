@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { isQualityRubricComplete, weakestCriterion } from '@/lib/audio-quality';
+
+describe('isQualityRubricComplete', () => {
+  it('needs a score for every criterion', () => {
+    expect(isQualityRubricComplete({ clarity: 4, noise: 3, pronunciation: 5, tone: 2 })).toBe(true);
+    expect(isQualityRubricComplete({ clarity: 4, noise: 3, pronunciation: 5 })).toBe(false);
+    expect(isQualityRubricComplete({ clarity: 4, noise: 0, pronunciation: 5, tone: 2 })).toBe(false);
+  });
+
+  it('ignores scores for unknown criteria', () => {
+    expect(isQualityRubricComplete({ accuracy: 5, clarity: 4, noise: 3, pronunciation: 5, tone: 2 })).toBe(true);
+  });
+});
+
+describe('weakestCriterion', () => {
+  it('picks the lowest average', () => {
+    expect(weakestCriterion({ clarity: 4.5, noise: 3, pronunciation: 4, tone: 2.5 })).toBe('tone');
+  });
+
+  it('keeps the first criterion on ties', () => {
+    expect(weakestCriterion({ clarity: 3, noise: 3 })).toBe('clarity');
+  });
+
+  it('only considers rated criteria', () => {
+    expect(weakestCriterion({ pronunciation: 4 })).toBe('pronunciation');
+    expect(weakestCriterion({})).toBeNull();
+  });
+});
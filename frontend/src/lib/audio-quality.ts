@@ -0,0 +1,38 @@
+// Audio quality ratings
+// Reviewers score every audio submission on these criteria as part of
+// their vote. The database averages the scores onto the submission and
+// flags a low-rated primary clip for re-recording (audio-quality-ratings.sql).
+
+import type { Audio, AudioQualityCriterion } from '@/types/database';
+
+export const AUDIO_QUALITY_CRITERIA: { key: AudioQualityCriterion; label: string; hint: string }[] = [
+  { key: 'clarity', label: 'Clarity', hint: 'Every syllable can be heard' },
+  { key: 'noise', label: 'Background noise', hint: '5 = silent background' },
+  { key: 'pronunciation', label: 'Pronunciation accuracy', hint: 'Matches how Ohafia speakers say it' },
+  { key: 'tone', label: 'Tone correctness', hint: 'High and low tones are right' },
+];
+
+// Matches sync_audio_rerecord_flag(): a primary clip rated this or lower
+// overall is flagged for re-recording
+export const RERECORD_RATING = 2;
+
+export type AudioQualitySummary = Pick<Audio, 'quality_rating' | 'quality_scores' | 'quality_rating_count'>;
+
+/**
+ * Whether a reviewer has scored every criterion
+ */
+export function isQualityRubricComplete(rubric: Record<string, number>): boolean {
+  return AUDIO_QUALITY_CRITERIA.every(criterion => rubric[criterion.key] >= 1);
+}
+
+/**
+ * The criterion a clip scores worst on, to tell the next speaker what to fix
+ */
+export function weakestCriterion(scores: AudioQualitySummary['quality_scores']): AudioQualityCriterion | null {
+  let weakest: AudioQualityCriterion | null = null;
+  for (const { key } of AUDIO_QUALITY_CRITERIA) {
+    const score = scores[key];
+    if (score !== undefined && (weakest === null || score < (scores[weakest] ?? 5))) weakest = key;
+  }
+  return weakest;
+}
@@ -177,7 +177,7 @@ class AudioService {
 export const audioService = new AudioService();
 
 // React hook for using audio service
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 
 export function useAudioPlayer() {
   const [isPlaying, setIsPlaying] = useState(false);
@@ -260,3 +260,71 @@ export function useAudioPlayer() {
     isAvailable: audioService.isAvailable(),
   };
 }
+
+// React hook for recording short clips from the microphone
+export function useAudioRecorder() {
+  const [isRecording, setIsRecording] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Live microphone input, for level meters while recording
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+
+  const start = useCallback(async (): Promise<boolean> => {
+    setError(null);
+    try {
+      const input = await navigator.mediaDevices.getUserMedia({ audio: true });
+      // Safari can't record webm; let it use its own format
+      const recorder = MediaRecorder.isTypeSupported('audio/webm')
+        ? new MediaRecorder(input, { mimeType: 'audio/webm' })
+        : new MediaRecorder(input);
+      chunksRef.current = [];
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunksRef.current.push(e.data);
+      };
+      recorderRef.current = recorder;
+      recorder.start();
+      setStream(input);
+      setIsRecording(true);
+      return true;
+    } catch {
+      setError('Could not access microphone. Please check permissions.');
+      return false;
+    }
+  }, []);
+
+  // Resolves with the recorded clip once the recorder has flushed
+  const stopRecording = useCallback((): Promise<Blob | null> => {
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state === 'inactive') return Promise.resolve(null);
+
+    return new Promise(resolve => {
+      recorder.onstop = () => {
+        recorder.stream.getTracks().forEach(track => track.stop());
+        recorderRef.current = null;
+        setStream(null);
+        setIsRecording(false);
+        resolve(new Blob(chunksRef.current, { type: recorder.mimeType || 'audio/webm' }));
+      };
+      recorder.stop();
+    });
+  }, []);
+
+  // Release the microphone if the component goes away mid-recording
+  useEffect(() => () => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.onstop = null;
+      recorder.stop();
+      recorder.stream.getTracks().forEach(track => track.stop());
+    }
+  }, []);
+
+  return {
+    isRecording,
+    error,
+    stream,
+    start,
+    stop: stopRecording,
+  };
+}
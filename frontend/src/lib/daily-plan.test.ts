@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_DAILY_MINUTES,
+  buildDailyPlan,
+  getDailyMinutesGoal,
+  getNextLessons,
+  getPlanMinutes,
+  parsePlanItems,
+  toLocalDateKey,
+  type PlanLesson,
+  type WeakAsset,
+} from '@/lib/daily-plan';
+import type { Lesson } from '@/types/database';
+
+function lesson(id: string, orderIndex: number, overrides: Partial<Lesson> = {}): Lesson {
+  return {
+    id,
+    title: `Lesson ${id}`,
+    description: null,
+    category: 'greetings',
+    difficulty: 'beginner',
+    order_index: orderIndex,
+    estimated_minutes: 10,
+    xp_reward: 10,
+    is_published: true,
+    prerequisites: null,
+    created_by: null,
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function planLesson(l: Lesson, progress = 0): PlanLesson {
+  return { lesson: l, progress, isCompleted: progress >= 100 };
+}
+
+function buildPlan(overrides: Partial<Parameters<typeof buildDailyPlan>[0]> = {}) {
+  return buildDailyPlan({
+    userId: 'user-1',
+    date: '2026-01-10',
+    minutesGoal: 10,
+    dueReviewCount: 0,
+    lessons: [],
+    weakAssets: [],
+    ...overrides,
+  });
+}
+
+describe('getDailyMinutesGoal', () => {
+  it('reads the goal from preferences', () => {
+    expect(getDailyMinutesGoal({ daily_minutes_goal: 20 })).toBe(20);
+  });
+
+  it('falls back to the default for missing or invalid goals', () => {
+    expect(getDailyMinutesGoal(null)).toBe(DEFAULT_DAILY_MINUTES);
+    expect(getDailyMinutesGoal({})).toBe(DEFAULT_DAILY_MINUTES);
+    expect(getDailyMinutesGoal({ daily_minutes_goal: 0 })).toBe(DEFAULT_DAILY_MINUTES);
+    expect(getDailyMinutesGoal([15])).toBe(DEFAULT_DAILY_MINUTES);
+  });
+});
+
+describe('parsePlanItems', () => {
+  it('keeps well-formed items', () => {
+    const item = { id: 'lesson-1', type: 'lesson', title: 'Greetings', description: 'Next lesson', minutes: 10, lessonId: 'l1', completed: true };
+    expect(parsePlanItems([item])).toEqual([item]);
+  });
+
+  it('drops malformed items and fills optional fields', () => {
+    expect(parsePlanItems([
+      { id: 'review', type: 'review', title: 'Reviews', minutes: 2.5, assetIds: ['a1', 2] },
+      { id: 'x', type: 'quiz', title: 'Unknown', minutes: 5 },
+      { type: 'weak', title: 'No id', minutes: 5 },
+      'lesson',
+      null,
+    ])).toEqual([{ id: 'review', type: 'review', title: 'Reviews', description: '', minutes: 2.5, completed: false }]);
+    expect(parsePlanItems(null)).toEqual([]);
+    expect(parsePlanItems({ items: [] })).toEqual([]);
+  });
+});
+
+describe('toLocalDateKey', () => {
+  it('formats the local calendar date', () => {
+    expect(toLocalDateKey(new Date(2026, 0, 5, 23, 30))).toBe('2026-01-05');
+  });
+});
+
+describe('getNextLessons', () => {
+  it('skips completed and locked lessons', () => {
+    const lessons = [
+      planLesson(lesson('a', 1), 100),
+      planLesson(lesson('b', 2)),
+      planLesson(lesson('c', 3)),
+    ];
+    // c still needs b
+    expect(getNextLessons(lessons).map(l => l.lesson.id)).toEqual(['b']);
+  });
+
+  it('puts lessons in progress first, then ones at the learner level', () => {
+    const lessons = [
+      planLesson(lesson('open', 1, { prerequisites: [] })),
+      planLesson(lesson('level', 2, { prerequisites: [], difficulty: 'elementary' })),
+      planLesson(lesson('started', 3, { prerequisites: [] }), 40),
+    ];
+    expect(getNextLessons(lessons, 'elementary').map(l => l.lesson.id)).toEqual(['started', 'level', 'open']);
+  });
+});
+
+describe('buildDailyPlan', () => {
+  it('belongs to the learner and day it was built for', () => {
+    const plan = buildPlan();
+    expect(plan.userId).toBe('user-1');
+    expect(plan.date).toBe('2026-01-10');
+    expect(plan.items).toEqual([]);
+  });
+
+  it('caps reviews at half the goal so new material still fits', () => {
+    const plan = buildPlan({ dueReviewCount: 40, lessons: [planLesson(lesson('a', 1))] });
+
+    expect(plan.items.map(item => item.type)).toEqual(['review', 'lesson']);
+    expect(plan.items[0].description).toBe('10 words ready for review');
+    expect(plan.items[0].minutes).toBe(5);
+  });
+
+  it('always includes one lesson, even when it runs past the goal', () => {
+    const plan = buildPlan({
+      minutesGoal: 5,
+      dueReviewCount: 20,
+      lessons: [planLesson(lesson('a', 1, { estimated_minutes: 15 }))],
+    });
+
+    const lessonItems = plan.items.filter(item => item.type === 'lesson');
+    expect(lessonItems).toHaveLength(1);
+    expect(lessonItems[0].lessonId).toBe('a');
+  });
+
+  it('sizes a started lesson by what is left of it', () => {
+    const plan = buildPlan({ lessons: [planLesson(lesson('a', 1, { estimated_minutes: 20 }), 75)] });
+    expect(plan.items[0].minutes).toBe(5);
+    expect(plan.items[0].description).toBe('Continue · 75% done');
+  });
+
+  it('fills leftover time with the weakest words first', () => {
+    const weakAssets: WeakAsset[] = [
+      { assetId: 'ok', accuracy: 50, attempts: 4 },
+      { assetId: 'worst', accuracy: 10, attempts: 3 },
+      { assetId: 'often', accuracy: 30, attempts: 8 },
+      { assetId: 'rare', accuracy: 30, attempts: 2 },
+    ];
+    const plan = buildPlan({ minutesGoal: 10, weakAssets });
+
+    const weak = plan.items.find(item => item.type === 'weak');
+    expect(weak?.assetIds).toEqual(['worst', 'often', 'rare', 'ok']);
+  });
+
+  it('leaves weak words out once the goal is used up', () => {
+    const plan = buildPlan({
+      minutesGoal: 10,
+      lessons: [planLesson(lesson('a', 1, { estimated_minutes: 12 }))],
+      weakAssets: [{ assetId: 'x', accuracy: 0, attempts: 5 }],
+    });
+    expect(plan.items.map(item => item.type)).toEqual(['lesson']);
+  });
+});
+
+describe('getPlanMinutes', () => {
+  it('totals planned and completed minutes', () => {
+    const plan = buildPlan({ dueReviewCount: 4, lessons: [planLesson(lesson('a', 1))] });
+    plan.items[0].completed = true;
+
+    expect(getPlanMinutes(plan)).toEqual({ planned: 12, completed: 2 });
+  });
+});
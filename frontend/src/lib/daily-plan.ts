@@ -0,0 +1,237 @@
+// Daily plan generator
+// Builds a day's practice from three sources, in priority order: spaced
+// reviews that are due, the next lesson the learner has unlocked, and words
+// they keep getting wrong. The plan is sized to the learner's daily minutes
+// goal and generated once per local day.
+
+import type { Json, Lesson } from '@/types/database';
+import { isLessonUnlocked } from '@/lib/lesson-graph';
+
+export type DailyPlanItemType = 'review' | 'lesson' | 'weak';
+
+export interface DailyPlanItem {
+  id: string;
+  type: DailyPlanItemType;
+  title: string;
+  description: string;
+  minutes: number;
+  lessonId?: string;
+  assetIds?: string[];
+  completed: boolean;
+}
+
+export interface DailyPlan {
+  userId: string; // learner the plan was built for
+  date: string; // learner's local date, YYYY-MM-DD
+  minutesGoal: number;
+  items: DailyPlanItem[];
+  generatedAt: string;
+}
+
+export interface PlanLesson {
+  lesson: Lesson;
+  progress: number; // 0-100
+  isCompleted: boolean;
+}
+
+export interface WeakAsset {
+  assetId: string;
+  accuracy: number; // 0-100
+  attempts: number;
+}
+
+export const DAILY_MINUTES_OPTIONS = [5, 10, 15, 20, 30];
+export const DEFAULT_DAILY_MINUTES = 10;
+
+const MINUTES_PER_REVIEW = 0.5;
+const MINUTES_PER_WEAK_ASSET = 0.75;
+// Reviews never crowd out new material entirely
+const MAX_REVIEW_SHARE = 0.5;
+const MIN_REVIEWS = 5;
+const MAX_WEAK_ASSETS = 10;
+// An asset is "weak" once it has a few attempts and most of them miss
+export const WEAK_ACCURACY_THRESHOLD = 60;
+export const WEAK_MIN_ATTEMPTS = 2;
+
+/**
+ * The learner's daily minutes goal from profiles.preferences
+ */
+export function getDailyMinutesGoal(preferences: Json | null): number {
+  if (preferences && typeof preferences === 'object' && !Array.isArray(preferences)) {
+    const goal = Number(preferences.daily_minutes_goal);
+    if (goal > 0) return goal;
+  }
+  return DEFAULT_DAILY_MINUTES;
+}
+
+const PLAN_ITEM_TYPES: DailyPlanItemType[] = ['review', 'lesson', 'weak'];
+
+function isStringArray(value: Json | undefined): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+/**
+ * Plan items from a stored daily_plans row. The column is plain JSON, so
+ * items written by an older client or edited by hand are dropped rather than
+ * trusted
+ */
+export function parsePlanItems(value: Json): DailyPlanItem[] {
+  if (!Array.isArray(value)) return [];
+
+  const items: DailyPlanItem[] = [];
+  for (const raw of value) {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) continue;
+    const { id, type, title, description, minutes, lessonId, assetIds, completed } = raw;
+    if (typeof id !== 'string' || typeof title !== 'string' || typeof minutes !== 'number') continue;
+    if (!PLAN_ITEM_TYPES.includes(type as DailyPlanItemType)) continue;
+
+    items.push({
+      id,
+      type: type as DailyPlanItemType,
+      title,
+      description: typeof description === 'string' ? description : '',
+      minutes,
+      ...(typeof lessonId === 'string' ? { lessonId } : {}),
+      ...(isStringArray(assetIds) ? { assetIds } : {}),
+      completed: completed === true,
+    });
+  }
+  return items;
+}
+
+/**
+ * Local calendar date (YYYY-MM-DD) for a timestamp
+ */
+export function toLocalDateKey(date: Date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Pick the lessons to work on next: ones already started come first, then
+ * unlocked lessons in course order, preferring the learner's level
+ */
+export function getNextLessons(lessons: PlanLesson[], level?: string): PlanLesson[] {
+  const completedIds = new Set(lessons.filter(l => l.isCompleted).map(l => l.lesson.id));
+  const allLessons = lessons.map(l => l.lesson);
+  const candidates = lessons
+    .filter(l => !l.isCompleted && isLessonUnlocked(l.lesson, allLessons, completedIds))
+    .sort((a, b) => a.lesson.order_index - b.lesson.order_index);
+
+  const inProgress = candidates.filter(l => l.progress > 0);
+  const notStarted = candidates.filter(l => l.progress === 0);
+  const atLevel = level ? notStarted.filter(l => l.lesson.difficulty === level) : [];
+  const others = notStarted.filter(l => !atLevel.includes(l));
+
+  return [...inProgress, ...atLevel, ...others];
+}
+
+/**
+ * Minutes still needed to finish a lesson
+ */
+function remainingLessonMinutes(planLesson: PlanLesson): number {
+  const estimated = planLesson.lesson.estimated_minutes || 10;
+  return Math.max(2, Math.round(estimated * (1 - planLesson.progress / 100)));
+}
+
+/**
+ * Build a plan for one day
+ */
+export function buildDailyPlan(input: {
+  userId: string;
+  date: string;
+  minutesGoal: number;
+  dueReviewCount: number;
+  lessons: PlanLesson[];
+  weakAssets: WeakAsset[];
+  level?: string;
+}): DailyPlan {
+  const { userId, date, minutesGoal, dueReviewCount, lessons, weakAssets, level } = input;
+  const items: DailyPlanItem[] = [];
+  let remaining = minutesGoal;
+
+  // 1. Due reviews, capped so there's room for something new
+  if (dueReviewCount > 0) {
+    const reviewBudget = Math.max(MIN_REVIEWS, Math.floor((minutesGoal * MAX_REVIEW_SHARE) / MINUTES_PER_REVIEW));
+    const reviewCount = Math.min(dueReviewCount, reviewBudget);
+    const minutes = Math.max(1, Math.ceil(reviewCount * MINUTES_PER_REVIEW));
+    items.push({
+      id: 'review',
+      type: 'review',
+      title: 'Review due words',
+      description: `${reviewCount} ${reviewCount === 1 ? 'word' : 'words'} ready for review`,
+      minutes,
+      completed: false,
+    });
+    remaining -= minutes;
+  }
+
+  // 2. The next unlocked lessons; always at least one when there's any
+  const nextLessons = getNextLessons(lessons, level);
+  for (const planLesson of nextLessons) {
+    const hasLesson = items.some(item => item.type === 'lesson');
+    if (hasLesson && remaining <= 0) break;
+
+    const minutes = remainingLessonMinutes(planLesson);
+    // Don't start a second lesson that would blow well past the goal
+    if (hasLesson && minutes > remaining * 1.5) break;
+
+    items.push({
+      id: `lesson:${planLesson.lesson.id}`,
+      type: 'lesson',
+      title: planLesson.lesson.title,
+      description: planLesson.progress > 0
+        ? `Continue · ${planLesson.progress}% done`
+        : planLesson.lesson.description || planLesson.lesson.category || 'New lesson',
+      minutes,
+      lessonId: planLesson.lesson.id,
+      completed: false,
+    });
+    remaining -= minutes;
+  }
+
+  // 3. Weakest words fill whatever time is left
+  if (remaining > 0 && weakAssets.length > 0) {
+    const count = Math.min(
+      weakAssets.length,
+      MAX_WEAK_ASSETS,
+      Math.max(3, Math.floor(remaining / MINUTES_PER_WEAK_ASSET))
+    );
+    const assetIds = [...weakAssets]
+      .sort((a, b) => a.accuracy - b.accuracy || b.attempts - a.attempts)
+      .slice(0, count)
+      .map(asset => asset.assetId);
+
+    items.push({
+      id: 'weak',
+      type: 'weak',
+      title: 'Strengthen tricky words',
+      description: `${assetIds.length} ${assetIds.length === 1 ? 'word' : 'words'} you often miss`,
+      minutes: Math.max(1, Math.ceil(assetIds.length * MINUTES_PER_WEAK_ASSET)),
+      assetIds,
+      completed: false,
+    });
+  }
+
+  return {
+    userId,
+    date,
+    minutesGoal,
+    items,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Minutes planned and minutes done so far
+ */
+export function getPlanMinutes(plan: DailyPlan): { planned: number; completed: number } {
+  return plan.items.reduce(
+    (totals, item) => ({
+      planned: totals.planned + item.minutes,
+      completed: totals.completed + (item.completed ? item.minutes : 0),
+    }),
+    { planned: 0, completed: 0 }
+  );
+}
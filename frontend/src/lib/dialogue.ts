@@ -0,0 +1,70 @@
+// Dialogue helpers
+// A dialogue asset keeps its speakers and turns in `assets.dialogue`; the
+// asset's igbo_text / english_text are the dialogue's title.
+
+import { normalizeIgbo } from '@/lib/igbo-orthography';
+import type { Dialogue, DialogueSpeaker, DialogueTurn } from '@/types/database';
+
+export const MAX_DIALOGUE_SPEAKERS = 4;
+
+/**
+ * A new dialogue with two speakers and one empty turn each
+ */
+export function createEmptyDialogue(): Dialogue {
+  const speakers: DialogueSpeaker[] = [
+    { id: 'a', name: 'Speaker A' },
+    { id: 'b', name: 'Speaker B' },
+  ];
+  return {
+    speakers,
+    turns: speakers.map(speaker => createTurn(speaker.id)),
+  };
+}
+
+export function createTurn(speakerId: string): DialogueTurn {
+  return { id: crypto.randomUUID(), speaker: speakerId, igbo: '', english: '', audio_url: null };
+}
+
+/**
+ * Next unused speaker id: 'a', 'b', 'c', ...
+ */
+export function nextSpeakerId(speakers: DialogueSpeaker[]): string {
+  const used = new Set(speakers.map(speaker => speaker.id));
+  let code = 'a'.charCodeAt(0);
+  while (used.has(String.fromCharCode(code))) code++;
+  return String.fromCharCode(code);
+}
+
+/**
+ * Problems that stop a dialogue from being saved, or null when it's valid.
+ * Mirrors the assets_dialogue_check constraint.
+ */
+export function validateDialogue(dialogue: Dialogue): string | null {
+  if (dialogue.speakers.length < 2) return 'A dialogue needs at least two speakers';
+  if (dialogue.speakers.some(speaker => !speaker.name.trim())) return 'Every speaker needs a name';
+
+  const turns = dialogue.turns.filter(turn => turn.igbo.trim() || turn.english.trim());
+  if (turns.length === 0) return 'Add at least one line';
+  if (turns.some(turn => !turn.igbo.trim())) return 'Every line needs Igbo text';
+
+  const speakerIds = new Set(dialogue.speakers.map(speaker => speaker.id));
+  if (turns.some(turn => !speakerIds.has(turn.speaker))) return 'Every line needs a speaker';
+
+  return null;
+}
+
+/**
+ * Trim names and text, normalize Igbo spelling and drop empty lines
+ */
+export function cleanDialogue(dialogue: Dialogue): Dialogue {
+  return {
+    speakers: dialogue.speakers.map(speaker => ({ ...speaker, name: speaker.name.trim() })),
+    turns: dialogue.turns
+      .filter(turn => turn.igbo.trim() || turn.english.trim())
+      .map(turn => ({ ...turn, igbo: normalizeIgbo(turn.igbo), english: turn.english.trim() })),
+  };
+}
+
+export function getSpeaker(dialogue: Dialogue, speakerId: string): DialogueSpeaker | undefined {
+  return dialogue.speakers.find(speaker => speaker.id === speakerId);
+}
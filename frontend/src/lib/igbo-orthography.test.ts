@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyToneMark,
+  compareIgbo,
+  igboInitial,
+  igboMatchKey,
+  normalizeIgbo,
+  splitIgboLetters,
+  stripTones,
+  validateIgboText,
+} from '@/lib/igbo-orthography';
+
+describe('normalizeIgbo', () => {
+  it('composes combining dots into single letters', () => {
+    expect(normalizeIgbo('ọma')).toBe('ọma');
+  });
+
+  it('turns spacing accents after a vowel into tone marks', () => {
+    expect(normalizeIgbo('a´kwa`')).toBe('ákwà');
+  });
+
+  it('leaves accents after consonants alone', () => {
+    expect(normalizeIgbo('k´')).toBe('k´');
+  });
+
+  it('replaces ñ and tidies whitespace', () => {
+    expect(normalizeIgbo('  ñ   ka ')).toBe('ṅ ka');
+  });
+});
+
+describe('tones', () => {
+  it('strips tone marks but keeps the dots', () => {
+    expect(stripTones('ọ́ma àkwà')).toBe('ọma akwa');
+  });
+
+  it('matches spellings, keeping tones unless told otherwise', () => {
+    expect(igboMatchKey('A´kwa')).toBe(igboMatchKey('ákwa'));
+    expect(igboMatchKey('ákwá')).not.toBe(igboMatchKey('àkwà'));
+    expect(igboMatchKey('ákwá', { ignoreTones: true })).toBe(igboMatchKey('àkwà', { ignoreTones: true }));
+  });
+
+  it('replaces the tone on the last letter', () => {
+    expect(applyToneMark('akwa', 'high')).toBe('akwá');
+    expect(applyToneMark('akwá', 'low')).toBe('akwà');
+    expect(applyToneMark('ọ', 'high')).toBe('ọ́');
+  });
+});
+
+describe('validateIgboText', () => {
+  it('accepts standard Igbo spelling', () => {
+    expect(validateIgboText('Ọ́ dị mma, nwanne m!')).toEqual([]);
+  });
+
+  it('warns once per unexpected character', () => {
+    expect(validateIgboText('cxc é').map(w => w.character)).toEqual(['c', 'x']);
+    expect(validateIgboText('ö')[0].message).toBe('Unexpected accent "◌̈"');
+  });
+});
+
+describe('Igbo alphabetical order', () => {
+  it('reads digraphs as single letters', () => {
+    expect(splitIgboLetters('Gbọ́ọ́ chi')).toEqual(['gb', 'ọ', 'ọ', ' ', 'ch', 'i']);
+  });
+
+  it('files words under their first Igbo letter', () => {
+    expect(igboInitial('Nwanne')).toBe('nw');
+    expect(igboInitial('ọ́ma')).toBe('ọ');
+    expect(igboInitial('Xhosa')).toBe('#');
+  });
+
+  it('sorts digraphs after their first letter and dotted vowels after plain ones', () => {
+    const words = ['gba', 'ọma', 'gu', 'ike', 'ode', 'ịhụ', 'nwa', 'nza', 'gwa'];
+    expect([...words].sort(compareIgbo)).toEqual(['gu', 'gba', 'gwa', 'ike', 'ịhụ', 'nza', 'nwa', 'ode', 'ọma']);
+  });
+
+  it('ignores tone marks when ordering', () => {
+    expect(compareIgbo('àkwà', 'akwụ')).toBeLessThan(0);
+  });
+});
@@ -0,0 +1,198 @@
+// Igbo orthography helpers
+// The same word can be typed many ways: precomposed ị or i + combining dot,
+// tone marks as combining characters or as spacing accents typed after the
+// letter, ñ for ṅ. Everything stored goes through normalizeIgbo so that
+// duplicate checks and search compare like with like.
+
+// Letters with diacritics used in standard Igbo orthography
+export const IGBO_SPECIAL_LETTERS = ['ị', 'ọ', 'ụ', 'ṅ'];
+
+export type ToneMark = 'high' | 'low' | 'mid';
+
+// Combining tone marks: high (acute), low (grave), downstep/mid (macron)
+export const TONE_MARKS: Record<ToneMark, string> = {
+  high: '\u0301',
+  low: '\u0300',
+  mid: '\u0304',
+};
+
+const COMBINING_TONES = /[\u0300\u0301\u0304]/g;
+
+// Spacing accents people type in place of combining marks
+const SPACING_TO_COMBINING: Record<string, string> = {
+  '\u00B4': TONE_MARKS.high, // ´
+  '\u02CA': TONE_MARKS.high, // ˊ
+  '\u0060': TONE_MARKS.low, // `
+  '\u02CB': TONE_MARKS.low, // ˋ
+  '\u00AF': TONE_MARKS.mid, // ¯
+  '\u02C9': TONE_MARKS.mid, // ˉ
+};
+
+// Lookalike letters that stand in for Igbo ones
+const LETTER_SUBSTITUTES: Record<string, string> = {
+  'ñ': 'ṅ',
+  'Ñ': 'Ṅ',
+};
+
+// Letters that carry tone: vowels and syllabic nasals
+const TONE_BEARING = /[aeioumn]/i;
+
+/**
+ * Canonical form for storing Igbo text: NFC, real combining tone marks,
+ * standard letters and single spaces
+ */
+export function normalizeIgbo(text: string): string {
+  let result = text.normalize('NFD');
+
+  // A spacing accent right after a vowel (or m/n) becomes a tone mark on it
+  result = result.replace(/(\p{L}\p{M}*)([\u00B4\u02CA\u0060\u02CB\u00AF\u02C9])/gu, (match, base: string, accent: string) =>
+    TONE_BEARING.test(base[0]) ? base + SPACING_TO_COMBINING[accent] : match
+  );
+
+  result = result.normalize('NFC');
+  for (const [from, to] of Object.entries(LETTER_SUBSTITUTES)) {
+    result = result.split(from).join(to);
+  }
+
+  return result.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Remove tone marks but keep the dots that make ị, ọ, ụ, ṅ distinct letters
+ */
+export function stripTones(text: string): string {
+  return text.normalize('NFD').replace(COMBINING_TONES, '').normalize('NFC');
+}
+
+/**
+ * Key for matching two spellings of the same text. Tones are kept by
+ * default since they change meaning (ákwá / àkwà); pass ignoreTones for
+ * looser matching such as search.
+ */
+export function igboMatchKey(text: string, { ignoreTones = false } = {}): string {
+  const normalized = normalizeIgbo(text);
+  return (ignoreTones ? stripTones(normalized) : normalized).toLowerCase();
+}
+
+/**
+ * Add a tone mark to the last letter of the text, replacing any tone it has
+ */
+export function applyToneMark(text: string, tone: ToneMark): string {
+  const decomposed = text.normalize('NFD');
+  const match = decomposed.match(/(\p{L})(\p{M}*)$/u);
+  if (!match) return text;
+
+  const [, letter, marks] = match;
+  const keptMarks = marks.replace(COMBINING_TONES, '');
+  const head = decomposed.slice(0, decomposed.length - match[0].length);
+  return (head + letter + keptMarks + TONE_MARKS[tone]).normalize('NFC');
+}
+
+/**
+ * Normalize the Igbo fields of an asset before it is saved
+ */
+export function normalizeAssetText<T extends { igbo_text?: string }>(asset: T): T {
+  if (typeof asset.igbo_text !== 'string') return asset;
+  return { ...asset, igbo_text: normalizeIgbo(asset.igbo_text) };
+}
+
+export interface OrthographyWarning {
+  character: string;
+  message: string;
+}
+
+// Latin letters not used in Igbo words
+const NON_IGBO_LATIN = new Set(['c', 'q', 'x']);
+// Tone marks plus the dot below (ị, ọ, ụ) and dot above (ṅ)
+const ALLOWED_MARKS = new Set(['\u0300', '\u0301', '\u0304', '\u0323', '\u0307']);
+const ALLOWED_PUNCTUATION = /[\s.,!?;:'’‘"“”()\-–—/]/;
+
+/**
+ * Characters that don't belong in Igbo text. These are warnings rather than
+ * errors: loanwords and names can legitimately use them.
+ */
+export function validateIgboText(text: string): OrthographyWarning[] {
+  const warnings: OrthographyWarning[] = [];
+  const seen = new Set<string>();
+  const warn = (character: string, message: string) => {
+    if (seen.has(character)) return;
+    seen.add(character);
+    warnings.push({ character, message });
+  };
+
+  for (const char of normalizeIgbo(text).normalize('NFD')) {
+    const lower = char.toLowerCase();
+    if (/[a-z]/.test(lower)) {
+      if (NON_IGBO_LATIN.has(lower)) warn(char, `"${char}" is not used in Igbo spelling`);
+    } else if (/\p{M}/u.test(char)) {
+      if (!ALLOWED_MARKS.has(char)) warn(char, `Unexpected accent "◌${char}"`);
+    } else if (/\p{L}/u.test(char)) {
+      warn(char, `"${char}" is not an Igbo letter`);
+    } else if (!/\d/.test(char) && !ALLOWED_PUNCTUATION.test(char)) {
+      warn(char, `Unexpected character "${char}"`);
+    }
+  }
+
+  return warnings;
+}
+
+// Igbo alphabet in dictionary order. Digraphs are single letters, so "gba"
+// files after every "g..." word and the dotted vowels follow their plain ones.
+export const IGBO_ALPHABET = [
+  'a', 'b', 'ch', 'd', 'e', 'f', 'g', 'gb', 'gh', 'gw', 'h', 'i', 'ị', 'j', 'k', 'kp', 'kw',
+  'l', 'm', 'n', 'ṅ', 'nw', 'ny', 'o', 'ọ', 'p', 'r', 's', 'sh', 't', 'u', 'ụ', 'v', 'w', 'y', 'z',
+];
+
+const ALPHABET_INDEX = new Map(IGBO_ALPHABET.map((letter, index) => [letter, index]));
+
+/**
+ * Split text into Igbo letters, reading digraphs as one letter. Tone marks
+ * and case are ignored; anything outside the alphabet is kept as-is.
+ */
+export function splitIgboLetters(text: string): string[] {
+  const chars = Array.from(stripTones(normalizeIgbo(text)).toLowerCase());
+  const letters: string[] = [];
+  for (let i = 0; i < chars.length; i++) {
+    const pair = chars[i] + (chars[i + 1] ?? '');
+    if (ALPHABET_INDEX.has(pair)) {
+      letters.push(pair);
+      i++;
+    } else {
+      letters.push(chars[i]);
+    }
+  }
+  return letters;
+}
+
+/**
+ * Dictionary heading for a word: its first Igbo letter, or '#' for words
+ * starting with anything else
+ */
+export function igboInitial(text: string): string {
+  const first = splitIgboLetters(text).find(letter => /\p{L}/u.test(letter));
+  return first && ALPHABET_INDEX.has(first) ? first : '#';
+}
+
+/**
+ * Sort key for Igbo alphabetical order; compare keys with compareIgboKeys
+ */
+export function igboSortKey(text: string): number[] {
+  return splitIgboLetters(text)
+    .filter(letter => /\p{L}/u.test(letter))
+    // Letters outside the alphabet sort after z, by code point
+    .map(letter => ALPHABET_INDEX.get(letter) ?? IGBO_ALPHABET.length + (letter.codePointAt(0) ?? 0));
+}
+
+export function compareIgboKeys(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Compare two Igbo strings in dictionary order
+ */
+export function compareIgbo(a: string, b: string): number {
+  return compareIgboKeys(igboSortKey(a), igboSortKey(b)) || a.localeCompare(b);
+}
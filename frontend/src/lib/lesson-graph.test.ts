@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import {
+  findPrerequisiteCycle,
+  getMissingPrerequisites,
+  getPrerequisiteIds,
+  groupLessonsForSkillTree,
+  isLessonUnlocked,
+} from '@/lib/lesson-graph';
+import type { Lesson } from '@/types/database';
+
+function lesson(id: string, orderIndex: number, overrides: Partial<Lesson> = {}): Lesson {
+  return {
+    id,
+    title: `Lesson ${id}`,
+    description: null,
+    category: 'greetings',
+    difficulty: 'beginner',
+    order_index: orderIndex,
+    estimated_minutes: 10,
+    xp_reward: 10,
+    is_published: true,
+    prerequisites: null,
+    created_by: null,
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const ids = (lessons: Lesson[]) => lessons.map(l => l.id);
+
+describe('getPrerequisiteIds', () => {
+  it('uses explicit prerequisites when set', () => {
+    const lessons = [lesson('a', 1), lesson('b', 2), lesson('c', 3, { prerequisites: ['a'] })];
+    expect(getPrerequisiteIds(lessons[2], lessons)).toEqual(['a']);
+  });
+
+  it('treats an empty list as open from the start', () => {
+    const lessons = [lesson('a', 1), lesson('b', 2, { prerequisites: [] })];
+    expect(getPrerequisiteIds(lessons[1], lessons)).toEqual([]);
+  });
+
+  it('falls back to the previous lesson in course order', () => {
+    const lessons = [lesson('c', 3), lesson('a', 1), lesson('b', 2)];
+    expect(getPrerequisiteIds(lessons[0], lessons)).toEqual(['b']);
+    expect(getPrerequisiteIds(lessons[1], lessons)).toEqual([]);
+  });
+
+  it('breaks order ties by id, like the database', () => {
+    const lessons = [lesson('y', 1), lesson('x', 1)];
+    expect(getPrerequisiteIds(lessons[0], lessons)).toEqual(['x']);
+  });
+});
+
+describe('isLessonUnlocked', () => {
+  const lessons = [
+    lesson('a', 1),
+    lesson('b', 2),
+    lesson('c', 3, { prerequisites: ['a', 'b'] }),
+    lesson('d', 4, { prerequisites: ['a', 'removed'] }),
+  ];
+
+  it('needs every prerequisite completed', () => {
+    expect(isLessonUnlocked(lessons[2], lessons, new Set(['a']))).toBe(false);
+    expect(isLessonUnlocked(lessons[2], lessons, new Set(['a', 'b']))).toBe(true);
+  });
+
+  it('opens the first lesson straight away', () => {
+    expect(isLessonUnlocked(lessons[0], lessons, new Set())).toBe(true);
+  });
+
+  it('ignores prerequisites no longer in the course', () => {
+    expect(isLessonUnlocked(lessons[3], lessons, new Set(['a']))).toBe(true);
+  });
+});
+
+describe('getMissingPrerequisites', () => {
+  it('follows prerequisites transitively, in course order', () => {
+    const lessons = [
+      lesson('a', 1),
+      lesson('b', 2),
+      lesson('c', 3),
+      lesson('d', 4, { prerequisites: ['c', 'a'] }),
+    ];
+    expect(ids(getMissingPrerequisites(lessons[3], lessons, new Set()))).toEqual(['a', 'b', 'c']);
+  });
+
+  it('stops at completed lessons', () => {
+    const lessons = [lesson('a', 1), lesson('b', 2), lesson('c', 3)];
+    expect(ids(getMissingPrerequisites(lessons[2], lessons, new Set(['b'])))).toEqual([]);
+    expect(ids(getMissingPrerequisites(lessons[2], lessons, new Set(['a'])))).toEqual(['b']);
+  });
+});
+
+describe('findPrerequisiteCycle', () => {
+  it('allows an acyclic edit', () => {
+    const lessons = [lesson('a', 1), lesson('b', 2), lesson('c', 3)];
+    expect(findPrerequisiteCycle('c', ['a'], lessons)).toBeNull();
+  });
+
+  it('finds a cycle through explicit prerequisites', () => {
+    const lessons = [
+      lesson('a', 1, { prerequisites: [] }),
+      lesson('b', 2, { prerequisites: ['a'] }),
+      lesson('c', 3, { prerequisites: ['b'] }),
+    ];
+    expect(findPrerequisiteCycle('a', ['c'], lessons)).toEqual(['a', 'c', 'b', 'a']);
+  });
+
+  it('finds a cycle through the implicit previous-lesson links', () => {
+    const lessons = [lesson('a', 1), lesson('b', 2), lesson('c', 3)];
+    // c already needs b, which needs a, through course order
+    expect(findPrerequisiteCycle('a', ['c'], lessons)).toEqual(['a', 'c', 'b', 'a']);
+  });
+
+  it('finds a lesson that requires itself', () => {
+    const lessons = [lesson('a', 1)];
+    expect(findPrerequisiteCycle('a', ['a'], lessons)).toEqual(['a', 'a']);
+  });
+});
+
+describe('groupLessonsForSkillTree', () => {
+  it('groups by difficulty tier, then category, in course order', () => {
+    const lessons = [
+      lesson('food', 3, { category: 'food' }),
+      lesson('verbs', 4, { difficulty: 'intermediate', category: 'verbs' }),
+      lesson('hello', 1),
+      lesson('bye', 2),
+      lesson('family', 5, { difficulty: 'elementary', category: null }),
+    ];
+
+    const tiers = groupLessonsForSkillTree(lessons);
+    expect(tiers.map(tier => tier.difficulty)).toEqual(['beginner', 'elementary', 'intermediate']);
+    expect(tiers[0].categories.map(c => [c.category, ids(c.lessons)])).toEqual([
+      ['greetings', ['hello', 'bye']],
+      ['food', ['food']],
+    ]);
+    expect(tiers[1].categories[0].category).toBe('General');
+  });
+});
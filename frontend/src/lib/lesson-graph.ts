@@ -0,0 +1,132 @@
+// Lesson prerequisite graph
+// lessons.prerequisites lists the lessons that must be completed before a
+// lesson unlocks. Lessons whose prerequisites were never set (NULL) follow
+// the original course order and require the lesson before them; an empty
+// array means the lesson is open from the start.
+
+import type { Lesson, ProficiencyLevel } from '@/types/database';
+
+export const DIFFICULTY_ORDER: ProficiencyLevel[] = [
+  'beginner',
+  'elementary',
+  'intermediate',
+  'upper_intermediate',
+  'advanced',
+  'fluent',
+];
+
+export interface SkillTreeTier {
+  difficulty: ProficiencyLevel;
+  categories: { category: string; lessons: Lesson[] }[];
+}
+
+// Ties broken by id, as check_lesson_prerequisites() does
+function byOrder(a: Lesson, b: Lesson): number {
+  return a.order_index - b.order_index || a.id.localeCompare(b.id);
+}
+
+/**
+ * Lessons that must be completed before this one, as ids
+ */
+export function getPrerequisiteIds(lesson: Lesson, lessons: Lesson[]): string[] {
+  if (lesson.prerequisites) return lesson.prerequisites;
+
+  const ordered = [...lessons].sort(byOrder);
+  const index = ordered.findIndex(l => l.id === lesson.id);
+  return index > 0 ? [ordered[index - 1].id] : [];
+}
+
+/**
+ * A lesson is unlocked once every prerequisite that is still part of the
+ * course has been completed
+ */
+export function isLessonUnlocked(lesson: Lesson, lessons: Lesson[], completedIds: Set<string>): boolean {
+  const known = new Set(lessons.map(l => l.id));
+  return getPrerequisiteIds(lesson, lessons)
+    .filter(id => known.has(id))
+    .every(id => completedIds.has(id));
+}
+
+/**
+ * Every incomplete lesson standing between the learner and this one,
+ * following prerequisites transitively, in course order
+ */
+export function getMissingPrerequisites(lesson: Lesson, lessons: Lesson[], completedIds: Set<string>): Lesson[] {
+  const byId = new Map(lessons.map(l => [l.id, l]));
+  const missing = new Map<string, Lesson>();
+  const stack = [...getPrerequisiteIds(lesson, lessons)];
+
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    const prerequisite = byId.get(id);
+    if (!prerequisite || completedIds.has(id) || missing.has(id)) continue;
+    missing.set(id, prerequisite);
+    stack.push(...getPrerequisiteIds(prerequisite, lessons));
+  }
+
+  return Array.from(missing.values()).sort(byOrder);
+}
+
+/**
+ * Check whether giving a lesson these prerequisites would create a cycle.
+ * Returns the lesson ids along the cycle (starting and ending with the
+ * edited lesson), or null when the graph stays acyclic.
+ */
+export function findPrerequisiteCycle(lessonId: string, prerequisiteIds: string[], lessons: Lesson[]): string[] | null {
+  const edited = lessons.map(l => (l.id === lessonId ? { ...l, prerequisites: prerequisiteIds } : l));
+  const byId = new Map(edited.map(l => [l.id, l]));
+  const visited = new Set<string>();
+
+  // Depth-first walk from the edited lesson's prerequisites back to itself
+  const walk = (id: string, path: string[]): string[] | null => {
+    if (id === lessonId) return [...path, id];
+    if (visited.has(id)) return null;
+    visited.add(id);
+
+    const lesson = byId.get(id);
+    if (!lesson) return null;
+
+    for (const next of getPrerequisiteIds(lesson, edited)) {
+      const cycle = walk(next, [...path, id]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+
+  for (const id of prerequisiteIds) {
+    const cycle = walk(id, [lessonId]);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Lessons grouped by difficulty tier, then by category, in course order
+ */
+export function groupLessonsForSkillTree(lessons: Lesson[]): SkillTreeTier[] {
+  const tiers = new Map<ProficiencyLevel, Map<string, Lesson[]>>();
+
+  [...lessons].sort(byOrder).forEach(lesson => {
+    const difficulty = lesson.difficulty || 'beginner';
+    const category = lesson.category || 'General';
+    if (!tiers.has(difficulty)) tiers.set(difficulty, new Map());
+    const categories = tiers.get(difficulty)!;
+    if (!categories.has(category)) categories.set(category, []);
+    categories.get(category)!.push(lesson);
+  });
+
+  const rank = (difficulty: ProficiencyLevel) => {
+    const index = DIFFICULTY_ORDER.indexOf(difficulty);
+    return index === -1 ? DIFFICULTY_ORDER.length : index;
+  };
+
+  return Array.from(tiers.entries())
+    .sort(([a], [b]) => rank(a) - rank(b))
+    .map(([difficulty, categories]) => ({
+      difficulty,
+      categories: Array.from(categories.entries()).map(([category, categoryLessons]) => ({
+        category,
+        lessons: categoryLessons,
+      })),
+    }));
+}
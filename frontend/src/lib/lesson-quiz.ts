@@ -0,0 +1,113 @@
+// Multiple-choice quizzes built from lesson vocabulary
+// Used by the "test out" quiz that unlocks lessons early and by the
+// placement test. Questions alternate direction (Igbo -> English and
+// English -> Igbo) and draw their wrong answers from the same pool of words.
+
+import type { Asset } from '@/types/database';
+
+export type QuizDirection = 'igbo-to-english' | 'english-to-igbo';
+
+export interface QuizQuestion {
+  assetId: string;
+  lessonId: string | null;
+  direction: QuizDirection;
+  prompt: string;
+  options: string[];
+  answer: string;
+}
+
+// Score (0-100) needed to pass a test-out quiz; the server grades it again
+export const TEST_OUT_PASS_SCORE = 80;
+export const TEST_OUT_QUESTION_COUNT = 10;
+export const OPTION_COUNT = 4;
+
+export function shuffle<T>(items: T[]): T[] {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+}
+
+/**
+ * Whether an asset has both sides filled in and can be quizzed
+ */
+export function isQuizzable(asset: Asset): boolean {
+  return !!asset.igbo_text?.trim() && !!asset.english_text?.trim();
+}
+
+/**
+ * One multiple-choice question, with wrong answers drawn from `pool`
+ */
+export function buildQuestion(asset: Asset, pool: Asset[], direction: QuizDirection): QuizQuestion {
+  const answerOf = (a: Asset) => (direction === 'igbo-to-english' ? a.english_text : a.igbo_text);
+  const answer = answerOf(asset);
+
+  const distractors = shuffle(
+    Array.from(new Set(pool.filter(a => a.id !== asset.id && isQuizzable(a)).map(answerOf))).filter(option => option !== answer)
+  ).slice(0, OPTION_COUNT - 1);
+
+  return {
+    assetId: asset.id,
+    lessonId: asset.lesson_id,
+    direction,
+    prompt: direction === 'igbo-to-english' ? asset.igbo_text : asset.english_text,
+    options: shuffle([answer, ...distractors]),
+    answer,
+  };
+}
+
+/**
+ * Build up to `count` questions, spread evenly across lessons.
+ * Needs at least OPTION_COUNT distinct words to make full option sets.
+ */
+export function buildQuiz(assets: Asset[], count: number = TEST_OUT_QUESTION_COUNT): QuizQuestion[] {
+  const usable = assets.filter(isQuizzable);
+  if (usable.length < OPTION_COUNT) return [];
+
+  // Round-robin over lessons so one big lesson doesn't dominate
+  const byLesson = new Map<string, Asset[]>();
+  shuffle(usable).forEach(asset => {
+    const key = asset.lesson_id || '';
+    if (!byLesson.has(key)) byLesson.set(key, []);
+    byLesson.get(key)!.push(asset);
+  });
+
+  const picked: Asset[] = [];
+  const queues = Array.from(byLesson.values());
+  while (picked.length < count && queues.some(queue => queue.length > 0)) {
+    queues.forEach(queue => {
+      if (picked.length < count && queue.length > 0) picked.push(queue.shift()!);
+    });
+  }
+
+  return picked.map((asset, index) =>
+    buildQuestion(asset, usable, index % 2 === 0 ? 'igbo-to-english' : 'english-to-igbo')
+  );
+}
+
+/**
+ * Percentage of questions answered correctly
+ */
+export function scoreQuiz(questions: QuizQuestion[], answers: Record<number, string>): number {
+  if (questions.length === 0) return 0;
+  const correct = questions.filter((question, index) => answers[index] === question.answer).length;
+  return Math.round((correct / questions.length) * 100);
+}
+
+// An answer as the server grades it (grade_quiz_answers)
+export interface QuizAnswer {
+  asset_id: string;
+  direction: QuizDirection;
+  answer: string;
+}
+
+/**
+ * The answers given, for the server to score; unanswered questions are left out
+ */
+export function toQuizAnswers(questions: QuizQuestion[], answers: Record<number, string>): QuizAnswer[] {
+  return questions
+    .map((question, index) => ({ asset_id: question.assetId, direction: question.direction, answer: answers[index] }))
+    .filter(answer => answer.answer !== undefined);
+}
@@ -1,7 +1,36 @@
 import { openDB, IDBPDatabase } from 'idb';
+import type { CardState } from '@/lib/review-scheduler';
+import type { Asset, Json, Lesson } from '@/types/database';
 
 const DB_NAME = 'asusu-ohafia-offline';
-const DB_VERSION = 1;
+const DB_VERSION = 4;
+
+// Bump when the pack shape changes so older downloads show as outdated
+export const LESSON_PACK_VERSION = 1;
+
+export interface LessonPack {
+  version: number;
+  lesson: Lesson;
+  // Approved assets; audio_url points at the clip bundled in audioCache
+  assets: Asset[];
+  // Newest lessons/assets updated_at at download time, for update detection
+  contentUpdatedAt: string;
+  sizeBytes: number;
+}
+
+// Enough content to practise a word without the network
+export interface OfflineWordContent {
+  igbo: string;
+  english: string;
+  audioUrl: string;
+}
+
+// An asset waiting in a contributor's recording session
+export interface RecordingQueueItem {
+  assetId: string;
+  igbo: string;
+  english: string;
+}
 
 interface OfflineDB {
   attempts: {
@@ -14,8 +43,13 @@ interface OfflineDB {
       mode: 'speak' | 'read' | 'write' | 'listen';
       score: number;
       metadata?: Record<string, unknown>;
+      feedback?: Json;
+      userAudioUrl?: string;
       createdAt: string;
       synced: boolean;
+      // Set when the server rejected the row for good; kept for inspection
+      failed?: boolean;
+      lastError?: string;
     };
     indexes: { 'by-synced': boolean };
   };
@@ -23,7 +57,7 @@ interface OfflineDB {
     key: string;
     value: {
       id: string;
-      data: unknown;
+      data: LessonPack;
       downloadedAt: string;
     };
   };
@@ -35,8 +69,81 @@ interface OfflineDB {
       cachedAt: string;
     };
   };
+  reviewCards: {
+    key: string;
+    value: CardState & {
+      id: string; // `${userId}:${assetId}`
+      userId: string;
+      // Enough content to run a review session without the network
+      content?: OfflineWordContent;
+      synced: boolean;
+      // Rejected by the server for good; kept until retried or reviewed again
+      failed?: boolean;
+      lastError?: string;
+    };
+    indexes: { 'by-user': string };
+  };
+  decks: {
+    key: string;
+    value: {
+      id: string;
+      userId: string;
+      name: string;
+      items: { assetId: string; addedAt: string; content?: OfflineWordContent }[];
+      createdAt: string;
+      updatedAt: string;
+      synced: boolean;
+      // Deleted here but not yet on the server
+      deleted?: boolean;
+      // Rejected by the server for good; kept until retried or edited again
+      failed?: boolean;
+      lastError?: string;
+    };
+    indexes: { 'by-user': string };
+  };
+  recordingSessions: {
+    key: string;
+    value: {
+      id: string; // userId; one session per contributor
+      userId: string;
+      filter: { category: string | null; lessonId: string | null };
+      queue: RecordingQueueItem[];
+      // Index of the asset being recorded; equal to queue.length when done
+      position: number;
+      recordedIds: string[];
+      skippedIds: string[];
+      createdAt: string;
+      updatedAt: string;
+    };
+  };
+  recordingTakes: {
+    key: string;
+    value: {
+      id: string; // `${userId}:${assetId}`
+      userId: string;
+      assetId: string;
+      igbo: string;
+      // Processed WAV, ready to upload
+      blob: Blob;
+      durationSeconds: number;
+      speakerId: string | null;
+      attempts: number;
+      // Gave up retrying; waits for the contributor to retry by hand
+      failed: boolean;
+      lastError?: string;
+      createdAt: string;
+    };
+    indexes: { 'by-user': string };
+  };
 }
 
+export type OfflineAttempt = OfflineDB['attempts']['value'];
+export type OfflineReviewCard = OfflineDB['reviewCards']['value'];
+export type StoredLessonPack = OfflineDB['lessonPacks']['value'];
+export type OfflineDeck = OfflineDB['decks']['value'];
+export type OfflineRecordingSession = OfflineDB['recordingSessions']['value'];
+export type OfflineRecordingTake = OfflineDB['recordingTakes']['value'];
+
 let dbInstance: IDBPDatabase<OfflineDB> | null = null;
 
 export async function getOfflineDB(): Promise<IDBPDatabase<OfflineDB>> {
@@ -59,6 +166,27 @@ export async function getOfflineDB(): Promise<IDBPDatabase<OfflineDB>> {
       if (!db.objectStoreNames.contains('audioCache')) {
         db.createObjectStore('audioCache', { keyPath: 'id' });
       }
+
+      // Spaced-repetition card state per learner and asset
+      if (!db.objectStoreNames.contains('reviewCards')) {
+        const cardStore = db.createObjectStore('reviewCards', { keyPath: 'id' });
+        cardStore.createIndex('by-user', 'userId');
+      }
+
+      // Personal word lists, edited offline and synced later
+      if (!db.objectStoreNames.contains('decks')) {
+        const deckStore = db.createObjectStore('decks', { keyPath: 'id' });
+        deckStore.createIndex('by-user', 'userId');
+      }
+
+      // Batch recording sessions and the takes waiting to upload
+      if (!db.objectStoreNames.contains('recordingSessions')) {
+        db.createObjectStore('recordingSessions', { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains('recordingTakes')) {
+        const takeStore = db.createObjectStore('recordingTakes', { keyPath: 'id' });
+        takeStore.createIndex('by-user', 'userId');
+      }
     },
   });
 
@@ -71,11 +199,48 @@ export async function queueAttempt(attempt: Omit<OfflineDB['attempts']['value'],
   await db.put('attempts', { ...attempt, synced: false });
 }
 
-// Get all unsynced attempts
+// Get all unsynced attempts that are still eligible for upload
 export async function getUnsyncedAttempts() {
   const db = await getOfflineDB();
   const all = await db.getAll('attempts');
-  return all.filter(a => !a.synced);
+  return all.filter(a => !a.synced && !a.failed);
+}
+
+// Get attempts the server rejected permanently
+export async function getFailedAttempts() {
+  const db = await getOfflineDB();
+  const all = await db.getAll('attempts');
+  return all.filter(a => !a.synced && a.failed);
+}
+
+// Park attempts the server will never accept so they stop blocking the queue
+export async function markAttemptsFailed(failures: { id: string; error: string }[]) {
+  const db = await getOfflineDB();
+  const tx = db.transaction('attempts', 'readwrite');
+  for (const { id, error } of failures) {
+    const attempt = await tx.store.get(id);
+    if (attempt) {
+      await tx.store.put({ ...attempt, failed: true, lastError: error });
+    }
+  }
+  await tx.done;
+}
+
+// Put failed attempts, review cards and decks back in the queue for another try
+export async function requeueFailedAttempts() {
+  const db = await getOfflineDB();
+  const [attempts, cards, decks] = await Promise.all([getFailedAttempts(), getFailedReviewCards(), getFailedDecks()]);
+  const tx = db.transaction(['attempts', 'reviewCards', 'decks'], 'readwrite');
+  for (const attempt of attempts) {
+    await tx.objectStore('attempts').put({ ...attempt, failed: false, lastError: undefined });
+  }
+  for (const card of cards) {
+    await tx.objectStore('reviewCards').put({ ...card, failed: false, lastError: undefined });
+  }
+  for (const deck of decks) {
+    await tx.objectStore('decks').put({ ...deck, failed: false, lastError: undefined });
+  }
+  await tx.done;
 }
 
 // Mark attempts as synced
@@ -91,8 +256,185 @@ export async function markAttemptsSynced(ids: string[]) {
   await tx.done;
 }
 
+// Get all review cards for a learner
+export async function getReviewCards(userId: string) {
+  const db = await getOfflineDB();
+  return db.getAllFromIndex('reviewCards', 'by-user', userId);
+}
+
+// Save review card state; unsynced cards are pushed with the attempt queue
+export async function saveReviewCards(cards: OfflineReviewCard[]) {
+  const db = await getOfflineDB();
+  const tx = db.transaction('reviewCards', 'readwrite');
+  for (const card of cards) {
+    await tx.store.put(card);
+  }
+  await tx.done;
+}
+
+// Get review cards that haven't reached the server yet and can still be uploaded
+export async function getUnsyncedReviewCards() {
+  const db = await getOfflineDB();
+  const all = await db.getAll('reviewCards');
+  return all.filter(c => !c.synced && !c.failed);
+}
+
+// Get review cards the server rejected permanently
+export async function getFailedReviewCards() {
+  const db = await getOfflineDB();
+  const all = await db.getAll('reviewCards');
+  return all.filter(c => !c.synced && c.failed);
+}
+
+type UploadedReviewCard = Pick<OfflineReviewCard, 'id' | 'lastReviewedAt' | 'dueAt'>;
+
+// Whether the stored card is still the state that was uploaded
+function isSameReview(stored: OfflineReviewCard, uploaded: UploadedReviewCard) {
+  return stored.lastReviewedAt === uploaded.lastReviewedAt && stored.dueAt === uploaded.dueAt;
+}
+
+// Park review cards the server will never accept so they stop being resent,
+// unless they were reviewed again while the upload ran
+export async function markReviewCardsFailed(cards: UploadedReviewCard[], error: string) {
+  const db = await getOfflineDB();
+  const tx = db.transaction('reviewCards', 'readwrite');
+  for (const uploaded of cards) {
+    const card = await tx.store.get(uploaded.id);
+    if (card && !card.synced && isSameReview(card, uploaded)) {
+      await tx.store.put({ ...card, failed: true, lastError: error });
+    }
+  }
+  await tx.done;
+}
+
+// Mark review cards as synced, unless they were reviewed again while the upload ran
+export async function markReviewCardsSynced(cards: UploadedReviewCard[]) {
+  const db = await getOfflineDB();
+  const tx = db.transaction('reviewCards', 'readwrite');
+  for (const uploaded of cards) {
+    const card = await tx.store.get(uploaded.id);
+    if (card && isSameReview(card, uploaded)) {
+      await tx.store.put({ ...card, synced: true });
+    }
+  }
+  await tx.done;
+}
+
+// Get all decks for a learner, including ones waiting to be deleted
+export async function getDecks(userId: string): Promise<OfflineDeck[]> {
+  const db = await getOfflineDB();
+  return db.getAllFromIndex('decks', 'by-user', userId);
+}
+
+// Get a single deck
+export async function getDeck(id: string): Promise<OfflineDeck | undefined> {
+  const db = await getOfflineDB();
+  return db.get('decks', id);
+}
+
+// Save deck state; unsynced decks are pushed with the attempt queue
+export async function saveDecks(decks: OfflineDeck[]) {
+  const db = await getOfflineDB();
+  const tx = db.transaction('decks', 'readwrite');
+  for (const deck of decks) {
+    await tx.store.put(deck);
+  }
+  await tx.done;
+}
+
+// Remove decks from the device for good
+export async function removeDecks(ids: string[]) {
+  const db = await getOfflineDB();
+  const tx = db.transaction('decks', 'readwrite');
+  for (const id of ids) {
+    await tx.store.delete(id);
+  }
+  await tx.done;
+}
+
+// Get decks with changes that haven't reached the server yet and can still be uploaded
+export async function getUnsyncedDecks(): Promise<OfflineDeck[]> {
+  const db = await getOfflineDB();
+  const all = await db.getAll('decks');
+  return all.filter(d => !d.synced && !d.failed);
+}
+
+// Get decks whose changes the server rejected permanently
+export async function getFailedDecks(): Promise<OfflineDeck[]> {
+  const db = await getOfflineDB();
+  const all = await db.getAll('decks');
+  return all.filter(d => !d.synced && d.failed);
+}
+
+// Park a deck the server will never accept, unless it was edited again while the upload ran
+export async function markDeckFailed(id: string, updatedAt: string, error: string) {
+  const db = await getOfflineDB();
+  const tx = db.transaction('decks', 'readwrite');
+  const deck = await tx.store.get(id);
+  if (deck && deck.updatedAt === updatedAt) {
+    await tx.store.put({ ...deck, failed: true, lastError: error });
+  }
+  await tx.done;
+}
+
+// Mark a deck as synced, unless it was edited again while the upload ran
+export async function markDeckSynced(id: string, updatedAt: string) {
+  const db = await getOfflineDB();
+  const tx = db.transaction('decks', 'readwrite');
+  const deck = await tx.store.get(id);
+  if (deck && deck.updatedAt === updatedAt) {
+    if (deck.deleted) {
+      await tx.store.delete(id);
+    } else {
+      await tx.store.put({ ...deck, synced: true });
+    }
+  }
+  await tx.done;
+}
+
+// Get a contributor's unfinished recording session
+export async function getRecordingSession(userId: string): Promise<OfflineRecordingSession | undefined> {
+  const db = await getOfflineDB();
+  return db.get('recordingSessions', userId);
+}
+
+// Save recording session progress
+export async function saveRecordingSession(session: OfflineRecordingSession) {
+  const db = await getOfflineDB();
+  await db.put('recordingSessions', session);
+}
+
+// Forget a recording session; its takes stay queued until they upload
+export async function deleteRecordingSession(userId: string) {
+  const db = await getOfflineDB();
+  await db.delete('recordingSessions', userId);
+}
+
+// Get a contributor's takes that haven't uploaded yet
+export async function getRecordingTakes(userId: string): Promise<OfflineRecordingTake[]> {
+  const db = await getOfflineDB();
+  return db.getAllFromIndex('recordingTakes', 'by-user', userId);
+}
+
+// Queue a take for upload, replacing any earlier take of the same asset
+export async function saveRecordingTake(take: OfflineRecordingTake) {
+  const db = await getOfflineDB();
+  await db.put('recordingTakes', take);
+}
+
+// Remove an uploaded take, unless it was re-recorded while the upload ran
+export async function removeRecordingTake(id: string, createdAt: string) {
+  const db = await getOfflineDB();
+  const tx = db.transaction('recordingTakes', 'readwrite');
+  const take = await tx.store.get(id);
+  if (take && take.createdAt === createdAt) {
+    await tx.store.delete(id);
+  }
+  await tx.done;
+}
+
 // Save lesson pack for offline use
-export async function saveLessonPack(id: string, data: unknown) {
+export async function saveLessonPack(id: string, data: LessonPack) {
   const db = await getOfflineDB();
   await db.put('lessonPacks', {
     id,
@@ -107,6 +449,45 @@ export async function getLessonPack(id: string) {
   return db.get('lessonPacks', id);
 }
 
+// Get every downloaded lesson pack
+export async function getAllLessonPacks() {
+  const db = await getOfflineDB();
+  return db.getAll('lessonPacks');
+}
+
+// Delete a lesson pack together with its bundled audio
+export async function deleteLessonPack(id: string) {
+  const db = await getOfflineDB();
+  const pack = await db.get('lessonPacks', id);
+  const tx = db.transaction(['lessonPacks', 'audioCache'], 'readwrite');
+  for (const asset of pack?.data.assets || []) {
+    await tx.objectStore('audioCache').delete(asset.id);
+  }
+  await tx.objectStore('lessonPacks').delete(id);
+  await tx.done;
+}
+
+// Load a pack for playback, pointing each asset at its cached audio blob.
+// Pass the assets to releasePackAudio once they're no longer shown.
+export async function openLessonPack(id: string): Promise<LessonPack | undefined> {
+  const stored = await getLessonPack(id);
+  if (!stored) return undefined;
+
+  const assets = await Promise.all(stored.data.assets.map(async (asset: Asset) => {
+    const blob = await getCachedAudio(asset.id);
+    return blob ? { ...asset, audio_url: URL.createObjectURL(blob) } : asset;
+  }));
+
+  return { ...stored.data, assets };
+}
+
+// Free the blob URLs openLessonPack created; other URLs are left alone
+export function releasePackAudio(assets: { audio_url: string | null }[]) {
+  assets.forEach(asset => {
+    if (asset.audio_url?.startsWith('blob:')) URL.revokeObjectURL(asset.audio_url);
+  });
+}
+
 // Cache audio for offline playback
 export async function cacheAudio(id: string, blob: Blob) {
   const db = await getOfflineDB();
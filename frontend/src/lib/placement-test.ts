@@ -0,0 +1,158 @@
+// Adaptive placement test
+// Starts at the easiest level and climbs while the learner keeps answering
+// correctly. A level is passed after two right answers at two-thirds
+// accuracy, and failed after two misses; the test stops at the first failed
+// level (or the top one) and places the learner at the level just above the
+// highest one passed; lessons below that level count as tested out.
+// Items alternate between listening (audio only) and recognition (written
+// Igbo), both answered by picking the English meaning.
+
+import type { Asset, ProficiencyLevel } from '@/types/database';
+import { DIFFICULTY_ORDER } from '@/lib/lesson-graph';
+import { buildQuestion, isQuizzable, OPTION_COUNT, type QuizAnswer, type QuizQuestion } from '@/lib/lesson-quiz';
+
+export type PlacementMode = 'listening' | 'recognition';
+
+export interface PlacementItem {
+  asset: Asset;
+  level: ProficiencyLevel;
+  mode: PlacementMode;
+  question: QuizQuestion;
+}
+
+export interface PlacementAnswer {
+  assetId: string;
+  level: ProficiencyLevel;
+  mode: PlacementMode;
+  answer: string; // option picked, graded again by apply_placement()
+  correct: boolean;
+}
+
+export interface PlacementState {
+  assetsByLevel: Partial<Record<ProficiencyLevel, Asset[]>>;
+  levels: ProficiencyLevel[]; // levels with enough items to test, easiest first
+  levelIndex: number;
+  answers: PlacementAnswer[];
+  passedLevels: ProficiencyLevel[];
+  finished: boolean;
+}
+
+const PASS_CORRECT = 2;
+const PASS_ACCURACY = 2 / 3;
+const FAIL_INCORRECT = 2;
+const MIN_ITEMS_PER_LEVEL = 3;
+export const PLACEMENT_MAX_ITEMS = 15;
+
+function levelStats(answers: PlacementAnswer[], level: ProficiencyLevel) {
+  const atLevel = answers.filter(a => a.level === level);
+  const correct = atLevel.filter(a => a.correct).length;
+  return { answered: atLevel.length, correct, incorrect: atLevel.length - correct };
+}
+
+/**
+ * Set up a test from approved assets across difficulty levels
+ */
+export function createPlacementTest(assets: Asset[]): PlacementState {
+  const assetsByLevel: Partial<Record<ProficiencyLevel, Asset[]>> = {};
+  assets.filter(isQuizzable).forEach(asset => {
+    const level = asset.difficulty || 'beginner';
+    (assetsByLevel[level] ||= []).push(asset);
+  });
+
+  const levels = DIFFICULTY_ORDER.filter(level => (assetsByLevel[level]?.length || 0) >= MIN_ITEMS_PER_LEVEL);
+  const total = levels.reduce((sum, level) => sum + (assetsByLevel[level]?.length || 0), 0);
+
+  return {
+    assetsByLevel,
+    levels,
+    levelIndex: 0,
+    answers: [],
+    passedLevels: [],
+    // Too little content to place anyone; they start at the beginning
+    finished: levels.length === 0 || total < OPTION_COUNT,
+  };
+}
+
+/**
+ * The next item to ask, or null once the test is over.
+ * Listening items need recorded audio unless text-to-speech can read it.
+ */
+export function nextPlacementItem(state: PlacementState, canSpeak: boolean): PlacementItem | null {
+  if (state.finished) return null;
+
+  const level = state.levels[state.levelIndex];
+  const asked = new Set(state.answers.map(a => a.assetId));
+  const candidates = (state.assetsByLevel[level] || []).filter(a => !asked.has(a.id));
+  if (candidates.length === 0) return null;
+
+  const wantListening = state.answers.length % 2 === 0;
+  const hasAudio = (a: Asset) => !!a.audio_url || canSpeak;
+  const withAudio = candidates.filter(hasAudio);
+  const choices = wantListening && withAudio.length > 0 ? withAudio : candidates;
+  const pick = choices[Math.floor(Math.random() * choices.length)];
+
+  // Wrong answers come from the same level so options look alike
+  const pool = Object.values(state.assetsByLevel).flat() as Asset[];
+  const levelPool = state.assetsByLevel[level] || [];
+
+  return {
+    asset: pick,
+    level,
+    mode: wantListening && hasAudio(pick) ? 'listening' : 'recognition',
+    question: buildQuestion(pick, levelPool.length >= OPTION_COUNT ? levelPool : pool, 'igbo-to-english'),
+  };
+}
+
+/**
+ * Record an answer and decide whether to stay, climb or stop
+ */
+export function answerPlacementItem(state: PlacementState, item: PlacementItem, answer: string): PlacementState {
+  const correct = answer === item.question.answer;
+  const answers = [...state.answers, { assetId: item.asset.id, level: item.level, mode: item.mode, answer, correct }];
+  const next: PlacementState = { ...state, answers };
+  const stats = levelStats(answers, item.level);
+  const remaining = (state.assetsByLevel[item.level]?.length || 0) - stats.answered;
+
+  const passed = stats.correct >= PASS_CORRECT && stats.correct / stats.answered >= PASS_ACCURACY;
+  const failed = stats.incorrect >= FAIL_INCORRECT || (remaining === 0 && !passed);
+
+  if (passed) {
+    next.passedLevels = [...state.passedLevels, item.level];
+    if (state.levelIndex >= state.levels.length - 1) {
+      next.finished = true;
+    } else {
+      next.levelIndex = state.levelIndex + 1;
+    }
+  } else if (failed) {
+    next.finished = true;
+  }
+
+  if (answers.length >= PLACEMENT_MAX_ITEMS) next.finished = true;
+  return next;
+}
+
+/**
+ * The level to study next: the one after the highest level passed
+ */
+export function getPlacedLevel(state: PlacementState): ProficiencyLevel {
+  const highest = state.passedLevels[state.passedLevels.length - 1];
+  if (!highest) return 'beginner';
+  const index = DIFFICULTY_ORDER.indexOf(highest);
+  return DIFFICULTY_ORDER[Math.min(index + 1, DIFFICULTY_ORDER.length - 1)];
+}
+
+/**
+ * The answers given, for the server to grade; every item asks for the
+ * English meaning
+ */
+export function getPlacementAnswers(state: PlacementState): QuizAnswer[] {
+  return state.answers.map(answer => ({ asset_id: answer.assetId, direction: 'igbo-to-english', answer: answer.answer }));
+}
+
+/**
+ * Percentage of placement items answered correctly
+ */
+export function getPlacementScore(state: PlacementState): number {
+  if (state.answers.length === 0) return 0;
+  return Math.round((state.answers.filter(a => a.correct).length / state.answers.length) * 100);
+}
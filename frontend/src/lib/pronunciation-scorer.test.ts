@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { scorePronunciation, syllabify } from '@/lib/pronunciation-scorer';
+
+const SAMPLE_RATE = 16000;
+
+// Clips are passed around as raw 16kHz samples; the stubbed decoder below
+// reads them back instead of decoding a real file
+const clips = new Map<string, Float32Array>();
+
+function toBlob(samples: Float32Array): Blob {
+  return new Blob([samples.slice().buffer]);
+}
+
+// Harmonic weights for a dark, back-vowel-like and a bright, front-vowel-like
+// syllable; the scorer normalises away anything constant across the clip, so a
+// word needs its spectrum to change between syllables to be recognisable
+const DARK = [1, 0.8, 0.6, 0.1, 0.05];
+const BRIGHT = [0.1, 0.05, 0.05, 0.2, 0.4, 0.8, 1, 0.8, 0.6, 0.4, 0.3, 0.3, 0.3, 0.3, 0.3];
+
+function voicedSyllable(pitchHz: number, harmonics: number[], seconds = 0.4): Float32Array {
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / SAMPLE_RATE;
+    const envelope = Math.sin((i / samples.length) * Math.PI);
+    let value = 0;
+    harmonics.forEach((weight, h) => {
+      value += weight * Math.sin(2 * Math.PI * pitchHz * (h + 1) * t);
+    });
+    samples[i] = 0.3 * envelope * value;
+  }
+  return samples;
+}
+
+function concat(...parts: Float32Array[]): Float32Array {
+  const samples = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    samples.set(part, offset);
+    offset += part.length;
+  }
+  return samples;
+}
+
+function voicedWord(pitchHz = 140, syllableSeconds = 0.4): Float32Array {
+  return concat(voicedSyllable(pitchHz, DARK, syllableSeconds), voicedSyllable(pitchHz, BRIGHT, syllableSeconds));
+}
+
+// Deterministic white noise
+function noise(seconds = 0.8): Float32Array {
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  let seed = 42;
+  for (let i = 0; i < samples.length; i++) {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    samples[i] = 0.5 * (seed / 2147483648 - 0.5);
+  }
+  return samples;
+}
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', async (url: string) => ({
+    arrayBuffer: async () => clips.get(url)!.slice().buffer,
+  }));
+  vi.stubGlobal('OfflineAudioContext', class {
+    async decodeAudioData(data: ArrayBuffer) {
+      const samples = new Float32Array(data);
+      return { length: samples.length, numberOfChannels: 1, getChannelData: () => samples };
+    }
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  clips.clear();
+});
+
+describe('scorePronunciation', () => {
+  it('scores a recording identical to the reference close to 100', async () => {
+    const word = voicedWord();
+    clips.set('ref-identical', word);
+
+    const feedback = await scorePronunciation({ recording: toBlob(word), referenceUrl: 'ref-identical', text: 'nna' });
+
+    expect(feedback.spectralScore).toBeGreaterThanOrEqual(95);
+    expect(feedback.score).toBeGreaterThanOrEqual(95);
+    expect(feedback.toneScore).not.toBeNull();
+  });
+
+  it('still recognises the word said more slowly', async () => {
+    clips.set('ref-slow', voicedWord());
+
+    const feedback = await scorePronunciation({ recording: toBlob(voicedWord(140, 0.6)), referenceUrl: 'ref-slow', text: 'nna' });
+
+    expect(feedback.score).toBeGreaterThanOrEqual(80);
+  });
+
+  it('scores a different word or unrelated sound low', async () => {
+    clips.set('ref-unrelated', voicedWord());
+    const swapped = concat(voicedSyllable(140, BRIGHT), voicedSyllable(140, DARK));
+
+    for (const recording of [swapped, noise()]) {
+      const feedback = await scorePronunciation({ recording: toBlob(recording), referenceUrl: 'ref-unrelated', text: 'nna' });
+      expect(feedback.score).toBeLessThan(40);
+    }
+  });
+
+  it('rejects a silent recording', async () => {
+    clips.set('ref-silence', voicedWord());
+
+    await expect(
+      scorePronunciation({ recording: toBlob(new Float32Array(SAMPLE_RATE)), referenceUrl: 'ref-silence', text: 'nna' })
+    ).rejects.toThrow('No speech detected in your recording');
+  });
+
+  it('gives feedback for every syllable, in order', async () => {
+    const word = voicedWord();
+    clips.set('ref-syllables', word);
+
+    const feedback = await scorePronunciation({ recording: toBlob(word), referenceUrl: 'ref-syllables', text: 'akwụkwọ' });
+
+    expect(feedback.syllables.map(s => s.text)).toEqual(['a', 'kwụ', 'kwọ']);
+    feedback.syllables.forEach((syllable, i) => {
+      expect(syllable.referenceEnd).toBeGreaterThan(syllable.referenceStart);
+      if (i > 0) expect(syllable.referenceStart).toBe(feedback.syllables[i - 1].referenceEnd);
+    });
+  });
+});
+
+describe('syllabify', () => {
+  it('splits open syllables', () => {
+    expect(syllabify('nwanne')).toEqual(['nwa', 'n', 'ne']);
+    expect(syllabify('akwụkwọ')).toEqual(['a', 'kwụ', 'kwọ']);
+  });
+
+  it('treats m and n before a consonant or at the end as syllabic', () => {
+    expect(syllabify('mmiri')).toEqual(['m', 'mi', 'ri']);
+    expect(syllabify('ndị')).toEqual(['n', 'dị']);
+  });
+
+  it('ignores tone marks and case but keeps dotted letters', () => {
+    expect(syllabify('Ákwà')).toEqual(syllabify('akwa'));
+    expect(syllabify('ọ́ma')).toEqual(['ọ', 'ma']);
+  });
+
+  it('splits across words and drops punctuation', () => {
+    expect(syllabify('Kedụ, nna!')).toEqual(['ke', 'dụ', 'n', 'na']);
+  });
+});
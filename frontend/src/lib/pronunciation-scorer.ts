@@ -0,0 +1,554 @@
+// In-browser pronunciation scoring for speak mode
+// Compares a learner recording with an approved reference clip using
+// MFCC features aligned by dynamic time warping (DTW), plus an
+// autocorrelation pitch track for tone-contour feedback. No cloud service.
+
+import type { Json } from '@/types/database';
+
+const SAMPLE_RATE = 16000;
+const FRAME_SIZE = 400; // 25ms
+const HOP_SIZE = 160; // 10ms
+const FFT_SIZE = 512;
+const NUM_MEL_FILTERS = 26;
+const NUM_CEPSTRA = 13;
+const MIN_PITCH_HZ = 80;
+const MAX_PITCH_HZ = 400;
+const CONTOUR_POINTS = 50;
+
+// DTW distance → score mapping, tuned so a native repeat lands in the 80s
+// and a different word lands below 30
+const DISTANCE_MIDPOINT = 12;
+const DISTANCE_SLOPE = 2.5;
+
+export type ToneLevel = 'high' | 'mid' | 'low';
+
+// Type aliases rather than interfaces so feedback is assignable to Json
+export type SyllableFeedback = {
+  text: string;
+  score: number;
+  referenceTone: ToneLevel | null;
+  learnerTone: ToneLevel | null;
+  toneMatch: boolean | null;
+  referenceStart: number; // seconds
+  referenceEnd: number;
+  learnerStart: number;
+  learnerEnd: number;
+};
+
+export type PronunciationFeedback = {
+  version: 1;
+  score: number; // 0-100 overall
+  spectralScore: number; // 0-100, how close the sounds are
+  toneScore: number | null; // 0-100, null when too little voicing to compare
+  syllables: SyllableFeedback[];
+  contour: {
+    reference: (number | null)[]; // semitones relative to speaker median
+    learner: (number | null)[];
+  };
+  referenceUrl: string;
+};
+
+interface AudioFeatures {
+  mfcc: Float32Array[];
+  energy: Float32Array;
+  pitch: (number | null)[]; // semitones relative to speaker median
+}
+
+// ============================================
+// AUDIO DECODING
+// ============================================
+
+/**
+ * Decode a blob or URL to mono PCM at 16kHz
+ */
+export async function decodeToMono(source: Blob | string): Promise<Float32Array> {
+  const data = typeof source === 'string'
+    ? await (await fetch(source)).arrayBuffer()
+    : await source.arrayBuffer();
+
+  // decodeAudioData resamples to the context's rate
+  const context = new OfflineAudioContext(1, 1, SAMPLE_RATE);
+  const buffer = await context.decodeAudioData(data);
+
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const samples = buffer.getChannelData(channel);
+    for (let i = 0; i < samples.length; i++) {
+      mono[i] += samples[i] / buffer.numberOfChannels;
+    }
+  }
+  return mono;
+}
+
+/**
+ * Drop leading and trailing silence using frame energy
+ */
+function trimSilence(samples: Float32Array): Float32Array {
+  const frameCount = Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1;
+  if (frameCount <= 0) return samples;
+
+  const rms = new Float32Array(frameCount);
+  let peak = 0;
+  for (let f = 0; f < frameCount; f++) {
+    let sum = 0;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      const s = samples[f * HOP_SIZE + i];
+      sum += s * s;
+    }
+    rms[f] = Math.sqrt(sum / FRAME_SIZE);
+    peak = Math.max(peak, rms[f]);
+  }
+
+  const threshold = Math.max(peak * 0.05, 0.005);
+  let first = 0;
+  while (first < frameCount && rms[first] < threshold) first++;
+  let last = frameCount - 1;
+  while (last > first && rms[last] < threshold) last--;
+  if (first >= frameCount) return new Float32Array(0);
+
+  // Keep a little padding so plosive onsets aren't clipped
+  const start = Math.max(0, (first - 3) * HOP_SIZE);
+  const end = Math.min(samples.length, (last + 3) * HOP_SIZE + FRAME_SIZE);
+  return samples.slice(start, end);
+}
+
+// ============================================
+// FEATURE EXTRACTION
+// ============================================
+
+function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tre = re[b] * cos - im[b] * sin;
+        const tim = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tre;
+        im[b] = im[a] - tim;
+        re[a] += tre;
+        im[a] += tim;
+      }
+    }
+  }
+}
+
+let melFilterbank: Float32Array[] | null = null;
+
+function getMelFilterbank(): Float32Array[] {
+  if (melFilterbank) return melFilterbank;
+
+  const toMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+  const fromMel = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+  const bins = FFT_SIZE / 2 + 1;
+  const maxMel = toMel(SAMPLE_RATE / 2);
+  const points = Array.from({ length: NUM_MEL_FILTERS + 2 }, (_, i) =>
+    Math.floor(((FFT_SIZE + 1) * fromMel((maxMel * i) / (NUM_MEL_FILTERS + 1))) / SAMPLE_RATE)
+  );
+
+  melFilterbank = Array.from({ length: NUM_MEL_FILTERS }, (_, m) => {
+    const filter = new Float32Array(bins);
+    const [left, center, right] = [points[m], points[m + 1], points[m + 2]];
+    for (let k = left; k < center; k++) filter[k] = (k - left) / Math.max(1, center - left);
+    for (let k = center; k < right; k++) filter[k] = (right - k) / Math.max(1, right - center);
+    return filter;
+  });
+  return melFilterbank;
+}
+
+function extractFeatures(samples: Float32Array): AudioFeatures {
+  const frameCount = Math.max(0, Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1);
+  const filters = getMelFilterbank();
+  const mfcc: Float32Array[] = [];
+  const energy = new Float32Array(frameCount);
+  const rawPitch: (number | null)[] = [];
+
+  // Pre-emphasis boosts the high frequencies that carry consonant detail
+  const emphasized = new Float32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    emphasized[i] = samples[i] - 0.97 * (i > 0 ? samples[i - 1] : 0);
+  }
+
+  let peakEnergy = 0;
+  for (let f = 0; f < frameCount; f++) {
+    const offset = f * HOP_SIZE;
+    const re = new Float64Array(FFT_SIZE);
+    const im = new Float64Array(FFT_SIZE);
+    let sum = 0;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      const hamming = 0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1));
+      re[i] = emphasized[offset + i] * hamming;
+      sum += samples[offset + i] ** 2;
+    }
+    energy[f] = Math.sqrt(sum / FRAME_SIZE);
+    peakEnergy = Math.max(peakEnergy, energy[f]);
+
+    fft(re, im);
+    const logMel = filters.map(filter => {
+      let e = 0;
+      for (let k = 0; k < filter.length; k++) {
+        if (filter[k] > 0) e += filter[k] * (re[k] * re[k] + im[k] * im[k]);
+      }
+      return Math.log(Math.max(e, 1e-10));
+    });
+
+    // DCT-II of log mel energies
+    const cepstra = new Float32Array(NUM_CEPSTRA);
+    for (let c = 0; c < NUM_CEPSTRA; c++) {
+      let value = 0;
+      for (let m = 0; m < NUM_MEL_FILTERS; m++) {
+        value += logMel[m] * Math.cos((Math.PI * c * (m + 0.5)) / NUM_MEL_FILTERS);
+      }
+      cepstra[c] = value;
+    }
+    mfcc.push(cepstra);
+    rawPitch.push(estimatePitch(samples, offset));
+  }
+
+  // Cepstral mean normalization removes microphone/channel colouring
+  const mean = new Float32Array(NUM_CEPSTRA);
+  mfcc.forEach(frame => frame.forEach((v, c) => { mean[c] += v / Math.max(1, mfcc.length); }));
+  mfcc.forEach(frame => frame.forEach((_, c) => { frame[c] -= mean[c]; }));
+
+  // Pitch on quiet frames is mostly noise
+  const voiced = rawPitch.map((hz, f) => (hz !== null && energy[f] > peakEnergy * 0.1 ? hz : null));
+  return { mfcc, energy, pitch: toSemitones(voiced) };
+}
+
+function estimatePitch(samples: Float32Array, offset: number): number | null {
+  const minLag = Math.floor(SAMPLE_RATE / MAX_PITCH_HZ);
+  const maxLag = Math.floor(SAMPLE_RATE / MIN_PITCH_HZ);
+  const length = FRAME_SIZE;
+  if (offset + length + maxLag > samples.length) return null;
+
+  let bestLag = 0;
+  let bestCorr = 0;
+  const correlations = new Float32Array(maxLag + 2);
+  for (let lag = minLag; lag <= maxLag + 1; lag++) {
+    let xy = 0;
+    let xx = 0;
+    let yy = 0;
+    for (let i = 0; i < length; i++) {
+      const x = samples[offset + i];
+      const y = samples[offset + i + lag];
+      xy += x * y;
+      xx += x * x;
+      yy += y * y;
+    }
+    const corr = xx > 0 && yy > 0 ? xy / Math.sqrt(xx * yy) : 0;
+    correlations[lag] = corr;
+    if (lag <= maxLag && corr > bestCorr) {
+      bestCorr = corr;
+      bestLag = lag;
+    }
+  }
+  if (bestCorr < 0.5 || bestLag === 0) return null;
+
+  // Parabolic interpolation around the peak for sub-sample accuracy
+  const [a, b, c] = [correlations[bestLag - 1], correlations[bestLag], correlations[bestLag + 1]];
+  const denominator = a - 2 * b + c;
+  const shift = denominator !== 0 ? (0.5 * (a - c)) / denominator : 0;
+  return SAMPLE_RATE / (bestLag + shift);
+}
+
+// Express pitch relative to the speaker's own median so voices of
+// different register (child, elder) can be compared
+function toSemitones(pitch: (number | null)[]): (number | null)[] {
+  const voiced = pitch.filter((hz): hz is number => hz !== null).sort((a, b) => a - b);
+  if (voiced.length === 0) return pitch.map(() => null);
+  const median = voiced[Math.floor(voiced.length / 2)];
+  return pitch.map(hz => (hz === null ? null : 12 * Math.log2(hz / median)));
+}
+
+// ============================================
+// ALIGNMENT
+// ============================================
+
+function frameDistance(a: Float32Array, b: Float32Array): number {
+  // Skip c0 (overall loudness)
+  let sum = 0;
+  for (let c = 1; c < NUM_CEPSTRA; c++) {
+    const d = a[c] - b[c];
+    sum += d * d;
+  }
+  return Math.sqrt(sum);
+}
+
+interface Alignment {
+  path: [number, number][]; // [reference frame, learner frame]
+  costs: number[]; // local distance at each path step
+  distance: number; // mean local distance along the path
+}
+
+function alignDtw(reference: Float32Array[], learner: Float32Array[]): Alignment {
+  const n = reference.length;
+  const m = learner.length;
+  const cost = new Float32Array(n * m).fill(Infinity);
+  const local = new Float32Array(n * m);
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < m; j++) {
+      const d = frameDistance(reference[i], learner[j]);
+      local[i * m + j] = d;
+      if (i === 0 && j === 0) {
+        cost[0] = d;
+        continue;
+      }
+      const up = i > 0 ? cost[(i - 1) * m + j] : Infinity;
+      const left = j > 0 ? cost[i * m + j - 1] : Infinity;
+      const diagonal = i > 0 && j > 0 ? cost[(i - 1) * m + j - 1] : Infinity;
+      cost[i * m + j] = d + Math.min(up, left, diagonal);
+    }
+  }
+
+  // Backtrack from the end
+  const path: [number, number][] = [];
+  let i = n - 1;
+  let j = m - 1;
+  while (i > 0 || j > 0) {
+    path.push([i, j]);
+    if (i === 0) j--;
+    else if (j === 0) i--;
+    else {
+      const diagonal = cost[(i - 1) * m + j - 1];
+      const up = cost[(i - 1) * m + j];
+      const left = cost[i * m + j - 1];
+      if (diagonal <= up && diagonal <= left) { i--; j--; }
+      else if (up <= left) i--;
+      else j--;
+    }
+  }
+  path.push([0, 0]);
+  path.reverse();
+
+  const costs = path.map(([pi, pj]) => local[pi * m + pj]);
+  const distance = costs.reduce((sum, c) => sum + c, 0) / Math.max(1, costs.length);
+  return { path, costs, distance };
+}
+
+function distanceToScore(distance: number): number {
+  return Math.round(100 / (1 + Math.exp((distance - DISTANCE_MIDPOINT) / DISTANCE_SLOPE)));
+}
+
+// ============================================
+// SYLLABLES & TONE
+// ============================================
+
+const VOWELS = 'aeiouịọụ';
+
+/**
+ * Split Igbo text into syllables: (C)(w|y)V or a syllabic nasal.
+ * Tone marks are stripped; dotted vowels and ṅ are kept.
+ */
+export function syllabify(text: string): string[] {
+  const plain = text
+    .normalize('NFD')
+    .replace(/[\u0300\u0301\u0304]/g, '')
+    .normalize('NFC')
+    .toLowerCase();
+
+  const syllables: string[] = [];
+  plain.split(/[^a-zịọụṅ]+/).filter(Boolean).forEach(word => {
+    let current = '';
+    for (let i = 0; i < word.length; i++) {
+      const char = word[i];
+      const next = word[i + 1];
+      if (VOWELS.includes(char)) {
+        syllables.push(current + char);
+        current = '';
+      } else if ((char === 'm' || char === 'n' || char === 'ṅ') && current === '' && (!next || !VOWELS.includes(next)) && next !== 'w' && next !== 'y') {
+        // Syllabic nasal: m/n before a consonant or at the end of a word
+        syllables.push(char);
+      } else {
+        current += char;
+      }
+    }
+    if (current && syllables.length > 0) {
+      syllables[syllables.length - 1] += current;
+    }
+  });
+  return syllables;
+}
+
+function evenSegments(frames: number, count: number): [number, number][] {
+  return Array.from({ length: count }, (_, k) => [
+    Math.floor((k * frames) / count),
+    Math.floor(((k + 1) * frames) / count),
+  ]);
+}
+
+// Split the reference into syllable-sized chunks at the deepest energy dips
+function segmentByEnergy(energy: Float32Array, count: number): [number, number][] {
+  const frames = energy.length;
+  if (count <= 1 || frames < count * 4) {
+    return evenSegments(frames, Math.max(1, count));
+  }
+
+  const smoothed = energy.map((_, i) => {
+    let sum = 0;
+    let n = 0;
+    for (let k = Math.max(0, i - 2); k <= Math.min(frames - 1, i + 2); k++) {
+      sum += energy[k];
+      n++;
+    }
+    return sum / n;
+  });
+
+  const minima: number[] = [];
+  for (let i = 3; i < frames - 3; i++) {
+    if (smoothed[i] <= smoothed[i - 1] && smoothed[i] < smoothed[i + 1]) minima.push(i);
+  }
+
+  const boundaries: number[] = [];
+  minima
+    .sort((a, b) => smoothed[a] - smoothed[b])
+    .forEach(index => {
+      if (boundaries.length < count - 1 && boundaries.every(b => Math.abs(b - index) >= 4)) {
+        boundaries.push(index);
+      }
+    });
+
+  // Not enough dips (e.g. a long vowel run): fall back to even spacing
+  if (boundaries.length < count - 1) {
+    return evenSegments(frames, count);
+  }
+
+  const edges = [0, ...boundaries.sort((a, b) => a - b), frames];
+  return edges.slice(0, -1).map((start, k) => [start, edges[k + 1]] as [number, number]);
+}
+
+function meanOf(values: (number | null)[]): number | null {
+  const defined = values.filter((v): v is number => v !== null);
+  if (defined.length === 0) return null;
+  return defined.reduce((sum, v) => sum + v, 0) / defined.length;
+}
+
+function toneLevel(semitones: number | null): ToneLevel | null {
+  if (semitones === null) return null;
+  if (semitones > 1.5) return 'high';
+  if (semitones < -1.5) return 'low';
+  return 'mid';
+}
+
+function resampleContour(contour: (number | null)[]): (number | null)[] {
+  if (contour.length === 0) return [];
+  return Array.from({ length: CONTOUR_POINTS }, (_, k) => {
+    const value = contour[Math.floor((k * contour.length) / CONTOUR_POINTS)];
+    return value === null ? null : Math.round(value * 10) / 10;
+  });
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+const referenceCache = new Map<string, AudioFeatures>();
+
+async function getReferenceFeatures(url: string): Promise<AudioFeatures> {
+  const cached = referenceCache.get(url);
+  if (cached) return cached;
+  const features = extractFeatures(trimSilence(await decodeToMono(url)));
+  referenceCache.set(url, features);
+  return features;
+}
+
+/**
+ * Score a learner recording against an approved reference clip
+ */
+export async function scorePronunciation(options: {
+  recording: Blob;
+  referenceUrl: string;
+  text: string;
+}): Promise<PronunciationFeedback> {
+  const { recording, referenceUrl, text } = options;
+
+  const reference = await getReferenceFeatures(referenceUrl);
+  const learner = extractFeatures(trimSilence(await decodeToMono(recording)));
+
+  if (learner.mfcc.length < 5) {
+    throw new Error('No speech detected in your recording');
+  }
+  if (reference.mfcc.length < 5) {
+    throw new Error('Reference audio could not be analysed');
+  }
+
+  const alignment = alignDtw(reference.mfcc, learner.mfcc);
+  const spectralScore = distanceToScore(alignment.distance);
+
+  // Tone: compare aligned pitch where both speakers are voiced
+  const pitchDiffs: number[] = [];
+  alignment.path.forEach(([i, j]) => {
+    const r = reference.pitch[i];
+    const l = learner.pitch[j];
+    if (r !== null && l !== null) pitchDiffs.push(Math.abs(r - l));
+  });
+  const toneScore = pitchDiffs.length >= 10
+    ? Math.round(100 * Math.exp(-(pitchDiffs.reduce((s, d) => s + d, 0) / pitchDiffs.length) / 3))
+    : null;
+
+  const syllableTexts = syllabify(text);
+  const segments = segmentByEnergy(reference.energy, syllableTexts.length);
+  const frameSeconds = HOP_SIZE / SAMPLE_RATE;
+
+  const syllables: SyllableFeedback[] = segments.map(([start, end], index) => {
+    const steps = alignment.path
+      .map((pair, k) => ({ pair, cost: alignment.costs[k] }))
+      .filter(({ pair }) => pair[0] >= start && pair[0] < end);
+    const learnerFrames = steps.map(({ pair }) => pair[1]);
+    const learnerStart = learnerFrames.length ? Math.min(...learnerFrames) : 0;
+    const learnerEnd = learnerFrames.length ? Math.max(...learnerFrames) + 1 : 0;
+    const meanCost = steps.reduce((sum, s) => sum + s.cost, 0) / Math.max(1, steps.length);
+
+    const referenceTone = toneLevel(meanOf(reference.pitch.slice(start, end)));
+    const learnerTone = toneLevel(meanOf(learner.pitch.slice(learnerStart, learnerEnd)));
+
+    return {
+      text: syllableTexts[index] ?? '',
+      score: distanceToScore(meanCost),
+      referenceTone,
+      learnerTone,
+      toneMatch: referenceTone && learnerTone ? referenceTone === learnerTone : null,
+      referenceStart: start * frameSeconds,
+      referenceEnd: end * frameSeconds,
+      learnerStart: learnerStart * frameSeconds,
+      learnerEnd: learnerEnd * frameSeconds,
+    };
+  });
+
+  const score = toneScore === null
+    ? spectralScore
+    : Math.round(spectralScore * 0.7 + toneScore * 0.3);
+
+  return {
+    version: 1,
+    score,
+    spectralScore,
+    toneScore,
+    syllables,
+    contour: {
+      reference: resampleContour(reference.pitch),
+      learner: resampleContour(learner.pitch),
+    },
+    referenceUrl,
+  };
+}
+
+/**
+ * Feedback as a JSON value for `attempts.feedback`
+ */
+export function feedbackToJson(feedback: PronunciationFeedback): Json {
+  return feedback;
+}
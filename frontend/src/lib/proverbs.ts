@@ -0,0 +1,42 @@
+// Proverb (ilu) study helpers
+// The study mode asks learners to pick a proverb's figurative meaning from
+// a few choices before revealing how and when the proverb is used.
+
+import { OPTION_COUNT, shuffle } from '@/lib/lesson-quiz';
+import { toLocalDateKey } from '@/lib/daily-plan';
+import type { Asset } from '@/types/database';
+
+/**
+ * What a proverb means; older proverbs only have english_text
+ */
+export function proverbMeaning(proverb: Asset): string {
+  return proverb.figurative_meaning?.trim() || proverb.english_text;
+}
+
+/**
+ * The same proverb for everyone on a given local day, changing daily
+ */
+export function pickProverbOfTheDay(proverbs: Asset[], dateKey: string = toLocalDateKey()): Asset | null {
+  if (proverbs.length === 0) return null;
+
+  let hash = 0;
+  for (const char of dateKey) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  // Sort by id so the pick doesn't depend on load order
+  const sorted = [...proverbs].sort((a, b) => a.id.localeCompare(b.id));
+  return sorted[hash % sorted.length];
+}
+
+/**
+ * Shuffled meaning choices: the proverb's own meaning plus up to
+ * OPTION_COUNT - 1 meanings of other proverbs
+ */
+export function buildMeaningChoices(proverb: Asset, pool: Asset[]): string[] {
+  const answer = proverbMeaning(proverb);
+  const distractors = shuffle(
+    Array.from(new Set(pool.filter(p => p.id !== proverb.id).map(proverbMeaning))).filter(meaning => meaning !== answer)
+  ).slice(0, OPTION_COUNT - 1);
+
+  return shuffle([answer, ...distractors]);
+}
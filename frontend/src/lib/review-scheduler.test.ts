@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildCards,
+  createCard,
+  getDueCards,
+  gradeOutcome,
+  newerCard,
+  scheduleReview,
+  type ReviewOutcome,
+} from '@/lib/review-scheduler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function outcome(overrides: Partial<ReviewOutcome> = {}): ReviewOutcome {
+  return {
+    assetId: 'asset-1',
+    isCorrect: true,
+    score: null,
+    reviewedAt: '2026-01-01T09:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function daysAfter(iso: string, days: number): string {
+  return new Date(new Date(iso).getTime() + days * DAY_MS).toISOString();
+}
+
+describe('gradeOutcome', () => {
+  it('maps scores onto SM-2 grades', () => {
+    expect(gradeOutcome(outcome({ score: 100 }))).toBe(5);
+    expect(gradeOutcome(outcome({ score: 85 }))).toBe(4);
+    expect(gradeOutcome(outcome({ score: 72 }))).toBe(3);
+    expect(gradeOutcome(outcome({ score: 55 }))).toBe(2);
+    expect(gradeOutcome(outcome({ score: 30 }))).toBe(1);
+    expect(gradeOutcome(outcome({ score: 10 }))).toBe(0);
+  });
+
+  it('clamps out-of-range scores', () => {
+    expect(gradeOutcome(outcome({ score: 140 }))).toBe(5);
+    expect(gradeOutcome(outcome({ score: -20 }))).toBe(0);
+  });
+
+  it('falls back to correctness when there is no score', () => {
+    expect(gradeOutcome(outcome({ isCorrect: true }))).toBe(4);
+    expect(gradeOutcome(outcome({ isCorrect: false }))).toBe(1);
+    expect(gradeOutcome(outcome({ isCorrect: null }))).toBe(1);
+  });
+});
+
+describe('scheduleReview', () => {
+  it('starts a new card due one day after its first recall', () => {
+    const first = outcome();
+    const card = scheduleReview(undefined, first);
+
+    expect(card.repetitions).toBe(1);
+    expect(card.intervalDays).toBe(1);
+    expect(card.dueAt).toBe(daysAfter(first.reviewedAt, 1));
+    expect(card.lastReviewedAt).toBe(first.reviewedAt);
+  });
+
+  it('grows the interval 1, 6, then by the ease factor', () => {
+    let card = scheduleReview(undefined, outcome({ score: 100 }));
+    card = scheduleReview(card, outcome({ score: 100, reviewedAt: card.dueAt }));
+    expect(card.intervalDays).toBe(6);
+
+    const third = scheduleReview(card, outcome({ score: 100, reviewedAt: card.dueAt }));
+    expect(third.repetitions).toBe(3);
+    expect(third.intervalDays).toBe(Math.round(6 * third.easeFactor));
+    expect(third.dueAt).toBe(daysAfter(card.dueAt, third.intervalDays));
+  });
+
+  it('raises ease on perfect recalls and lowers it on hesitant ones', () => {
+    const start = createCard('asset-1');
+    expect(scheduleReview(start, outcome({ score: 100 })).easeFactor).toBeCloseTo(2.6);
+    expect(scheduleReview(start, outcome({ score: 85 })).easeFactor).toBeCloseTo(2.5);
+    expect(scheduleReview(start, outcome({ score: 72 })).easeFactor).toBeCloseTo(2.36);
+  });
+
+  it('resets a lapsed card and brings it back within minutes', () => {
+    let card = scheduleReview(undefined, outcome());
+    card = scheduleReview(card, outcome({ reviewedAt: card.dueAt }));
+
+    const miss = outcome({ isCorrect: false, reviewedAt: card.dueAt });
+    const lapsed = scheduleReview(card, miss);
+
+    expect(lapsed.repetitions).toBe(0);
+    expect(lapsed.intervalDays).toBe(0);
+    expect(lapsed.lapses).toBe(1);
+    expect(lapsed.easeFactor).toBeLessThan(card.easeFactor);
+    expect(new Date(lapsed.dueAt).getTime() - new Date(miss.reviewedAt).getTime()).toBe(10 * 60 * 1000);
+  });
+
+  it('never lets the ease factor drop below 1.3', () => {
+    let card = createCard('asset-1');
+    for (let i = 0; i < 20; i++) {
+      card = scheduleReview(card, outcome({ score: 0 }));
+    }
+    expect(card.easeFactor).toBe(1.3);
+    expect(card.lapses).toBe(20);
+  });
+});
+
+describe('buildCards', () => {
+  it('replays attempts in chronological order per asset', () => {
+    const cards = buildCards([
+      outcome({ assetId: 'b', reviewedAt: '2026-01-03T09:00:00.000Z' }),
+      outcome({ assetId: 'a', isCorrect: false, reviewedAt: '2026-01-02T09:00:00.000Z' }),
+      outcome({ assetId: 'a', reviewedAt: '2026-01-01T09:00:00.000Z' }),
+    ]);
+
+    expect(Object.keys(cards).sort()).toEqual(['a', 'b']);
+    // The correct recall came first, so the card ends lapsed
+    expect(cards.a.lapses).toBe(1);
+    expect(cards.a.repetitions).toBe(0);
+    expect(cards.a.lastReviewedAt).toBe('2026-01-02T09:00:00.000Z');
+    expect(cards.b.repetitions).toBe(1);
+  });
+});
+
+describe('newerCard', () => {
+  it('keeps whichever copy was reviewed last', () => {
+    const older = scheduleReview(undefined, outcome({ reviewedAt: '2026-01-01T09:00:00.000Z' }));
+    const newer = scheduleReview(undefined, outcome({ reviewedAt: '2026-01-05T09:00:00.000Z' }));
+
+    expect(newerCard(older, newer)).toBe(newer);
+    expect(newerCard(newer, older)).toBe(newer);
+    expect(newerCard(undefined, older)).toBe(older);
+    expect(newerCard(older, undefined)).toBe(older);
+  });
+
+  it('prefers a reviewed card over one never reviewed', () => {
+    const fresh = createCard('asset-1');
+    const reviewed = scheduleReview(fresh, outcome());
+    expect(newerCard(fresh, reviewed)).toBe(reviewed);
+  });
+});
+
+describe('getDueCards', () => {
+  it('returns cards due by now, most overdue first', () => {
+    const now = new Date('2026-01-10T12:00:00.000Z');
+    const cards = [
+      { ...createCard('later'), dueAt: '2026-01-11T00:00:00.000Z' },
+      { ...createCard('recent'), dueAt: '2026-01-10T08:00:00.000Z' },
+      { ...createCard('oldest'), dueAt: '2026-01-02T08:00:00.000Z' },
+      { ...createCard('exact'), dueAt: now.toISOString() },
+    ];
+
+    expect(getDueCards(cards, now).map(card => card.assetId)).toEqual(['oldest', 'recent', 'exact']);
+  });
+});
@@ -0,0 +1,139 @@
+// Spaced-repetition scheduler for flashcards and listening drills
+// SM-2 style: each asset carries an ease factor and interval that grow with
+// successful recalls and reset on lapses.
+
+export interface CardState {
+  assetId: string;
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+  dueAt: string;
+  lastReviewedAt: string | null;
+}
+
+// A single graded recall, normalized from either a Supabase `attempts` row
+// or a locally queued attempt
+export interface ReviewOutcome {
+  assetId: string;
+  isCorrect: boolean | null;
+  score: number | null;
+  reviewedAt: string;
+}
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Lapsed cards come back within the same session window
+const RELEARN_MINUTES = 10;
+
+/**
+ * Create a fresh card that is due immediately
+ */
+export function createCard(assetId: string, now: Date = new Date()): CardState {
+  return {
+    assetId,
+    easeFactor: DEFAULT_EASE,
+    intervalDays: 0,
+    repetitions: 0,
+    lapses: 0,
+    dueAt: now.toISOString(),
+    lastReviewedAt: null,
+  };
+}
+
+/**
+ * Map an outcome to an SM-2 quality grade (0-5).
+ * Scores are 0-100; when only correctness is known we use 4 / 1.
+ */
+export function gradeOutcome(outcome: ReviewOutcome): number {
+  if (outcome.score !== null && outcome.score !== undefined) {
+    const score = Math.max(0, Math.min(100, outcome.score));
+    if (score >= 95) return 5;
+    if (score >= 80) return 4;
+    if (score >= 70) return 3;
+    if (score >= 50) return 2;
+    if (score >= 25) return 1;
+    return 0;
+  }
+  return outcome.isCorrect ? 4 : 1;
+}
+
+/**
+ * Apply one graded recall to a card and compute its next due date
+ */
+export function scheduleReview(card: CardState | undefined, outcome: ReviewOutcome): CardState {
+  const reviewedAt = new Date(outcome.reviewedAt);
+  const current = card ?? createCard(outcome.assetId, reviewedAt);
+  const quality = gradeOutcome(outcome);
+
+  // SM-2 ease update, clamped so hard cards don't spiral
+  const easeFactor = Math.max(
+    MIN_EASE,
+    current.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  if (quality < 3) {
+    return {
+      ...current,
+      easeFactor,
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: current.lapses + 1,
+      dueAt: new Date(reviewedAt.getTime() + RELEARN_MINUTES * 60 * 1000).toISOString(),
+      lastReviewedAt: reviewedAt.toISOString(),
+    };
+  }
+
+  const repetitions = current.repetitions + 1;
+  let intervalDays: number;
+  if (repetitions === 1) {
+    intervalDays = 1;
+  } else if (repetitions === 2) {
+    intervalDays = 6;
+  } else {
+    intervalDays = Math.round(current.intervalDays * easeFactor);
+  }
+
+  return {
+    ...current,
+    easeFactor,
+    intervalDays,
+    repetitions,
+    dueAt: new Date(reviewedAt.getTime() + intervalDays * DAY_MS).toISOString(),
+    lastReviewedAt: reviewedAt.toISOString(),
+  };
+}
+
+/**
+ * Rebuild card states by replaying a learner's attempt history in order
+ */
+export function buildCards(outcomes: ReviewOutcome[]): Record<string, CardState> {
+  const cards: Record<string, CardState> = {};
+  [...outcomes]
+    .sort((a, b) => a.reviewedAt.localeCompare(b.reviewedAt))
+    .forEach(outcome => {
+      cards[outcome.assetId] = scheduleReview(cards[outcome.assetId], outcome);
+    });
+  return cards;
+}
+
+/**
+ * Pick the newer of two states for the same card (used when merging
+ * the local copy with the server copy)
+ */
+export function newerCard(a: CardState | undefined, b: CardState | undefined): CardState | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return (a.lastReviewedAt || '') >= (b.lastReviewedAt || '') ? a : b;
+}
+
+/**
+ * Cards due at or before `now`, most overdue first
+ */
+export function getDueCards<T extends CardState>(cards: T[], now: Date = new Date()): T[] {
+  const nowIso = now.toISOString();
+  return cards
+    .filter(card => card.dueAt <= nowIso)
+    .sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+}
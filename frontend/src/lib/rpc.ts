@@ -0,0 +1,43 @@
+// Typed calls to the learner progress RPCs
+// These functions report failures as { success: false, error } in their
+// JSONB result instead of raising, so callRpc checks both the request and
+// the success flag and returns the payload with its declared type.
+
+import { supabase } from '@/lib/supabase';
+import type { QuizAnswer } from '@/lib/lesson-quiz';
+import type {
+  CompleteLessonResult,
+  PlacementResult,
+  ProgressSummary,
+  StreakFreezePurchase,
+  StreakStatus,
+  TestOutResult,
+} from '@/types/database';
+
+export interface RpcFunctions {
+  get_progress_summary: { Args: { p_timezone: string }; Returns: ProgressSummary };
+  complete_lesson_practice: { Args: { p_lesson_id: string }; Returns: CompleteLessonResult };
+  test_out_lessons: { Args: { p_lesson_ids: string[]; p_answers: QuizAnswer[] }; Returns: TestOutResult };
+  apply_placement: { Args: { p_answers: QuizAnswer[] }; Returns: PlacementResult };
+  get_streak_status: { Args: { p_timezone: string }; Returns: StreakStatus };
+  purchase_streak_freeze: { Args: Record<string, never>; Returns: StreakFreezePurchase };
+}
+
+type RpcResponse<T> = (T & { success: true }) | { success: false; error?: string };
+
+/**
+ * Call an RPC and return its result, throwing the server's error message
+ * (or `fallbackError`) when it fails
+ */
+export async function callRpc<Name extends keyof RpcFunctions>(
+  name: Name,
+  args: RpcFunctions[Name]['Args'],
+  fallbackError: string
+): Promise<RpcFunctions[Name]['Returns']> {
+  const { data, error } = await supabase.rpc(name, args);
+  if (error) throw error;
+
+  const response: RpcResponse<RpcFunctions[Name]['Returns']> | null = data;
+  if (!response?.success) throw new Error(response?.error || fallbackError);
+  return response;
+}
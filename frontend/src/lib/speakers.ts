@@ -0,0 +1,100 @@
+// Speakers and the voices learners can switch between
+// Each approved recording of an asset is a voice. The primary clip an
+// admin picked plays by default; hearing the same word from several
+// speakers helps learners pick out tone rather than one person's voice.
+
+import type { AgeGroup, Audio, ConsentMethod, SpeakerGender, SpeakerProfile } from '@/types/database';
+
+// Bump when the consent wording changes; stored with each speaker
+export const CONSENT_VERSION = '2026-10';
+
+export const CONSENT_TEXT =
+  'The speaker agrees that their recordings can be published in Asụsụ Ohafia for people learning the language, ' +
+  'together with their name, age group, gender and village, and knows they can ask for them to be removed.';
+
+export const AGE_GROUP_LABELS: Record<AgeGroup, string> = {
+  child: 'Child',
+  teen: 'Teen',
+  adult: 'Adult',
+  elder: 'Elder',
+};
+
+export const GENDER_LABELS: Record<SpeakerGender, string> = {
+  female: 'Female',
+  male: 'Male',
+  other: 'Other',
+};
+
+export const CONSENT_METHOD_LABELS: Record<ConsentMethod, string> = {
+  self: 'Own voice',
+  verbal: 'Spoken consent',
+  written: 'Written consent',
+};
+
+export type SpeakerSummary = Pick<SpeakerProfile, 'display_name' | 'age_group' | 'gender' | 'village'>;
+
+// Audio submission columns needed to offer voices, for nested selects
+export const VOICE_CLIP_COLUMNS =
+  'id, audio_url, status, is_primary, created_at, speaker:public_speakers(display_name, age_group, gender, village)';
+
+export type VoiceClip = Pick<Audio, 'id' | 'audio_url' | 'status' | 'is_primary' | 'created_at'> & {
+  speaker?: SpeakerSummary | null;
+};
+
+export interface Voice {
+  id: string;
+  url: string;
+  name: string;
+  details: string | null;
+  isPrimary: boolean;
+}
+
+/**
+ * "Elder · Female · Asaga", leaving out whatever the speaker didn't give
+ */
+export function describeSpeaker(speaker: SpeakerSummary | null | undefined): string | null {
+  if (!speaker) return null;
+  const parts = [
+    speaker.age_group ? AGE_GROUP_LABELS[speaker.age_group] : null,
+    speaker.gender ? GENDER_LABELS[speaker.gender] : null,
+    speaker.village,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
+
+/**
+ * Approved recordings of an asset, primary first then oldest first. The
+ * asset's own audio (imported with it) comes last when it isn't one of them.
+ */
+export function getVoices(clips: VoiceClip[] | undefined, assetAudioUrl?: string | null): Voice[] {
+  const approved = (clips || [])
+    .filter(clip => clip.status === 'approved')
+    .sort((a, b) => Number(b.is_primary) - Number(a.is_primary) || a.created_at.localeCompare(b.created_at));
+
+  const voices: Voice[] = approved.map((clip, index) => ({
+    id: clip.id,
+    url: clip.audio_url,
+    name: clip.speaker?.display_name || `Voice ${index + 1}`,
+    details: describeSpeaker(clip.speaker),
+    isPrimary: clip.is_primary,
+  }));
+
+  if (assetAudioUrl && !voices.some(voice => voice.url === assetAudioUrl)) {
+    voices.push({
+      id: 'asset',
+      url: assetAudioUrl,
+      name: voices.length > 0 ? `Voice ${voices.length + 1}` : 'Recording',
+      details: null,
+      isPrimary: false,
+    });
+  }
+  return voices;
+}
+
+/**
+ * The clip learners hear by default: the primary approved recording, then
+ * any approved recording, then the asset's own audio
+ */
+export function getDefaultAudioUrl(clips: VoiceClip[] | undefined, assetAudioUrl?: string | null): string | null {
+  return getVoices(clips, assetAudioUrl)[0]?.url || null;
+}
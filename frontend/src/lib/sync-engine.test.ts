@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest';
+import { classifySyncError, getBackoffDelay, reviewCardToRow, toAttemptRow } from '@/lib/sync-engine';
+import { createCard } from '@/lib/review-scheduler';
+import type { OfflineAttempt } from '@/lib/offline-db';
+
+vi.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+function attempt(overrides: Partial<OfflineAttempt> = {}): OfflineAttempt {
+  return {
+    id: 'attempt-1',
+    userId: 'user-1',
+    assetId: 'asset-1',
+    mode: 'speak',
+    score: 80,
+    createdAt: '2026-01-01T09:00:00.000Z',
+    synced: false,
+    ...overrides,
+  };
+}
+
+describe('classifySyncError', () => {
+  it('treats unique violations as already synced', () => {
+    expect(classifySyncError({ code: '23505' }, 409)).toBe('duplicate');
+  });
+
+  it('retries network, rate limit and server failures', () => {
+    expect(classifySyncError({ message: 'Failed to fetch' }, 0)).toBe('transient');
+    expect(classifySyncError({ code: 'PGRST000' }, 429)).toBe('transient');
+    expect(classifySyncError({ code: 'XX000' }, 503)).toBe('transient');
+    expect(classifySyncError({ code: '08006' }, 400)).toBe('transient');
+    expect(classifySyncError({ code: 'PGRST301' }, 401)).toBe('transient');
+    expect(classifySyncError(null)).toBe('transient');
+  });
+
+  it('parks rows the server rejects for good', () => {
+    expect(classifySyncError({ code: '23503' }, 409)).toBe('permanent');
+    expect(classifySyncError({ code: '42501' }, 403)).toBe('permanent');
+    expect(classifySyncError({ code: 'PGRST204' }, 400)).toBe('permanent');
+  });
+});
+
+describe('getBackoffDelay', () => {
+  it('doubles with each failure, within 25% jitter', () => {
+    for (const [failures, base] of [[1, 2000], [2, 4000], [4, 16000]]) {
+      const delay = getBackoffDelay(failures);
+      expect(delay).toBeGreaterThanOrEqual(base * 0.75);
+      expect(delay).toBeLessThanOrEqual(base * 1.25);
+    }
+  });
+
+  it('caps at five minutes', () => {
+    expect(getBackoffDelay(30)).toBeLessThanOrEqual(5 * 60 * 1000 * 1.25);
+    expect(getBackoffDelay(30)).toBeGreaterThanOrEqual(5 * 60 * 1000 * 0.75);
+  });
+});
+
+describe('toAttemptRow', () => {
+  it('maps practice modes to attempt types and derives correctness from the score', () => {
+    expect(toAttemptRow(attempt({ mode: 'speak', score: 70 }))).toMatchObject({
+      type: 'pronunciation',
+      is_correct: true,
+      lesson_id: null,
+      synced: true,
+    });
+    expect(toAttemptRow(attempt({ mode: 'read', score: 40 }))).toMatchObject({ type: 'flashcard', is_correct: false });
+  });
+
+  it('prefers recorded correctness and keeps metadata as feedback', () => {
+    const metadata = { is_correct: true, time_spent_seconds: 12 };
+    expect(toAttemptRow(attempt({ mode: 'write', score: 10, metadata }))).toMatchObject({
+      type: 'quiz',
+      is_correct: true,
+      time_spent_seconds: 12,
+      feedback: metadata,
+    });
+  });
+});
+
+describe('reviewCardToRow', () => {
+  it('maps a local card to review_cards columns', () => {
+    const card = { ...createCard('asset-1'), id: 'user-1:asset-1', userId: 'user-1', synced: false };
+    expect(reviewCardToRow(card)).toEqual({
+      user_id: 'user-1',
+      asset_id: 'asset-1',
+      ease_factor: 2.5,
+      interval_days: 0,
+      repetitions: 0,
+      lapses: 0,
+      due_at: card.dueAt,
+      last_reviewed_at: null,
+    });
+  });
+});
@@ -0,0 +1,286 @@
+// Sync engine for the offline attempt queue
+// Pushes queued attempts, review cards and deck edits to Supabase. Rows the
+// server rejects for good are parked so they never block the rest of the
+// queue; network-level failures are left queued for a backoff retry.
+
+import { supabase } from '@/lib/supabase';
+import {
+  getUnsyncedAttempts,
+  markAttemptsSynced,
+  markAttemptsFailed,
+  getUnsyncedReviewCards,
+  markReviewCardsSynced,
+  markReviewCardsFailed,
+  getUnsyncedDecks,
+  markDeckSynced,
+  markDeckFailed,
+  type OfflineAttempt,
+  type OfflineReviewCard,
+  type OfflineDeck,
+} from '@/lib/offline-db';
+import type { AttemptType, Database, Json } from '@/types/database';
+
+type AttemptInsert = Database['public']['Tables']['attempts']['Insert'];
+
+// Tag shared with public/sync-sw.js
+export const SYNC_TAG = 'sync-attempts';
+
+const BATCH_SIZE = 50;
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+// Matches the threshold used when reporting accuracy
+const CORRECT_SCORE = 70;
+
+const ATTEMPT_TYPES: Record<OfflineAttempt['mode'], AttemptType> = {
+  speak: 'pronunciation',
+  listen: 'listening',
+  read: 'flashcard',
+  write: 'quiz',
+};
+
+export type SyncErrorKind = 'transient' | 'duplicate' | 'permanent';
+
+export interface SyncResult {
+  synced: number; // attempts, review cards and decks uploaded
+  failed: number;
+  // Set when the pass stopped early and should be retried
+  transientError: string | null;
+}
+
+interface RequestError {
+  code?: string;
+  message?: string;
+}
+
+/**
+ * Map a locally queued attempt to the columns of the `attempts` table
+ */
+export function toAttemptRow(attempt: OfflineAttempt): AttemptInsert {
+  const metadata = attempt.metadata || {};
+  const isCorrect = typeof metadata.is_correct === 'boolean'
+    ? metadata.is_correct
+    : attempt.score >= CORRECT_SCORE;
+
+  return {
+    id: attempt.id,
+    user_id: attempt.userId,
+    asset_id: attempt.assetId,
+    lesson_id: attempt.lessonId ?? null,
+    type: ATTEMPT_TYPES[attempt.mode],
+    is_correct: isCorrect,
+    score: attempt.score,
+    time_spent_seconds: typeof metadata.time_spent_seconds === 'number' ? metadata.time_spent_seconds : null,
+    user_audio_url: attempt.userAudioUrl ?? null,
+    // Practice metadata has no column of its own; keep it with the feedback
+    feedback: attempt.feedback ?? ((attempt.metadata as Json | undefined) || null),
+    synced: true,
+    created_at: attempt.createdAt,
+  };
+}
+
+/**
+ * Decide whether a failed request is worth retrying
+ */
+export function classifySyncError(error: RequestError | null, status?: number): SyncErrorKind {
+  const code = error?.code || '';
+
+  if (code === '23505') return 'duplicate';
+
+  // Network failures, rate limiting, server errors and expired sessions
+  if (status === 0 || status === 408 || status === 429 || (status !== undefined && status >= 500)) {
+    return 'transient';
+  }
+  if (code.startsWith('08') || code.startsWith('53') || code === '40001' || code === '57014' || code === 'PGRST301') {
+    return 'transient';
+  }
+  if (!code) return 'transient';
+
+  // Constraint violations, bad values, RLS denials, unknown columns
+  return 'permanent';
+}
+
+/**
+ * Exponential backoff with jitter, capped at a few minutes
+ */
+export function getBackoffDelay(failures: number): number {
+  const delay = Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** Math.max(0, failures - 1));
+  return Math.round(delay * (0.75 + Math.random() * 0.5));
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+async function upsertAttempts(rows: AttemptInsert[]) {
+  const { error, status } = await supabase
+    .from('attempts')
+    .upsert(rows as Record<string, unknown>[], { onConflict: 'id', ignoreDuplicates: true });
+  return { error, kind: error ? classifySyncError(error, status) : null };
+}
+
+// Upload one batch; when the server rejects it, retry row by row so a single
+// bad attempt doesn't hold back the others
+async function syncAttemptBatch(batch: OfflineAttempt[], result: SyncResult) {
+  const { error, kind } = await upsertAttempts(batch.map(toAttemptRow));
+
+  if (!error || kind === 'duplicate') {
+    await markAttemptsSynced(batch.map(a => a.id));
+    result.synced += batch.length;
+    return;
+  }
+
+  if (kind === 'transient') {
+    result.transientError = error.message;
+    return;
+  }
+
+  const failures: { id: string; error: string }[] = [];
+  for (const attempt of batch) {
+    const row = await upsertAttempts([toAttemptRow(attempt)]);
+
+    if (!row.error || row.kind === 'duplicate') {
+      await markAttemptsSynced([attempt.id]);
+      result.synced += 1;
+    } else if (row.kind === 'transient') {
+      result.transientError = row.error.message;
+      break;
+    } else {
+      failures.push({ id: attempt.id, error: row.error.message });
+    }
+  }
+
+  if (failures.length > 0) {
+    await markAttemptsFailed(failures);
+    result.failed += failures.length;
+  }
+}
+
+/**
+ * Map a local review card to the columns of the `review_cards` table
+ */
+export function reviewCardToRow(card: OfflineReviewCard) {
+  return {
+    user_id: card.userId,
+    asset_id: card.assetId,
+    ease_factor: card.easeFactor,
+    interval_days: card.intervalDays,
+    repetitions: card.repetitions,
+    lapses: card.lapses,
+    due_at: card.dueAt,
+    last_reviewed_at: card.lastReviewedAt,
+  };
+}
+
+// Push one deck: delete it, or write its name and make its items match the
+// local list. Marks the deck synced on success.
+async function syncDeck(deck: OfflineDeck): Promise<{ error: RequestError | null; kind: SyncErrorKind | null }> {
+  const fail = (error: RequestError, status?: number) => ({ error, kind: classifySyncError(error, status) });
+
+  if (deck.deleted) {
+    const { error, status } = await supabase.from('decks').delete().eq('id', deck.id);
+    if (error) return fail(error, status);
+  } else {
+    const { error, status } = await supabase
+      .from('decks')
+      .upsert({ id: deck.id, user_id: deck.userId, name: deck.name }, { onConflict: 'id' });
+    if (error) return fail(error, status);
+
+    // Drop items removed on this device, then add the rest
+    const assetIds = deck.items.map(item => item.assetId);
+    let removeQuery = supabase.from('deck_items').delete().eq('deck_id', deck.id);
+    if (assetIds.length > 0) {
+      removeQuery = removeQuery.not('asset_id', 'in', `(${assetIds.join(',')})`);
+    }
+    const removed = await removeQuery;
+    if (removed.error) return fail(removed.error, removed.status);
+
+    if (deck.items.length > 0) {
+      const added = await supabase
+        .from('deck_items')
+        .upsert(
+          deck.items.map(item => ({ deck_id: deck.id, asset_id: item.assetId, added_at: item.addedAt })),
+          { onConflict: 'deck_id,asset_id', ignoreDuplicates: true }
+        );
+      if (added.error) return fail(added.error, added.status);
+    }
+  }
+
+  await markDeckSynced(deck.id, deck.updatedAt);
+  return { error: null, kind: null };
+}
+
+/**
+ * Run one sync pass for a learner's queued attempts, review cards and decks
+ */
+export async function runSync(userId: string): Promise<SyncResult> {
+  const result: SyncResult = { synced: 0, failed: 0, transientError: null };
+
+  const attempts = (await getUnsyncedAttempts())
+    .filter(a => a.userId === userId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  for (const batch of chunk(attempts, BATCH_SIZE)) {
+    await syncAttemptBatch(batch, result);
+    if (result.transientError) return result;
+  }
+
+  // Review card state rides the same queue
+  const cards = (await getUnsyncedReviewCards()).filter(c => c.userId === userId);
+  for (const batch of chunk(cards, BATCH_SIZE)) {
+    const { error, status } = await supabase
+      .from('review_cards')
+      .upsert(batch.map(reviewCardToRow), { onConflict: 'user_id,asset_id' });
+
+    if (!error) {
+      await markReviewCardsSynced(batch);
+      result.synced += batch.length;
+    } else if (classifySyncError(error, status) === 'transient') {
+      result.transientError = error.message;
+      return result;
+    } else {
+      await markReviewCardsFailed(batch, error.message);
+      result.failed += batch.length;
+    }
+  }
+
+  const decks = (await getUnsyncedDecks()).filter(d => d.userId === userId);
+  for (const deck of decks) {
+    const { error, kind } = await syncDeck(deck);
+    if (!error) {
+      result.synced += 1;
+    } else if (kind === 'transient') {
+      result.transientError = error.message || 'Deck sync failed';
+      return result;
+    } else {
+      await markDeckFailed(deck.id, deck.updatedAt, error.message || 'Deck rejected by server');
+      result.failed += 1;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Ask the service worker to wake us when connectivity returns.
+ * Returns false where Background Sync isn't supported (Safari, Firefox).
+ */
+export async function registerBackgroundSync(): Promise<boolean> {
+  if (!('serviceWorker' in navigator)) return false;
+
+  try {
+    const registration = await navigator.serviceWorker.getRegistration();
+    if (!registration || !('sync' in registration)) return false;
+
+    const { sync } = registration as ServiceWorkerRegistration & {
+      sync: { register: (tag: string) => Promise<void> };
+    };
+    await sync.register(SYNC_TAG);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,119 @@
+import { create } from 'zustand';
+import { supabase } from '@/lib/supabase';
+import type { AchievementMetrics } from '@/lib/achievement-criteria';
+import type { Achievement, UserAchievement } from '@/types/database';
+
+interface AchievementState {
+  achievements: Achievement[];
+  earned: Record<string, string>; // achievementId -> earned_at
+  metrics: AchievementMetrics;
+  // Newly unlocked achievements waiting to be celebrated
+  unlockQueue: Achievement[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchAchievements: (userId: string) => Promise<void>;
+  evaluateAchievements: () => Promise<Achievement[]>;
+  requestEvaluation: () => void;
+  dismissUnlock: () => void;
+}
+
+// Attempts sync one at a time while practising; wait for a quiet moment
+// before asking the server to re-evaluate
+const EVALUATION_DELAY_MS = 3000;
+
+let evaluating: Promise<Achievement[]> | null = null;
+let evaluationTimer: ReturnType<typeof setTimeout> | null = null;
+
+export const useAchievementStore = create<AchievementState>((set, get) => ({
+  achievements: [],
+  earned: {},
+  metrics: {},
+  unlockQueue: [],
+  isLoading: false,
+  error: null,
+
+  fetchAchievements: async (userId) => {
+    set({ isLoading: true, error: null });
+    try {
+      const { data: achievements, error: achievementsError } = await supabase
+        .from('achievements')
+        .select('*')
+        .eq('is_active', true)
+        .order('xp_reward', { ascending: true });
+
+      if (achievementsError) throw achievementsError;
+
+      const { data: earnedRows, error: earnedError } = await supabase
+        .from('user_achievements')
+        .select('*')
+        .eq('user_id', userId);
+
+      if (earnedError) throw earnedError;
+
+      const earned: Record<string, string> = {};
+      ((earnedRows || []) as UserAchievement[]).forEach(row => {
+        earned[row.achievement_id] = row.earned_at;
+      });
+
+      set({ achievements: (achievements || []) as Achievement[], earned, isLoading: false });
+
+      // Also refreshes metrics for the progress bars
+      await get().evaluateAchievements();
+    } catch (error) {
+      set({ error: (error as Error).message, isLoading: false });
+    }
+  },
+
+  evaluateAchievements: async () => {
+    if (!navigator.onLine) return [];
+    // Sync and review completion can fire together; one evaluation is enough
+    if (evaluating) return evaluating;
+
+    evaluating = (async () => {
+      try {
+        const { data, error } = await supabase.rpc('evaluate_achievements');
+
+        if (error) throw error;
+        if (!data?.success) throw new Error(data?.error || 'Failed to evaluate achievements');
+
+        const awarded = (data.awarded || []) as Achievement[];
+        const earnedAt = new Date().toISOString();
+
+        set(state => {
+          const earned = { ...state.earned };
+          awarded.forEach(achievement => {
+            earned[achievement.id] = earnedAt;
+          });
+          return {
+            earned,
+            metrics: (data.metrics || {}) as AchievementMetrics,
+            unlockQueue: [...state.unlockQueue, ...awarded],
+          };
+        });
+
+        return awarded;
+      } catch (error) {
+        console.error('Error evaluating achievements:', error);
+        return [];
+      } finally {
+        evaluating = null;
+      }
+    })();
+
+    return evaluating;
+  },
+
+  requestEvaluation: () => {
+    if (evaluationTimer) clearTimeout(evaluationTimer);
+    evaluationTimer = setTimeout(() => {
+      evaluationTimer = null;
+      get().evaluateAchievements();
+    }, EVALUATION_DELAY_MS);
+  },
+
+  dismissUnlock: () => {
+    set(state => ({ unlockQueue: state.unlockQueue.slice(1) }));
+  },
+}));
@@ -1,13 +1,22 @@
 import { create } from 'zustand';
 import { supabase } from '@/lib/supabase';
-import type { Asset, Audio, Profile, Lesson } from '@/types/database';
+import { useAuthStore } from '@/stores/auth-store';
+import { normalizeAssetText } from '@/lib/igbo-orthography';
+import type { ImportedAsset, ImportedLesson } from '@/lib/asset-transfer';
+import type { Asset, AssetStatus, Audio, Profile, Lesson, Review, ReviewItemType, ReviewVote, SubmitReviewResult } from '@/types/database';
+
+type ReviewWithReviewer = Review & { reviewer?: { display_name: string | null } | null };
 
 interface ReviewItem {
   id: string;
-  type: 'asset' | 'audio';
+  type: ReviewItemType;
   item: Asset | Audio;
   submittedBy: string;
   submittedAt: string;
+  reviews: ReviewWithReviewer[];
+  approvals: number;
+  rejections: number;
+  escalated: boolean;
 }
 
 interface AdminStats {
@@ -33,17 +42,24 @@ interface AdminState {
   fetchLessons: () => Promise<void>;
   fetchAllAssets: () => Promise<void>;
   fetchStats: () => Promise<void>;
-  approveItem: (id: string, type: 'asset' | 'audio', reviewerId: string, notes?: string) => Promise<void>;
-  rejectItem: (id: string, type: 'asset' | 'audio', reviewerId: string, reason: string) => Promise<void>;
+  submitReview: (
+    id: string,
+    type: ReviewItemType,
+    vote: ReviewVote,
+    rubric: Record<string, number>,
+    notes?: string
+  ) => Promise<SubmitReviewResult | null>;
   updateUserRole: (userId: string, role: string) => Promise<void>;
   createLesson: (lesson: Partial<Lesson>) => Promise<Lesson | null>;
   updateLesson: (id: string, updates: Partial<Lesson>) => Promise<void>;
   deleteLesson: (id: string) => Promise<void>;
   updateAsset: (id: string, updates: Partial<Asset>) => Promise<void>;
+  importAssets: (assets: ImportedAsset[], status: AssetStatus) => Promise<number | null>;
+  importLessons: (lessons: ImportedLesson[]) => Promise<number | null>;
   clearError: () => void;
 }
 
-export const useAdminStore = create<AdminState>((set, _get) => ({
+export const useAdminStore = create<AdminState>((set, get) => ({
   reviewQueue: [],
   users: [],
   lessons: [],
@@ -73,22 +89,55 @@ export const useAdminStore = create<AdminState>((set, _get) => ({
 
       if (audioError) throw audioError;
 
+      // Votes cast so far on everything pending
+      const pendingIds = [...(pendingAssets || []), ...(pendingAudio || [])].map((item: { id: string }) => item.id);
+      let reviews: ReviewWithReviewer[] = [];
+      if (pendingIds.length > 0) {
+        const { data: reviewData, error: reviewsError } = await supabase
+          .from('reviews')
+          .select('*, reviewer:profiles(display_name)')
+          .in('item_id', pendingIds)
+          .order('created_at', { ascending: true });
+
+        if (reviewsError) throw reviewsError;
+        reviews = (reviewData || []) as ReviewWithReviewer[];
+      }
+
+      const toReviewItem = (id: string, type: ReviewItemType, item: Asset | Audio, submittedBy: string, submittedAt: string): ReviewItem => {
+        const itemReviews = reviews.filter(r => r.item_type === type && r.item_id === id);
+        return {
+          id,
+          type,
+          item,
+          submittedBy,
+          submittedAt,
+          reviews: itemReviews,
+          approvals: itemReviews.filter(r => r.vote === 'approve').length,
+          rejections: itemReviews.filter(r => r.vote === 'reject').length,
+          escalated: item.needs_admin_review,
+        };
+      };
+
+      // A reviewer only sees items still waiting on their vote; split
+      // votes wait for an admin
+      const { user, profile } = useAuthStore.getState();
+      const reviewerId = user?.id;
+      const isAdmin = profile?.role === 'admin';
       const queue: ReviewItem[] = [
-        ...(pendingAssets || []).map((asset: Asset) => ({
-          id: asset.id,
-          type: 'asset' as const,
-          item: asset,
-          submittedBy: asset.created_by,
-          submittedAt: asset.created_at,
-        })),
-        ...(pendingAudio || []).map((audio: Audio) => ({
-          id: audio.id,
-          type: 'audio' as const,
-          item: audio,
-          submittedBy: audio.submitted_by,
-          submittedAt: audio.created_at,
-        })),
-      ].sort((a, b) => new Date(a.submittedAt).getTime() - new Date(b.submittedAt).getTime());
+        ...(pendingAssets || []).map((asset: Asset) =>
+          toReviewItem(asset.id, 'asset', asset, asset.created_by, asset.created_at)
+        ),
+        ...(pendingAudio || []).map((audio: Audio) =>
+          toReviewItem(audio.id, 'audio', audio, audio.submitted_by, audio.created_at)
+        ),
+      ]
+        .filter(item => !item.reviews.some(r => r.reviewer_id === reviewerId))
+        .filter(item => isAdmin || !item.escalated)
+        // Escalated items first, then oldest first
+        .sort((a, b) =>
+          Number(b.escalated) - Number(a.escalated) ||
+          new Date(a.submittedAt).getTime() - new Date(b.submittedAt).getTime()
+        );
 
       set({ reviewQueue: queue, isLoading: false });
     } catch (error) {
@@ -169,53 +218,29 @@ export const useAdminStore = create<AdminState>((set, _get) => ({
     }
   },
 
-  approveItem: async (id: string, type: 'asset' | 'audio', reviewerId: string, notes?: string) => {
+  submitReview: async (id, type, vote, rubric, notes) => {
     set({ isLoading: true, error: null });
     try {
-      const table = type === 'asset' ? 'assets' : 'audio_submissions';
-      const { error } = await supabase
-        .from(table)
-        .update({
-          status: 'approved',
-          reviewed_by: reviewerId,
-          reviewed_at: new Date().toISOString(),
-          review_notes: notes,
-        } as Record<string, unknown>)
-        .eq('id', id);
-
-      if (error) throw error;
-
-      set(state => ({
-        reviewQueue: state.reviewQueue.filter(item => item.id !== id),
-        isLoading: false,
-      }));
-    } catch (error) {
-      set({ error: (error as Error).message, isLoading: false });
-    }
-  },
-
-  rejectItem: async (id: string, type: 'asset' | 'audio', reviewerId: string, reason: string) => {
-    set({ isLoading: true, error: null });
-    try {
-      const table = type === 'asset' ? 'assets' : 'audio_submissions';
-      const { error } = await supabase
-        .from(table)
-        .update({
-          status: 'rejected',
-          reviewed_by: reviewerId,
-          reviewed_at: new Date().toISOString(),
-          rejection_reason: reason,
-        } as Record<string, unknown>)
-        .eq('id', id);
+      const { data, error } = await supabase.rpc('submit_review', {
+        p_item_type: type,
+        p_item_id: id,
+        p_vote: vote,
+        p_rubric: rubric,
+        p_notes: notes || null,
+      });
 
       if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Failed to submit review');
 
+      // The item leaves this reviewer's queue whatever the outcome
       set(state => ({
         reviewQueue: state.reviewQueue.filter(item => item.id !== id),
         isLoading: false,
       }));
+      return data as SubmitReviewResult;
     } catch (error) {
       set({ error: (error as Error).message, isLoading: false });
+      return null;
     }
   },
 
@@ -306,6 +331,8 @@ export const useAdminStore = create<AdminState>((set, _get) => ({
   updateAsset: async (id: string, updates: Partial<Asset>) => {
     set({ isLoading: true, error: null });
     try {
+      // Store one spelling of each character so duplicates and search match
+      updates = normalizeAssetText(updates);
       const { error } = await supabase
         .from('assets')
         .update({
@@ -327,5 +354,42 @@ export const useAdminStore = create<AdminState>((set, _get) => ({
     }
   },
 
+  importAssets: async (assets: ImportedAsset[], status: AssetStatus) => {
+    set({ isLoading: true, error: null });
+    try {
+      const { data, error } = await supabase.rpc('import_assets', {
+        p_assets: assets.map(normalizeAssetText),
+        p_status: status,
+      });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Import failed');
+
+      set({ isLoading: false });
+      await get().fetchAllAssets();
+      return data.inserted as number;
+    } catch (error) {
+      set({ error: (error as Error).message, isLoading: false });
+      return null;
+    }
+  },
+
+  importLessons: async (lessons: ImportedLesson[]) => {
+    set({ isLoading: true, error: null });
+    try {
+      const { data, error } = await supabase.rpc('import_lessons', { p_lessons: lessons });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Import failed');
+
+      set({ isLoading: false });
+      await get().fetchLessons();
+      return data.inserted as number;
+    } catch (error) {
+      set({ error: (error as Error).message, isLoading: false });
+      return null;
+    }
+  },
+
   clearError: () => set({ error: null }),
 }));
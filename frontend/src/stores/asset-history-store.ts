@@ -0,0 +1,69 @@
+import { create } from 'zustand';
+import { supabase } from '@/lib/supabase';
+import type { Asset, AssetRevision } from '@/types/database';
+
+export interface AssetRevisionWithAuthor extends AssetRevision {
+  author: { display_name: string | null } | null;
+}
+
+interface AssetHistoryState {
+  assetId: string | null;
+  revisions: AssetRevisionWithAuthor[];
+  isLoading: boolean;
+  rollingBackId: string | null;
+  error: string | null;
+
+  // Actions
+  fetchRevisions: (assetId: string) => Promise<void>;
+  rollbackRevision: (revisionId: string) => Promise<Asset | null>;
+  clearError: () => void;
+}
+
+export const useAssetHistoryStore = create<AssetHistoryState>((set, get) => ({
+  assetId: null,
+  revisions: [],
+  isLoading: false,
+  rollingBackId: null,
+  error: null,
+
+  fetchRevisions: async (assetId: string) => {
+    // Don't show another asset's history while this one loads
+    if (get().assetId !== assetId) set({ revisions: [] });
+    set({ assetId, isLoading: true, error: null });
+    try {
+      const { data, error } = await supabase
+        .from('asset_revisions')
+        .select('*, author:profiles(display_name)')
+        .eq('asset_id', assetId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      set({ revisions: (data || []) as AssetRevisionWithAuthor[], isLoading: false });
+    } catch (error) {
+      set({ error: (error as Error).message, isLoading: false });
+    }
+  },
+
+  rollbackRevision: async (revisionId: string) => {
+    set({ rollingBackId: revisionId, error: null });
+    try {
+      const { data, error } = await supabase.rpc('rollback_asset_revision', {
+        p_revision_id: revisionId,
+      });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Rollback failed');
+
+      const asset = data.asset as Asset;
+      set({ rollingBackId: null });
+      // The rollback is itself a revision; reload so it shows at the top
+      await get().fetchRevisions(asset.id);
+      return asset;
+    } catch (error) {
+      set({ error: (error as Error).message, rollingBackId: null });
+      return null;
+    }
+  },
+
+  clearError: () => set({ error: null }),
+}));
@@ -0,0 +1,71 @@
+import { create } from 'zustand';
+import { supabase } from '@/lib/supabase';
+import type { Audio, SpeakerProfile } from '@/types/database';
+
+export interface AssetClip extends Audio {
+  speaker: SpeakerProfile | null;
+  submitter: { display_name: string | null } | null;
+}
+
+interface AssetVoicesState {
+  assetId: string | null;
+  clips: AssetClip[];
+  isLoading: boolean;
+  settingPrimaryId: string | null;
+  error: string | null;
+
+  // Actions
+  fetchClips: (assetId: string) => Promise<void>;
+  setPrimaryClip: (clipId: string) => Promise<boolean>;
+  clearError: () => void;
+}
+
+export const useAssetVoicesStore = create<AssetVoicesState>((set, get) => ({
+  assetId: null,
+  clips: [],
+  isLoading: false,
+  settingPrimaryId: null,
+  error: null,
+
+  fetchClips: async (assetId: string) => {
+    // Don't show another asset's clips while this one loads
+    if (get().assetId !== assetId) set({ clips: [] });
+    set({ assetId, isLoading: true, error: null });
+    try {
+      const { data, error } = await supabase
+        .from('audio_submissions')
+        .select('*, speaker:speaker_profiles(*), submitter:profiles!audio_submissions_submitted_by_fkey(display_name)')
+        .eq('asset_id', assetId)
+        .order('is_primary', { ascending: false })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      set({ clips: (data || []) as AssetClip[], isLoading: false });
+    } catch (error) {
+      set({ error: (error as Error).message, isLoading: false });
+    }
+  },
+
+  setPrimaryClip: async (clipId: string) => {
+    set({ settingPrimaryId: clipId, error: null });
+    try {
+      const { data, error } = await supabase.rpc('set_primary_audio', {
+        p_submission_id: clipId,
+      });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Could not change the primary clip');
+
+      set(state => ({
+        clips: state.clips.map(clip => ({ ...clip, is_primary: clip.id === clipId })),
+        settingPrimaryId: null,
+      }));
+      return true;
+    } catch (error) {
+      set({ error: (error as Error).message, settingPrimaryId: null });
+      return false;
+    }
+  },
+
+  clearError: () => set({ error: null }),
+}));
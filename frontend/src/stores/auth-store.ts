@@ -25,6 +25,7 @@ interface AuthState {
     ageGroup: AgeGroup;
     learningStyle: LearningStyle;
     goals: string[];
+    dailyMinutes: number;
   }) => Promise<void>;
   clearError: () => void;
 }
@@ -302,6 +303,10 @@ export const useAuthStore = create<AuthState>()(
             age_group: data.ageGroup,
             learning_style: data.learningStyle,
             learning_goals: data.goals,
+            preferences: {
+              ...(get().profile?.preferences as Record<string, unknown> | null),
+              daily_minutes_goal: data.dailyMinutes,
+            },
             proficiency_level: 'beginner',
             onboarding_completed: true,
             updated_at: new Date().toISOString(),
@@ -1,5 +1,7 @@
 import { create } from 'zustand';
 import { supabase } from '@/lib/supabase';
+import { normalizeAssetText } from '@/lib/igbo-orthography';
+import { getAudioExtension } from '@/lib/audio-processing';
 import type { Asset, Audio } from '@/types/database';
 
 interface ContributionStats {
@@ -24,7 +26,8 @@ interface ContributorState {
   updateAsset: (id: string, updates: Partial<Asset>) => Promise<void>;
   deleteAsset: (id: string) => Promise<void>;
   submitForReview: (assetId: string) => Promise<void>;
-  uploadAudio: (file: Blob, assetId: string, userId: string) => Promise<string | null>;
+  uploadAudio: (file: Blob, assetId: string, userId: string, durationSeconds?: number, speakerId?: string | null) => Promise<string | null>;
+  uploadDialogueAudio: (file: Blob, assetId: string, turnId: string, userId: string) => Promise<string | null>;
   clearError: () => void;
 }
 
@@ -94,6 +97,8 @@ export const useContributorStore = create<ContributorState>((set, get) => ({
   createAsset: async (asset: Partial<Asset>) => {
     set({ isLoading: true, error: null });
     try {
+      // Store one spelling of each character so duplicates and search match
+      asset = normalizeAssetText(asset);
       console.log('Creating asset in Supabase:', asset);
       const { data, error } = await supabase
         .from('assets')
@@ -121,6 +126,7 @@ export const useContributorStore = create<ContributorState>((set, get) => ({
   updateAsset: async (id: string, updates: Partial<Asset>) => {
     set({ isLoading: true, error: null });
     try {
+      updates = normalizeAssetText(updates);
       const { error } = await supabase
         .from('assets')
         .update(updates as Record<string, unknown>)
@@ -163,9 +169,12 @@ export const useContributorStore = create<ContributorState>((set, get) => ({
     await updateAsset(assetId, { status: 'pending' });
   },
 
-  uploadAudio: async (file: Blob, assetId: string, userId: string) => {
+  uploadAudio: async (file: Blob, assetId: string, userId: string, durationSeconds?: number, speakerId?: string | null) => {
     try {
-      const fileName = `${userId}/${assetId}/${Date.now()}.webm`;
+      // Processed recordings are Opus (WebM or Ogg) or WAV; anything else is raw MediaRecorder webm
+      const extension = getAudioExtension(file.type);
+      const contentType = `audio/${extension}`;
+      const fileName = `${userId}/${assetId}/${Date.now()}.${extension}`;
       
       console.log('Uploading to storage:', fileName, 'Blob size:', file.size);
       
@@ -188,7 +197,7 @@ export const useContributorStore = create<ContributorState>((set, get) => ({
       const { data: uploadData, error: uploadError } = await supabase.storage
         .from('audio')
         .upload(fileName, file, {
-          contentType: 'audio/webm',
+          contentType,
           upsert: false,
         });
 
@@ -213,6 +222,8 @@ export const useContributorStore = create<ContributorState>((set, get) => ({
           asset_id: assetId,
           submitted_by: userId,
           audio_url: urlData.publicUrl,
+          duration_seconds: durationSeconds ?? null,
+          speaker_id: speakerId ?? null,
           status: 'pending',
         })
         .select()
@@ -233,5 +244,29 @@ export const useContributorStore = create<ContributorState>((set, get) => ({
     }
   },
 
+  // Turn audio belongs to the dialogue itself, so no audio_submissions row
+  uploadDialogueAudio: async (file: Blob, assetId: string, turnId: string, userId: string) => {
+    try {
+      const fileName = `${userId}/${assetId}/turns/${turnId}-${Date.now()}.webm`;
+      const { error: uploadError } = await supabase.storage
+        .from('audio')
+        .upload(fileName, file, {
+          contentType: 'audio/webm',
+          upsert: false,
+        });
+
+      if (uploadError) throw new Error(`Upload failed: ${uploadError.message}`);
+
+      const { data: urlData } = supabase.storage
+        .from('audio')
+        .getPublicUrl(fileName);
+
+      return urlData.publicUrl;
+    } catch (error) {
+      set({ error: (error as Error).message });
+      return null;
+    }
+  },
+
   clearError: () => set({ error: null }),
 }));
@@ -0,0 +1,176 @@
+import { create } from 'zustand';
+import { supabase } from '@/lib/supabase';
+import {
+  getDecks,
+  saveDecks,
+  removeDecks,
+  type OfflineDeck,
+  type OfflineWordContent,
+} from '@/lib/offline-db';
+import { useSyncStore } from '@/stores/sync-store';
+import type { Asset, Deck, DeckItem } from '@/types/database';
+
+type DeckRow = Deck & {
+  deck_items: (Pick<DeckItem, 'asset_id' | 'added_at'> & {
+    asset: Pick<Asset, 'igbo_text' | 'english_text' | 'audio_url'> | null;
+  })[];
+};
+
+interface DeckState {
+  decks: OfflineDeck[];
+  // Whose decks are loaded, so shared save buttons fetch only once
+  loadedUserId: string | null;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchDecks: (userId: string) => Promise<void>;
+  createDeck: (userId: string, name: string) => Promise<OfflineDeck | null>;
+  renameDeck: (deckId: string, name: string) => Promise<void>;
+  deleteDeck: (deckId: string) => Promise<void>;
+  addToDeck: (deckId: string, assetId: string, content: OfflineWordContent) => Promise<void>;
+  removeFromDeck: (deckId: string, assetId: string) => Promise<void>;
+  clearError: () => void;
+}
+
+// Decks the learner should see, alphabetically
+function visibleDecks(decks: OfflineDeck[]): OfflineDeck[] {
+  return decks
+    .filter(deck => !deck.deleted)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function deckFromRow(row: DeckRow): OfflineDeck {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    items: row.deck_items
+      .map(item => ({
+        assetId: item.asset_id,
+        addedAt: item.added_at,
+        content: item.asset
+          ? { igbo: item.asset.igbo_text, english: item.asset.english_text, audioUrl: item.asset.audio_url || '' }
+          : undefined,
+      }))
+      .sort((a, b) => a.addedAt.localeCompare(b.addedAt)),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    synced: true,
+  };
+}
+
+export const useDeckStore = create<DeckState>((set, get) => {
+  // Save a local edit and queue it for upload
+  const commit = async (deck: OfflineDeck) => {
+    // An edit gives a deck the server rejected another try
+    const updated = { ...deck, updatedAt: new Date().toISOString(), synced: false, failed: false, lastError: undefined };
+    await saveDecks([updated]);
+    set(state => ({
+      decks: visibleDecks([...state.decks.filter(d => d.id !== deck.id), updated]),
+    }));
+    useSyncStore.getState().syncNow(deck.userId);
+  };
+
+  const findDeck = (deckId: string) => {
+    const deck = get().decks.find(d => d.id === deckId);
+    if (!deck) set({ error: 'Deck not found' });
+    return deck;
+  };
+
+  return {
+    decks: [],
+    loadedUserId: null,
+    isLoading: false,
+    error: null,
+
+    fetchDecks: async (userId: string) => {
+      set({ isLoading: true, error: null });
+      try {
+        const localDecks = await getDecks(userId);
+        set({ decks: visibleDecks(localDecks), loadedUserId: userId });
+
+        if (navigator.onLine) {
+          const { data, error } = await supabase
+            .from('decks')
+            .select('*, deck_items(asset_id, added_at, asset:assets(igbo_text, english_text, audio_url))')
+            .eq('user_id', userId);
+
+          if (error) throw error;
+
+          const remoteDecks = ((data || []) as DeckRow[]).map(deckFromRow);
+          const remoteIds = new Set(remoteDecks.map(deck => deck.id));
+          const pending = localDecks.filter(deck => !deck.synced);
+          const pendingIds = new Set(pending.map(deck => deck.id));
+
+          // Edits made on this device win until they are uploaded; synced
+          // decks missing on the server were deleted on another device
+          const merged = [...pending, ...remoteDecks.filter(deck => !pendingIds.has(deck.id))];
+          const gone = localDecks
+            .filter(deck => deck.synced && !remoteIds.has(deck.id))
+            .map(deck => deck.id);
+
+          await removeDecks(gone);
+          await saveDecks(merged);
+          set({ decks: visibleDecks(merged) });
+        }
+
+        set({ isLoading: false });
+      } catch (error) {
+        set({ error: (error as Error).message, isLoading: false });
+      }
+    },
+
+    createDeck: async (userId: string, name: string) => {
+      const trimmed = name.trim();
+      if (!trimmed) {
+        set({ error: 'Give your deck a name' });
+        return null;
+      }
+
+      const now = new Date().toISOString();
+      const deck: OfflineDeck = {
+        id: crypto.randomUUID(),
+        userId,
+        name: trimmed,
+        items: [],
+        createdAt: now,
+        updatedAt: now,
+        synced: false,
+      };
+      await commit(deck);
+      return deck;
+    },
+
+    renameDeck: async (deckId: string, name: string) => {
+      const deck = findDeck(deckId);
+      if (!deck || !name.trim()) return;
+      await commit({ ...deck, name: name.trim() });
+    },
+
+    deleteDeck: async (deckId: string) => {
+      const deck = findDeck(deckId);
+      if (!deck) return;
+      await commit({ ...deck, deleted: true });
+    },
+
+    addToDeck: async (deckId: string, assetId: string, content: OfflineWordContent) => {
+      const deck = findDeck(deckId);
+      if (!deck || deck.items.some(item => item.assetId === assetId)) return;
+      // Audio from a downloaded pack is a blob URL that dies with the page
+      const audioUrl = content.audioUrl.startsWith('blob:') ? '' : content.audioUrl;
+      await commit({
+        ...deck,
+        items: [...deck.items, { assetId, addedAt: new Date().toISOString(), content: { ...content, audioUrl } }],
+      });
+    },
+
+    removeFromDeck: async (deckId: string, assetId: string) => {
+      const deck = findDeck(deckId);
+      if (!deck) return;
+      await commit({ ...deck, items: deck.items.filter(item => item.assetId !== assetId) });
+    },
+
+    clearError: () => set({ error: null }),
+  };
+});
@@ -0,0 +1,132 @@
+import { create } from 'zustand';
+import { supabase } from '@/lib/supabase';
+import { compareIgboKeys, igboSortKey, normalizeIgbo, stripTones } from '@/lib/igbo-orthography';
+import type { SpeakerSummary } from '@/lib/speakers';
+import type { Asset, AssetType, Audio } from '@/types/database';
+
+// Types listed as dictionary entries; longer texts show up as examples
+export const DICTIONARY_ENTRY_TYPES: AssetType[] = ['word', 'phrase', 'greeting'];
+const EXAMPLE_TYPES: AssetType[] = ['sentence', 'proverb', 'dialogue'];
+// Entries load in pages so the server's row cap never cuts the list short
+const ENTRY_PAGE_SIZE = 500;
+
+export interface DictionaryRecording extends Audio {
+  speaker: SpeakerSummary | null;
+  // Older recordings have no speaker profile; credit whoever uploaded them
+  submitter: { display_name: string | null } | null;
+}
+
+export interface DictionaryEntry {
+  asset: Asset;
+  recordings: DictionaryRecording[];
+  examples: Asset[];
+}
+
+interface DictionaryState {
+  entries: Asset[];
+  entry: DictionaryEntry | null;
+  isLoading: boolean;
+  isLoadingEntry: boolean;
+  error: string | null;
+
+  // Actions
+  fetchEntries: () => Promise<void>;
+  fetchEntry: (assetId: string) => Promise<void>;
+  clearError: () => void;
+}
+
+export const useDictionaryStore = create<DictionaryState>((set, get) => ({
+  entries: [],
+  entry: null,
+  isLoading: false,
+  isLoadingEntry: false,
+  error: null,
+
+  fetchEntries: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const assets: Asset[] = [];
+      for (let from = 0; ; from += ENTRY_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('assets')
+          .select('*')
+          .eq('status', 'approved')
+          .in('type', DICTIONARY_ENTRY_TYPES)
+          .order('id', { ascending: true })
+          .range(from, from + ENTRY_PAGE_SIZE - 1);
+
+        if (error) throw error;
+        assets.push(...((data || []) as Asset[]));
+        if (!data || data.length < ENTRY_PAGE_SIZE) break;
+      }
+
+      // Igbo alphabetical order, which the database collation doesn't know
+      const entries = assets
+        .map(asset => ({ asset, key: igboSortKey(asset.igbo_text) }))
+        .sort((a, b) => compareIgboKeys(a.key, b.key) || a.asset.igbo_text.localeCompare(b.asset.igbo_text))
+        .map(({ asset }) => asset);
+
+      set({ entries, isLoading: false });
+    } catch (error) {
+      set({ error: (error as Error).message, isLoading: false });
+    }
+  },
+
+  fetchEntry: async (assetId: string) => {
+    // Don't flash the previous word while this one loads
+    if (get().entry?.asset.id !== assetId) set({ entry: null });
+    set({ isLoadingEntry: true, error: null });
+    try {
+      const { data: asset, error } = await supabase
+        .from('assets')
+        .select('*')
+        .eq('id', assetId)
+        .eq('status', 'approved')
+        .single();
+
+      if (error) throw error;
+
+      const word = normalizeIgbo(asset.igbo_text);
+      // Tags are typed by hand, so try the usual spellings of the word
+      const tagVariants = Array.from(new Set([
+        word,
+        word.toLowerCase(),
+        stripTones(word).toLowerCase(),
+      ]));
+
+      const [recordingsResult, examplesResult] = await Promise.all([
+        supabase
+          .from('audio_submissions')
+          .select('*, speaker:public_speakers(display_name, age_group, gender, village), submitter:profiles!audio_submissions_submitted_by_fkey(display_name)')
+          .eq('asset_id', assetId)
+          .eq('status', 'approved')
+          .order('is_primary', { ascending: false })
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('assets')
+          .select('*')
+          .eq('status', 'approved')
+          .in('type', EXAMPLE_TYPES)
+          .overlaps('tags', tagVariants)
+          .order('type', { ascending: true })
+          .limit(20),
+      ]);
+
+      if (recordingsResult.error) throw recordingsResult.error;
+      if (examplesResult.error) throw examplesResult.error;
+
+      set({
+        entry: {
+          asset: asset as Asset,
+          recordings: (recordingsResult.data || []) as DictionaryRecording[],
+          examples: (examplesResult.data || []) as Asset[],
+        },
+        isLoadingEntry: false,
+      });
+    } catch (error) {
+      set({ error: (error as Error).message, isLoadingEntry: false });
+    }
+  },
+
+  clearError: () => set({ error: null }),
+}));
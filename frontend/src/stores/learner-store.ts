@@ -1,8 +1,38 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { Lesson, Asset, Progress } from '@/types/database';
+import type { Lesson, Asset, Progress, ReviewCard, Json, ProgressSummary, CompleteLessonResult, StreakStatus, StreakDay, DailyPlanRow } from '@/types/database';
 import { supabase } from '@/lib/supabase';
-import { queueAttempt, getUnsyncedAttempts, markAttemptsSynced } from '@/lib/offline-db';
+import { callRpc } from '@/lib/rpc';
+import {
+  queueAttempt,
+  getReviewCards,
+  saveReviewCards,
+  markReviewCardsSynced,
+  openLessonPack,
+  releasePackAudio,
+  type OfflineReviewCard,
+} from '@/lib/offline-db';
+import { buildCards, createCard, getDueCards, newerCard, scheduleReview, type CardState, type ReviewOutcome } from '@/lib/review-scheduler';
+import { reviewCardToRow } from '@/lib/sync-engine';
+import { isLessonUnlocked } from '@/lib/lesson-graph';
+import type { QuizAnswer } from '@/lib/lesson-quiz';
+import {
+  buildDailyPlan,
+  DEFAULT_DAILY_MINUTES,
+  getDailyMinutesGoal,
+  getPlanMinutes,
+  parsePlanItems,
+  toLocalDateKey,
+  WEAK_ACCURACY_THRESHOLD,
+  WEAK_MIN_ATTEMPTS,
+  type DailyPlan,
+  type DailyPlanItem,
+  type DailyPlanItemType,
+  type PlanLesson,
+  type WeakAsset,
+} from '@/lib/daily-plan';
+import { useSyncStore } from '@/stores/sync-store';
+import { useAuthStore } from '@/stores/auth-store';
 
 interface LessonWithProgress extends Lesson {
   progress?: number; // 0-100 percentage
@@ -11,8 +41,8 @@ interface LessonWithProgress extends Lesson {
 }
 
 interface LearnerState {
-  // Daily plan
-  todaysPlan: LessonWithProgress[];
+  // Daily plan, generated once per local day
+  dailyPlan: DailyPlan | null;
   currentLesson: Lesson | null;
   currentAssets: Asset[];
   currentStepIndex: number;
@@ -23,8 +53,15 @@ interface LearnerState {
   // Progress
   progressMap: Record<string, Progress>; // lessonId -> Progress
   streak: number;
-  lastActiveDate: string | null;
-  dailyGoal: { completed: number; total: number };
+  streakStatus: StreakStatus | null;
+  streakDays: StreakDay[];
+  dailyGoal: { completed: number; total: number }; // minutes
+
+  // Spaced repetition - cards due now across all lessons
+  dueReviews: OfflineReviewCard[];
+
+  // Server-side aggregate for the progress screen
+  progressSummary: ProgressSummary | null;
   
   // Loading states
   isLoading: boolean;
@@ -33,6 +70,7 @@ interface LearnerState {
 
   // Actions
   fetchTodaysPlan: (userId: string, level?: string) => Promise<void>;
+  completePlanItem: (userId: string, type: DailyPlanItemType, lessonId?: string) => Promise<void>;
   fetchContinueLesson: (userId: string) => Promise<void>;
   startLesson: (lessonId: string) => Promise<void>;
   completeStep: () => void;
@@ -43,106 +81,252 @@ interface LearnerState {
     mode: 'speak' | 'read' | 'write' | 'listen';
     score: number;
     metadata?: Record<string, unknown>;
+    feedback?: Json;
+    userAudioUrl?: string;
   }) => Promise<void>;
+  uploadAttemptAudio: (file: Blob, userId: string, assetId: string) => Promise<string | null>;
   fetchAllProgress: (userId: string) => Promise<void>;
+  fetchProgressSummary: () => Promise<void>;
+  completeLessonPractice: (userId: string, lessonId: string) => Promise<CompleteLessonResult | null>;
+  testOutOfLessons: (lessonIds: string[], answers: QuizAnswer[]) => Promise<boolean>;
+  applyPlacement: (userId: string, answers: QuizAnswer[]) => Promise<boolean>;
   syncOfflineAttempts: (userId: string) => Promise<void>;
-  updateStreak: (userId: string) => Promise<void>;
+  fetchStreakStatus: () => Promise<void>;
+  fetchStreakDays: (userId: string, from: string, to: string) => Promise<void>;
+  purchaseStreakFreeze: () => Promise<boolean>;
+  fetchDueReviews: (userId: string) => Promise<void>;
+  reviewAsset: (userId: string, outcome: ReviewOutcome, content?: OfflineReviewCard['content']) => Promise<void>;
+  addToReview: (userId: string, asset: Pick<Asset, 'id' | 'igbo_text' | 'english_text' | 'audio_url'>) => Promise<boolean>;
+}
+
+// Map a server review card row to scheduler state
+function cardFromRow(row: ReviewCard): CardState {
+  return {
+    assetId: row.asset_id,
+    easeFactor: Number(row.ease_factor),
+    intervalDays: row.interval_days,
+    repetitions: row.repetitions,
+    lapses: row.lapses,
+    dueAt: row.due_at,
+    lastReviewedAt: row.last_reviewed_at,
+  };
+}
+
+function planFromRow(row: DailyPlanRow): DailyPlan {
+  return {
+    userId: row.user_id,
+    date: row.plan_date,
+    minutesGoal: row.minutes_goal,
+    items: parsePlanItems(row.items),
+    generatedAt: row.created_at,
+  };
+}
+
+function planToRow(userId: string, plan: DailyPlan) {
+  return {
+    user_id: userId,
+    plan_date: plan.date,
+    minutes_goal: plan.minutesGoal,
+    items: plan.items,
+  };
+}
+
+function goalFromPlan(plan: DailyPlan): { completed: number; total: number } {
+  return { completed: getPlanMinutes(plan).completed, total: plan.minutesGoal };
+}
+
+// Per-asset accuracy from recent attempts; only assets missed more often than not
+function findWeakAssets(attempts: { asset_id: string; is_correct: boolean | null; score: number | null }[]): WeakAsset[] {
+  const totals: Record<string, { attempts: number; correct: number }> = {};
+  attempts.forEach(attempt => {
+    const entry = totals[attempt.asset_id] || (totals[attempt.asset_id] = { attempts: 0, correct: 0 });
+    entry.attempts++;
+    if (attempt.is_correct || (attempt.score !== null && Number(attempt.score) >= 70)) entry.correct++;
+  });
+
+  return Object.entries(totals)
+    .map(([assetId, { attempts: count, correct }]) => ({
+      assetId,
+      attempts: count,
+      accuracy: Math.round((correct / count) * 100),
+    }))
+    .filter(asset => asset.attempts >= WEAK_MIN_ATTEMPTS && asset.accuracy < WEAK_ACCURACY_THRESHOLD);
 }
 
+// How many recent attempts to scan for weak words
+const WEAK_ATTEMPT_WINDOW = 500;
+// Asset ids per request when filling in review card words; keeps the URL short
+const CONTENT_BATCH_SIZE = 100;
+
 export const useLearnerStore = create<LearnerState>()(
   persist(
     (set, get) => ({
-      todaysPlan: [],
+      dailyPlan: null,
       currentLesson: null,
       currentAssets: [],
       currentStepIndex: 0,
       continueLesson: null,
       progressMap: {},
       streak: 0,
-      lastActiveDate: null,
-      dailyGoal: { completed: 0, total: 5 },
+      streakStatus: null,
+      streakDays: [],
+      dailyGoal: { completed: 0, total: DEFAULT_DAILY_MINUTES },
+      dueReviews: [],
+      progressSummary: null,
       isLoading: false,
       isSyncing: false,
       error: null,
 
       fetchTodaysPlan: async (userId, level) => {
+        const today = toLocalDateKey();
+        const minutesGoal = getDailyMinutesGoal(useAuthStore.getState().profile?.preferences ?? null);
+        // A plan left by another account on this device is never reused
+        const cached = get().dailyPlan?.userId === userId ? get().dailyPlan : null;
+
+        // Same day and goal: keep the plan so it doesn't reshuffle
+        if (cached?.date === today && cached.minutesGoal === minutesGoal) {
+          set({ dailyGoal: goalFromPlan(cached) });
+          return;
+        }
+
+        if (!navigator.onLine) {
+          // Yesterday's plan is no use offline; nothing new can be generated
+          if (!cached || cached.date !== today) {
+            set({ dailyPlan: null, dailyGoal: { completed: 0, total: minutesGoal } });
+          }
+          return;
+        }
+
         try {
           set({ isLoading: true, error: null });
-          
-          // Fetch published lessons, optionally filtered by difficulty
-          let query = supabase
+
+          // Another device may have generated today's plan already
+          const { data: savedRow, error: savedError } = await supabase
+            .from('daily_plans')
+            .select('*')
+            .eq('user_id', userId)
+            .eq('plan_date', today)
+            .maybeSingle();
+
+          if (savedError) throw savedError;
+
+          const saved = savedRow ? planFromRow(savedRow as DailyPlanRow) : null;
+          if (saved && saved.minutesGoal === minutesGoal) {
+            set({ dailyPlan: saved, dailyGoal: goalFromPlan(saved), isLoading: false });
+            return;
+          }
+
+          const { data: lessons, error: lessonsError } = await supabase
             .from('lessons')
             .select('*')
             .eq('is_published', true)
-            .order('order_index', { ascending: true })
-            .limit(5);
-          
-          if (level) {
-            query = query.eq('difficulty', level);
-          }
+            .order('order_index', { ascending: true });
 
-          const { data: lessons, error } = await query;
+          if (lessonsError) throw lessonsError;
 
-          if (error) throw error;
-          
-          // Fetch user's progress for these lessons
-          const lessonIds = (lessons || []).map(l => l.id);
           const { data: progressData } = await supabase
             .from('progress')
             .select('*')
-            .eq('user_id', userId)
-            .in('lesson_id', lessonIds);
-          
-          // Create progress map
+            .eq('user_id', userId);
+
           const progressByLesson: Record<string, Progress> = {};
           (progressData || []).forEach(p => {
             progressByLesson[p.lesson_id] = p as Progress;
           });
 
-          // Fetch asset counts for each lesson
-          const { data: assetCounts } = await supabase
+          const { data: assetRows } = await supabase
             .from('assets')
             .select('lesson_id')
             .eq('status', 'approved')
-            .in('lesson_id', lessonIds);
-          
+            .not('lesson_id', 'is', null);
+
           const countByLesson: Record<string, number> = {};
-          (assetCounts || []).forEach(a => {
+          (assetRows || []).forEach(a => {
             countByLesson[a.lesson_id] = (countByLesson[a.lesson_id] || 0) + 1;
           });
 
-          // Combine lessons with progress
-          const lessonsWithProgress: LessonWithProgress[] = (lessons || []).map(lesson => {
+          const planLessons: PlanLesson[] = ((lessons || []) as Lesson[]).map(lesson => {
             const prog = progressByLesson[lesson.id];
             const assetCount = countByLesson[lesson.id] || 0;
             const completedAssets = prog?.completed_assets?.length || 0;
-            const progress = assetCount > 0 ? Math.round((completedAssets / assetCount) * 100) : 0;
-            
             return {
-              ...lesson,
-              progress,
-              assetCount,
-              completedAssets,
-            } as LessonWithProgress;
+              lesson,
+              progress: assetCount > 0 ? Math.min(100, Math.round((completedAssets / assetCount) * 100)) : 0,
+              isCompleted: !!prog?.is_completed,
+            };
           });
 
-          // Calculate daily goal
-          const completedToday = lessonsWithProgress.filter(l => l.progress === 100).length;
-          
-          set({ 
-            todaysPlan: lessonsWithProgress, 
+          await get().fetchDueReviews(userId);
+
+          const { data: recentAttempts } = await supabase
+            .from('attempts')
+            .select('asset_id, is_correct, score')
+            .eq('user_id', userId)
+            .order('created_at', { ascending: false })
+            .limit(WEAK_ATTEMPT_WINDOW);
+
+          const plan = buildDailyPlan({
+            userId,
+            date: today,
+            minutesGoal,
+            dueReviewCount: get().dueReviews.length,
+            lessons: planLessons,
+            weakAssets: findWeakAssets(recentAttempts || []),
+            level,
+          });
+
+          // The goal changed mid-day: keep credit for what's already done
+          const previous = saved || (cached?.date === today ? cached : null);
+          if (previous) {
+            plan.items = plan.items.map(item => ({
+              ...item,
+              completed: previous.items.some(p => p.id === item.id && p.completed),
+            }));
+          }
+
+          const { error: saveError } = await supabase
+            .from('daily_plans')
+            .upsert(planToRow(userId, plan) as Record<string, unknown>, { onConflict: 'user_id,plan_date' });
+
+          if (saveError) console.error('Error saving daily plan:', saveError);
+
+          set({
+            dailyPlan: plan,
             progressMap: progressByLesson,
-            dailyGoal: { completed: completedToday, total: 5 },
-            isLoading: false 
+            dailyGoal: goalFromPlan(plan),
+            isLoading: false,
           });
         } catch (error) {
           set({ 
-            error: error instanceof Error ? error.message : 'Failed to fetch lessons',
+            error: error instanceof Error ? error.message : 'Failed to build your daily plan',
             isLoading: false 
           });
         }
       },
 
+      completePlanItem: async (userId, type, lessonId) => {
+        const plan = get().dailyPlan;
+        if (!plan || plan.userId !== userId || plan.date !== toLocalDateKey()) return;
+
+        const matches = (item: DailyPlanItem) =>
+          item.type === type && !item.completed && (!lessonId || item.lessonId === lessonId);
+        if (!plan.items.some(matches)) return;
+
+        const updated: DailyPlan = {
+          ...plan,
+          items: plan.items.map(item => matches(item) ? { ...item, completed: true } : item),
+        };
+        set({ dailyPlan: updated, dailyGoal: goalFromPlan(updated) });
+
+        try {
+          await supabase
+            .from('daily_plans')
+            .upsert(planToRow(userId, updated) as Record<string, unknown>, { onConflict: 'user_id,plan_date' });
+        } catch {
+          // Saved with the next change; the local copy is persisted
+        }
+      },
+
       fetchContinueLesson: async (userId) => {
         try {
           // First, get all published lessons ordered by index
@@ -179,8 +363,11 @@ export const useLearnerStore = create<LearnerState>()(
               .map(p => p.lesson_id)
           );
 
-          // Find the first lesson that is NOT completed
-          const nextLesson = allLessons.find(lesson => !completedLessonIds.has(lesson.id));
+          // Find the first unlocked lesson that is NOT completed
+          const courseLessons = allLessons as Lesson[];
+          const nextLesson = courseLessons.find(lesson =>
+            !completedLessonIds.has(lesson.id) && isLessonUnlocked(lesson, courseLessons, completedLessonIds)
+          );
 
           if (nextLesson) {
             // Get asset count for this lesson
@@ -229,7 +416,22 @@ export const useLearnerStore = create<LearnerState>()(
 
       startLesson: async (lessonId) => {
         try {
+          // The previous lesson's pack audio is no longer needed
+          releasePackAudio(get().currentAssets);
           set({ isLoading: true, error: null });
+
+          // Offline: run the lesson from its downloaded pack
+          if (!navigator.onLine) {
+            const pack = await openLessonPack(lessonId);
+            if (!pack) throw new Error('This lesson is not downloaded for offline use');
+            set({
+              currentLesson: pack.lesson,
+              currentAssets: pack.assets,
+              currentStepIndex: 0,
+              isLoading: false,
+            });
+            return;
+          }
           
           // Fetch lesson and its assets
           const { data: lesson, error: lessonError } = await supabase
@@ -273,34 +475,39 @@ export const useLearnerStore = create<LearnerState>()(
       },
 
       recordAttempt: async (data) => {
-        const attemptId = crypto.randomUUID();
-        const attemptData = {
-          id: attemptId,
+        // Always queue locally first (offline-first); the sync engine maps
+        // the queued shape to an `attempts` row and uploads it
+        await queueAttempt({
+          id: crypto.randomUUID(),
           ...data,
           createdAt: new Date().toISOString(),
-        };
+        });
 
-        // Always queue locally first (offline-first)
-        await queueAttempt(attemptData);
+        useSyncStore.getState().syncNow(data.userId);
+      },
 
-        // Try to sync immediately if online
-        if (navigator.onLine) {
-          try {
-            const insertData = {
-              id: attemptId,
-              user_id: data.userId,
-              asset_id: data.assetId,
-              lesson_id: data.lessonId,
-              mode: data.mode,
-              score: data.score,
-              metadata: data.metadata,
-            };
-            await supabase.from('attempts').insert(insertData as Record<string, unknown>);
-            await markAttemptsSynced([attemptId]);
-          } catch {
-            // Will sync later
-            console.log('Attempt queued for later sync');
-          }
+      uploadAttemptAudio: async (file, userId, assetId) => {
+        try {
+          // Stored under the learner's own folder so storage policies allow it
+          const fileName = `${userId}/attempts/${assetId}/${Date.now()}.webm`;
+
+          const { error: uploadError } = await supabase.storage
+            .from('audio')
+            .upload(fileName, file, {
+              contentType: 'audio/webm',
+              upsert: false,
+            });
+
+          if (uploadError) throw uploadError;
+
+          const { data: urlData } = supabase.storage
+            .from('audio')
+            .getPublicUrl(fileName);
+
+          return urlData.publicUrl;
+        } catch (error) {
+          console.error('Error uploading attempt audio:', error);
+          return null;
         }
       },
 
@@ -329,75 +536,338 @@ export const useLearnerStore = create<LearnerState>()(
         }
       },
 
+      fetchProgressSummary: async () => {
+        try {
+          set({ isLoading: true, error: null });
+
+          const progressSummary = await callRpc(
+            'get_progress_summary',
+            { p_timezone: Intl.DateTimeFormat().resolvedOptions().timeZone },
+            'Failed to fetch progress'
+          );
+
+          set({ progressSummary, isLoading: false });
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : 'Failed to fetch progress',
+            isLoading: false,
+          });
+        }
+      },
+
+      completeLessonPractice: async (userId, lessonId) => {
+        // Progress is aggregated from attempts on the server, so push the
+        // queue first; offline, the trigger catches up when sync runs
+        await get().syncOfflineAttempts(userId);
+        if (!navigator.onLine) return null;
+
+        try {
+          const result = await callRpc(
+            'complete_lesson_practice',
+            { p_lesson_id: lessonId },
+            'Failed to save progress'
+          );
+
+          const progress = result.progress;
+          if (progress) {
+            set(state => ({
+              progressMap: { ...state.progressMap, [lessonId]: progress },
+            }));
+          }
+          return result;
+        } catch (error) {
+          console.error('Error completing lesson:', error);
+          return null;
+        }
+      },
+
+      testOutOfLessons: async (lessonIds, answers) => {
+        try {
+          set({ error: null });
+
+          await callRpc(
+            'test_out_lessons',
+            { p_lesson_ids: lessonIds, p_answers: answers },
+            'Failed to unlock lessons'
+          );
+
+          // Reflect the unlock right away; the next fetch returns the real rows
+          const completedAt = new Date().toISOString();
+          set(state => {
+            const progressMap = { ...state.progressMap };
+            lessonIds.forEach(lessonId => {
+              progressMap[lessonId] = {
+                ...progressMap[lessonId],
+                lesson_id: lessonId,
+                is_completed: true,
+                tested_out: true,
+                completed_at: progressMap[lessonId]?.completed_at || completedAt,
+              } as Progress;
+            });
+            return { progressMap };
+          });
+          return true;
+        } catch (error) {
+          set({ error: error instanceof Error ? error.message : 'Failed to unlock lessons' });
+          return false;
+        }
+      },
+
+      applyPlacement: async (userId, answers) => {
+        try {
+          set({ error: null });
+
+          // The server grades the answers and decides the level
+          const { proficiency_level: level, score } = await callRpc(
+            'apply_placement',
+            { p_answers: answers },
+            'Failed to save placement'
+          );
+
+          useAuthStore.setState(state => ({
+            profile: state.profile
+              ? {
+                  ...state.profile,
+                  proficiency_level: level,
+                  preferences: {
+                    ...(state.profile.preferences as Record<string, Json> | null),
+                    placement: { level, score, taken_at: new Date().toISOString() },
+                  },
+                }
+              : null,
+          }));
+
+          // Lessons below the new level are now complete
+          await get().fetchAllProgress(userId);
+          return true;
+        } catch (error) {
+          set({ error: error instanceof Error ? error.message : 'Failed to save placement' });
+          return false;
+        }
+      },
+
       syncOfflineAttempts: async (userId) => {
-        if (!navigator.onLine) return;
-        
         set({ isSyncing: true });
-        
+        await useSyncStore.getState().syncNow(userId);
+        set({ isSyncing: false });
+      },
+
+      fetchStreakStatus: async () => {
+        if (!navigator.onLine) return;
+
         try {
-          const unsynced = await getUnsyncedAttempts();
-          
-          if (unsynced.length === 0) {
-            set({ isSyncing: false });
-            return;
-          }
+          // Streaks are computed server-side on the learner's local calendar;
+          // the device timezone is stored so practice synced later counts too
+          const streakStatus = await callRpc(
+            'get_streak_status',
+            { p_timezone: Intl.DateTimeFormat().resolvedOptions().timeZone },
+            'Failed to fetch streak'
+          );
+          set({ streakStatus, streak: streakStatus.streak_count });
+        } catch (error) {
+          // Keep showing the last known streak
+          console.error('Error fetching streak:', error);
+        }
+      },
+
+      fetchStreakDays: async (userId, from, to) => {
+        try {
+          const { data, error } = await supabase
+            .from('streak_days')
+            .select('*')
+            .eq('user_id', userId)
+            .gte('day', from)
+            .lte('day', to)
+            .order('day', { ascending: true });
+
+          if (error) throw error;
+
+          set({ streakDays: (data || []) as StreakDay[] });
+        } catch (error) {
+          console.error('Error fetching streak history:', error);
+        }
+      },
+
+      purchaseStreakFreeze: async () => {
+        try {
+          set({ error: null });
 
-          const toInsert = unsynced.map(a => ({
-            id: a.id,
-            user_id: userId,
-            asset_id: a.assetId,
-            lesson_id: a.lessonId,
-            mode: a.mode,
-            score: a.score,
-            metadata: a.metadata,
-            created_at: a.createdAt,
+          const { streak_freezes, total_xp } = await callRpc('purchase_streak_freeze', {}, 'Failed to buy streak freeze');
+          set(state => ({
+            streakStatus: state.streakStatus ? { ...state.streakStatus, streak_freezes } : null,
+            progressSummary: state.progressSummary ? { ...state.progressSummary, total_xp } : null,
           }));
+          useAuthStore.setState(state => ({
+            profile: state.profile ? { ...state.profile, streak_freezes, total_xp } : null,
+          }));
+          return true;
+        } catch (error) {
+          set({ error: error instanceof Error ? error.message : 'Failed to buy streak freeze' });
+          return false;
+        }
+      },
 
-          const { error } = await supabase.from('attempts').upsert(toInsert as Record<string, unknown>[]);
-          
-          if (!error) {
-            await markAttemptsSynced(unsynced.map(a => a.id));
+      fetchDueReviews: async (userId) => {
+        try {
+          const localCards = await getReviewCards(userId);
+          const byAsset: Record<string, OfflineReviewCard> = {};
+          localCards.forEach(card => {
+            byAsset[card.assetId] = card;
+          });
+
+          if (navigator.onLine) {
+            const { data: remoteCards, error } = await supabase
+              .from('review_cards')
+              .select('*')
+              .eq('user_id', userId);
+
+            if (error) throw error;
+
+            // First run for this learner: seed cards from their attempt history
+            if ((remoteCards || []).length === 0 && localCards.length === 0) {
+              const { data: attempts } = await supabase
+                .from('attempts')
+                .select('asset_id, is_correct, score, created_at')
+                .eq('user_id', userId);
+
+              const seeded = buildCards((attempts || []).map(a => ({
+                assetId: a.asset_id,
+                isCorrect: a.is_correct,
+                score: a.score !== null ? Number(a.score) : null,
+                reviewedAt: a.created_at,
+              })));
+              Object.values(seeded).forEach(card => {
+                byAsset[card.assetId] = { ...card, id: `${userId}:${card.assetId}`, userId, synced: false };
+              });
+            }
+
+            // Keep whichever copy was reviewed most recently
+            ((remoteCards || []) as ReviewCard[]).forEach(row => {
+              const local = byAsset[row.asset_id];
+              const remote = cardFromRow(row);
+              if (newerCard(local, remote) === remote) {
+                byAsset[row.asset_id] = {
+                  ...remote,
+                  id: `${userId}:${row.asset_id}`,
+                  userId,
+                  content: local?.content,
+                  synced: true,
+                };
+              }
+            });
+
+            // Seeded cards and cards from another device carry no words yet;
+            // fill them in so they can be reviewed offline
+            const missing = Object.values(byAsset).filter(card => !card.content).map(card => card.assetId);
+            for (let i = 0; i < missing.length; i += CONTENT_BATCH_SIZE) {
+              const { data: assets } = await supabase
+                .from('assets')
+                .select('id, igbo_text, english_text, audio_url')
+                .in('id', missing.slice(i, i + CONTENT_BATCH_SIZE));
+
+              ((assets || []) as Pick<Asset, 'id' | 'igbo_text' | 'english_text' | 'audio_url'>[]).forEach(asset => {
+                byAsset[asset.id] = {
+                  ...byAsset[asset.id],
+                  content: { igbo: asset.igbo_text, english: asset.english_text, audioUrl: asset.audio_url || '' },
+                };
+              });
+            }
+
+            await saveReviewCards(Object.values(byAsset));
           }
-          
-          set({ isSyncing: false });
-        } catch {
-          set({ isSyncing: false });
+
+          set({ dueReviews: getDueCards(Object.values(byAsset)) });
+        } catch (error) {
+          console.error('Error fetching due reviews:', error);
         }
       },
 
-      updateStreak: async (userId) => {
-        const today = new Date().toISOString().split('T')[0];
-        const { lastActiveDate, streak } = get();
-        
-        if (lastActiveDate === today) return;
+      reviewAsset: async (userId, outcome, content) => {
+        const cardId = `${userId}:${outcome.assetId}`;
+        const existing = (await getReviewCards(userId)).find(c => c.id === cardId);
+        const card: OfflineReviewCard = {
+          ...scheduleReview(existing, outcome),
+          id: cardId,
+          userId,
+          content: content ?? existing?.content,
+          synced: false,
+          failed: false,
+          lastError: undefined,
+        };
 
-        const yesterday = new Date();
-        yesterday.setDate(yesterday.getDate() - 1);
-        const yesterdayStr = yesterday.toISOString().split('T')[0];
+        // Always save locally first (offline-first)
+        await saveReviewCards([card]);
 
-        const newStreak = lastActiveDate === yesterdayStr ? streak + 1 : 1;
+        set(state => ({
+          dueReviews: getDueCards([...state.dueReviews.filter(c => c.id !== cardId), card]),
+        }));
 
-        try {
-          const updateData = { 
-            streak_count: newStreak,
-            last_active_at: new Date().toISOString(),
-          };
-          await supabase
-            .from('profiles')
-            .update(updateData as Record<string, unknown>)
-            .eq('id', userId);
+        if (navigator.onLine) {
+          try {
+            const { error } = await supabase
+              .from('review_cards')
+              .upsert(reviewCardToRow(card), { onConflict: 'user_id,asset_id' });
+            if (!error) {
+              await markReviewCardsSynced([card]);
+            }
+          } catch {
+            // Will sync later
+            console.log('Review card queued for later sync');
+          }
+        }
+      },
 
-          set({ streak: newStreak, lastActiveDate: today });
-        } catch {
-          // Silent fail, will retry
+      // Put an asset in the learner's review deck, due now. Returns false if
+      // it was already there so its schedule isn't reset.
+      addToReview: async (userId, asset) => {
+        const cardId = `${userId}:${asset.id}`;
+        const existing = (await getReviewCards(userId)).find(c => c.id === cardId);
+        if (existing) return false;
+
+        // It may have been added on another device
+        if (navigator.onLine) {
+          const { data: remote } = await supabase
+            .from('review_cards')
+            .select('asset_id')
+            .eq('user_id', userId)
+            .eq('asset_id', asset.id)
+            .maybeSingle();
+          if (remote) return false;
+        }
+
+        const card: OfflineReviewCard = {
+          ...createCard(asset.id),
+          id: cardId,
+          userId,
+          content: { igbo: asset.igbo_text, english: asset.english_text, audioUrl: asset.audio_url || '' },
+          synced: false,
+        };
+
+        await saveReviewCards([card]);
+        set(state => ({
+          dueReviews: getDueCards([...state.dueReviews.filter(c => c.id !== cardId), card]),
+        }));
+
+        if (navigator.onLine) {
+          try {
+            const { error } = await supabase
+              .from('review_cards')
+              .upsert(reviewCardToRow(card), { onConflict: 'user_id,asset_id' });
+            if (!error) {
+              await markReviewCardsSynced([card]);
+            }
+          } catch {
+            console.log('Review card queued for later sync');
+          }
         }
+        return true;
       },
     }),
     {
       name: 'asusu-ohafia-learner',
       partialize: (state) => ({
         streak: state.streak,
-        lastActiveDate: state.lastActiveDate,
+        dailyPlan: state.dailyPlan,
       }),
     }
   )
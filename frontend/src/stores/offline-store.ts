@@ -0,0 +1,218 @@
+import { create } from 'zustand';
+import { supabase } from '@/lib/supabase';
+import {
+  saveLessonPack,
+  getAllLessonPacks,
+  deleteLessonPack,
+  cacheAudio,
+  LESSON_PACK_VERSION,
+  type StoredLessonPack,
+} from '@/lib/offline-db';
+import type { Asset, Audio, Lesson } from '@/types/database';
+
+type AssetWithAudio = Asset & { audio_submissions?: Pick<Audio, 'audio_url' | 'status' | 'is_primary'>[] };
+
+interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+interface OfflineState {
+  packs: Record<string, StoredLessonPack>; // lessonId -> pack
+  updatesAvailable: Record<string, boolean>; // lessonId -> newer content on server
+  downloading: Record<string, number>; // lessonId -> 0-100 progress
+  storageEstimate: StorageEstimate | null;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadPacks: () => Promise<void>;
+  downloadLessonPack: (lessonId: string) => Promise<void>;
+  removeLessonPack: (lessonId: string) => Promise<void>;
+  checkForUpdates: () => Promise<void>;
+  fetchStorageEstimate: () => Promise<void>;
+  clearError: () => void;
+}
+
+// Pick the clip learners should hear: the primary approved recording,
+// then any approved recording, then the asset's own audio
+function getPackAudioUrl(asset: AssetWithAudio): string | null {
+  const approved = (asset.audio_submissions || []).filter(s => s.status === 'approved');
+  return (approved.find(s => s.is_primary) || approved[0])?.audio_url || asset.audio_url;
+}
+
+// Storage paths are stored relative in some rows
+function resolveAudioUrl(url: string): string {
+  if (url.startsWith('http')) return url;
+  return supabase.storage.from('audio').getPublicUrl(url).data.publicUrl;
+}
+
+function latestTimestamp(timestamps: string[]): string {
+  return timestamps.reduce((latest, ts) => (ts > latest ? ts : latest), '');
+}
+
+export const useOfflineStore = create<OfflineState>((set, get) => ({
+  packs: {},
+  updatesAvailable: {},
+  downloading: {},
+  storageEstimate: null,
+  isLoading: false,
+  error: null,
+
+  loadPacks: async () => {
+    set({ isLoading: true });
+    try {
+      const stored = await getAllLessonPacks();
+      const packs: Record<string, StoredLessonPack> = {};
+      stored.forEach(pack => {
+        packs[pack.id] = pack;
+      });
+      set({ packs, isLoading: false });
+    } catch (error) {
+      set({ error: (error as Error).message, isLoading: false });
+    }
+  },
+
+  downloadLessonPack: async (lessonId) => {
+    if (get().downloading[lessonId] !== undefined) return;
+
+    set(state => ({ downloading: { ...state.downloading, [lessonId]: 0 }, error: null }));
+
+    try {
+      const { data: lesson, error: lessonError } = await supabase
+        .from('lessons')
+        .select('*')
+        .eq('id', lessonId)
+        .single();
+
+      if (lessonError) throw lessonError;
+
+      const { data: assetsData, error: assetsError } = await supabase
+        .from('assets')
+        .select(`
+          *,
+          audio_submissions (audio_url, status, is_primary)
+        `)
+        .eq('lesson_id', lessonId)
+        .eq('status', 'approved')
+        .order('created_at', { ascending: true });
+
+      if (assetsError) throw assetsError;
+
+      const assets: Asset[] = [];
+      let sizeBytes = 0;
+      const rows = (assetsData || []) as AssetWithAudio[];
+
+      for (const [index, row] of rows.entries()) {
+        const { audio_submissions: _submissions, ...asset } = row;
+        const audioUrl = getPackAudioUrl(row);
+
+        if (audioUrl) {
+          try {
+            const response = await fetch(resolveAudioUrl(audioUrl));
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+            const blob = await response.blob();
+            await cacheAudio(asset.id, blob);
+            sizeBytes += blob.size;
+          } catch (err) {
+            // The word is still usable offline, just without audio
+            console.error('Error caching audio for asset:', asset.id, err);
+          }
+        }
+
+        assets.push({ ...asset, audio_url: audioUrl });
+        set(state => ({
+          downloading: { ...state.downloading, [lessonId]: Math.round(((index + 1) / rows.length) * 100) },
+        }));
+      }
+
+      const typedLesson = lesson as Lesson;
+      await saveLessonPack(lessonId, {
+        version: LESSON_PACK_VERSION,
+        lesson: typedLesson,
+        assets,
+        contentUpdatedAt: latestTimestamp([typedLesson.updated_at, ...assets.map(a => a.updated_at)]),
+        sizeBytes,
+      });
+
+      await get().loadPacks();
+      set(state => ({ updatesAvailable: { ...state.updatesAvailable, [lessonId]: false } }));
+      get().fetchStorageEstimate();
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to download lesson' });
+    } finally {
+      set(state => {
+        const { [lessonId]: _done, ...downloading } = state.downloading;
+        return { downloading };
+      });
+    }
+  },
+
+  removeLessonPack: async (lessonId) => {
+    try {
+      await deleteLessonPack(lessonId);
+      set(state => {
+        const { [lessonId]: _removed, ...packs } = state.packs;
+        const { [lessonId]: _update, ...updatesAvailable } = state.updatesAvailable;
+        return { packs, updatesAvailable };
+      });
+      get().fetchStorageEstimate();
+    } catch (error) {
+      set({ error: (error as Error).message });
+    }
+  },
+
+  checkForUpdates: async () => {
+    const { packs } = get();
+    const lessonIds = Object.keys(packs);
+    if (!navigator.onLine || lessonIds.length === 0) return;
+
+    try {
+      const { data: lessons, error: lessonsError } = await supabase
+        .from('lessons')
+        .select('id, updated_at')
+        .in('id', lessonIds);
+
+      if (lessonsError) throw lessonsError;
+
+      const { data: assets, error: assetsError } = await supabase
+        .from('assets')
+        .select('id, lesson_id, updated_at')
+        .in('lesson_id', lessonIds)
+        .eq('status', 'approved');
+
+      if (assetsError) throw assetsError;
+
+      const updatesAvailable: Record<string, boolean> = {};
+      lessonIds.forEach(lessonId => {
+        const pack = packs[lessonId].data;
+        const lesson = (lessons || []).find(l => l.id === lessonId);
+        const serverAssets = (assets || []).filter(a => a.lesson_id === lessonId);
+        const packAssetIds = new Set(pack.assets.map(a => a.id));
+
+        // Newer edits, added or removed words, or an outdated pack format
+        updatesAvailable[lessonId] =
+          pack.version < LESSON_PACK_VERSION ||
+          (!!lesson && lesson.updated_at > pack.contentUpdatedAt) ||
+          serverAssets.some(a => a.updated_at > pack.contentUpdatedAt || !packAssetIds.has(a.id)) ||
+          serverAssets.length !== packAssetIds.size;
+      });
+
+      set({ updatesAvailable });
+    } catch (error) {
+      console.error('Error checking lesson pack updates:', error);
+    }
+  },
+
+  fetchStorageEstimate: async () => {
+    if (!navigator.storage?.estimate) return;
+    try {
+      const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+      set({ storageEstimate: { usage, quota } });
+    } catch {
+      // Not supported in every browser
+    }
+  },
+
+  clearError: () => set({ error: null }),
+}));
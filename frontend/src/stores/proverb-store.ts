@@ -0,0 +1,44 @@
+import { create } from 'zustand';
+import { supabase } from '@/lib/supabase';
+import { compareIgboKeys, igboSortKey } from '@/lib/igbo-orthography';
+import type { Asset } from '@/types/database';
+
+interface ProverbState {
+  proverbs: Asset[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchProverbs: () => Promise<void>;
+  clearError: () => void;
+}
+
+export const useProverbStore = create<ProverbState>((set) => ({
+  proverbs: [],
+  isLoading: false,
+  error: null,
+
+  fetchProverbs: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const { data, error } = await supabase
+        .from('assets')
+        .select('*')
+        .eq('status', 'approved')
+        .eq('type', 'proverb');
+
+      if (error) throw error;
+
+      const proverbs = ((data || []) as Asset[])
+        .map(asset => ({ asset, key: igboSortKey(asset.igbo_text) }))
+        .sort((a, b) => compareIgboKeys(a.key, b.key))
+        .map(({ asset }) => asset);
+
+      set({ proverbs, isLoading: false });
+    } catch (error) {
+      set({ error: (error as Error).message, isLoading: false });
+    }
+  },
+
+  clearError: () => set({ error: null }),
+}));
@@ -0,0 +1,298 @@
+import { create } from 'zustand';
+import { supabase } from '@/lib/supabase';
+import {
+  getRecordingSession,
+  saveRecordingSession,
+  deleteRecordingSession,
+  getRecordingTakes,
+  saveRecordingTake,
+  removeRecordingTake,
+  type OfflineRecordingSession,
+  type OfflineRecordingTake,
+  type RecordingQueueItem,
+} from '@/lib/offline-db';
+import { getBackoffDelay } from '@/lib/sync-engine';
+import type { ProcessedClip } from '@/lib/audio-processing';
+import { useContributorStore } from '@/stores/contributor-store';
+
+export type UploadStatus = 'idle' | 'uploading' | 'offline' | 'retrying';
+
+export interface RecordingSessionFilter {
+  category: string | null;
+  lessonId: string | null;
+}
+
+// Automatic tries before a take waits for a manual retry
+const MAX_UPLOAD_ATTEMPTS = 5;
+
+interface RecordingSessionState {
+  session: OfflineRecordingSession | null;
+  // Takes stored on this device that haven't uploaded yet
+  takes: OfflineRecordingTake[];
+  uploadStatus: UploadStatus;
+  nextRetryAt: string | null;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadSession: (userId: string) => Promise<void>;
+  startSession: (userId: string, filter: RecordingSessionFilter) => Promise<void>;
+  acceptTake: (userId: string, item: RecordingQueueItem, clip: ProcessedClip, speakerId: string | null) => Promise<boolean>;
+  skipAsset: () => Promise<void>;
+  endSession: (userId: string) => Promise<void>;
+  uploadPending: (userId: string) => Promise<void>;
+  retryFailed: (userId: string) => Promise<void>;
+  startUploader: (userId: string) => () => void;
+  clearError: () => void;
+}
+
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let inFlight: Promise<void> | null = null;
+// A take was accepted while a pass was running; go again when it ends
+let rerunRequested = false;
+
+function clearRetryTimer() {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+}
+
+function sortTakes(takes: OfflineRecordingTake[]): OfflineRecordingTake[] {
+  return [...takes].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export const useRecordingSessionStore = create<RecordingSessionState>((set, get) => {
+  // Save session progress and move on to the next asset
+  const advance = async (session: OfflineRecordingSession, changes: Partial<OfflineRecordingSession>) => {
+    const updated = {
+      ...session,
+      ...changes,
+      position: Math.min(session.queue.length, session.position + 1),
+      updatedAt: new Date().toISOString(),
+    };
+    await saveRecordingSession(updated);
+    set({ session: updated });
+  };
+
+  const refreshTakes = async (userId: string) => {
+    set({ takes: sortTakes(await getRecordingTakes(userId)) });
+  };
+
+  return {
+    session: null,
+    takes: [],
+    uploadStatus: navigator.onLine ? 'idle' : 'offline',
+    nextRetryAt: null,
+    isLoading: false,
+    error: null,
+
+    loadSession: async (userId) => {
+      set({ isLoading: true, error: null });
+      try {
+        const [session, takes] = await Promise.all([getRecordingSession(userId), getRecordingTakes(userId)]);
+        set({ session: session || null, takes: sortTakes(takes), isLoading: false });
+      } catch (error) {
+        set({ error: (error as Error).message, isLoading: false });
+      }
+    },
+
+    startSession: async (userId, filter) => {
+      set({ isLoading: true, error: null });
+      try {
+        let query = supabase
+          .from('assets')
+          .select('id, igbo_text, english_text, audio_url, audio_submissions (id)')
+          .eq('status', 'approved')
+          .is('audio_url', null)
+          .order('created_at', { ascending: true })
+          .limit(500);
+
+        if (filter.category) query = query.eq('category', filter.category);
+        if (filter.lessonId) query = query.eq('lesson_id', filter.lessonId);
+
+        const { data, error } = await query;
+        if (error) throw error;
+
+        // Takes already waiting on this device don't need recording again
+        const queuedIds = new Set(get().takes.map(take => take.assetId));
+        const queue = (data || [])
+          .filter((asset: { id: string; audio_submissions?: { id: string }[] }) =>
+            !asset.audio_submissions?.length && !queuedIds.has(asset.id))
+          .map((asset: { id: string; igbo_text: string; english_text: string }) => ({
+            assetId: asset.id,
+            igbo: asset.igbo_text,
+            english: asset.english_text,
+          }));
+
+        const now = new Date().toISOString();
+        const session: OfflineRecordingSession = {
+          id: userId,
+          userId,
+          filter,
+          queue,
+          position: 0,
+          recordedIds: [],
+          skippedIds: [],
+          createdAt: now,
+          updatedAt: now,
+        };
+        await saveRecordingSession(session);
+        set({ session, isLoading: false });
+      } catch (error) {
+        set({ error: (error as Error).message, isLoading: false });
+      }
+    },
+
+    acceptTake: async (userId, item, clip, speakerId) => {
+      const { session } = get();
+      if (!session) return false;
+      try {
+        await saveRecordingTake({
+          id: `${userId}:${item.assetId}`,
+          userId,
+          assetId: item.assetId,
+          igbo: item.igbo,
+          blob: clip.blob,
+          durationSeconds: clip.durationSeconds,
+          speakerId,
+          attempts: 0,
+          failed: false,
+          createdAt: new Date().toISOString(),
+        });
+        await advance(session, {
+          recordedIds: [...session.recordedIds.filter(id => id !== item.assetId), item.assetId],
+        });
+        await refreshTakes(userId);
+        get().uploadPending(userId);
+        return true;
+      } catch (error) {
+        set({ error: (error as Error).message });
+        return false;
+      }
+    },
+
+    skipAsset: async () => {
+      const { session } = get();
+      if (!session || session.position >= session.queue.length) return;
+      try {
+        const { assetId } = session.queue[session.position];
+        await advance(session, {
+          skippedIds: [...session.skippedIds.filter(id => id !== assetId), assetId],
+        });
+      } catch (error) {
+        set({ error: (error as Error).message });
+      }
+    },
+
+    endSession: async (userId) => {
+      try {
+        await deleteRecordingSession(userId);
+        set({ session: null });
+      } catch (error) {
+        set({ error: (error as Error).message });
+      }
+    },
+
+    uploadPending: async (userId) => {
+      // Coalesce overlapping triggers (online event, accepted take, retry timer)
+      if (inFlight) {
+        rerunRequested = true;
+        return inFlight;
+      }
+
+      if (!navigator.onLine) {
+        set({ uploadStatus: 'offline' });
+        return;
+      }
+
+      clearRetryTimer();
+      set({ uploadStatus: 'uploading', nextRetryAt: null });
+
+      inFlight = (async () => {
+        let failures = 0;
+        try {
+          const pending = sortTakes(await getRecordingTakes(userId)).filter(take => !take.failed);
+
+          for (const take of pending) {
+            if (!navigator.onLine) break;
+
+            const url = await useContributorStore
+              .getState()
+              .uploadAudio(take.blob, take.assetId, userId, take.durationSeconds, take.speakerId);
+
+            if (url) {
+              await removeRecordingTake(take.id, take.createdAt);
+            } else {
+              const attempts = take.attempts + 1;
+              await saveRecordingTake({
+                ...take,
+                attempts,
+                failed: attempts >= MAX_UPLOAD_ATTEMPTS,
+                lastError: useContributorStore.getState().error || 'Upload failed',
+              });
+              failures = Math.max(failures, attempts);
+            }
+            await refreshTakes(userId);
+          }
+        } catch (error) {
+          console.error('Recording upload failed:', error);
+          set({ error: (error as Error).message });
+        } finally {
+          inFlight = null;
+          await refreshTakes(userId);
+
+          const waiting = get().takes.some(take => !take.failed);
+          if (!navigator.onLine) {
+            set({ uploadStatus: 'offline' });
+          } else if (rerunRequested) {
+            rerunRequested = false;
+            set({ uploadStatus: 'idle' });
+            get().uploadPending(userId);
+          } else if (waiting && failures > 0) {
+            const delay = getBackoffDelay(failures);
+            retryTimer = setTimeout(() => get().uploadPending(userId), delay);
+            set({ uploadStatus: 'retrying', nextRetryAt: new Date(Date.now() + delay).toISOString() });
+          } else {
+            set({ uploadStatus: 'idle' });
+          }
+        }
+      })();
+
+      return inFlight;
+    },
+
+    retryFailed: async (userId) => {
+      try {
+        const takes = await getRecordingTakes(userId);
+        for (const take of takes.filter(t => t.failed)) {
+          await saveRecordingTake({ ...take, attempts: 0, failed: false, lastError: undefined });
+        }
+        await refreshTakes(userId);
+        await get().uploadPending(userId);
+      } catch (error) {
+        set({ error: (error as Error).message });
+      }
+    },
+
+    startUploader: (userId) => {
+      const handleOnline = () => get().uploadPending(userId);
+      const handleOffline = () => {
+        clearRetryTimer();
+        set({ uploadStatus: 'offline', nextRetryAt: null });
+      };
+
+      window.addEventListener('online', handleOnline);
+      window.addEventListener('offline', handleOffline);
+      get().uploadPending(userId);
+
+      return () => {
+        clearRetryTimer();
+        window.removeEventListener('online', handleOnline);
+        window.removeEventListener('offline', handleOffline);
+      };
+    },
+
+    clearError: () => set({ error: null }),
+  };
+});
@@ -0,0 +1,84 @@
+import { create } from 'zustand';
+import { supabase } from '@/lib/supabase';
+import type { Asset, AssetStatus, AssetType, ProficiencyLevel } from '@/types/database';
+
+export interface AssetSearchResult extends Asset {
+  rank: number;
+}
+
+export interface AssetSearchParams {
+  query: string;
+  type?: AssetType | null;
+  difficulty?: ProficiencyLevel | null;
+  category?: string | null;
+  status?: AssetStatus | null;
+  createdBy?: string | null;
+  limit?: number;
+  offset?: number;
+}
+
+interface SearchState {
+  results: AssetSearchResult[];
+  total: number;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  searchAssets: (params: AssetSearchParams) => Promise<AssetSearchResult[]>;
+  clearResults: () => void;
+  clearError: () => void;
+}
+
+// Only the latest search may write results, so a slow earlier query can't
+// overwrite a newer one while the user is typing
+let latestSearch = 0;
+
+export const useSearchStore = create<SearchState>((set) => ({
+  results: [],
+  total: 0,
+  isLoading: false,
+  error: null,
+
+  searchAssets: async (params: AssetSearchParams) => {
+    const searchId = ++latestSearch;
+    if (!params.query.trim()) {
+      set({ results: [], total: 0, isLoading: false });
+      return [];
+    }
+
+    set({ isLoading: true, error: null });
+    try {
+      const { data, error } = await supabase.rpc('search_assets', {
+        p_query: params.query,
+        p_type: params.type || null,
+        p_difficulty: params.difficulty || null,
+        p_category: params.category || null,
+        p_status: params.status || null,
+        p_created_by: params.createdBy || null,
+        p_limit: params.limit ?? 50,
+        p_offset: params.offset ?? 0,
+      });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Search failed');
+
+      const results = (data.results || []) as AssetSearchResult[];
+      if (searchId === latestSearch) {
+        set({ results, total: data.total ?? results.length, isLoading: false });
+      }
+      return results;
+    } catch (error) {
+      if (searchId === latestSearch) {
+        set({ error: (error as Error).message, isLoading: false });
+      }
+      return [];
+    }
+  },
+
+  clearResults: () => {
+    latestSearch++;
+    set({ results: [], total: 0, isLoading: false });
+  },
+
+  clearError: () => set({ error: null }),
+}));
@@ -0,0 +1,138 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { supabase } from '@/lib/supabase';
+import { useAuthStore } from '@/stores/auth-store';
+import type { Json } from '@/types/database';
+
+export interface AppSettings {
+  siteName: string;
+  siteDescription: string;
+  maintenanceMode: boolean;
+  allowRegistration: boolean;
+  requireEmailVerification: boolean;
+  autoApproveContributors: boolean;
+  minReviewsRequired: number;
+  enableAudioRecording: boolean;
+  enableAIAssist: boolean;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  siteName: 'Asụsụ Ohafia',
+  siteDescription: 'Learn Igbo (Ohafia Dialect)',
+  maintenanceMode: false,
+  allowRegistration: true,
+  requireEmailVerification: true,
+  autoApproveContributors: false,
+  minReviewsRequired: 1,
+  enableAudioRecording: true,
+  enableAIAssist: false,
+};
+
+// app_settings.key for each setting
+const SETTING_KEYS: Record<keyof AppSettings, string> = {
+  siteName: 'site_name',
+  siteDescription: 'site_description',
+  maintenanceMode: 'maintenance_mode',
+  allowRegistration: 'allow_registration',
+  requireEmailVerification: 'require_email_verification',
+  autoApproveContributors: 'auto_approve_contributors',
+  minReviewsRequired: 'min_reviews_required',
+  enableAudioRecording: 'enable_audio_recording',
+  enableAIAssist: 'enable_ai_assist',
+};
+
+interface SettingsState {
+  settings: AppSettings;
+  isLoaded: boolean;
+  isLoading: boolean;
+  isSaving: boolean;
+  error: string | null;
+
+  // Actions
+  fetchSettings: () => Promise<void>;
+  saveSettings: (updates: Partial<AppSettings>) => Promise<boolean>;
+  clearError: () => void;
+}
+
+// Keep only values whose type matches the default, so a bad row can't
+// switch a flag to something unexpected
+function settingsFromRecord(record: Record<string, Json>): AppSettings {
+  const settings = { ...DEFAULT_SETTINGS };
+  (Object.keys(SETTING_KEYS) as (keyof AppSettings)[]).forEach(name => {
+    const value = record[SETTING_KEYS[name]];
+    if (typeof value === typeof DEFAULT_SETTINGS[name]) {
+      (settings as Record<keyof AppSettings, unknown>)[name] = value;
+    }
+  });
+  return settings;
+}
+
+export const useSettingsStore = create<SettingsState>()(
+  persist(
+    (set, get) => ({
+      settings: DEFAULT_SETTINGS,
+      isLoaded: false,
+      isLoading: false,
+      isSaving: false,
+      error: null,
+
+      fetchSettings: async () => {
+        try {
+          set({ isLoading: true, error: null });
+
+          const { data, error } = await supabase.rpc('get_public_settings');
+
+          if (error) throw error;
+
+          set({
+            settings: settingsFromRecord((data || {}) as Record<string, Json>),
+            isLoaded: true,
+            isLoading: false,
+          });
+        } catch (error) {
+          // Keep the last known settings; the app still works with them
+          set({
+            error: error instanceof Error ? error.message : 'Failed to load settings',
+            isLoading: false,
+          });
+        }
+      },
+
+      saveSettings: async (updates) => {
+        try {
+          set({ isSaving: true, error: null });
+
+          const updatedBy = useAuthStore.getState().user?.id;
+          const rows = (Object.keys(updates) as (keyof AppSettings)[]).map(name => ({
+            key: SETTING_KEYS[name],
+            value: updates[name],
+            updated_by: updatedBy,
+          }));
+
+          const { error } = await supabase
+            .from('app_settings')
+            .upsert(rows as Record<string, unknown>[], { onConflict: 'key' });
+
+          if (error) throw error;
+
+          set({ settings: { ...get().settings, ...updates }, isSaving: false });
+          return true;
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : 'Failed to save settings',
+            isSaving: false,
+          });
+          return false;
+        }
+      },
+
+      clearError: () => set({ error: null }),
+    }),
+    {
+      name: 'app-settings-storage',
+      partialize: (state) => ({
+        settings: state.settings,
+      }),
+    }
+  )
+);
@@ -0,0 +1,96 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { supabase } from '@/lib/supabase';
+import { CONSENT_VERSION } from '@/lib/speakers';
+import type { ConsentMethod, SpeakerProfile } from '@/types/database';
+
+export type SpeakerInput = Pick<SpeakerProfile, 'display_name' | 'is_self' | 'age_group' | 'gender' | 'village' | 'consent_notes'> & {
+  consent_method: ConsentMethod;
+};
+
+interface SpeakerState {
+  speakers: SpeakerProfile[];
+  // Speaker new recordings are credited to, remembered between visits
+  selectedSpeakerId: string | null;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchSpeakers: (userId: string) => Promise<void>;
+  createSpeaker: (userId: string, input: SpeakerInput) => Promise<SpeakerProfile | null>;
+  selectSpeaker: (speakerId: string | null) => void;
+  clearError: () => void;
+}
+
+export const useSpeakerStore = create<SpeakerState>()(
+  persist(
+    (set, get) => ({
+      speakers: [],
+      selectedSpeakerId: null,
+      isLoading: false,
+      error: null,
+
+      fetchSpeakers: async (userId) => {
+        set({ isLoading: true, error: null });
+        try {
+          const { data, error } = await supabase
+            .from('speaker_profiles')
+            .select('*')
+            .eq('created_by', userId)
+            .order('is_self', { ascending: false })
+            .order('display_name', { ascending: true });
+
+          if (error) throw error;
+
+          const speakers = (data || []) as SpeakerProfile[];
+          // Forget a selection that belongs to another account or was removed
+          const { selectedSpeakerId } = get();
+          const selected = speakers.some(s => s.id === selectedSpeakerId) ? selectedSpeakerId : speakers[0]?.id ?? null;
+          set({ speakers, selectedSpeakerId: selected, isLoading: false });
+        } catch (error) {
+          set({ error: (error as Error).message, isLoading: false });
+        }
+      },
+
+      createSpeaker: async (userId, input) => {
+        set({ isLoading: true, error: null });
+        try {
+          const { data, error } = await supabase
+            .from('speaker_profiles')
+            .insert({
+              ...input,
+              display_name: input.display_name.trim(),
+              village: input.village?.trim() || null,
+              consent_notes: input.consent_notes?.trim() || null,
+              created_by: userId,
+              consent_given_at: new Date().toISOString(),
+              consent_version: CONSENT_VERSION,
+            })
+            .select()
+            .single();
+
+          if (error) throw error;
+
+          const speaker = data as SpeakerProfile;
+          set(state => ({
+            speakers: [...state.speakers, speaker],
+            selectedSpeakerId: speaker.id,
+            isLoading: false,
+          }));
+          return speaker;
+        } catch (error) {
+          set({ error: (error as Error).message, isLoading: false });
+          return null;
+        }
+      },
+
+      selectSpeaker: (speakerId) => set({ selectedSpeakerId: speakerId }),
+
+      clearError: () => set({ error: null }),
+    }),
+    {
+      name: 'asusu-ohafia-speaker',
+      partialize: (state) => ({ selectedSpeakerId: state.selectedSpeakerId }),
+    }
+  )
+);
@@ -0,0 +1,167 @@
+import { create } from 'zustand';
+import {
+  getUnsyncedAttempts,
+  getFailedAttempts,
+  getUnsyncedReviewCards,
+  getFailedReviewCards,
+  getUnsyncedDecks,
+  getFailedDecks,
+  requeueFailedAttempts,
+} from '@/lib/offline-db';
+import { runSync, getBackoffDelay, registerBackgroundSync } from '@/lib/sync-engine';
+import { useAchievementStore } from '@/stores/achievement-store';
+
+export type SyncStatus = 'idle' | 'syncing' | 'offline' | 'retrying';
+
+interface SyncState {
+  status: SyncStatus;
+  pendingCount: number;
+  failedCount: number;
+  lastSyncedAt: string | null;
+  lastError: string | null;
+  consecutiveFailures: number;
+  nextRetryAt: string | null;
+
+  // Actions
+  refreshCounts: () => Promise<void>;
+  syncNow: (userId: string) => Promise<void>;
+  retryFailed: (userId: string) => Promise<void>;
+  startSyncEngine: (userId: string) => () => void;
+}
+
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let inFlight: Promise<void> | null = null;
+// Something was queued while a pass was running; go again when it ends
+let rerunRequested = false;
+
+function clearRetryTimer() {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+}
+
+export const useSyncStore = create<SyncState>((set, get) => ({
+  status: navigator.onLine ? 'idle' : 'offline',
+  pendingCount: 0,
+  failedCount: 0,
+  lastSyncedAt: null,
+  lastError: null,
+  consecutiveFailures: 0,
+  nextRetryAt: null,
+
+  refreshCounts: async () => {
+    try {
+      const counts = await Promise.all([
+        getUnsyncedAttempts(),
+        getUnsyncedReviewCards(),
+        getUnsyncedDecks(),
+        getFailedAttempts(),
+        getFailedReviewCards(),
+        getFailedDecks(),
+      ]).then(lists => lists.map(list => list.length));
+      set({
+        pendingCount: counts[0] + counts[1] + counts[2],
+        failedCount: counts[3] + counts[4] + counts[5],
+      });
+    } catch {
+      // IndexedDB unavailable (private mode); nothing to show
+    }
+  },
+
+  syncNow: async (userId) => {
+    // Coalesce overlapping triggers (online event, SW message, new attempt)
+    if (inFlight) {
+      rerunRequested = true;
+      return inFlight;
+    }
+
+    if (!navigator.onLine) {
+      set({ status: 'offline' });
+      await get().refreshCounts();
+      registerBackgroundSync();
+      return;
+    }
+
+    clearRetryTimer();
+    set({ status: 'syncing', nextRetryAt: null });
+
+    inFlight = (async () => {
+      try {
+        const result = await runSync(userId);
+
+        if (result.transientError) {
+          const consecutiveFailures = get().consecutiveFailures + 1;
+          const delay = getBackoffDelay(consecutiveFailures);
+          retryTimer = setTimeout(() => get().syncNow(userId), delay);
+          registerBackgroundSync();
+          set({
+            status: navigator.onLine ? 'retrying' : 'offline',
+            lastError: result.transientError,
+            consecutiveFailures,
+            nextRetryAt: new Date(Date.now() + delay).toISOString(),
+          });
+        } else {
+          // New attempts or reviews on the server may unlock achievements
+          if (result.synced > 0) {
+            useAchievementStore.getState().requestEvaluation();
+          }
+          set({
+            status: 'idle',
+            lastError: null,
+            consecutiveFailures: 0,
+            // Only a pass that actually uploaded something counts as news
+            lastSyncedAt: result.synced > 0 ? new Date().toISOString() : get().lastSyncedAt,
+          });
+        }
+      } catch (error) {
+        console.error('Sync failed:', error);
+        set({ status: 'idle', lastError: error instanceof Error ? error.message : 'Sync failed' });
+      } finally {
+        inFlight = null;
+        await get().refreshCounts();
+        if (rerunRequested && get().status === 'idle') {
+          rerunRequested = false;
+          get().syncNow(userId);
+        }
+      }
+    })();
+
+    return inFlight;
+  },
+
+  retryFailed: async (userId) => {
+    await requeueFailedAttempts();
+    await get().syncNow(userId);
+  },
+
+  startSyncEngine: (userId) => {
+    const handleOnline = () => get().syncNow(userId);
+    const handleOffline = () => {
+      clearRetryTimer();
+      set({ status: 'offline', nextRetryAt: null });
+    };
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') get().syncNow(userId);
+    };
+    // The service worker relays Background Sync events to open tabs
+    const handleWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'SYNC_ATTEMPTS') get().syncNow(userId);
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    document.addEventListener('visibilitychange', handleVisibility);
+    navigator.serviceWorker?.addEventListener('message', handleWorkerMessage);
+
+    get().syncNow(userId);
+
+    return () => {
+      clearRetryTimer();
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      document.removeEventListener('visibilitychange', handleVisibility);
+      navigator.serviceWorker?.removeEventListener('message', handleWorkerMessage);
+    };
+  },
+}));
@@ -30,6 +30,7 @@ export interface Profile {
   role: UserRole;
   streak_count: number;
   longest_streak: number;
+  streak_freezes: number;
   total_xp: number;
   last_active_at: string | null;
   onboarding_completed: boolean;
@@ -76,10 +77,55 @@ export interface Asset {
   reviewed_at: string | null;
   review_notes: string | null;
   rejection_reason: string | null;
+  needs_admin_review: boolean;
+  // Speakers and turns; only set on dialogue assets
+  dialogue: Dialogue | null;
+  // Proverb (ilu) details; only set on proverb assets
+  literal_translation: string | null;
+  figurative_meaning: string | null;
+  usage_context: string | null;
+  related_proverb_ids: string[] | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface DialogueSpeaker {
+  id: string;
+  name: string;
+}
+
+export interface DialogueTurn {
+  id: string;
+  speaker: string; // DialogueSpeaker.id
+  igbo: string;
+  english: string;
+  audio_url: string | null;
+}
+
+export interface Dialogue {
+  speakers: DialogueSpeaker[];
+  turns: DialogueTurn[];
+}
+
+// Asset fields tracked in asset_revisions
+export type AssetRevisionField =
+  | 'igbo_text'
+  | 'english_text'
+  | 'pronunciation_guide'
+  | 'cultural_note'
+  | 'tags'
+  | 'status';
+
+// One recorded edit: old and new values of each field that changed
+export interface AssetRevision {
+  id: string;
+  asset_id: string;
+  changed_by: string | null;
+  changes: Partial<Record<AssetRevisionField, { old: Json; new: Json }>>;
+  rolled_back_from: string | null;
+  created_at: string;
+}
+
 // Attempt type (learning activity)
 export interface Attempt {
   id: string;
@@ -107,6 +153,7 @@ export interface Progress {
   accuracy_rate: number;
   time_spent_seconds: number;
   is_completed: boolean;
+  tested_out: boolean;
   completed_at: string | null;
   last_practiced_at: string | null;
   created_at: string;
@@ -114,6 +161,8 @@ export interface Progress {
 }
 
 // Audio submission type
+export type AudioQualityCriterion = 'clarity' | 'noise' | 'pronunciation' | 'tone';
+
 export interface Audio {
   id: string;
   asset_id: string;
@@ -121,13 +170,63 @@ export interface Audio {
   audio_url: string;
   duration_seconds: number | null;
   status: AssetStatus;
-  quality_rating: number | null;
+  quality_rating: number | null; // rounded average of reviewers' quality scores
+  quality_scores: Partial<Record<AudioQualityCriterion, number>>; // criterion -> average 1-5
+  quality_rating_count: number;
+  needs_rerecord: boolean; // low-rated primary clip
   is_primary: boolean;
+  speaker_id: string | null;
   reviewed_by: string | null;
   reviewed_at: string | null;
   review_notes: string | null;
   rejection_reason: string | null;
+  needs_admin_review: boolean;
+  created_at: string;
+}
+
+// Someone heard in recordings, kept by the contributor who records them
+export type SpeakerGender = 'female' | 'male' | 'other';
+export type ConsentMethod = 'self' | 'verbal' | 'written';
+
+export interface SpeakerProfile {
+  id: string;
+  created_by: string;
+  display_name: string;
+  is_self: boolean;
+  age_group: AgeGroup | null;
+  gender: SpeakerGender | null;
+  village: string | null; // village or sub-dialect within Ohafia
+  consent_given_at: string;
+  consent_method: ConsentMethod;
+  consent_version: string;
+  consent_notes: string | null;
   created_at: string;
+  updated_at: string;
+}
+
+// A reviewer's vote on an asset or audio submission
+export type ReviewItemType = 'asset' | 'audio';
+export type ReviewVote = 'approve' | 'reject';
+
+export interface Review {
+  id: string;
+  item_type: ReviewItemType;
+  item_id: string;
+  reviewer_id: string;
+  vote: ReviewVote;
+  rubric: Record<string, number>; // criterion -> 1-5
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Result of the submit_review RPC
+export interface SubmitReviewResult {
+  status: AssetStatus;
+  approvals: number;
+  rejections: number;
+  quorum: number;
+  escalated: boolean;
 }
 
 // Asset category type
@@ -165,6 +264,106 @@ export interface UserAchievement {
   earned_at: string;
 }
 
+// Review card type (spaced-repetition state per learner and asset)
+export interface ReviewCard {
+  id: string;
+  user_id: string;
+  asset_id: string;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_at: string;
+  last_reviewed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A learner's personal word list
+export interface Deck {
+  id: string;
+  user_id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DeckItem {
+  deck_id: string;
+  asset_id: string;
+  added_at: string;
+}
+
+// Result of the get_progress_summary RPC
+export interface ProgressSummary {
+  total_xp: number;
+  streak_count: number;
+  total_attempts: number;
+  correct_attempts: number;
+  words_learned: number;
+  lessons_completed: number;
+  total_lessons: number;
+  weekly_activity: { date: string; attempts: number; correct: number; active: boolean }[];
+  lessons_practiced_this_week: number;
+}
+
+// Stored daily plan; items follow DailyPlanItem in lib/daily-plan.ts
+export interface DailyPlanRow {
+  user_id: string;
+  plan_date: string;
+  minutes_goal: number;
+  items: Json;
+  created_at: string;
+  updated_at: string;
+}
+
+// Result of the get_streak_status RPC
+export interface StreakStatus {
+  streak_count: number;
+  longest_streak: number;
+  streak_freezes: number;
+  freeze_cost: number;
+  max_freezes: number;
+  today: string; // learner's local date
+  timezone: string;
+  practiced_today: boolean;
+  days_to_freeze: number;
+}
+
+// A local calendar day that kept the streak alive
+export interface StreakDay {
+  user_id: string;
+  day: string;
+  kind: 'active' | 'freeze';
+  created_at: string;
+}
+
+// Result of the complete_lesson_practice RPC
+export interface CompleteLessonResult {
+  newly_completed: boolean;
+  xp_awarded: number;
+  progress: Progress | null;
+}
+
+// Result of the test_out_lessons RPC
+export interface TestOutResult {
+  score: number;
+  lessons_completed: number;
+}
+
+// Result of the apply_placement RPC
+export interface PlacementResult {
+  proficiency_level: ProficiencyLevel;
+  score: number;
+  lessons_completed: number;
+}
+
+// Result of the purchase_streak_freeze RPC
+export interface StreakFreezePurchase {
+  streak_freezes: number;
+  total_xp: number;
+}
+
 // Database interface for Supabase client typing
 export interface Database {
   public: {
@@ -199,6 +398,17 @@ export interface Database {
         Insert: Partial<Audio> & { asset_id: string; submitted_by: string; audio_url: string };
         Update: Partial<Audio>;
       };
+      speaker_profiles: {
+        Row: SpeakerProfile;
+        Insert: Partial<SpeakerProfile> & {
+          created_by: string;
+          display_name: string;
+          consent_given_at: string;
+          consent_method: ConsentMethod;
+          consent_version: string;
+        };
+        Update: Partial<SpeakerProfile>;
+      };
       achievements: {
         Row: Achievement;
         Insert: Partial<Achievement> & { name: string; criteria: Json };
@@ -209,6 +419,21 @@ export interface Database {
         Insert: Partial<UserAchievement> & { user_id: string; achievement_id: string };
         Update: Partial<UserAchievement>;
       };
+      review_cards: {
+        Row: ReviewCard;
+        Insert: Partial<ReviewCard> & { user_id: string; asset_id: string };
+        Update: Partial<ReviewCard>;
+      };
+      decks: {
+        Row: Deck;
+        Insert: Partial<Deck> & { user_id: string; name: string };
+        Update: Partial<Deck>;
+      };
+      deck_items: {
+        Row: DeckItem;
+        Insert: Partial<DeckItem> & { deck_id: string; asset_id: string };
+        Update: Partial<DeckItem>;
+      };
     };
   };
 }
@@ -0,0 +1,262 @@
+-- ============================================
+-- ACHIEVEMENT ENGINE
+-- Evaluates achievements.criteria against a learner's stats and awards
+-- them into user_achievements, crediting xp_reward exactly once.
+--
+-- Criteria DSL (JSONB):
+--   {"words_learned": 50}                       shorthand: metric >= 50
+--   {"lessons_completed": 5, "accuracy": 80}    several keys: all must hold
+--   {"metric": "accuracy", "op": "gte", "value": 90}
+--                                               explicit; op is gte|gt|eq|lte|lt
+--   {"all": [ <criteria>, ... ]}                every child must hold
+--   {"any": [ <criteria>, ... ]}                at least one child must hold
+--
+-- Metrics: streak_days, words_learned, lessons_completed, perfect_lessons,
+-- accuracy, total_attempts, speak_attempts, speak_attempts_passed,
+-- assets_submitted, assets_approved, recordings, recordings_approved,
+-- reviews_completed
+-- ============================================
+
+-- ============================================
+-- FUNCTION: Current metric values for a learner
+-- ============================================
+
+DROP FUNCTION IF EXISTS get_achievement_metrics(UUID);
+
+CREATE OR REPLACE FUNCTION get_achievement_metrics(p_user_id UUID)
+RETURNS JSONB AS $$
+    SELECT jsonb_build_object(
+        'streak_days', (
+            SELECT GREATEST(COALESCE(streak_count, 0), COALESCE(longest_streak, 0))
+            FROM profiles WHERE id = p_user_id
+        ),
+        'words_learned', (
+            SELECT COUNT(DISTINCT asset_id) FROM (
+                SELECT asset_id FROM attempts
+                WHERE user_id = p_user_id AND (is_correct OR score >= 70)
+                UNION
+                SELECT UNNEST(completed_assets) FROM progress WHERE user_id = p_user_id
+            ) learned
+        ),
+        'lessons_completed', (
+            SELECT COUNT(*) FROM progress WHERE user_id = p_user_id AND is_completed
+        ),
+        'perfect_lessons', (
+            SELECT COUNT(*) FROM progress
+            WHERE user_id = p_user_id AND is_completed AND accuracy_rate >= 100
+        ),
+        'accuracy', (
+            SELECT COALESCE(ROUND(COUNT(*) FILTER (WHERE is_correct OR score >= 70) * 100.0 / NULLIF(COUNT(*), 0)), 0)
+            FROM attempts WHERE user_id = p_user_id
+        ),
+        'total_attempts', (
+            SELECT COUNT(*) FROM attempts WHERE user_id = p_user_id
+        ),
+        'speak_attempts', (
+            SELECT COUNT(*) FROM attempts WHERE user_id = p_user_id AND type = 'pronunciation'
+        ),
+        'speak_attempts_passed', (
+            SELECT COUNT(*) FROM attempts
+            WHERE user_id = p_user_id AND type = 'pronunciation' AND (is_correct OR score >= 70)
+        ),
+        'assets_submitted', (
+            SELECT COUNT(*) FROM assets WHERE created_by = p_user_id AND status <> 'draft'
+        ),
+        'assets_approved', (
+            SELECT COUNT(*) FROM assets WHERE created_by = p_user_id AND status = 'approved'
+        ),
+        'recordings', (
+            SELECT COUNT(*) FROM audio_submissions WHERE submitted_by = p_user_id
+        ),
+        'recordings_approved', (
+            SELECT COUNT(*) FROM audio_submissions WHERE submitted_by = p_user_id AND status = 'approved'
+        ),
+        'reviews_completed', (
+            SELECT COALESCE(SUM(repetitions + lapses), 0) FROM review_cards WHERE user_id = p_user_id
+        )
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- FUNCTION: Does a criteria document hold for the given metrics?
+-- Unknown metrics count as 0, so a typo never awards anything
+-- ============================================
+
+DROP FUNCTION IF EXISTS achievement_criteria_met(JSONB, JSONB);
+
+CREATE OR REPLACE FUNCTION achievement_criteria_met(p_criteria JSONB, p_metrics JSONB)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_key TEXT;
+    v_value JSONB;
+    v_actual NUMERIC;
+    v_target NUMERIC;
+    v_child JSONB;
+BEGIN
+    IF p_criteria IS NULL OR jsonb_typeof(p_criteria) <> 'object' OR p_criteria = '{}'::JSONB THEN
+        RETURN FALSE;
+    END IF;
+
+    IF p_criteria ? 'all' THEN
+        FOR v_child IN SELECT * FROM jsonb_array_elements(p_criteria->'all') LOOP
+            IF NOT achievement_criteria_met(v_child, p_metrics) THEN
+                RETURN FALSE;
+            END IF;
+        END LOOP;
+        RETURN jsonb_array_length(p_criteria->'all') > 0;
+    END IF;
+
+    IF p_criteria ? 'any' THEN
+        FOR v_child IN SELECT * FROM jsonb_array_elements(p_criteria->'any') LOOP
+            IF achievement_criteria_met(v_child, p_metrics) THEN
+                RETURN TRUE;
+            END IF;
+        END LOOP;
+        RETURN FALSE;
+    END IF;
+
+    IF p_criteria ? 'metric' THEN
+        v_actual := COALESCE((p_metrics->>(p_criteria->>'metric'))::NUMERIC, 0);
+        v_target := (p_criteria->>'value')::NUMERIC;
+        RETURN CASE COALESCE(p_criteria->>'op', 'gte')
+            WHEN 'gte' THEN v_actual >= v_target
+            WHEN 'gt' THEN v_actual > v_target
+            WHEN 'eq' THEN v_actual = v_target
+            WHEN 'lte' THEN v_actual <= v_target
+            WHEN 'lt' THEN v_actual < v_target
+            ELSE FALSE
+        END;
+    END IF;
+
+    -- Shorthand: every key is a metric that must reach its threshold
+    FOR v_key, v_value IN SELECT * FROM jsonb_each(p_criteria) LOOP
+        IF jsonb_typeof(v_value) <> 'number' THEN
+            RETURN FALSE;
+        END IF;
+        IF COALESCE((p_metrics->>v_key)::NUMERIC, 0) < v_value::TEXT::NUMERIC THEN
+            RETURN FALSE;
+        END IF;
+    END LOOP;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- ============================================
+-- FUNCTION: Evaluate and award one user's achievements
+-- Safe to call repeatedly: the UNIQUE(user_id, achievement_id) constraint
+-- means each achievement (and its XP) is granted once
+-- ============================================
+
+DROP FUNCTION IF EXISTS award_achievements(UUID);
+
+CREATE OR REPLACE FUNCTION award_achievements(p_user_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    v_metrics JSONB := get_achievement_metrics(p_user_id);
+    v_achievement achievements;
+    v_awarded JSONB := '[]'::JSONB;
+    v_inserted UUID;
+BEGIN
+    FOR v_achievement IN
+        SELECT a.* FROM achievements a
+        WHERE a.is_active
+          AND NOT EXISTS (
+              SELECT 1 FROM user_achievements ua
+              WHERE ua.user_id = p_user_id AND ua.achievement_id = a.id
+          )
+    LOOP
+        IF achievement_criteria_met(v_achievement.criteria, v_metrics) THEN
+            v_inserted := NULL;
+
+            INSERT INTO user_achievements (user_id, achievement_id)
+            VALUES (p_user_id, v_achievement.id)
+            ON CONFLICT (user_id, achievement_id) DO NOTHING
+            RETURNING id INTO v_inserted;
+
+            -- Only the call that actually inserted the row credits XP
+            IF v_inserted IS NOT NULL THEN
+                UPDATE profiles
+                SET total_xp = COALESCE(total_xp, 0) + COALESCE(v_achievement.xp_reward, 0)
+                WHERE id = p_user_id;
+
+                v_awarded := v_awarded || jsonb_build_array(to_jsonb(v_achievement));
+            END IF;
+        END IF;
+    END LOOP;
+
+    RETURN jsonb_build_object('success', true, 'awarded', v_awarded, 'metrics', v_metrics);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- RPC: Evaluate and award the caller's achievements
+-- ============================================
+
+DROP FUNCTION IF EXISTS evaluate_achievements();
+
+CREATE OR REPLACE FUNCTION evaluate_achievements()
+RETURNS JSONB AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Not authenticated');
+    END IF;
+
+    RETURN award_achievements(auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- TRIGGER: Contributors earn achievements when their work is approved
+-- Approval happens in a reviewer's or admin's session (submit_review), so
+-- the contributor's own client never gets the chance to evaluate
+-- ============================================
+
+CREATE OR REPLACE FUNCTION award_achievements_on_approval()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM award_achievements(
+        CASE WHEN TG_TABLE_NAME = 'assets' THEN NEW.created_by ELSE NEW.submitted_by END
+    );
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS award_asset_achievements ON assets;
+CREATE TRIGGER award_asset_achievements
+    AFTER UPDATE OF status ON assets
+    FOR EACH ROW
+    WHEN (NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved')
+    EXECUTE FUNCTION award_achievements_on_approval();
+
+DROP TRIGGER IF EXISTS award_audio_achievements ON audio_submissions;
+CREATE TRIGGER award_audio_achievements
+    AFTER UPDATE OF status ON audio_submissions
+    FOR EACH ROW
+    WHEN (NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved')
+    EXECUTE FUNCTION award_achievements_on_approval();
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION evaluate_achievements() TO authenticated;
+REVOKE EXECUTE ON FUNCTION get_achievement_metrics(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION award_achievements(UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- Extra achievements using the richer criteria
+-- ============================================
+
+INSERT INTO achievements (name, description, icon, xp_reward, criteria)
+SELECT v.name, v.description, v.icon, v.xp_reward, v.criteria::JSONB
+FROM (VALUES
+    ('First Words', 'Record your first pronunciation attempt', '🗣️', 10, '{"speak_attempts": 1}'),
+    ('Clear Speaker', 'Pass 25 pronunciation attempts', '🎙️', 75, '{"speak_attempts_passed": 25}'),
+    ('Sharp Ear', 'Keep 90% accuracy over 50 attempts', '👂', 100,
+        '{"all": [{"metric": "accuracy", "op": "gte", "value": 90}, {"total_attempts": 50}]}'),
+    ('Steady Reviewer', 'Complete 100 spaced reviews', '🔁', 50, '{"reviews_completed": 100}')
+) AS v(name, description, icon, xp_reward, criteria)
+WHERE NOT EXISTS (SELECT 1 FROM achievements a WHERE a.name = v.name);
+
+-- ============================================
+-- Verify
+-- ============================================
+SELECT name, criteria FROM achievements WHERE is_active ORDER BY xp_reward;
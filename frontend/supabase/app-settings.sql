@@ -0,0 +1,161 @@
+-- ============================================
+-- APP SETTINGS - Platform settings and feature flags
+-- One row per setting. Only admins can read or change the table; everyone
+-- else gets the values through get_public_settings().
+-- Replaces review_settings from review-consensus.sql.
+-- Run this in Supabase SQL Editor after review-consensus.sql
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS app_settings (
+    key TEXT PRIMARY KEY,
+    value JSONB NOT NULL,
+    updated_by UUID REFERENCES profiles(id),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Defaults; existing values are kept
+INSERT INTO app_settings (key, value) VALUES
+    ('site_name', '"Asụsụ Ohafia"'),
+    ('site_description', '"Learn Igbo (Ohafia Dialect)"'),
+    ('maintenance_mode', 'false'),
+    ('allow_registration', 'true'),
+    ('require_email_verification', 'true'),
+    ('auto_approve_contributors', 'false'),
+    ('min_reviews_required', '1'),
+    ('enable_audio_recording', 'true'),
+    ('enable_ai_assist', 'false')
+ON CONFLICT (key) DO NOTHING;
+
+-- Carry over the review quorum if review-consensus.sql was run
+DO $$ BEGIN
+    UPDATE app_settings
+    SET value = to_jsonb((SELECT min_reviews_required FROM review_settings WHERE id))
+    WHERE key = 'min_reviews_required'
+      AND EXISTS (SELECT 1 FROM review_settings WHERE id);
+EXCEPTION
+    WHEN undefined_table THEN null;
+END $$;
+
+-- Enable RLS
+ALTER TABLE app_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view app settings" ON app_settings;
+DROP POLICY IF EXISTS "Admins can insert app settings" ON app_settings;
+DROP POLICY IF EXISTS "Admins can update app settings" ON app_settings;
+
+CREATE POLICY "Admins can view app settings" ON app_settings
+    FOR SELECT TO authenticated
+    USING (
+        EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin')
+    );
+
+CREATE POLICY "Admins can insert app settings" ON app_settings
+    FOR INSERT TO authenticated
+    WITH CHECK (
+        EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin')
+    );
+
+CREATE POLICY "Admins can update app settings" ON app_settings
+    FOR UPDATE TO authenticated
+    USING (
+        EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin')
+    )
+    WITH CHECK (
+        EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin')
+    );
+
+DROP TRIGGER IF EXISTS update_app_settings_updated_at ON app_settings;
+CREATE TRIGGER update_app_settings_updated_at
+    BEFORE UPDATE ON app_settings
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================
+-- Helpers
+-- ============================================
+
+-- A setting's value, for use inside other functions and triggers
+DROP FUNCTION IF EXISTS app_setting(TEXT);
+
+CREATE OR REPLACE FUNCTION app_setting(p_key TEXT)
+RETURNS JSONB AS $$
+    SELECT value FROM app_settings WHERE key = p_key;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- RPC: Every setting as one object, readable before sign-in
+DROP FUNCTION IF EXISTS get_public_settings();
+
+CREATE OR REPLACE FUNCTION get_public_settings()
+RETURNS JSONB AS $$
+    SELECT COALESCE(jsonb_object_agg(key, value), '{}'::jsonb) FROM app_settings;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_public_settings() TO anon, authenticated;
+REVOKE EXECUTE ON FUNCTION app_setting(TEXT) FROM PUBLIC;
+
+-- The review quorum now comes from app_settings
+CREATE OR REPLACE FUNCTION review_quorum()
+RETURNS INTEGER AS $$
+    SELECT GREATEST(1, COALESCE((app_setting('min_reviews_required'))::INTEGER, 1));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP TABLE IF EXISTS review_settings;
+
+-- ============================================
+-- TRIGGER: Block sign-ups while registration is closed
+-- ============================================
+
+CREATE OR REPLACE FUNCTION enforce_registration_open()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF COALESCE((public.app_setting('allow_registration'))::BOOLEAN, TRUE) = FALSE THEN
+        RAISE EXCEPTION 'Signup disabled';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_registration_open ON auth.users;
+CREATE TRIGGER enforce_registration_open
+    BEFORE INSERT ON auth.users
+    FOR EACH ROW EXECUTE FUNCTION enforce_registration_open();
+
+-- ============================================
+-- TRIGGER: Auto-approve contributor requests when enabled
+-- Only learners are promoted; nobody is moved down a role
+-- ============================================
+
+CREATE OR REPLACE FUNCTION auto_approve_role_request()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status <> 'pending'
+       OR NEW.requested_role <> 'contributor'
+       OR COALESCE((app_setting('auto_approve_contributors'))::BOOLEAN, FALSE) = FALSE THEN
+        RETURN NEW;
+    END IF;
+
+    UPDATE role_requests
+    SET status = 'approved',
+        reviewed_at = NOW(),
+        review_notes = 'Approved automatically',
+        updated_at = NOW()
+    WHERE id = NEW.id;
+
+    UPDATE profiles
+    SET role = 'contributor',
+        updated_at = NOW()
+    WHERE id = NEW.user_id AND role = 'learner';
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS auto_approve_role_request ON role_requests;
+CREATE TRIGGER auto_approve_role_request
+    AFTER INSERT ON role_requests
+    FOR EACH ROW EXECUTE FUNCTION auto_approve_role_request();
+
+-- ============================================
+-- Verify
+-- ============================================
+SELECT key, value FROM app_settings ORDER BY key;
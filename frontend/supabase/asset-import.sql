@@ -0,0 +1,180 @@
+-- ============================================
+-- BULK ASSET AND LESSON IMPORT
+-- Admins import many assets or lessons at once from the import wizard.
+-- Each batch is written in one transaction: if any row fails (bad type,
+-- unknown category, duplicate Igbo text or lesson title) nothing is imported.
+-- Run this in Supabase SQL Editor
+-- ============================================
+
+-- Duplicate checks compare Igbo text ignoring case, spacing and how tone
+-- marks were typed
+CREATE INDEX IF NOT EXISTS idx_assets_igbo_text_key
+    ON assets (lower(btrim(normalize(igbo_text, NFC))));
+
+DROP FUNCTION IF EXISTS import_assets(JSONB, asset_status);
+
+CREATE OR REPLACE FUNCTION import_assets(
+    p_assets JSONB,
+    p_status asset_status DEFAULT 'approved'
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_user UUID := auth.uid();
+    v_row JSONB;
+    v_line INTEGER := 0;
+    v_igbo TEXT;
+    v_category TEXT;
+    v_inserted INTEGER := 0;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = v_user AND role = 'admin') THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Only admins can import assets');
+    END IF;
+
+    IF jsonb_typeof(p_assets) <> 'array' OR jsonb_array_length(p_assets) = 0 THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Nothing to import');
+    END IF;
+
+    BEGIN
+        FOR v_row IN SELECT * FROM jsonb_array_elements(p_assets) LOOP
+            v_line := v_line + 1;
+            v_igbo := btrim(normalize(v_row->>'igbo_text', NFC));
+            v_category := NULLIF(btrim(v_row->>'category'), '');
+
+            IF COALESCE(v_igbo, '') = '' OR COALESCE(btrim(v_row->>'english_text'), '') = '' THEN
+                RAISE EXCEPTION 'Row %: Igbo text and English translation are required', v_line;
+            END IF;
+
+            -- Also catches repeats within the batch, since earlier rows are already inserted
+            IF EXISTS (
+                SELECT 1 FROM assets
+                WHERE lower(btrim(normalize(igbo_text, NFC))) = lower(v_igbo)
+            ) THEN
+                RAISE EXCEPTION 'Row %: "%" already exists', v_line, v_igbo;
+            END IF;
+
+            IF v_category IS NOT NULL AND NOT EXISTS (
+                SELECT 1 FROM asset_categories WHERE name = v_category AND status = 'approved'
+            ) THEN
+                RAISE EXCEPTION 'Row %: category "%" does not exist', v_line, v_category;
+            END IF;
+
+            INSERT INTO assets (
+                igbo_text, english_text, type, difficulty, category,
+                pronunciation_guide, cultural_note, tags, audio_url, lesson_id,
+                status, created_by, reviewed_by, reviewed_at
+            ) VALUES (
+                v_igbo,
+                btrim(v_row->>'english_text'),
+                COALESCE(NULLIF(v_row->>'type', ''), 'word')::asset_type,
+                COALESCE(NULLIF(v_row->>'difficulty', ''), 'beginner')::proficiency_level,
+                v_category,
+                NULLIF(btrim(v_row->>'pronunciation_guide'), ''),
+                NULLIF(btrim(v_row->>'cultural_note'), ''),
+                CASE WHEN jsonb_typeof(v_row->'tags') = 'array'
+                    THEN ARRAY(SELECT jsonb_array_elements_text(v_row->'tags'))
+                END,
+                NULLIF(btrim(v_row->>'audio_url'), ''),
+                NULLIF(v_row->>'lesson_id', '')::UUID,
+                p_status,
+                v_user,
+                CASE WHEN p_status = 'approved' THEN v_user END,
+                CASE WHEN p_status = 'approved' THEN NOW() END
+            );
+
+            v_inserted := v_inserted + 1;
+        END LOOP;
+    EXCEPTION
+        WHEN OTHERS THEN
+            -- Leaving the block rolls back every row inserted so far
+            RETURN jsonb_build_object(
+                'success', false,
+                'error', CASE WHEN SQLSTATE = 'P0001' THEN SQLERRM ELSE format('Row %s: %s', v_line, SQLERRM) END
+            );
+    END;
+
+    RETURN jsonb_build_object('success', true, 'inserted', v_inserted);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- Lessons are matched by title, so titles must not repeat. Imported
+-- lessons keep the default prerequisites (the lesson before them).
+-- ============================================
+DROP FUNCTION IF EXISTS import_lessons(JSONB);
+
+CREATE OR REPLACE FUNCTION import_lessons(p_lessons JSONB)
+RETURNS JSONB AS $$
+DECLARE
+    v_user UUID := auth.uid();
+    v_row JSONB;
+    v_line INTEGER := 0;
+    v_title TEXT;
+    v_inserted INTEGER := 0;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = v_user AND role = 'admin') THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Only admins can import lessons');
+    END IF;
+
+    IF jsonb_typeof(p_lessons) <> 'array' OR jsonb_array_length(p_lessons) = 0 THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Nothing to import');
+    END IF;
+
+    BEGIN
+        FOR v_row IN SELECT * FROM jsonb_array_elements(p_lessons) LOOP
+            v_line := v_line + 1;
+            v_title := btrim(v_row->>'title');
+
+            IF COALESCE(v_title, '') = '' THEN
+                RAISE EXCEPTION 'Row %: Title is required', v_line;
+            END IF;
+
+            -- Also catches repeats within the batch, since earlier rows are already inserted
+            IF EXISTS (SELECT 1 FROM lessons WHERE lower(btrim(title)) = lower(v_title)) THEN
+                RAISE EXCEPTION 'Row %: lesson "%" already exists', v_line, v_title;
+            END IF;
+
+            IF (v_row->>'order_index')::INTEGER < 0
+                OR (v_row->>'estimated_minutes')::INTEGER < 0
+                OR (v_row->>'xp_reward')::INTEGER < 0 THEN
+                RAISE EXCEPTION 'Row %: numbers cannot be negative', v_line;
+            END IF;
+
+            INSERT INTO lessons (
+                title, description, category, difficulty, order_index,
+                estimated_minutes, xp_reward, is_published, created_by
+            ) VALUES (
+                v_title,
+                NULLIF(btrim(v_row->>'description'), ''),
+                NULLIF(btrim(v_row->>'category'), ''),
+                COALESCE(NULLIF(v_row->>'difficulty', ''), 'beginner')::proficiency_level,
+                COALESCE((v_row->>'order_index')::INTEGER, 0),
+                COALESCE((v_row->>'estimated_minutes')::INTEGER, 10),
+                COALESCE((v_row->>'xp_reward')::INTEGER, 10),
+                COALESCE((v_row->>'is_published')::BOOLEAN, FALSE),
+                v_user
+            );
+
+            v_inserted := v_inserted + 1;
+        END LOOP;
+    EXCEPTION
+        WHEN OTHERS THEN
+            -- Leaving the block rolls back every row inserted so far
+            RETURN jsonb_build_object(
+                'success', false,
+                'error', CASE WHEN SQLSTATE = 'P0001' THEN SQLERRM ELSE format('Row %s: %s', v_line, SQLERRM) END
+            );
+    END;
+
+    RETURN jsonb_build_object('success', true, 'inserted', v_inserted);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION import_assets(JSONB, asset_status) TO authenticated;
+GRANT EXECUTE ON FUNCTION import_lessons(JSONB) TO authenticated;
+
+-- ============================================
+-- Verify
+-- ============================================
+SELECT 'Asset import ready' as info, COUNT(*) as assets FROM assets;
+SELECT 'Lesson import ready' as info, COUNT(*) as lessons FROM lessons;
@@ -0,0 +1,159 @@
+-- ============================================
+-- ASSET REVISIONS - Field-level edit history
+-- Every update to an asset's content or status records the old and new
+-- values of the fields that changed, so edits can be reviewed and undone.
+-- Run this in Supabase SQL Editor after review-consensus.sql
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS asset_revisions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    asset_id UUID NOT NULL REFERENCES assets(id) ON DELETE CASCADE,
+    changed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    -- Changed fields only, e.g. {"english_text": {"old": "hello", "new": "hi"}}
+    changes JSONB NOT NULL,
+    -- The revision this one undid, when it came from a rollback
+    rolled_back_from UUID REFERENCES asset_revisions(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_asset_revisions_asset ON asset_revisions(asset_id, created_at DESC);
+
+ALTER TABLE asset_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Owners and reviewers can view asset revisions" ON asset_revisions;
+
+-- Revisions are written by the trigger below; there is no insert policy
+CREATE POLICY "Owners and reviewers can view asset revisions" ON asset_revisions
+    FOR SELECT TO authenticated
+    USING (
+        EXISTS (SELECT 1 FROM assets WHERE assets.id = asset_id AND assets.created_by = auth.uid())
+        OR EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role IN ('reviewer', 'admin')
+        )
+    );
+
+-- ============================================
+-- TRIGGER: Record changed fields on update
+-- ============================================
+
+CREATE OR REPLACE FUNCTION record_asset_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_changes JSONB := '{}'::jsonb;
+BEGIN
+    IF NEW.igbo_text IS DISTINCT FROM OLD.igbo_text THEN
+        v_changes := v_changes || jsonb_build_object('igbo_text', jsonb_build_object('old', OLD.igbo_text, 'new', NEW.igbo_text));
+    END IF;
+    IF NEW.english_text IS DISTINCT FROM OLD.english_text THEN
+        v_changes := v_changes || jsonb_build_object('english_text', jsonb_build_object('old', OLD.english_text, 'new', NEW.english_text));
+    END IF;
+    IF NEW.pronunciation_guide IS DISTINCT FROM OLD.pronunciation_guide THEN
+        v_changes := v_changes || jsonb_build_object('pronunciation_guide', jsonb_build_object('old', OLD.pronunciation_guide, 'new', NEW.pronunciation_guide));
+    END IF;
+    IF NEW.cultural_note IS DISTINCT FROM OLD.cultural_note THEN
+        v_changes := v_changes || jsonb_build_object('cultural_note', jsonb_build_object('old', OLD.cultural_note, 'new', NEW.cultural_note));
+    END IF;
+    IF NEW.tags IS DISTINCT FROM OLD.tags THEN
+        v_changes := v_changes || jsonb_build_object('tags', jsonb_build_object('old', to_jsonb(OLD.tags), 'new', to_jsonb(NEW.tags)));
+    END IF;
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+        v_changes := v_changes || jsonb_build_object('status', jsonb_build_object('old', OLD.status, 'new', NEW.status));
+    END IF;
+
+    IF v_changes <> '{}'::jsonb THEN
+        INSERT INTO asset_revisions (asset_id, changed_by, changes, rolled_back_from)
+        VALUES (
+            NEW.id,
+            auth.uid(),
+            v_changes,
+            NULLIF(current_setting('app.rollback_revision', true), '')::UUID
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_asset_revision ON assets;
+CREATE TRIGGER record_asset_revision
+    AFTER UPDATE ON assets
+    FOR EACH ROW EXECUTE FUNCTION record_asset_revision();
+
+-- ============================================
+-- RPC: Roll back a revision
+-- Restores the values the revision replaced. Admins can roll back any
+-- revision, including status changes; owners can roll back text edits on
+-- their own drafts and rejected assets.
+-- ============================================
+
+DROP FUNCTION IF EXISTS rollback_asset_revision(UUID);
+
+CREATE OR REPLACE FUNCTION rollback_asset_revision(p_revision_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    v_user UUID := auth.uid();
+    v_is_admin BOOLEAN;
+    v_revision asset_revisions%ROWTYPE;
+    v_asset assets%ROWTYPE;
+    v_changes JSONB;
+BEGIN
+    SELECT * INTO v_revision FROM asset_revisions WHERE id = p_revision_id;
+    IF v_revision.id IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Revision not found');
+    END IF;
+
+    SELECT * INTO v_asset FROM assets WHERE id = v_revision.asset_id;
+    v_is_admin := EXISTS (SELECT 1 FROM profiles WHERE id = v_user AND role = 'admin');
+
+    IF NOT v_is_admin THEN
+        IF v_asset.created_by IS DISTINCT FROM v_user THEN
+            RETURN jsonb_build_object('success', false, 'error', 'You can only roll back your own assets');
+        END IF;
+        IF v_asset.status NOT IN ('draft', 'rejected') THEN
+            RETURN jsonb_build_object('success', false, 'error', 'Only drafts and rejected assets can be rolled back');
+        END IF;
+    END IF;
+
+    -- Status decisions belong to reviewers, so only admins can restore them
+    v_changes := v_revision.changes;
+    IF NOT v_is_admin THEN
+        v_changes := v_changes - 'status';
+    END IF;
+
+    IF v_changes = '{}'::jsonb THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Nothing in this revision can be rolled back');
+    END IF;
+
+    PERFORM set_config('app.rollback_revision', p_revision_id::TEXT, true);
+
+    UPDATE assets SET
+        igbo_text = CASE WHEN v_changes ? 'igbo_text' THEN v_changes->'igbo_text'->>'old' ELSE igbo_text END,
+        english_text = CASE WHEN v_changes ? 'english_text' THEN v_changes->'english_text'->>'old' ELSE english_text END,
+        pronunciation_guide = CASE WHEN v_changes ? 'pronunciation_guide' THEN v_changes->'pronunciation_guide'->>'old' ELSE pronunciation_guide END,
+        cultural_note = CASE WHEN v_changes ? 'cultural_note' THEN v_changes->'cultural_note'->>'old' ELSE cultural_note END,
+        tags = CASE
+            WHEN NOT v_changes ? 'tags' THEN tags
+            WHEN jsonb_typeof(v_changes->'tags'->'old') = 'array'
+                THEN ARRAY(SELECT jsonb_array_elements_text(v_changes->'tags'->'old'))
+            ELSE NULL
+        END,
+        status = CASE WHEN v_changes ? 'status' THEN (v_changes->'status'->>'old')::asset_status ELSE status END,
+        updated_at = NOW()
+    WHERE id = v_asset.id
+    RETURNING * INTO v_asset;
+
+    PERFORM set_config('app.rollback_revision', '', true);
+
+    RETURN jsonb_build_object('success', true, 'asset', to_jsonb(v_asset));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION rollback_asset_revision(UUID) TO authenticated;
+
+-- ============================================
+-- Verify
+-- ============================================
+SELECT 'Asset revisions set up:' as info, COUNT(*) as revisions FROM asset_revisions;
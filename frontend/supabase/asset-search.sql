@@ -0,0 +1,129 @@
+-- ============================================
+-- ASSET SEARCH
+-- Full-text and trigram search over assets that ignores case, tone marks
+-- and the dots under ị, ọ, ụ (and over ṅ), so "oma" finds "ọma" and
+-- "akwa" finds "ákwà". Results are ranked by relevance.
+-- Run this in Supabase SQL Editor
+-- ============================================
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- ============================================
+-- Folding helpers
+-- ============================================
+
+-- Lowercase and drop every combining mark
+CREATE OR REPLACE FUNCTION search_fold(p_text TEXT)
+RETURNS TEXT AS $$
+    SELECT lower(regexp_replace(normalize(COALESCE(p_text, ''), NFD), '[\u0300-\u036f]', '', 'g'));
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+-- Weighted document: Igbo and English text first, then tags, then notes
+CREATE OR REPLACE FUNCTION asset_search_vector(
+    p_igbo TEXT,
+    p_english TEXT,
+    p_tags TEXT[],
+    p_note TEXT
+)
+RETURNS tsvector AS $$
+    SELECT
+        setweight(to_tsvector('simple', search_fold(p_igbo)), 'A') ||
+        setweight(to_tsvector('simple', search_fold(p_english)), 'A') ||
+        setweight(to_tsvector('simple', search_fold(array_to_string(p_tags, ' '))), 'B') ||
+        setweight(to_tsvector('simple', search_fold(p_note)), 'C');
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+-- Expression indexes rather than a stored column, so select('*') stays lean
+CREATE INDEX IF NOT EXISTS idx_assets_search_vector
+    ON assets USING GIN (asset_search_vector(igbo_text, english_text, tags, cultural_note));
+CREATE INDEX IF NOT EXISTS idx_assets_igbo_trgm ON assets USING GIN (search_fold(igbo_text) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_assets_english_trgm ON assets USING GIN (search_fold(english_text) gin_trgm_ops);
+
+-- ============================================
+-- RPC: Search assets
+-- Runs with the caller's permissions, so learners only find approved
+-- assets (and their own); pass p_status or p_created_by to narrow further.
+-- ============================================
+
+DROP FUNCTION IF EXISTS search_assets(TEXT, asset_type, proficiency_level, TEXT, asset_status, UUID, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION search_assets(
+    p_query TEXT,
+    p_type asset_type DEFAULT NULL,
+    p_difficulty proficiency_level DEFAULT NULL,
+    p_category TEXT DEFAULT NULL,
+    p_status asset_status DEFAULT NULL,
+    p_created_by UUID DEFAULT NULL,
+    p_limit INTEGER DEFAULT 50,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_query TEXT := btrim(search_fold(p_query));
+    v_tsquery tsquery;
+    v_results JSONB;
+    v_total INTEGER;
+BEGIN
+    IF v_query = '' THEN
+        RETURN jsonb_build_object('success', true, 'results', '[]'::jsonb, 'total', 0);
+    END IF;
+
+    -- Every word must match, allowing prefixes: "nde ob" -> nde:* & ob:*
+    SELECT to_tsquery('simple', string_agg(word || ':*', ' & '))
+    INTO v_tsquery
+    FROM (
+        SELECT regexp_replace(w, '[^[:alnum:]]', '', 'g') AS word
+        FROM regexp_split_to_table(v_query, '\s+') AS w
+    ) words
+    WHERE word <> '';
+
+    WITH matches AS (
+        SELECT
+            a.*,
+            (
+                COALESCE(ts_rank(asset_search_vector(a.igbo_text, a.english_text, a.tags, a.cultural_note), v_tsquery), 0)
+                + GREATEST(
+                    similarity(search_fold(a.igbo_text), v_query),
+                    similarity(search_fold(a.english_text), v_query)
+                )
+                + CASE WHEN search_fold(a.igbo_text) = v_query OR search_fold(a.english_text) = v_query THEN 1 ELSE 0 END
+            ) AS rank
+        FROM assets a
+        WHERE (
+                (v_tsquery IS NOT NULL
+                    AND asset_search_vector(a.igbo_text, a.english_text, a.tags, a.cultural_note) @@ v_tsquery)
+                -- <% rather than word_similarity() so the trigram indexes are used
+                OR v_query <% search_fold(a.igbo_text)
+                OR v_query <% search_fold(a.english_text)
+            )
+            AND (p_type IS NULL OR a.type = p_type)
+            AND (p_difficulty IS NULL OR a.difficulty = p_difficulty)
+            AND (p_category IS NULL OR a.category = p_category)
+            AND (p_status IS NULL OR a.status = p_status)
+            AND (p_created_by IS NULL OR a.created_by = p_created_by)
+    )
+    SELECT
+        (SELECT COUNT(*) FROM matches),
+        COALESCE(jsonb_agg(to_jsonb(page) ORDER BY page.rank DESC, page.igbo_text), '[]'::jsonb)
+    INTO v_total, v_results
+    FROM (
+        SELECT * FROM matches
+        ORDER BY rank DESC, igbo_text
+        LIMIT LEAST(GREATEST(p_limit, 1), 200)
+        OFFSET GREATEST(p_offset, 0)
+    ) page;
+
+    RETURN jsonb_build_object('success', true, 'results', v_results, 'total', v_total);
+END;
+$$ LANGUAGE plpgsql STABLE
+SET search_path = public
+SET pg_trgm.word_similarity_threshold = 0.5;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION search_fold(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION search_assets(TEXT, asset_type, proficiency_level, TEXT, asset_status, UUID, INTEGER, INTEGER) TO authenticated;
+
+-- ============================================
+-- Verify
+-- ============================================
+SELECT 'Asset search set up:' as info, search_fold('Ọ́ma ṅ Ákwà') as folded;
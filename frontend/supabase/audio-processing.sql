@@ -0,0 +1,18 @@
+-- ============================================
+-- AUDIO PROCESSING
+-- The Recording Studio now trims, normalizes and encodes recordings as
+-- WAV before upload, and records their exact length. Durations were
+-- whole seconds; short words need fractions of a second.
+-- Run this in Supabase SQL Editor
+-- ============================================
+
+ALTER TABLE audio_submissions
+    ALTER COLUMN duration_seconds TYPE NUMERIC(7, 2);
+
+-- ============================================
+-- Verify
+-- ============================================
+SELECT 'Audio processing ready:' as info;
+SELECT column_name, data_type, numeric_precision, numeric_scale
+FROM information_schema.columns
+WHERE table_name = 'audio_submissions' AND column_name = 'duration_seconds';
@@ -0,0 +1,121 @@
+-- ============================================
+-- AUDIO QUALITY RATINGS
+-- Reviewers score audio submissions for clarity, background noise,
+-- pronunciation accuracy and tone correctness (1-5 each) in their review
+-- rubric. The scores are averaged onto the submission, and a primary
+-- clip that rates poorly is flagged so contributors re-record it.
+-- Run this in Supabase SQL Editor (after review-consensus.sql and
+-- speaker-profiles.sql)
+-- ============================================
+
+-- Per-criterion averages, e.g. {"clarity": 4.5, "noise": 3, "tone": 2.5}
+ALTER TABLE audio_submissions ADD COLUMN IF NOT EXISTS quality_scores JSONB NOT NULL DEFAULT '{}';
+ALTER TABLE audio_submissions ADD COLUMN IF NOT EXISTS quality_rating_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE audio_submissions ADD COLUMN IF NOT EXISTS needs_rerecord BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_audio_needs_rerecord
+ON audio_submissions(asset_id) WHERE needs_rerecord;
+
+-- ============================================
+-- Recompute a submission's ratings from its audio reviews
+-- quality_rating is the rounded average across every criterion
+-- ============================================
+DROP FUNCTION IF EXISTS refresh_audio_quality(UUID);
+
+CREATE OR REPLACE FUNCTION refresh_audio_quality(p_submission_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_scores JSONB;
+    v_count INTEGER;
+    v_average NUMERIC;
+BEGIN
+    WITH scores AS (
+        SELECT r.id, s.key, s.value::NUMERIC AS score
+        FROM reviews r, jsonb_each_text(r.rubric) s
+        WHERE r.item_type = 'audio'
+        AND r.item_id = p_submission_id
+        AND s.key IN ('clarity', 'noise', 'pronunciation', 'tone')
+        AND s.value ~ '^[1-5]$'
+    )
+    SELECT
+        (SELECT COALESCE(jsonb_object_agg(key, ROUND(avg_score, 1)), '{}')
+         FROM (SELECT key, AVG(score) AS avg_score FROM scores GROUP BY key) per_key),
+        COUNT(DISTINCT id),
+        AVG(score)
+    INTO v_scores, v_count, v_average
+    FROM scores;
+
+    UPDATE audio_submissions SET
+        quality_scores = v_scores,
+        quality_rating_count = v_count,
+        quality_rating = ROUND(v_average)::INTEGER
+    WHERE id = p_submission_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION refresh_audio_quality_from_review()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM refresh_audio_quality(NEW.item_id);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Votes removed on resubmission are handled by sync_audio_rerecord_flag,
+-- since that delete runs while the submission row itself is being updated
+DROP TRIGGER IF EXISTS refresh_audio_quality_on_review ON reviews;
+CREATE TRIGGER refresh_audio_quality_on_review
+    AFTER INSERT OR UPDATE OF rubric ON reviews
+    FOR EACH ROW
+    WHEN (NEW.item_type = 'audio')
+    EXECUTE FUNCTION refresh_audio_quality_from_review();
+
+-- ============================================
+-- TRIGGER: Flag low-rated primary clips for re-recording
+-- A clip is flagged when it is the asset's primary and rates 2/5 or
+-- lower overall, or averages under 2 on any single criterion. Choosing a
+-- different primary clears the flag.
+-- ============================================
+CREATE OR REPLACE FUNCTION sync_audio_rerecord_flag()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Resubmitting clears the old votes, so clear their ratings too
+    IF TG_OP = 'UPDATE' AND NEW.status = 'pending' AND OLD.status IS DISTINCT FROM 'pending' THEN
+        NEW.quality_scores := '{}';
+        NEW.quality_rating_count := 0;
+        NEW.quality_rating := NULL;
+    END IF;
+
+    NEW.needs_rerecord := COALESCE(
+        NEW.is_primary
+        AND NEW.status = 'approved'
+        AND (
+            NEW.quality_rating <= 2
+            OR EXISTS (
+                SELECT 1 FROM jsonb_each_text(NEW.quality_scores) s
+                WHERE s.value::NUMERIC < 2
+            )
+        ),
+        FALSE
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_audio_rerecord_flag ON audio_submissions;
+CREATE TRIGGER sync_audio_rerecord_flag
+    BEFORE INSERT OR UPDATE ON audio_submissions
+    FOR EACH ROW EXECUTE FUNCTION sync_audio_rerecord_flag();
+
+-- ============================================
+-- Backfill from votes already cast
+-- ============================================
+SELECT refresh_audio_quality(id) FROM audio_submissions
+WHERE id IN (SELECT item_id FROM reviews WHERE item_type = 'audio');
+
+-- Verify setup
+SELECT 'Audio quality ratings set up:' as info;
+SELECT status, COUNT(*) AS clips, COUNT(*) FILTER (WHERE quality_rating_count > 0) AS rated,
+       COUNT(*) FILTER (WHERE needs_rerecord) AS needs_rerecord
+FROM audio_submissions GROUP BY status;
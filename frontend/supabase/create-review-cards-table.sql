@@ -0,0 +1,46 @@
+-- ============================================
+-- REVIEW CARDS TABLE - Spaced-repetition state
+-- One row per learner and asset, written by the
+-- client scheduler and synced from the offline queue
+-- Run this in Supabase SQL Editor
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS review_cards (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    asset_id UUID NOT NULL REFERENCES assets(id) ON DELETE CASCADE,
+    ease_factor DECIMAL(4,2) NOT NULL DEFAULT 2.5,
+    interval_days INTEGER NOT NULL DEFAULT 0,
+    repetitions INTEGER NOT NULL DEFAULT 0,
+    lapses INTEGER NOT NULL DEFAULT 0,
+    due_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    last_reviewed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(user_id, asset_id)
+);
+
+-- Due-card lookups are always per user, ordered by due date
+CREATE INDEX IF NOT EXISTS idx_review_cards_user_due ON review_cards(user_id, due_at);
+
+-- Enable RLS
+ALTER TABLE review_cards ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own review cards" ON review_cards;
+DROP POLICY IF EXISTS "Users can manage own review cards" ON review_cards;
+
+CREATE POLICY "Users can view own review cards" ON review_cards
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can manage own review cards" ON review_cards
+    FOR ALL USING (user_id = auth.uid())
+    WITH CHECK (user_id = auth.uid());
+
+DROP TRIGGER IF EXISTS update_review_cards_updated_at ON review_cards;
+CREATE TRIGGER update_review_cards_updated_at
+    BEFORE UPDATE ON review_cards
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Verify setup
+SELECT 'Review cards table created:' as info;
+SELECT column_name, data_type FROM information_schema.columns WHERE table_name = 'review_cards';
@@ -0,0 +1,37 @@
+-- ============================================
+-- DAILY PLANS TABLE - One generated practice plan per learner per day
+-- Generated in the client (src/lib/daily-plan.ts) on the first visit of
+-- the learner's local day and kept so it doesn't reshuffle on every visit
+-- Run this in Supabase SQL Editor
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS daily_plans (
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    plan_date DATE NOT NULL,
+    minutes_goal INTEGER NOT NULL DEFAULT 10,
+    items JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (user_id, plan_date)
+);
+
+-- Enable RLS
+ALTER TABLE daily_plans ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own daily plans" ON daily_plans;
+
+CREATE POLICY "Users can manage own daily plans" ON daily_plans
+    FOR ALL USING (user_id = auth.uid())
+    WITH CHECK (user_id = auth.uid());
+
+DROP TRIGGER IF EXISTS update_daily_plans_updated_at ON daily_plans;
+CREATE TRIGGER update_daily_plans_updated_at
+    BEFORE UPDATE ON daily_plans
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Weak-word lookups scan a learner's recent attempts
+CREATE INDEX IF NOT EXISTS idx_attempts_user_created ON attempts(user_id, created_at DESC);
+
+-- Verify setup
+SELECT 'Daily plans table created:' as info;
+SELECT column_name, data_type FROM information_schema.columns WHERE table_name = 'daily_plans';
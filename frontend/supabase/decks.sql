@@ -0,0 +1,55 @@
+-- ============================================
+-- DECKS - Personal word lists
+-- Learners save assets to their own decks and practise a deck in any
+-- practice mode. Deck ids are generated on the client so decks created
+-- offline keep their id when they sync.
+-- Run this in Supabase SQL Editor
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS decks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 80),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS deck_items (
+    deck_id UUID NOT NULL REFERENCES decks(id) ON DELETE CASCADE,
+    asset_id UUID NOT NULL REFERENCES assets(id) ON DELETE CASCADE,
+    added_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (deck_id, asset_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_decks_user ON decks(user_id);
+CREATE INDEX IF NOT EXISTS idx_deck_items_asset ON deck_items(asset_id);
+
+-- Enable RLS
+ALTER TABLE decks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE deck_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own decks" ON decks;
+DROP POLICY IF EXISTS "Users can manage items in own decks" ON deck_items;
+
+CREATE POLICY "Users can manage own decks" ON decks
+    FOR ALL USING (user_id = auth.uid())
+    WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can manage items in own decks" ON deck_items
+    FOR ALL USING (
+        EXISTS (SELECT 1 FROM decks WHERE decks.id = deck_items.deck_id AND decks.user_id = auth.uid())
+    )
+    WITH CHECK (
+        EXISTS (SELECT 1 FROM decks WHERE decks.id = deck_items.deck_id AND decks.user_id = auth.uid())
+    );
+
+DROP TRIGGER IF EXISTS update_decks_updated_at ON decks;
+CREATE TRIGGER update_decks_updated_at
+    BEFORE UPDATE ON decks
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Verify setup
+SELECT 'Decks tables created:' as info;
+SELECT table_name, column_name, data_type FROM information_schema.columns
+WHERE table_name IN ('decks', 'deck_items')
+ORDER BY table_name, ordinal_position;
@@ -0,0 +1,47 @@
+-- ============================================
+-- DIALOGUE ASSETS
+-- Dialogues keep their speakers and turns in assets.dialogue:
+--   { "speakers": [{ "id": "a", "name": "Ada" }, ...],
+--     "turns": [{ "id": "...", "speaker": "a", "igbo": "...",
+--                 "english": "...", "audio_url": "..." | null }, ...] }
+-- igbo_text / english_text hold the dialogue's title.
+-- Turn audio lives in the audio bucket under
+-- <user id>/<asset id>/turns/.
+-- Run this in Supabase SQL Editor
+-- ============================================
+
+ALTER TABLE assets ADD COLUMN IF NOT EXISTS dialogue JSONB;
+
+-- A dialogue needs at least two speakers and one turn, and every turn
+-- must belong to one of its speakers
+CREATE OR REPLACE FUNCTION is_valid_dialogue(p_dialogue JSONB)
+RETURNS BOOLEAN AS $$
+    SELECT
+        jsonb_typeof(p_dialogue->'speakers') = 'array'
+        AND jsonb_typeof(p_dialogue->'turns') = 'array'
+        AND jsonb_array_length(p_dialogue->'speakers') >= 2
+        AND jsonb_array_length(p_dialogue->'turns') >= 1
+        AND NOT EXISTS (
+            SELECT 1
+            FROM jsonb_array_elements(p_dialogue->'turns') AS turn
+            WHERE COALESCE(btrim(turn->>'igbo'), '') = ''
+               OR NOT EXISTS (
+                   SELECT 1
+                   FROM jsonb_array_elements(p_dialogue->'speakers') AS speaker
+                   WHERE speaker->>'id' = turn->>'speaker'
+               )
+        );
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE assets DROP CONSTRAINT IF EXISTS assets_dialogue_check;
+ALTER TABLE assets ADD CONSTRAINT assets_dialogue_check CHECK (
+    dialogue IS NULL OR (type = 'dialogue' AND is_valid_dialogue(dialogue))
+);
+
+-- ============================================
+-- Verify
+-- ============================================
+SELECT 'Dialogue column added:' as info,
+    COUNT(*) FILTER (WHERE type = 'dialogue') as dialogues,
+    COUNT(*) FILTER (WHERE dialogue IS NOT NULL) as structured
+FROM assets;
@@ -0,0 +1,167 @@
+-- ============================================
+-- LESSON PREREQUISITES
+-- Rejects prerequisite cycles and lets learners "test out" of the lessons
+-- standing between them and a locked lesson.
+-- Run this in Supabase SQL Editor after progress-aggregation.sql
+-- ============================================
+
+-- Lessons completed by passing a test-out quiz rather than by practice
+ALTER TABLE progress ADD COLUMN IF NOT EXISTS tested_out BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- ============================================
+-- TRIGGER: Prerequisites must form a DAG
+-- Uses the same rule as lesson-graph.ts: NULL prerequisites mean "the
+-- lesson before this one in course order", so an explicit prerequisite on
+-- an earlier lesson can still loop back through that implicit edge.
+-- Reordering lessons moves the implicit edges, so the whole graph is checked.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION check_lesson_prerequisites()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_cycle BOOLEAN;
+BEGIN
+    IF NEW.id = ANY(COALESCE(NEW.prerequisites, '{}')) THEN
+        RAISE EXCEPTION 'A lesson cannot be its own prerequisite';
+    END IF;
+
+    -- The lessons as they will be once this row is saved
+    WITH RECURSIVE graph AS (
+        SELECT id, prerequisites, order_index FROM lessons WHERE id <> NEW.id
+        UNION ALL
+        SELECT NEW.id, NEW.prerequisites, NEW.order_index
+    ),
+    ordered AS (
+        SELECT id, prerequisites, LAG(id) OVER (ORDER BY order_index, id) AS previous_id
+        FROM graph
+    ),
+    edges AS (
+        SELECT id, UNNEST(COALESCE(
+            prerequisites,
+            CASE WHEN previous_id IS NULL THEN '{}'::UUID[] ELSE ARRAY[previous_id] END
+        )) AS prerequisite_id
+        FROM ordered
+    ),
+    -- Every lesson reachable from each lesson; reaching itself means a cycle
+    chain(start_id, id) AS (
+        SELECT id, prerequisite_id FROM edges
+        UNION
+        SELECT c.start_id, e.prerequisite_id
+        FROM chain c
+        JOIN edges e ON e.id = c.id
+    )
+    SELECT EXISTS (SELECT 1 FROM chain WHERE id = start_id) INTO v_cycle;
+
+    IF v_cycle THEN
+        RAISE EXCEPTION 'These prerequisites would create a cycle';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_lesson_prerequisites ON lessons;
+CREATE TRIGGER check_lesson_prerequisites
+    BEFORE INSERT OR UPDATE OF prerequisites, order_index ON lessons
+    FOR EACH ROW EXECUTE FUNCTION check_lesson_prerequisites();
+
+-- ============================================
+-- FUNCTION: Grade quiz answers against the asset text
+-- p_answers: [{"asset_id": "...", "direction": "igbo-to-english", "answer": "..."}]
+-- Only the first answer per asset counts. Shared by test-out and placement.
+-- ============================================
+
+DROP FUNCTION IF EXISTS grade_quiz_answers(JSONB);
+
+CREATE OR REPLACE FUNCTION grade_quiz_answers(p_answers JSONB)
+RETURNS TABLE (asset_id UUID, lesson_id UUID, difficulty proficiency_level, is_correct BOOLEAN) AS $$
+    SELECT DISTINCT ON (a.id)
+        a.id,
+        a.lesson_id,
+        COALESCE(a.difficulty, 'beginner'),
+        TRIM(answer.value->>'answer') = TRIM(
+            CASE WHEN answer.value->>'direction' = 'english-to-igbo' THEN a.igbo_text ELSE a.english_text END
+        )
+    FROM jsonb_array_elements(COALESCE(p_answers, '[]')) WITH ORDINALITY AS answer(value, position)
+    JOIN assets a ON a.id = (answer.value->>'asset_id')::UUID
+    WHERE a.status = 'approved'
+    ORDER BY a.id, answer.position;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Only called from the RPCs below
+REVOKE EXECUTE ON FUNCTION grade_quiz_answers(JSONB) FROM PUBLIC;
+
+-- ============================================
+-- RPC: Mark lessons as completed after a passed test-out quiz
+-- The server grades the answers; a quiz must cover as many of the lessons'
+-- words as the app asks (10, or all of them when there are fewer).
+-- No XP is awarded; progress keeps any attempts already made
+-- ============================================
+
+DROP FUNCTION IF EXISTS test_out_lessons(UUID[], NUMERIC);
+DROP FUNCTION IF EXISTS test_out_lessons(UUID[], JSONB);
+
+CREATE OR REPLACE FUNCTION test_out_lessons(p_lesson_ids UUID[], p_answers JSONB)
+RETURNS JSONB AS $$
+DECLARE
+    v_user UUID := auth.uid();
+    v_available INTEGER;
+    v_required INTEGER;
+    v_correct INTEGER;
+    v_score INTEGER;
+    v_count INTEGER;
+BEGIN
+    IF v_user IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Not authenticated');
+    END IF;
+
+    SELECT COUNT(*) INTO v_available
+    FROM assets
+    WHERE lesson_id = ANY(p_lesson_ids)
+      AND status = 'approved'
+      AND NULLIF(TRIM(igbo_text), '') IS NOT NULL
+      AND NULLIF(TRIM(english_text), '') IS NOT NULL;
+
+    IF v_available < 4 THEN
+        RETURN jsonb_build_object('success', false, 'error', 'These lessons have too few words to test out');
+    END IF;
+
+    v_required := LEAST(10, v_available);
+
+    -- Answers for words outside these lessons don't count
+    SELECT COUNT(*) FILTER (WHERE g.is_correct) INTO v_correct
+    FROM grade_quiz_answers(p_answers) g
+    WHERE g.lesson_id = ANY(p_lesson_ids);
+
+    v_score := ROUND(LEAST(v_correct, v_required) * 100.0 / v_required);
+
+    IF v_score < 80 THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'A score of at least 80% is needed to test out',
+            'score', v_score
+        );
+    END IF;
+
+    INSERT INTO progress (user_id, lesson_id, is_completed, tested_out, completed_at)
+    SELECT v_user, l.id, TRUE, TRUE, NOW()
+    FROM lessons l
+    WHERE l.id = ANY(p_lesson_ids) AND l.is_published
+    ON CONFLICT (user_id, lesson_id) DO UPDATE SET
+        is_completed = TRUE,
+        tested_out = progress.tested_out OR NOT progress.is_completed,
+        completed_at = COALESCE(progress.completed_at, NOW());
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    RETURN jsonb_build_object('success', true, 'score', v_score, 'lessons_completed', v_count);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION test_out_lessons(UUID[], JSONB) TO authenticated;
+
+-- ============================================
+-- Verify
+-- ============================================
+SELECT id, title, prerequisites FROM lessons WHERE prerequisites IS NOT NULL ORDER BY order_index;
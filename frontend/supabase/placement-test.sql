@@ -0,0 +1,123 @@
+-- ============================================
+-- PLACEMENT TEST
+-- Stores the result of the onboarding placement test: sets the learner's
+-- proficiency level and marks every lesson below it as tested out.
+-- Run this in Supabase SQL Editor after lesson-prerequisites.sql, which
+-- defines grade_quiz_answers()
+-- ============================================
+
+-- Position of a level in the course, so levels can be compared
+DROP FUNCTION IF EXISTS proficiency_rank(proficiency_level);
+
+CREATE OR REPLACE FUNCTION proficiency_rank(p_level proficiency_level)
+RETURNS INTEGER AS $$
+    SELECT array_position(enum_range(NULL::proficiency_level), p_level);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================
+-- RPC: Apply a placement result
+-- The server grades the answers and replays the test's rules from
+-- lib/placement-test.ts: levels are taken easiest first, skipping those with
+-- fewer than 3 words; a level passes with 2 right answers at two-thirds
+-- accuracy, and the first level not passed ends the climb. The learner is
+-- placed one level above the highest passed.
+-- Retaking the test never un-completes lessons; a lower placement only
+-- changes the level
+-- ============================================
+
+DROP FUNCTION IF EXISTS apply_placement(proficiency_level, NUMERIC);
+DROP FUNCTION IF EXISTS apply_placement(JSONB);
+
+CREATE OR REPLACE FUNCTION apply_placement(p_answers JSONB)
+RETURNS JSONB AS $$
+DECLARE
+    v_user UUID := auth.uid();
+    v_levels proficiency_level[] := enum_range(NULL::proficiency_level);
+    v_level proficiency_level;
+    v_highest proficiency_level;
+    v_placed proficiency_level := 'beginner';
+    v_available INTEGER;
+    v_answered INTEGER;
+    v_correct INTEGER;
+    v_total_answered INTEGER;
+    v_total_correct INTEGER;
+    v_score INTEGER;
+    v_count INTEGER;
+BEGIN
+    IF v_user IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Not authenticated');
+    END IF;
+
+    FOREACH v_level IN ARRAY v_levels LOOP
+        SELECT COUNT(*) INTO v_available
+        FROM assets
+        WHERE status = 'approved'
+          AND COALESCE(difficulty, 'beginner') = v_level
+          AND NULLIF(TRIM(igbo_text), '') IS NOT NULL
+          AND NULLIF(TRIM(english_text), '') IS NOT NULL;
+
+        CONTINUE WHEN v_available < 3;
+
+        SELECT COUNT(*), COUNT(*) FILTER (WHERE is_correct)
+        INTO v_answered, v_correct
+        FROM grade_quiz_answers(p_answers)
+        WHERE difficulty = v_level;
+
+        EXIT WHEN v_correct < 2 OR v_correct * 3 < v_answered * 2;
+        v_highest := v_level;
+    END LOOP;
+
+    IF v_highest IS NOT NULL THEN
+        v_placed := v_levels[LEAST(proficiency_rank(v_highest) + 1, array_length(v_levels, 1))];
+    END IF;
+
+    SELECT COUNT(*), COUNT(*) FILTER (WHERE is_correct)
+    INTO v_total_answered, v_total_correct
+    FROM grade_quiz_answers(p_answers);
+
+    v_score := CASE WHEN v_total_answered > 0 THEN ROUND(v_total_correct * 100.0 / v_total_answered) ELSE 0 END;
+
+    UPDATE profiles SET
+        proficiency_level = v_placed,
+        preferences = COALESCE(preferences, '{}'::jsonb) || jsonb_build_object(
+            'placement', jsonb_build_object(
+                'level', v_placed,
+                'score', v_score,
+                'taken_at', NOW()
+            )
+        ),
+        updated_at = NOW()
+    WHERE id = v_user;
+
+    INSERT INTO progress (user_id, lesson_id, is_completed, tested_out, completed_at)
+    SELECT v_user, l.id, TRUE, TRUE, NOW()
+    FROM lessons l
+    WHERE l.is_published
+      AND proficiency_rank(COALESCE(l.difficulty, 'beginner')) < proficiency_rank(v_placed)
+    ON CONFLICT (user_id, lesson_id) DO UPDATE SET
+        is_completed = TRUE,
+        tested_out = progress.tested_out OR NOT progress.is_completed,
+        completed_at = COALESCE(progress.completed_at, NOW());
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'proficiency_level', v_placed,
+        'score', v_score,
+        'lessons_completed', v_count
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION apply_placement(JSONB) TO authenticated;
+
+-- ============================================
+-- Verify
+-- ============================================
+SELECT difficulty, COUNT(*) AS published_lessons
+FROM lessons
+WHERE is_published
+GROUP BY difficulty
+ORDER BY proficiency_rank(difficulty);
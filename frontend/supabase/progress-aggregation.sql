@@ -0,0 +1,271 @@
+-- ============================================
+-- SERVER-SIDE PROGRESS AGGREGATION
+-- Keeps `progress` and `profiles.total_xp` in step with `attempts`,
+-- including attempts that arrive late from the offline sync queue
+-- ============================================
+
+-- Attempts recorded from review sessions carry no lesson_id; attribute them
+-- to the lesson their asset belongs to
+CREATE INDEX IF NOT EXISTS idx_attempts_user_lesson ON attempts(user_id, lesson_id);
+CREATE INDEX IF NOT EXISTS idx_attempts_user_asset ON attempts(user_id, asset_id);
+
+-- ============================================
+-- FUNCTION: Recompute one learner's progress for one lesson
+-- Rebuilt from all attempts so the result doesn't depend on sync order.
+-- Returns TRUE when the lesson became completed by this call.
+-- ============================================
+
+DROP FUNCTION IF EXISTS refresh_lesson_progress(UUID, UUID);
+
+CREATE OR REPLACE FUNCTION refresh_lesson_progress(p_user_id UUID, p_lesson_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_total INTEGER;
+    v_correct INTEGER;
+    v_time INTEGER;
+    v_last TIMESTAMPTZ;
+    v_learned UUID[];
+    v_lesson_assets INTEGER;
+    v_practiced_assets INTEGER;
+    v_was_completed BOOLEAN;
+    v_now_completed BOOLEAN;
+BEGIN
+    SELECT
+        COUNT(*),
+        COUNT(*) FILTER (WHERE a.is_correct OR a.score >= 70),
+        COALESCE(SUM(a.time_spent_seconds), 0),
+        MAX(a.created_at),
+        COALESCE(ARRAY_AGG(DISTINCT a.asset_id) FILTER (WHERE a.is_correct OR a.score >= 70), '{}'),
+        COUNT(DISTINCT a.asset_id) FILTER (WHERE s.status = 'approved')
+    INTO v_total, v_correct, v_time, v_last, v_learned, v_practiced_assets
+    FROM attempts a
+    JOIN assets s ON s.id = a.asset_id
+    WHERE a.user_id = p_user_id
+      AND COALESCE(a.lesson_id, s.lesson_id) = p_lesson_id;
+
+    SELECT COUNT(*) INTO v_lesson_assets
+    FROM assets
+    WHERE lesson_id = p_lesson_id AND status = 'approved';
+
+    SELECT is_completed INTO v_was_completed
+    FROM progress
+    WHERE user_id = p_user_id AND lesson_id = p_lesson_id;
+
+    -- A lesson is done once every approved word has been practised;
+    -- completion is never taken back
+    v_now_completed := COALESCE(v_was_completed, FALSE)
+        OR (v_lesson_assets > 0 AND v_practiced_assets >= v_lesson_assets);
+
+    INSERT INTO progress (
+        user_id, lesson_id, completed_assets, total_attempts, correct_attempts,
+        accuracy_rate, time_spent_seconds, is_completed, completed_at, last_practiced_at
+    ) VALUES (
+        p_user_id, p_lesson_id, v_learned, v_total, v_correct,
+        CASE WHEN v_total > 0 THEN ROUND(v_correct * 100.0 / v_total, 2) ELSE 0 END,
+        v_time, v_now_completed,
+        CASE WHEN v_now_completed THEN NOW() END,
+        v_last
+    )
+    ON CONFLICT (user_id, lesson_id) DO UPDATE SET
+        completed_assets = EXCLUDED.completed_assets,
+        total_attempts = EXCLUDED.total_attempts,
+        correct_attempts = EXCLUDED.correct_attempts,
+        accuracy_rate = EXCLUDED.accuracy_rate,
+        time_spent_seconds = EXCLUDED.time_spent_seconds,
+        is_completed = EXCLUDED.is_completed,
+        completed_at = COALESCE(progress.completed_at, EXCLUDED.completed_at),
+        last_practiced_at = GREATEST(progress.last_practiced_at, EXCLUDED.last_practiced_at);
+
+    RETURN v_now_completed AND NOT COALESCE(v_was_completed, FALSE);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- TRIGGER: Aggregate after each batch of inserted attempts
+-- Statement-level so a synced batch recomputes each lesson once
+-- ============================================
+
+CREATE OR REPLACE FUNCTION handle_attempts_inserted()
+RETURNS TRIGGER AS $$
+DECLARE
+    rec RECORD;
+BEGIN
+    -- Recompute every touched (learner, lesson) pair; credit lesson XP on completion
+    FOR rec IN
+        SELECT DISTINCT n.user_id, COALESCE(n.lesson_id, s.lesson_id) AS lesson_id
+        FROM new_attempts n
+        JOIN assets s ON s.id = n.asset_id
+        WHERE COALESCE(n.lesson_id, s.lesson_id) IS NOT NULL
+    LOOP
+        IF refresh_lesson_progress(rec.user_id, rec.lesson_id) THEN
+            UPDATE profiles
+            SET total_xp = COALESCE(total_xp, 0) + COALESCE((SELECT xp_reward FROM lessons WHERE id = rec.lesson_id), 0)
+            WHERE id = rec.user_id;
+        END IF;
+    END LOOP;
+
+    -- 1 XP per correct attempt
+    UPDATE profiles p
+    SET total_xp = COALESCE(p.total_xp, 0) + c.correct_count
+    FROM (
+        SELECT user_id, COUNT(*) AS correct_count
+        FROM new_attempts
+        WHERE is_correct OR score >= 70
+        GROUP BY user_id
+    ) c
+    WHERE p.id = c.user_id;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_attempts_inserted ON attempts;
+
+CREATE TRIGGER on_attempts_inserted
+    AFTER INSERT ON attempts
+    REFERENCING NEW TABLE AS new_attempts
+    FOR EACH STATEMENT EXECUTE FUNCTION handle_attempts_inserted();
+
+-- ============================================
+-- RPC: Refresh the caller's progress for a lesson and return it
+-- Called when a practice session ends instead of writing progress directly
+-- ============================================
+
+DROP FUNCTION IF EXISTS complete_lesson_practice(UUID);
+
+CREATE OR REPLACE FUNCTION complete_lesson_practice(p_lesson_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    v_newly_completed BOOLEAN;
+    v_xp INTEGER := 0;
+    v_progress progress;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Not authenticated');
+    END IF;
+
+    v_newly_completed := refresh_lesson_progress(auth.uid(), p_lesson_id);
+
+    IF v_newly_completed THEN
+        SELECT COALESCE(xp_reward, 0) INTO v_xp FROM lessons WHERE id = p_lesson_id;
+        UPDATE profiles SET total_xp = COALESCE(total_xp, 0) + v_xp WHERE id = auth.uid();
+    END IF;
+
+    SELECT * INTO v_progress FROM progress WHERE user_id = auth.uid() AND lesson_id = p_lesson_id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'newly_completed', v_newly_completed,
+        'xp_awarded', v_xp,
+        'progress', to_jsonb(v_progress)
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- RPC: Progress summary for the caller
+-- Replaces scanning every attempt in the browser. Day boundaries follow the
+-- learner's timezone (IANA name, e.g. 'Africa/Lagos').
+-- ============================================
+
+DROP FUNCTION IF EXISTS get_progress_summary(TEXT);
+
+CREATE OR REPLACE FUNCTION get_progress_summary(p_timezone TEXT DEFAULT 'UTC')
+RETURNS JSONB AS $$
+DECLARE
+    v_user UUID := auth.uid();
+    v_today DATE;
+    v_result JSONB;
+BEGIN
+    IF v_user IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Not authenticated');
+    END IF;
+
+    -- Fall back to UTC for unknown zone names
+    BEGIN
+        v_today := (NOW() AT TIME ZONE p_timezone)::DATE;
+    EXCEPTION WHEN OTHERS THEN
+        p_timezone := 'UTC';
+        v_today := (NOW() AT TIME ZONE 'UTC')::DATE;
+    END;
+
+    WITH my_attempts AS (
+        SELECT
+            asset_id,
+            (is_correct OR score >= 70) AS correct,
+            (created_at AT TIME ZONE p_timezone)::DATE AS local_day
+        FROM attempts
+        WHERE user_id = v_user
+    ),
+    days AS (
+        SELECT generate_series(v_today - 6, v_today, INTERVAL '1 day')::DATE AS day
+    ),
+    my_progress AS (
+        SELECT lesson_id, is_completed, completed_assets,
+               (last_practiced_at AT TIME ZONE p_timezone)::DATE AS practiced_day
+        FROM progress
+        WHERE user_id = v_user
+    )
+    SELECT jsonb_build_object(
+        'success', true,
+        'total_xp', (SELECT COALESCE(total_xp, 0) FROM profiles WHERE id = v_user),
+        'streak_count', (SELECT COALESCE(streak_count, 0) FROM profiles WHERE id = v_user),
+        'total_attempts', (SELECT COUNT(*) FROM my_attempts),
+        'correct_attempts', (SELECT COUNT(*) FILTER (WHERE correct) FROM my_attempts),
+        'words_learned', (
+            SELECT COUNT(DISTINCT asset_id) FROM (
+                SELECT asset_id FROM my_attempts WHERE correct
+                UNION
+                SELECT UNNEST(completed_assets) FROM my_progress
+            ) learned
+        ),
+        'lessons_completed', (SELECT COUNT(*) FROM my_progress WHERE is_completed),
+        'total_lessons', (SELECT COUNT(*) FROM lessons WHERE is_published),
+        'weekly_activity', (
+            SELECT jsonb_agg(jsonb_build_object(
+                'date', d.day,
+                'attempts', (SELECT COUNT(*) FROM my_attempts a WHERE a.local_day = d.day),
+                'correct', (SELECT COUNT(*) FROM my_attempts a WHERE a.local_day = d.day AND a.correct),
+                'active', EXISTS (SELECT 1 FROM my_attempts a WHERE a.local_day = d.day)
+                    OR EXISTS (SELECT 1 FROM my_progress p WHERE p.practiced_day = d.day)
+            ) ORDER BY d.day)
+            FROM days d
+        ),
+        'lessons_practiced_this_week', (
+            SELECT COUNT(*) FROM my_progress WHERE practiced_day >= v_today - 6
+        )
+    ) INTO v_result;
+
+    RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE SET search_path = public;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION complete_lesson_practice(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_progress_summary(TEXT) TO authenticated;
+
+-- Internal helpers are only reachable through the trigger and RPCs above
+REVOKE EXECUTE ON FUNCTION refresh_lesson_progress(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- Backfill progress from existing attempts (no XP is re-credited)
+-- ============================================
+
+DO $$
+DECLARE
+    rec RECORD;
+BEGIN
+    FOR rec IN
+        SELECT DISTINCT a.user_id, COALESCE(a.lesson_id, s.lesson_id) AS lesson_id
+        FROM attempts a
+        JOIN assets s ON s.id = a.asset_id
+        WHERE COALESCE(a.lesson_id, s.lesson_id) IS NOT NULL
+    LOOP
+        PERFORM refresh_lesson_progress(rec.user_id, rec.lesson_id);
+    END LOOP;
+END $$;
+
+-- ============================================
+-- Verify
+-- ============================================
+SELECT COUNT(*) AS progress_rows FROM progress;
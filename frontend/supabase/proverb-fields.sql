@@ -0,0 +1,36 @@
+-- ============================================
+-- PROVERB FIELDS
+-- Proverbs (ilu) carry more than a translation: a word-for-word
+-- literal translation, the figurative meaning, when the proverb is
+-- used, and links to proverbs with a related meaning.
+-- english_text stays the short translation shown everywhere else.
+-- Run this in Supabase SQL Editor
+-- ============================================
+
+ALTER TABLE assets ADD COLUMN IF NOT EXISTS literal_translation TEXT;
+ALTER TABLE assets ADD COLUMN IF NOT EXISTS figurative_meaning TEXT;
+ALTER TABLE assets ADD COLUMN IF NOT EXISTS usage_context TEXT;
+ALTER TABLE assets ADD COLUMN IF NOT EXISTS related_proverb_ids UUID[];
+
+-- Only proverbs use these fields
+ALTER TABLE assets DROP CONSTRAINT IF EXISTS assets_proverb_fields_check;
+ALTER TABLE assets ADD CONSTRAINT assets_proverb_fields_check CHECK (
+    type = 'proverb' OR (
+        literal_translation IS NULL
+        AND figurative_meaning IS NULL
+        AND usage_context IS NULL
+        AND related_proverb_ids IS NULL
+    )
+);
+
+-- The proverb list and proverb of the day load every approved proverb
+CREATE INDEX IF NOT EXISTS idx_assets_approved_proverbs ON assets(id)
+    WHERE type = 'proverb' AND status = 'approved';
+
+-- ============================================
+-- Verify
+-- ============================================
+SELECT 'Proverb fields added:' as info,
+    COUNT(*) FILTER (WHERE type = 'proverb') as proverbs,
+    COUNT(*) FILTER (WHERE figurative_meaning IS NOT NULL) as with_meaning
+FROM assets;
@@ -0,0 +1,295 @@
+-- ============================================
+-- REVIEW CONSENSUS
+-- Each reviewer casts a vote on an asset or audio submission. An item is
+-- only approved (or rejected) once the configured number of reviewers
+-- agree; split votes are escalated to an admin, whose vote is final.
+-- Run this in Supabase SQL Editor
+-- ============================================
+
+-- ============================================
+-- REVIEW SETTINGS (single row)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS review_settings (
+    id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+    min_reviews_required INTEGER NOT NULL DEFAULT 1 CHECK (min_reviews_required BETWEEN 1 AND 5),
+    updated_by UUID REFERENCES profiles(id),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO review_settings (id) VALUES (TRUE) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE review_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Reviewers can view review settings" ON review_settings;
+DROP POLICY IF EXISTS "Admins can update review settings" ON review_settings;
+
+CREATE POLICY "Reviewers can view review settings" ON review_settings
+    FOR SELECT TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role IN ('reviewer', 'admin')
+        )
+    );
+
+CREATE POLICY "Admins can update review settings" ON review_settings
+    FOR UPDATE TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role = 'admin'
+        )
+    );
+
+DROP TRIGGER IF EXISTS update_review_settings_updated_at ON review_settings;
+CREATE TRIGGER update_review_settings_updated_at
+    BEFORE UPDATE ON review_settings
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Votes needed before an item is decided
+DROP FUNCTION IF EXISTS review_quorum();
+
+CREATE OR REPLACE FUNCTION review_quorum()
+RETURNS INTEGER AS $$
+    SELECT COALESCE((SELECT min_reviews_required FROM review_settings WHERE id), 1);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- REVIEWS TABLE
+-- One vote per reviewer per item; voting again replaces the vote
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS reviews (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    item_type TEXT NOT NULL CHECK (item_type IN ('asset', 'audio')),
+    item_id UUID NOT NULL,
+    reviewer_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    vote TEXT NOT NULL CHECK (vote IN ('approve', 'reject')),
+    -- Rubric scores, 1-5 each, e.g. {"accuracy": 5, "clarity": 4}
+    rubric JSONB NOT NULL DEFAULT '{}',
+    notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (item_type, item_id, reviewer_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reviews_item ON reviews(item_type, item_id);
+CREATE INDEX IF NOT EXISTS idx_reviews_reviewer ON reviews(reviewer_id);
+
+ALTER TABLE reviews ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Reviewers can view reviews" ON reviews;
+
+-- Votes are cast through submit_review(); there is no direct insert policy
+CREATE POLICY "Reviewers can view reviews" ON reviews
+    FOR SELECT TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role IN ('reviewer', 'admin')
+        )
+    );
+
+DROP TRIGGER IF EXISTS update_reviews_updated_at ON reviews;
+CREATE TRIGGER update_reviews_updated_at
+    BEFORE UPDATE ON reviews
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Items with split votes wait for an admin
+ALTER TABLE assets ADD COLUMN IF NOT EXISTS needs_admin_review BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE audio_submissions ADD COLUMN IF NOT EXISTS needs_admin_review BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- ============================================
+-- TRIGGER: Decisions only come from consensus
+-- Reviewers can no longer approve or reject by updating the row directly
+-- (admins still can). Resubmitting an item clears its old votes.
+-- The guard runs as the caller, not SECURITY DEFINER, so current_user
+-- tells a client update apart from submit_review(), which runs as the owner.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION guard_review_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+        RETURN NEW;
+    END IF;
+
+    IF current_user IN ('authenticated', 'anon')
+       AND NEW.status IN ('approved', 'rejected')
+       AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RAISE EXCEPTION 'Submit a review vote instead of changing the status directly';
+    END IF;
+
+    IF NEW.status = 'pending' THEN
+        NEW.needs_admin_review := FALSE;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Reviews have no delete policy, so old votes are cleared by the owner
+CREATE OR REPLACE FUNCTION clear_review_votes()
+RETURNS TRIGGER AS $$
+BEGIN
+    DELETE FROM reviews
+    WHERE item_type = CASE WHEN TG_TABLE_NAME = 'assets' THEN 'asset' ELSE 'audio' END
+    AND item_id = NEW.id;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_asset_review_status ON assets;
+CREATE TRIGGER guard_asset_review_status
+    BEFORE UPDATE OF status ON assets
+    FOR EACH ROW EXECUTE FUNCTION guard_review_status();
+
+DROP TRIGGER IF EXISTS guard_audio_review_status ON audio_submissions;
+CREATE TRIGGER guard_audio_review_status
+    BEFORE UPDATE OF status ON audio_submissions
+    FOR EACH ROW EXECUTE FUNCTION guard_review_status();
+
+DROP TRIGGER IF EXISTS clear_asset_review_votes ON assets;
+CREATE TRIGGER clear_asset_review_votes
+    AFTER UPDATE OF status ON assets
+    FOR EACH ROW
+    WHEN (NEW.status = 'pending' AND OLD.status IS DISTINCT FROM 'pending')
+    EXECUTE FUNCTION clear_review_votes();
+
+DROP TRIGGER IF EXISTS clear_audio_review_votes ON audio_submissions;
+CREATE TRIGGER clear_audio_review_votes
+    AFTER UPDATE OF status ON audio_submissions
+    FOR EACH ROW
+    WHEN (NEW.status = 'pending' AND OLD.status IS DISTINCT FROM 'pending')
+    EXECUTE FUNCTION clear_review_votes();
+
+-- ============================================
+-- RPC: Cast a review vote and apply the outcome
+-- ============================================
+
+DROP FUNCTION IF EXISTS submit_review(TEXT, UUID, TEXT, JSONB, TEXT);
+
+CREATE OR REPLACE FUNCTION submit_review(
+    p_item_type TEXT,
+    p_item_id UUID,
+    p_vote TEXT,
+    p_rubric JSONB DEFAULT '{}',
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_user UUID := auth.uid();
+    v_role user_role;
+    v_owner UUID;
+    v_status asset_status;
+    v_quorum INTEGER := review_quorum();
+    v_approvals INTEGER;
+    v_rejections INTEGER;
+    v_new_status asset_status;
+    v_escalated BOOLEAN := FALSE;
+    v_reasons TEXT;
+BEGIN
+    SELECT role INTO v_role FROM profiles WHERE id = v_user;
+    IF v_role IS NULL OR v_role NOT IN ('reviewer', 'admin') THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Only reviewers can vote');
+    END IF;
+
+    IF p_item_type NOT IN ('asset', 'audio') OR p_vote NOT IN ('approve', 'reject') THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Invalid review');
+    END IF;
+
+    IF p_vote = 'reject' AND NULLIF(TRIM(p_notes), '') IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'A reason is required to reject');
+    END IF;
+
+    IF p_item_type = 'asset' THEN
+        SELECT created_by, status INTO v_owner, v_status FROM assets WHERE id = p_item_id;
+    ELSE
+        SELECT submitted_by, status INTO v_owner, v_status FROM audio_submissions WHERE id = p_item_id;
+    END IF;
+
+    IF v_status IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Item not found');
+    END IF;
+    IF v_status <> 'pending' THEN
+        RETURN jsonb_build_object('success', false, 'error', 'This item has already been decided');
+    END IF;
+    IF v_owner = v_user AND v_role <> 'admin' THEN
+        RETURN jsonb_build_object('success', false, 'error', 'You cannot review your own submission');
+    END IF;
+
+    INSERT INTO reviews (item_type, item_id, reviewer_id, vote, rubric, notes)
+    VALUES (p_item_type, p_item_id, v_user, p_vote, COALESCE(p_rubric, '{}'), NULLIF(TRIM(p_notes), ''))
+    ON CONFLICT (item_type, item_id, reviewer_id) DO UPDATE SET
+        vote = EXCLUDED.vote,
+        rubric = EXCLUDED.rubric,
+        notes = EXCLUDED.notes;
+
+    SELECT
+        COUNT(*) FILTER (WHERE vote = 'approve'),
+        COUNT(*) FILTER (WHERE vote = 'reject')
+    INTO v_approvals, v_rejections
+    FROM reviews
+    WHERE item_type = p_item_type AND item_id = p_item_id;
+
+    -- Admins settle the item outright; otherwise the quorum must agree
+    IF v_role = 'admin' THEN
+        v_new_status := CASE WHEN p_vote = 'approve' THEN 'approved' ELSE 'rejected' END;
+    ELSIF v_approvals > 0 AND v_rejections > 0 THEN
+        v_escalated := TRUE;
+    ELSIF v_approvals >= v_quorum THEN
+        v_new_status := 'approved';
+    ELSIF v_rejections >= v_quorum THEN
+        v_new_status := 'rejected';
+    END IF;
+
+    IF v_new_status = 'rejected' THEN
+        SELECT string_agg(notes, E'\n' ORDER BY created_at) INTO v_reasons
+        FROM reviews
+        WHERE item_type = p_item_type AND item_id = p_item_id AND vote = 'reject' AND notes IS NOT NULL;
+    END IF;
+
+    IF p_item_type = 'asset' THEN
+        UPDATE assets SET
+            status = COALESCE(v_new_status, status),
+            needs_admin_review = v_escalated,
+            reviewed_by = CASE WHEN v_new_status IS NOT NULL THEN v_user ELSE reviewed_by END,
+            reviewed_at = CASE WHEN v_new_status IS NOT NULL THEN NOW() ELSE reviewed_at END,
+            review_notes = CASE WHEN v_new_status = 'approved' THEN NULLIF(TRIM(p_notes), '') ELSE review_notes END,
+            rejection_reason = CASE WHEN v_new_status = 'rejected' THEN v_reasons ELSE rejection_reason END
+        WHERE id = p_item_id;
+    ELSE
+        UPDATE audio_submissions SET
+            status = COALESCE(v_new_status, status),
+            needs_admin_review = v_escalated,
+            reviewed_by = CASE WHEN v_new_status IS NOT NULL THEN v_user ELSE reviewed_by END,
+            reviewed_at = CASE WHEN v_new_status IS NOT NULL THEN NOW() ELSE reviewed_at END,
+            review_notes = CASE WHEN v_new_status = 'approved' THEN NULLIF(TRIM(p_notes), '') ELSE review_notes END,
+            rejection_reason = CASE WHEN v_new_status = 'rejected' THEN v_reasons ELSE rejection_reason END
+        WHERE id = p_item_id;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'status', COALESCE(v_new_status, 'pending'),
+        'approvals', v_approvals,
+        'rejections', v_rejections,
+        'quorum', v_quorum,
+        'escalated', v_escalated
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION submit_review(TEXT, UUID, TEXT, JSONB, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION review_quorum() TO authenticated;
+
+-- ============================================
+-- Verify
+-- ============================================
+SELECT 'Review consensus set up:' as info, review_quorum() as quorum;
+SELECT item_type, vote, COUNT(*) FROM reviews GROUP BY item_type, vote;
@@ -0,0 +1,160 @@
+-- ============================================
+-- SPEAKER PROFILES - Who is speaking in each recording
+-- Contributors keep profiles for themselves and for anyone they record
+-- (an elder in their family, say), with the speaker's consent. Audio
+-- submissions point at a profile, admins pick the primary clip per asset
+-- and learners can switch between voices.
+-- Run this in Supabase SQL Editor
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS speaker_profiles (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_by UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    display_name TEXT NOT NULL CHECK (char_length(btrim(display_name)) BETWEEN 1 AND 80),
+    -- The contributor's own voice rather than someone they recorded
+    is_self BOOLEAN NOT NULL DEFAULT FALSE,
+    age_group TEXT CHECK (age_group IN ('child', 'teen', 'adult', 'elder')),
+    gender TEXT CHECK (gender IN ('female', 'male', 'other')),
+    -- Village or sub-dialect within Ohafia, e.g. Asaga, Amaekpu, Ebem
+    village TEXT,
+    -- Consent record: when, how and to which wording the speaker agreed
+    consent_given_at TIMESTAMPTZ NOT NULL,
+    consent_method TEXT NOT NULL CHECK (consent_method IN ('self', 'verbal', 'written')),
+    consent_version TEXT NOT NULL,
+    consent_notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_speaker_profiles_created_by ON speaker_profiles(created_by);
+
+-- Link recordings to their speaker
+ALTER TABLE audio_submissions
+ADD COLUMN IF NOT EXISTS speaker_id UUID REFERENCES speaker_profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_audio_speaker ON audio_submissions(speaker_id);
+
+-- ============================================
+-- TRIGGER: Recordings can only be credited to the submitter's own speakers
+-- Speaker ids are public through public_speakers, so without this anyone
+-- could attribute a clip to someone else's speaker. Admins may credit any.
+-- ============================================
+CREATE OR REPLACE FUNCTION check_audio_speaker()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.speaker_id IS NULL
+        OR (TG_OP = 'UPDATE' AND NEW.speaker_id IS NOT DISTINCT FROM OLD.speaker_id) THEN
+        RETURN NEW;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM speaker_profiles
+        WHERE id = NEW.speaker_id AND created_by = NEW.submitted_by
+    ) AND NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE id IN (NEW.submitted_by, auth.uid()) AND role = 'admin'
+    ) THEN
+        RAISE EXCEPTION 'Recordings can only be credited to your own speakers';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_audio_speaker ON audio_submissions;
+CREATE TRIGGER check_audio_speaker
+    BEFORE INSERT OR UPDATE OF speaker_id ON audio_submissions
+    FOR EACH ROW EXECUTE FUNCTION check_audio_speaker();
+
+-- At most one primary clip per asset
+UPDATE audio_submissions SET is_primary = FALSE
+WHERE is_primary AND id NOT IN (
+    SELECT DISTINCT ON (asset_id) id FROM audio_submissions
+    WHERE is_primary
+    ORDER BY asset_id, created_at
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_audio_one_primary
+ON audio_submissions(asset_id) WHERE is_primary;
+
+-- Enable RLS
+ALTER TABLE speaker_profiles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Contributors can manage own speakers" ON speaker_profiles;
+DROP POLICY IF EXISTS "Speakers of approved audio are viewable" ON speaker_profiles;
+DROP POLICY IF EXISTS "Admins can view all speakers" ON speaker_profiles;
+
+CREATE POLICY "Contributors can manage own speakers" ON speaker_profiles
+    FOR ALL USING (created_by = auth.uid())
+    WITH CHECK (created_by = auth.uid());
+
+-- Consent records stay with the contributor and admins; learners read
+-- speakers through public_speakers below
+CREATE POLICY "Admins can view all speakers" ON speaker_profiles
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+
+-- ============================================
+-- Who is speaking in the clips learners can play: display fields only,
+-- for speakers with at least one approved recording. The view runs as its
+-- owner, so it can read past the table's policies.
+-- ============================================
+CREATE OR REPLACE VIEW public_speakers AS
+SELECT id, display_name, age_group, gender, village
+FROM speaker_profiles
+WHERE EXISTS (
+    SELECT 1 FROM audio_submissions
+    WHERE audio_submissions.speaker_id = speaker_profiles.id
+    AND audio_submissions.status = 'approved'
+);
+
+GRANT SELECT ON public_speakers TO anon, authenticated;
+
+DROP TRIGGER IF EXISTS update_speaker_profiles_updated_at ON speaker_profiles;
+CREATE TRIGGER update_speaker_profiles_updated_at
+    BEFORE UPDATE ON speaker_profiles
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================
+-- Choose the primary clip for an asset (admins only)
+-- ============================================
+DROP FUNCTION IF EXISTS set_primary_audio(UUID);
+
+CREATE OR REPLACE FUNCTION set_primary_audio(p_submission_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    v_submission audio_submissions%ROWTYPE;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Only admins can choose the primary clip');
+    END IF;
+
+    SELECT * INTO v_submission FROM audio_submissions WHERE id = p_submission_id;
+    IF v_submission.id IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Recording not found');
+    END IF;
+    IF v_submission.status <> 'approved' THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Only approved recordings can be primary');
+    END IF;
+
+    -- Clear the old primary first so the unique index never sees two
+    UPDATE audio_submissions SET is_primary = FALSE
+    WHERE asset_id = v_submission.asset_id AND is_primary AND id <> p_submission_id;
+
+    UPDATE audio_submissions SET is_primary = TRUE
+    WHERE id = p_submission_id;
+
+    RETURN jsonb_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION set_primary_audio(UUID) TO authenticated;
+
+-- Verify setup
+SELECT 'Speaker profiles set up:' as info;
+SELECT table_name, column_name, data_type FROM information_schema.columns
+WHERE (table_name = 'speaker_profiles')
+   OR (table_name = 'audio_submissions' AND column_name = 'speaker_id')
+ORDER BY table_name, ordinal_position;
@@ -0,0 +1,333 @@
+-- ============================================
+-- SERVER-SIDE STREAK TRACKING
+-- Streaks are computed from practice days in the learner's own timezone
+-- (profiles.preferences->>'timezone'), so they survive device changes and
+-- late offline syncs. Streak freezes bought with XP bridge missed days.
+-- Run this in Supabase SQL Editor after progress-aggregation.sql
+-- ============================================
+
+-- Freezes currently held by the learner
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS streak_freezes INTEGER NOT NULL DEFAULT 0;
+
+-- ============================================
+-- STREAK DAYS TABLE - One row per local calendar day kept alive,
+-- either by practising ('active') or by spending a freeze ('freeze')
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS streak_days (
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    day DATE NOT NULL,
+    kind TEXT NOT NULL DEFAULT 'active' CHECK (kind IN ('active', 'freeze')),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (user_id, day)
+);
+
+-- Enable RLS
+ALTER TABLE streak_days ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own streak days" ON streak_days;
+
+-- Read-only for learners; rows are written by the functions below
+CREATE POLICY "Users can view own streak days" ON streak_days
+    FOR SELECT USING (user_id = auth.uid());
+
+-- ============================================
+-- TRIGGER: Keep progress columns server-authoritative
+-- Direct client updates run as the authenticated role; the SECURITY DEFINER
+-- functions below run as the owner and may change these columns
+-- ============================================
+
+CREATE OR REPLACE FUNCTION protect_profile_progress()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_user IN ('authenticated', 'anon') THEN
+        NEW.streak_count := OLD.streak_count;
+        NEW.longest_streak := OLD.longest_streak;
+        NEW.streak_freezes := OLD.streak_freezes;
+        NEW.total_xp := OLD.total_xp;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_profile_progress ON profiles;
+CREATE TRIGGER protect_profile_progress
+    BEFORE UPDATE ON profiles
+    FOR EACH ROW EXECUTE FUNCTION protect_profile_progress();
+
+-- ============================================
+-- FUNCTION: The learner's timezone, falling back to UTC
+-- ============================================
+
+DROP FUNCTION IF EXISTS user_timezone(UUID);
+
+CREATE OR REPLACE FUNCTION user_timezone(p_user_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+    v_timezone TEXT;
+BEGIN
+    SELECT preferences->>'timezone' INTO v_timezone FROM profiles WHERE id = p_user_id;
+
+    IF v_timezone IS NULL OR NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = v_timezone) THEN
+        RETURN 'UTC';
+    END IF;
+
+    RETURN v_timezone;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- FUNCTION: Mark a local day as practised
+-- If the learner skipped days since their previous practice day and holds
+-- enough freezes to cover every missed day, the gap is bridged with them.
+-- Practice synced late for a day a freeze already covered refunds it.
+-- ============================================
+
+DROP FUNCTION IF EXISTS record_streak_day(UUID, DATE);
+
+CREATE OR REPLACE FUNCTION record_streak_day(p_user_id UUID, p_day DATE)
+RETURNS VOID AS $$
+DECLARE
+    v_previous DATE;
+    v_gap INTEGER;
+    v_freezes INTEGER;
+    v_max_freezes INTEGER := 2;
+BEGIN
+    IF EXISTS (SELECT 1 FROM streak_days WHERE user_id = p_user_id AND day = p_day) THEN
+        -- A late-synced attempt can turn a frozen day into a real one; the
+        -- freeze spent on it goes back to the learner
+        UPDATE streak_days SET kind = 'active'
+        WHERE user_id = p_user_id AND day = p_day AND kind = 'freeze';
+
+        IF FOUND THEN
+            UPDATE profiles SET streak_freezes = LEAST(streak_freezes + 1, v_max_freezes)
+            WHERE id = p_user_id;
+        END IF;
+        RETURN;
+    END IF;
+
+    SELECT MAX(day) INTO v_previous FROM streak_days WHERE user_id = p_user_id AND day < p_day;
+
+    INSERT INTO streak_days (user_id, day, kind) VALUES (p_user_id, p_day, 'active');
+
+    v_gap := p_day - v_previous - 1;
+    IF v_previous IS NULL OR v_gap <= 0 THEN
+        RETURN;
+    END IF;
+
+    SELECT streak_freezes INTO v_freezes FROM profiles WHERE id = p_user_id FOR UPDATE;
+
+    IF v_gap <= v_freezes THEN
+        INSERT INTO streak_days (user_id, day, kind)
+        SELECT p_user_id, d::DATE, 'freeze'
+        FROM generate_series(v_previous + 1, p_day - 1, INTERVAL '1 day') d
+        ON CONFLICT (user_id, day) DO NOTHING;
+
+        UPDATE profiles SET streak_freezes = streak_freezes - v_gap WHERE id = p_user_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- FUNCTION: Recompute streak_count and longest_streak
+-- The current streak is the run of consecutive days ending at the latest
+-- practice day, counting practised days only. It stays alive while the
+-- days missed since then could still be covered by held freezes.
+-- ============================================
+
+DROP FUNCTION IF EXISTS refresh_streak(UUID);
+
+CREATE OR REPLACE FUNCTION refresh_streak(p_user_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    v_timezone TEXT := user_timezone(p_user_id);
+    v_today DATE := (NOW() AT TIME ZONE user_timezone(p_user_id))::DATE;
+    v_last DATE;
+    v_expected DATE;
+    v_freezes INTEGER;
+    v_streak INTEGER := 0;
+    v_longest INTEGER;
+    rec RECORD;
+BEGIN
+    SELECT COALESCE(streak_freezes, 0) INTO v_freezes FROM profiles WHERE id = p_user_id;
+    SELECT MAX(day) INTO v_last FROM streak_days WHERE user_id = p_user_id AND day <= v_today;
+
+    IF v_last IS NOT NULL AND v_today - v_last - 1 <= v_freezes THEN
+        v_expected := v_last;
+        FOR rec IN
+            SELECT day, kind FROM streak_days
+            WHERE user_id = p_user_id AND day <= v_last
+            ORDER BY day DESC
+        LOOP
+            EXIT WHEN rec.day <> v_expected;
+            IF rec.kind = 'active' THEN
+                v_streak := v_streak + 1;
+            END IF;
+            v_expected := v_expected - 1;
+        END LOOP;
+    END IF;
+
+    UPDATE profiles
+    SET streak_count = v_streak,
+        longest_streak = GREATEST(COALESCE(longest_streak, 0), v_streak)
+    WHERE id = p_user_id
+    RETURNING longest_streak INTO v_longest;
+
+    RETURN jsonb_build_object(
+        'streak_count', v_streak,
+        'longest_streak', COALESCE(v_longest, v_streak),
+        'streak_freezes', v_freezes,
+        'today', v_today,
+        'timezone', v_timezone,
+        'practiced_today', COALESCE(v_last = v_today, FALSE),
+        -- Days missed so far that a freeze will cover once the learner practises
+        'days_to_freeze', CASE WHEN v_streak > 0 THEN GREATEST(v_today - v_last - 1, 0) ELSE 0 END
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- TRIGGER: Record practice days from each batch of inserted attempts
+-- Uses each attempt's own created_at, so offline practice synced later
+-- still lands on the day it happened
+-- ============================================
+
+CREATE OR REPLACE FUNCTION handle_attempts_streak()
+RETURNS TRIGGER AS $$
+DECLARE
+    rec RECORD;
+BEGIN
+    FOR rec IN
+        SELECT DISTINCT n.user_id, (n.created_at AT TIME ZONE user_timezone(n.user_id))::DATE AS day
+        FROM new_attempts n
+        ORDER BY n.user_id, day
+    LOOP
+        PERFORM record_streak_day(rec.user_id, rec.day);
+    END LOOP;
+
+    FOR rec IN
+        SELECT user_id, MAX(created_at) AS last_attempt_at
+        FROM new_attempts
+        GROUP BY user_id
+    LOOP
+        UPDATE profiles
+        SET last_active_at = GREATEST(COALESCE(last_active_at, rec.last_attempt_at), rec.last_attempt_at)
+        WHERE id = rec.user_id;
+
+        PERFORM refresh_streak(rec.user_id);
+    END LOOP;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_attempts_streak ON attempts;
+
+CREATE TRIGGER on_attempts_streak
+    AFTER INSERT ON attempts
+    REFERENCING NEW TABLE AS new_attempts
+    FOR EACH STATEMENT EXECUTE FUNCTION handle_attempts_streak();
+
+-- ============================================
+-- RPC: Current streak for the caller
+-- Also stores the device's timezone when it's a valid zone name
+-- ============================================
+
+DROP FUNCTION IF EXISTS get_streak_status(TEXT);
+
+CREATE OR REPLACE FUNCTION get_streak_status(p_timezone TEXT DEFAULT NULL)
+RETURNS JSONB AS $$
+DECLARE
+    v_user UUID := auth.uid();
+BEGIN
+    IF v_user IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Not authenticated');
+    END IF;
+
+    IF p_timezone IS NOT NULL AND EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone) THEN
+        UPDATE profiles
+        SET preferences = COALESCE(preferences, '{}'::JSONB) || jsonb_build_object('timezone', p_timezone)
+        WHERE id = v_user
+          AND preferences->>'timezone' IS DISTINCT FROM p_timezone;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'freeze_cost', 50,
+        'max_freezes', 2
+    ) || refresh_streak(v_user);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- RPC: Buy a streak freeze with XP
+-- ============================================
+
+DROP FUNCTION IF EXISTS purchase_streak_freeze();
+
+CREATE OR REPLACE FUNCTION purchase_streak_freeze()
+RETURNS JSONB AS $$
+DECLARE
+    v_user UUID := auth.uid();
+    v_cost INTEGER := 50;
+    v_max INTEGER := 2;
+    v_profile profiles;
+BEGIN
+    IF v_user IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Not authenticated');
+    END IF;
+
+    SELECT * INTO v_profile FROM profiles WHERE id = v_user FOR UPDATE;
+
+    IF v_profile.streak_freezes >= v_max THEN
+        RETURN jsonb_build_object('success', false, 'error', 'You already hold the maximum number of freezes');
+    END IF;
+
+    IF COALESCE(v_profile.total_xp, 0) < v_cost THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Not enough XP');
+    END IF;
+
+    UPDATE profiles
+    SET total_xp = total_xp - v_cost,
+        streak_freezes = streak_freezes + 1
+    WHERE id = v_user
+    RETURNING * INTO v_profile;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'streak_freezes', v_profile.streak_freezes,
+        'total_xp', v_profile.total_xp
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION get_streak_status(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION purchase_streak_freeze() TO authenticated;
+
+-- Internal helpers are only reachable through the trigger and RPCs above
+REVOKE EXECUTE ON FUNCTION record_streak_day(UUID, DATE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refresh_streak(UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- Backfill practice days from existing attempts (no freezes are spent)
+-- ============================================
+
+INSERT INTO streak_days (user_id, day, kind)
+SELECT DISTINCT a.user_id, (a.created_at AT TIME ZONE user_timezone(a.user_id))::DATE, 'active'
+FROM attempts a
+ON CONFLICT (user_id, day) DO NOTHING;
+
+DO $$
+DECLARE
+    rec RECORD;
+BEGIN
+    FOR rec IN SELECT id FROM profiles LOOP
+        PERFORM refresh_streak(rec.id);
+    END LOOP;
+END $$;
+
+-- ============================================
+-- Verify
+-- ============================================
+SELECT COUNT(*) AS streak_days_rows FROM streak_days;
@@ -39,6 +39,8 @@ export default defineConfig({
             },
             workbox: {
                 globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2}'],
+                // Relays Background Sync events to open tabs
+                importScripts: ['sync-sw.js'],
                 runtimeCaching: [
                     {
                         urlPattern: /^https:\/\/.*\.supabase\.co\/.*/i,